@@ -40,7 +40,19 @@ CREATE TABLE products (
   category text,
   quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
   unit_price decimal(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  cost_price decimal(10,2) CHECK (cost_price >= 0),          -- what we pay; NULL = unknown
+  average_cost numeric(12,4) CHECK (average_cost >= 0),      -- running weighted-average cost of stock held (chain-wide)
+  selling_price decimal(10,2) CHECK (selling_price >= 0),    -- kept equal to unit_price
+  hsn_code varchar(8) CHECK (hsn_code ~ '^[0-9]{4}([0-9]{2}){0,2}$'),  -- HSN/SAC code for GST invoices
+  gst_rate decimal(5,2) CHECK (gst_rate >= 0 AND gst_rate <= 100),    -- percent; NULL = not set
+  barcode varchar(14) UNIQUE CHECK (barcode ~ '^([0-9]{8}|[0-9]{12,14})$'),  -- EAN/UPC (GTIN); check digit validated by the API
   version integer NOT NULL DEFAULT 1,  -- optimistic concurrency
+  reorder_point integer CHECK (reorder_point >= 0),       -- NULL = category default
+  reorder_quantity integer CHECK (reorder_quantity > 0),  -- suggested order size
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  archived_at timestamptz,                                -- soft delete; NULL = active
+  archived_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
@@ -103,7 +115,7 @@ INSERT INTO products (name, sku, category, quantity, unit_price) VALUES
 -- Import logs support
 
 -- Custom type for tracking status
-CREATE TYPE import_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+CREATE TYPE import_status AS ENUM ('pending', 'processing', 'completed', 'failed', 'rolled_back');
 
 -- Logs table (MVP, no child table)
 CREATE TABLE import_logs (
@@ -114,8 +126,12 @@ CREATE TABLE import_logs (
     total_rows integer NOT NULL DEFAULT 0,
     successful_rows integer NOT NULL DEFAULT 0,
     failed_rows integer NOT NULL DEFAULT 0,
+    -- Rows handled so far by the background job (including skipped ones), for progress
+    processed_rows integer NOT NULL DEFAULT 0,
     results jsonb,                              
+    error_message text,
     imported_by uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    completed_at timestamptz,
     created_at timestamptz NOT NULL DEFAULT now(),
     updated_at timestamptz NOT NULL DEFAULT now()
 );
@@ -136,3 +152,2482 @@ CREATE POLICY "Users can view their own imports"
 CREATE POLICY "Users can create their own imports"
     ON import_logs FOR INSERT TO authenticated
     WITH CHECK (imported_by = auth.uid());
+
+-- ============================================================
+-- Locations (stores and warehouses) with per-location stock levels
+-- products.quantity remains the chain-wide total of product_stock.
+
+CREATE TYPE location_type AS ENUM ('store', 'warehouse');
+
+CREATE TABLE locations (
+    id bigserial PRIMARY KEY,
+    name text NOT NULL UNIQUE,
+    code varchar(32) NOT NULL UNIQUE,
+    type location_type NOT NULL DEFAULT 'store',
+    is_default boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only one default location (receives stock when no location is given)
+CREATE UNIQUE INDEX idx_locations_single_default ON locations (is_default) WHERE is_default;
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON locations
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE product_stock (
+    product_id bigint NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    location_id bigint NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+    quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    average_cost numeric(12,4) CHECK (average_cost >= 0),  -- running weighted-average cost of stock held here
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (product_id, location_id)
+);
+
+CREATE INDEX idx_product_stock_location ON product_stock (location_id);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON product_stock
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+CREATE FUNCTION default_location_id()
+RETURNS bigint AS $$
+  SELECT id FROM locations WHERE is_default;
+$$ LANGUAGE sql STABLE;
+
+-- RLS
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_stock ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read locations."
+  ON locations FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can manage locations."
+  ON locations FOR ALL TO authenticated
+  USING (is_owner(auth.uid()));
+
+CREATE POLICY "Authenticated users can read product stock."
+  ON product_stock FOR SELECT TO authenticated
+  USING (true);
+
+-- Seed: a default store holding the existing stock
+INSERT INTO locations (name, code, type, is_default) VALUES ('Main Store', 'MAIN', 'store', true);
+
+INSERT INTO product_stock (product_id, location_id, quantity)
+SELECT id, default_location_id(), quantity FROM products;
+
+-- ============================================================
+-- Stock movement ledger
+-- Every quantity change is recorded as a signed delta at a location;
+-- product_stock and products.quantity are kept in sync by apply_stock_movement().
+
+CREATE TYPE stock_movement_reason AS ENUM ('sale', 'purchase', 'adjustment', 'import', 'transfer', 'damage', 'return');
+
+CREATE TABLE stock_movements (
+    id bigserial PRIMARY KEY,
+    product_id bigint NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    location_id bigint NOT NULL REFERENCES locations(id),
+    delta integer NOT NULL CHECK (delta <> 0),
+    reason stock_movement_reason NOT NULL,
+    quantity_after integer NOT NULL CHECK (quantity_after >= 0),          -- product total
+    location_quantity_after integer NOT NULL CHECK (location_quantity_after >= 0),
+    unit_cost numeric(12,2) CHECK (unit_cost >= 0),                     -- actual cost of inbound stock, when known
+    note text,
+    reference text,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_movements_product ON stock_movements (product_id, created_at DESC);
+CREATE INDEX idx_stock_movements_location ON stock_movements (location_id, created_at DESC);
+
+-- Atomically applies a movement: locks the product row, optionally checks the
+-- optimistic version, adjusts location and total quantity and appends the ledger entry.
+-- Custom SQLSTATEs: P0409 = version conflict, P0422 = insufficient stock,
+-- P0412 = invalid state transition (used by the workflow functions below).
+CREATE FUNCTION apply_stock_movement(
+  p_product_id bigint,
+  p_delta integer,
+  p_reason stock_movement_reason,
+  p_actor uuid DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_expected_version integer DEFAULT NULL,
+  p_bump_version boolean DEFAULT true,
+  p_location_id bigint DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_code text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_product products;
+  v_location_id bigint := COALESCE(p_location_id, default_location_id());
+  v_location_quantity integer;
+  v_movement stock_movements;
+  v_lot record;  -- stock_lots row (table is created in the lots section below)
+  v_remaining integer;
+  v_take integer;
+  v_unit_cost numeric := p_unit_cost;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Inbound stock without an actual cost is booked at the product's current cost price
+  IF p_delta > 0 AND v_unit_cost IS NULL THEN
+    v_unit_cost := v_product.cost_price;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = v_location_id) THEN
+    RAISE EXCEPTION 'location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND v_product.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stale update — product has changed'
+      USING ERRCODE = 'P0409',
+            DETAIL = json_build_object('product_id', p_product_id, 'expected_version', p_expected_version, 'actual_version', v_product.version)::text;
+  END IF;
+
+  SELECT quantity INTO v_location_quantity
+    FROM product_stock
+   WHERE product_id = p_product_id AND location_id = v_location_id
+     FOR UPDATE;
+
+  IF COALESCE(v_location_quantity, 0) + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING ERRCODE = 'P0422',
+            DETAIL = json_build_object('product_id', p_product_id, 'available', COALESCE(v_location_quantity, 0), 'requested', -p_delta, 'location_id', v_location_id)::text;
+  END IF;
+
+  -- Costed receipts re-average the cost of stock held; issues leave the average unchanged.
+  -- Transfers only move stock between stores, so they don't change the chain-wide average.
+  INSERT INTO product_stock (product_id, location_id, quantity, average_cost)
+  VALUES (p_product_id, v_location_id, p_delta, CASE WHEN p_delta > 0 THEN v_unit_cost END)
+  ON CONFLICT (product_id, location_id)
+  DO UPDATE SET quantity = product_stock.quantity + EXCLUDED.quantity,
+                average_cost = CASE
+                  WHEN EXCLUDED.average_cost IS NULL THEN product_stock.average_cost
+                  WHEN product_stock.average_cost IS NULL OR product_stock.quantity = 0 THEN EXCLUDED.average_cost
+                  ELSE (product_stock.average_cost * product_stock.quantity + EXCLUDED.average_cost * EXCLUDED.quantity)
+                       / (product_stock.quantity + EXCLUDED.quantity)
+                END
+  RETURNING quantity INTO v_location_quantity;
+
+  UPDATE products
+     SET quantity = quantity + p_delta,
+         average_cost = CASE
+           WHEN p_delta < 0 OR v_unit_cost IS NULL OR p_reason = 'transfer' THEN average_cost
+           WHEN average_cost IS NULL OR quantity = 0 THEN v_unit_cost
+           ELSE (average_cost * quantity + v_unit_cost * p_delta) / (quantity + p_delta)
+         END,
+         version = version + CASE WHEN p_bump_version THEN 1 ELSE 0 END
+   WHERE id = p_product_id
+  RETURNING * INTO v_product;
+
+  INSERT INTO stock_movements (product_id, location_id, delta, reason, quantity_after, location_quantity_after, unit_cost, note, reference, created_by)
+  VALUES (p_product_id, v_location_id, p_delta, p_reason, v_product.quantity, v_location_quantity, v_unit_cost, p_note, p_reference, p_actor)
+  RETURNING * INTO v_movement;
+
+  -- Inbound stock opens a lot; outbound stock is taken first-expiry-first-out (lots without expiry last)
+  IF p_delta > 0 THEN
+    INSERT INTO stock_lots (product_id, location_id, lot_code, expiry_date, quantity, received_quantity, unit_cost, movement_id)
+    VALUES (p_product_id, v_location_id, p_lot_code, p_expiry_date, p_delta, p_delta, v_unit_cost, v_movement.id)
+    RETURNING * INTO v_lot;
+
+    INSERT INTO stock_lot_movements (movement_id, lot_id, quantity) VALUES (v_movement.id, v_lot.id, p_delta);
+  ELSE
+    v_remaining := -p_delta;
+
+    FOR v_lot IN
+      SELECT * FROM stock_lots
+       WHERE product_id = p_product_id AND location_id = v_location_id AND quantity > 0
+       ORDER BY expiry_date NULLS LAST, received_at, id
+         FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_lot.quantity, v_remaining);
+
+      UPDATE stock_lots SET quantity = quantity - v_take WHERE id = v_lot.id;
+      INSERT INTO stock_lot_movements (movement_id, lot_id, quantity) VALUES (v_movement.id, v_lot.id, -v_take);
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Books the quantity a product was inserted with as its opening balance at a location
+CREATE FUNCTION record_opening_balance(
+  p_product_id bigint,
+  p_reason stock_movement_reason,
+  p_actor uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_location_id bigint := COALESCE(p_location_id, default_location_id());
+  v_quantity integer;
+  v_cost_price numeric;
+  v_movement_id bigint;
+  v_lot_id bigint;
+BEGIN
+  SELECT quantity, cost_price INTO v_quantity, v_cost_price FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity, average_cost)
+  VALUES (p_product_id, v_location_id, v_quantity, v_cost_price)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  IF v_quantity > 0 THEN
+    UPDATE products SET average_cost = v_cost_price WHERE id = p_product_id;
+
+    INSERT INTO stock_movements (product_id, location_id, delta, reason, quantity_after, location_quantity_after, unit_cost, note, reference, created_by)
+    VALUES (p_product_id, v_location_id, v_quantity, p_reason, v_quantity, v_quantity, v_cost_price, 'Opening balance', p_reference, p_actor)
+    RETURNING id INTO v_movement_id;
+
+    INSERT INTO stock_lots (product_id, location_id, quantity, received_quantity, unit_cost, movement_id)
+    VALUES (p_product_id, v_location_id, v_quantity, v_quantity, v_cost_price, v_movement_id)
+    RETURNING id INTO v_lot_id;
+
+    INSERT INTO stock_lot_movements (movement_id, lot_id, quantity) VALUES (v_movement_id, v_lot_id, v_quantity);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Inserts a product from p_product (editable fields only) and books its opening balance in the
+-- same transaction, so a failed opening balance leaves no product behind
+CREATE FUNCTION create_product(
+  p_product jsonb,
+  p_reason stock_movement_reason,
+  p_actor uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_product products := jsonb_populate_record(NULL::products, p_product);
+BEGIN
+  INSERT INTO products (name, sku, category, quantity, unit_price, cost_price, hsn_code, gst_rate, barcode,
+                        reorder_point, reorder_quantity, parent_id, variant_values, created_by, updated_by)
+  VALUES (v_product.name, v_product.sku, v_product.category, COALESCE(v_product.quantity, 0),
+          COALESCE(v_product.unit_price, 0), v_product.cost_price, v_product.hsn_code, v_product.gst_rate,
+          v_product.barcode, v_product.reorder_point, v_product.reorder_quantity, v_product.parent_id,
+          COALESCE(v_product.variant_values, '{}'::jsonb), p_actor, p_actor)
+  RETURNING * INTO v_product;
+
+  PERFORM record_opening_balance(v_product.id, p_reason, p_actor, p_reference, p_location_id);
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Applies a product edit in one transaction: checks the optimistic version under the row lock,
+-- books a quantity change through apply_stock_movement() and updates the editable fields present
+-- in p_changes (absent keys keep their value). p_quantity is the new stock at p_location_id, or
+-- the new product total (booked at the default location) when no location is given; a product
+-- stocked at other locations needs p_location_id to change its quantity.
+CREATE FUNCTION update_product(
+  p_product_id bigint,
+  p_expected_version integer,
+  p_changes jsonb,
+  p_quantity integer DEFAULT NULL,
+  p_reason stock_movement_reason DEFAULT 'adjustment',
+  p_actor uuid DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_product products;
+  v_current integer;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_product.version IS DISTINCT FROM p_expected_version THEN
+    RAISE EXCEPTION 'Stale update — product has changed'
+      USING ERRCODE = 'P0409',
+            DETAIL = json_build_object('product_id', p_product_id, 'expected_version', p_expected_version, 'actual_version', v_product.version)::text;
+  END IF;
+
+  IF p_quantity IS NOT NULL THEN
+    IF p_location_id IS NULL THEN
+      v_current := v_product.quantity;
+    ELSE
+      SELECT quantity INTO v_current FROM product_stock WHERE product_id = p_product_id AND location_id = p_location_id;
+    END IF;
+
+    IF p_quantity <> COALESCE(v_current, 0) THEN
+      -- A total can't be split between stores, and booking it all at the default one could take
+      -- that store below zero while the stock sits elsewhere
+      IF p_location_id IS NULL AND EXISTS (
+        SELECT 1 FROM product_stock
+         WHERE product_id = p_product_id AND location_id <> default_location_id() AND quantity <> 0
+      ) THEN
+        RAISE EXCEPTION 'Product is stocked at more than one location; give the location whose stock changed'
+          USING ERRCODE = 'P0412',
+                DETAIL = json_build_object('product_id', p_product_id, 'field', 'location_id')::text;
+      END IF;
+
+      PERFORM apply_stock_movement(
+        p_product_id => p_product_id,
+        p_delta => p_quantity - COALESCE(v_current, 0),
+        p_reason => p_reason,
+        p_actor => p_actor,
+        p_note => p_note,
+        p_reference => p_reference,
+        p_bump_version => false,
+        p_location_id => p_location_id,
+        p_unit_cost => p_unit_cost
+      );
+
+      SELECT * INTO v_product FROM products WHERE id = p_product_id;
+    END IF;
+  END IF;
+
+  v_product := jsonb_populate_record(v_product, p_changes);
+
+  UPDATE products
+     SET name = v_product.name,
+         sku = v_product.sku,
+         category = v_product.category,
+         unit_price = v_product.unit_price,
+         cost_price = v_product.cost_price,
+         hsn_code = v_product.hsn_code,
+         gst_rate = v_product.gst_rate,
+         barcode = v_product.barcode,
+         reorder_point = v_product.reorder_point,
+         reorder_quantity = v_product.reorder_quantity,
+         parent_id = v_product.parent_id,
+         variant_values = v_product.variant_values,
+         updated_by = p_actor,
+         version = version + 1
+   WHERE id = p_product_id
+  RETURNING * INTO v_product;
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read stock movements."
+  ON stock_movements FOR SELECT TO authenticated
+  USING (true);
+
+-- Opening balances for the seed data
+INSERT INTO stock_movements (product_id, location_id, delta, reason, quantity_after, location_quantity_after, note)
+SELECT id, default_location_id(), quantity, 'adjustment', quantity, quantity, 'Opening balance'
+  FROM products
+ WHERE quantity > 0;
+
+-- ============================================================
+-- Lots & expiry
+-- Every inbound movement opens a lot (expiry optional) and outbound movements drain lots
+-- first-expiry-first-out, so the open lots of a product at a location sum to product_stock.
+
+CREATE TABLE stock_lots (
+    id bigserial PRIMARY KEY,
+    product_id bigint NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    location_id bigint NOT NULL REFERENCES locations(id),
+    lot_code text,
+    expiry_date date,
+    quantity integer NOT NULL CHECK (quantity >= 0),                -- remaining
+    received_quantity integer NOT NULL CHECK (received_quantity > 0),
+    unit_cost numeric(12,2) CHECK (unit_cost >= 0),
+    movement_id bigint REFERENCES stock_movements(id) ON DELETE SET NULL,
+    received_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Which lots each movement added to or drew from (signed like the movement)
+CREATE TABLE stock_lot_movements (
+    movement_id bigint NOT NULL REFERENCES stock_movements(id) ON DELETE CASCADE,
+    lot_id bigint NOT NULL REFERENCES stock_lots(id) ON DELETE CASCADE,
+    quantity integer NOT NULL CHECK (quantity <> 0),
+    PRIMARY KEY (movement_id, lot_id)
+);
+
+CREATE INDEX idx_stock_lots_fefo ON stock_lots (product_id, location_id, expiry_date) WHERE quantity > 0;
+CREATE INDEX idx_stock_lots_expiry ON stock_lots (expiry_date) WHERE quantity > 0 AND expiry_date IS NOT NULL;
+
+-- RLS
+ALTER TABLE stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_lot_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read stock lots."
+  ON stock_lots FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read stock lot movements."
+  ON stock_lot_movements FOR SELECT TO authenticated
+  USING (true);
+
+-- Lots for the seed opening balances (no expiry known)
+INSERT INTO stock_lots (product_id, location_id, quantity, received_quantity, movement_id, received_at)
+SELECT product_id, location_id, delta, delta, id, created_at
+  FROM stock_movements;
+
+INSERT INTO stock_lot_movements (movement_id, lot_id, quantity)
+SELECT movement_id, id, quantity
+  FROM stock_lots;
+
+-- ============================================================
+-- Inter-store stock transfers
+-- draft → dispatched → (partially_received →) received; drafts can be cancelled.
+-- Dispatch takes stock out of the source location; it is "in transit" until received.
+
+CREATE TYPE transfer_status AS ENUM ('draft', 'dispatched', 'partially_received', 'received', 'cancelled');
+
+CREATE TABLE stock_transfers (
+    id bigserial PRIMARY KEY,
+    from_location_id bigint NOT NULL REFERENCES locations(id),
+    to_location_id bigint NOT NULL REFERENCES locations(id),
+    status transfer_status NOT NULL DEFAULT 'draft',
+    note text,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    dispatched_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    dispatched_at timestamptz,
+    received_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (from_location_id <> to_location_id)
+);
+
+CREATE TABLE stock_transfer_lines (
+    id bigserial PRIMARY KEY,
+    transfer_id bigint NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    quantity integer NOT NULL CHECK (quantity > 0),
+    quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0 AND quantity_received <= quantity),
+    UNIQUE (transfer_id, product_id)
+);
+
+CREATE INDEX idx_stock_transfers_status ON stock_transfers (status);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON stock_transfers
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+-- Quantity dispatched but not yet received, per product and destination
+CREATE VIEW stock_in_transit AS
+SELECT l.product_id,
+       t.to_location_id AS location_id,
+       SUM(l.quantity - l.quantity_received)::integer AS quantity
+  FROM stock_transfer_lines l
+  JOIN stock_transfers t ON t.id = l.transfer_id
+ WHERE t.status IN ('dispatched', 'partially_received')
+   AND l.quantity > l.quantity_received
+ GROUP BY l.product_id, t.to_location_id;
+
+-- Dispatches a draft: one 'transfer' movement out of the source per line, all or nothing.
+-- p_versions maps product_id → expected version ({"12": 4}); products without an entry are not version-checked.
+CREATE FUNCTION dispatch_stock_transfer(
+  p_transfer_id bigint,
+  p_actor uuid DEFAULT NULL,
+  p_versions jsonb DEFAULT '{}'::jsonb
+)
+RETURNS stock_transfers AS $$
+DECLARE
+  v_transfer stock_transfers;
+  v_line stock_transfer_lines;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'transfer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft transfers can be dispatched'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_transfer.status)::text;
+  END IF;
+
+  FOR v_line IN SELECT * FROM stock_transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id LOOP
+    PERFORM apply_stock_movement(
+      v_line.product_id,
+      -v_line.quantity,
+      'transfer',
+      p_actor,
+      'Transfer dispatched',
+      'transfer:' || p_transfer_id,
+      (p_versions ->> v_line.product_id::text)::integer,
+      true,
+      v_transfer.from_location_id
+    );
+  END LOOP;
+
+  UPDATE stock_transfers
+     SET status = 'dispatched', dispatched_by = p_actor, dispatched_at = now()
+   WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Receives a dispatched transfer into the destination, fully or partially.
+-- p_lines is [{"product_id": 12, "quantity": 3}, ...]; NULL receives everything outstanding.
+CREATE FUNCTION receive_stock_transfer(
+  p_transfer_id bigint,
+  p_actor uuid DEFAULT NULL,
+  p_lines jsonb DEFAULT NULL,
+  p_versions jsonb DEFAULT '{}'::jsonb
+)
+RETURNS stock_transfers AS $$
+DECLARE
+  v_transfer stock_transfers;
+  v_line stock_transfer_lines;
+  v_quantity integer;
+  v_expiry date;
+  v_unit_cost numeric;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'transfer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transfer.status NOT IN ('dispatched', 'partially_received') THEN
+    RAISE EXCEPTION 'Only dispatched transfers can be received'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_transfer.status)::text;
+  END IF;
+
+  FOR v_line IN SELECT * FROM stock_transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id FOR UPDATE LOOP
+    IF p_lines IS NULL THEN
+      v_quantity := v_line.quantity - v_line.quantity_received;
+    ELSE
+      SELECT COALESCE(SUM((entry ->> 'quantity')::integer), 0) INTO v_quantity
+        FROM jsonb_array_elements(p_lines) AS entry
+       WHERE (entry ->> 'product_id')::bigint = v_line.product_id;
+    END IF;
+
+    CONTINUE WHEN v_quantity = 0;
+
+    IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity THEN
+      RAISE EXCEPTION 'Received quantity exceeds the quantity in transit'
+        USING ERRCODE = 'P0412',
+              DETAIL = json_build_object('product_id', v_line.product_id,
+                                         'outstanding', v_line.quantity - v_line.quantity_received,
+                                         'requested', v_quantity)::text;
+    END IF;
+
+    -- Lots don't travel individually; the received stock keeps the earliest expiry that was dispatched
+    -- and the average cost of the dispatched lots that have one
+    SELECT MIN(lot.expiry_date),
+           SUM(lm.quantity * lot.unit_cost) / NULLIF(SUM(lm.quantity) FILTER (WHERE lot.unit_cost IS NOT NULL), 0)
+      INTO v_expiry, v_unit_cost
+      FROM stock_movements m
+      JOIN stock_lot_movements lm ON lm.movement_id = m.id
+      JOIN stock_lots lot ON lot.id = lm.lot_id
+     WHERE m.reference = 'transfer:' || p_transfer_id
+       AND m.product_id = v_line.product_id
+       AND m.delta < 0;
+
+    PERFORM apply_stock_movement(
+      v_line.product_id,
+      v_quantity,
+      'transfer',
+      p_actor,
+      'Transfer received',
+      'transfer:' || p_transfer_id,
+      (p_versions ->> v_line.product_id::text)::integer,
+      true,
+      v_transfer.to_location_id,
+      v_unit_cost,
+      NULL,
+      v_expiry
+    );
+
+    UPDATE stock_transfer_lines SET quantity_received = quantity_received + v_quantity WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE stock_transfers
+     SET status = CASE
+                    WHEN EXISTS (SELECT 1 FROM stock_transfer_lines
+                                  WHERE transfer_id = p_transfer_id AND quantity_received < quantity)
+                    THEN 'partially_received'::transfer_status
+                    ELSE 'received'::transfer_status
+                  END,
+         received_at = now()
+   WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfer_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read transfers."
+  ON stock_transfers FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read transfer lines."
+  ON stock_transfer_lines FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Suppliers & purchase orders
+-- draft → ordered → (partially_received →) received; drafts and untouched orders can be cancelled.
+-- Receiving goods books a 'purchase' movement at the order's location with the actual unit cost.
+
+CREATE TABLE suppliers (
+    id bigserial PRIMARY KEY,
+    name text NOT NULL UNIQUE,
+    contact_name text,
+    phone text,
+    email text,
+    address text,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+CREATE TYPE purchase_order_status AS ENUM ('draft', 'ordered', 'partially_received', 'received', 'cancelled');
+
+CREATE TABLE purchase_orders (
+    id bigserial PRIMARY KEY,
+    supplier_id bigint NOT NULL REFERENCES suppliers(id),
+    location_id bigint NOT NULL DEFAULT default_location_id() REFERENCES locations(id),
+    status purchase_order_status NOT NULL DEFAULT 'draft',
+    supplier_reference text,
+    expected_date date,
+    note text,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    ordered_at timestamptz,
+    received_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE purchase_order_lines (
+    id bigserial PRIMARY KEY,
+    purchase_order_id bigint NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    sku varchar(64) NOT NULL REFERENCES products(sku) ON UPDATE CASCADE,
+    quantity integer NOT NULL CHECK (quantity > 0),
+    unit_cost numeric(12,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),          -- agreed cost
+    quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0 AND quantity_received <= quantity),
+    received_unit_cost numeric(12,2) CHECK (received_unit_cost >= 0),           -- average actual cost
+    UNIQUE (purchase_order_id, sku)
+);
+
+CREATE INDEX idx_purchase_orders_status ON purchase_orders (status);
+CREATE INDEX idx_purchase_order_lines_sku ON purchase_order_lines (sku);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+-- Quantity ordered but not yet received, per SKU and receiving location
+CREATE VIEW stock_on_order AS
+SELECT l.sku,
+       o.location_id,
+       SUM(l.quantity - l.quantity_received)::integer AS quantity
+  FROM purchase_order_lines l
+  JOIN purchase_orders o ON o.id = l.purchase_order_id
+ WHERE o.status IN ('ordered', 'partially_received')
+   AND l.quantity > l.quantity_received
+ GROUP BY l.sku, o.location_id;
+
+-- Receives goods against an order, fully or partially.
+-- p_lines is [{"sku": "MILK-1L", "quantity": 10, "unit_cost": 18.5, "lot_code": "B12", "expiry_date": "2025-01-31"}, ...];
+-- unit_cost defaults to the agreed cost and NULL p_lines receives everything outstanding (without lot details).
+-- p_versions works as for transfers.
+CREATE FUNCTION receive_purchase_order(
+  p_purchase_order_id bigint,
+  p_actor uuid DEFAULT NULL,
+  p_lines jsonb DEFAULT NULL,
+  p_versions jsonb DEFAULT '{}'::jsonb
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+  v_line purchase_order_lines;
+  v_product_id bigint;
+  v_quantity integer;
+  v_unit_cost numeric;
+  v_lot_code text;
+  v_expiry date;
+BEGIN
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'purchase order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+    RAISE EXCEPTION 'Only ordered purchase orders can be received'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_order.status)::text;
+  END IF;
+
+  IF p_lines IS NOT NULL AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) AS entry
+     WHERE NOT EXISTS (SELECT 1 FROM purchase_order_lines
+                        WHERE purchase_order_id = p_purchase_order_id AND sku = entry ->> 'sku')
+  ) THEN
+    RAISE EXCEPTION 'Received SKU is not on this purchase order' USING ERRCODE = 'P0412';
+  END IF;
+
+  FOR v_line IN SELECT * FROM purchase_order_lines WHERE purchase_order_id = p_purchase_order_id ORDER BY sku FOR UPDATE LOOP
+    IF p_lines IS NULL THEN
+      v_quantity := v_line.quantity - v_line.quantity_received;
+      v_unit_cost := v_line.unit_cost;
+      v_lot_code := NULL;
+      v_expiry := NULL;
+    ELSE
+      SELECT COALESCE(SUM((entry ->> 'quantity')::integer), 0),
+             COALESCE(MAX((entry ->> 'unit_cost')::numeric), v_line.unit_cost),
+             MAX(entry ->> 'lot_code'),
+             MIN((entry ->> 'expiry_date')::date)
+        INTO v_quantity, v_unit_cost, v_lot_code, v_expiry
+        FROM jsonb_array_elements(p_lines) AS entry
+       WHERE entry ->> 'sku' = v_line.sku;
+    END IF;
+
+    CONTINUE WHEN v_quantity = 0;
+
+    IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity THEN
+      RAISE EXCEPTION 'Received quantity exceeds the quantity outstanding'
+        USING ERRCODE = 'P0412',
+              DETAIL = json_build_object('sku', v_line.sku,
+                                         'outstanding', v_line.quantity - v_line.quantity_received,
+                                         'requested', v_quantity)::text;
+    END IF;
+
+    SELECT id INTO v_product_id FROM products WHERE sku = v_line.sku;
+
+    PERFORM apply_stock_movement(
+      v_product_id,
+      v_quantity,
+      'purchase',
+      p_actor,
+      'Goods received',
+      'po:' || p_purchase_order_id,
+      (p_versions ->> v_product_id::text)::integer,
+      true,
+      v_order.location_id,
+      v_unit_cost,
+      v_lot_code,
+      v_expiry
+    );
+
+    UPDATE purchase_order_lines
+       SET received_unit_cost = round(
+             (COALESCE(received_unit_cost, 0) * quantity_received + v_unit_cost * v_quantity)
+             / (quantity_received + v_quantity), 2),
+           quantity_received = quantity_received + v_quantity
+     WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE purchase_orders
+     SET status = CASE
+                    WHEN EXISTS (SELECT 1 FROM purchase_order_lines
+                                  WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity)
+                    THEN 'partially_received'::purchase_order_status
+                    ELSE 'received'::purchase_order_status
+                  END,
+         received_at = now()
+   WHERE id = p_purchase_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read suppliers."
+  ON suppliers FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can manage suppliers."
+  ON suppliers FOR ALL TO authenticated
+  USING (is_owner(auth.uid()));
+
+CREATE POLICY "Authenticated users can read purchase orders."
+  ON purchase_orders FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read purchase order lines."
+  ON purchase_order_lines FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Category settings
+-- Default reorder point for products in a category that don't set their own
+-- (the API falls back to 5 when neither is set).
+
+CREATE TABLE category_settings (
+    category text PRIMARY KEY,
+    reorder_point integer NOT NULL CHECK (reorder_point >= 0),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON category_settings
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+ALTER TABLE category_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read category settings."
+  ON category_settings FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can manage category settings."
+  ON category_settings FOR ALL TO authenticated
+  USING (is_owner(auth.uid()));
+
+-- ============================================================
+-- Reorder suggestions
+-- Per-product outflow since p_since, read from the stock ledger. Transfers only count
+-- when looking at a single location (chain-wide they just move stock around).
+
+CREATE FUNCTION reorder_stats(p_since timestamptz, p_location_id bigint DEFAULT NULL)
+RETURNS TABLE (product_id bigint, outflow integer, first_movement_at timestamptz, last_unit_cost numeric) AS $$
+  SELECT m.product_id,
+         COALESCE(SUM(-m.delta) FILTER (
+           WHERE m.delta < 0
+             AND m.created_at >= p_since
+             AND (p_location_id IS NOT NULL OR m.reason <> 'transfer')
+         ), 0)::integer AS outflow,
+         MIN(m.created_at) AS first_movement_at,
+         (SELECT c.unit_cost
+            FROM stock_movements c
+           WHERE c.product_id = m.product_id AND c.reason = 'purchase' AND c.unit_cost IS NOT NULL
+           ORDER BY c.created_at DESC
+           LIMIT 1) AS last_unit_cost
+    FROM stock_movements m
+   WHERE p_location_id IS NULL OR m.location_id = p_location_id
+   GROUP BY m.product_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- Price change requests
+-- Staff can't edit unit_price directly; they propose a price that an owner approves or rejects.
+
+CREATE TYPE price_request_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE price_requests (
+    id bigserial PRIMARY KEY,
+    product_id bigint NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    current_price decimal(10,2) NOT NULL,                   -- price when the request was made
+    requested_price decimal(10,2) NOT NULL CHECK (requested_price >= 0),
+    base_version integer NOT NULL,                          -- product version the requester saw
+    reason text,
+    source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+    status price_request_status NOT NULL DEFAULT 'pending',
+    requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    review_comment text,
+    reviewed_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open request per product and requester; resubmitting replaces the price
+CREATE UNIQUE INDEX idx_price_requests_pending
+  ON price_requests (product_id, requested_by)
+  WHERE status = 'pending';
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON price_requests
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+-- Approves a pending request and applies the price through update_product(), so it is
+-- version-checked under the row lock like any other edit. p_expected_version is the product
+-- version the owner reviewed. Returns the request and the product before and after the change,
+-- which the API writes to the audit trail.
+CREATE FUNCTION approve_price_request(
+  p_request_id bigint,
+  p_actor uuid,
+  p_expected_version integer,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_request price_requests;
+  v_before products;
+  v_after products;
+BEGIN
+  SELECT * INTO v_request FROM price_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'price request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending price requests can be approved'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_request.status)::text;
+  END IF;
+
+  SELECT * INTO v_before FROM products WHERE id = v_request.product_id FOR UPDATE;
+
+  IF v_before.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Restore the product from the recycle bin before changing its price'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('product_id', v_before.id, 'archived_at', v_before.archived_at)::text;
+  END IF;
+
+  v_after := update_product(
+    p_product_id => v_before.id,
+    p_expected_version => p_expected_version,
+    p_changes => jsonb_build_object('unit_price', v_request.requested_price),
+    p_actor => p_actor
+  );
+
+  UPDATE price_requests
+     SET status = 'approved', reviewed_by = p_actor, review_comment = p_comment, reviewed_at = now()
+   WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN jsonb_build_object('request', to_jsonb(v_request), 'before', to_jsonb(v_before), 'after', to_jsonb(v_after));
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE price_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own price requests."
+  ON price_requests FOR SELECT TO authenticated
+  USING (requested_by = auth.uid() OR is_owner(auth.uid()));
+
+CREATE POLICY "Users can submit price requests."
+  ON price_requests FOR INSERT TO authenticated
+  WITH CHECK (requested_by = auth.uid());
+
+CREATE POLICY "Owners can review price requests."
+  ON price_requests FOR UPDATE TO authenticated
+  USING (is_owner(auth.uid()));
+
+-- ============================================================
+-- Product audit trail
+-- One row per product create/update/delete with a field-level diff:
+-- changes = { "<field>": { "from": <before>, "to": <after> } }.
+-- product_id has no foreign key so history outlives the product.
+
+CREATE TABLE product_audit (
+    id bigserial PRIMARY KEY,
+    product_id bigint NOT NULL,
+    operation text NOT NULL CHECK (operation IN ('create', 'update', 'archive', 'restore', 'delete')),
+    source text NOT NULL DEFAULT 'ui' CHECK (source IN ('ui', 'import', 'offline_sync', 'price_request')),
+    actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_product_audit_product ON product_audit (product_id, created_at DESC);
+
+-- RLS
+ALTER TABLE product_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read product history."
+  ON product_audit FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Price history
+-- unit_price stays the column older clients read and write; selling_price mirrors it.
+-- Every change to cost or selling price appends a row to product_prices, whichever
+-- path made it (product edit, CSV import, approved price request).
+
+CREATE OR REPLACE FUNCTION sync_selling_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.selling_price IS NULL THEN
+      NEW.selling_price := NEW.unit_price;
+    ELSE
+      NEW.unit_price := NEW.selling_price;
+    END IF;
+  ELSIF NEW.unit_price IS DISTINCT FROM OLD.unit_price THEN
+    NEW.selling_price := NEW.unit_price;
+  ELSIF NEW.selling_price IS DISTINCT FROM OLD.selling_price THEN
+    NEW.unit_price := NEW.selling_price;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE products SET selling_price = unit_price WHERE selling_price IS NULL;
+
+CREATE TRIGGER trigger_sync_selling_price
+  BEFORE INSERT OR UPDATE ON products
+  FOR EACH ROW
+  EXECUTE PROCEDURE sync_selling_price();
+
+-- Append-only; rows are only removed when the product itself is purged
+CREATE TABLE product_prices (
+    id bigserial PRIMARY KEY,
+    product_id bigint NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    cost_price decimal(10,2),
+    selling_price decimal(10,2) NOT NULL,
+    changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_product_prices_product ON product_prices (product_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION record_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.selling_price IS DISTINCT FROM OLD.selling_price
+     OR NEW.cost_price IS DISTINCT FROM OLD.cost_price THEN
+    INSERT INTO product_prices (product_id, cost_price, selling_price, changed_by)
+    VALUES (NEW.id, NEW.cost_price, NEW.selling_price, COALESCE(NEW.updated_by, NEW.created_by));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starting point for products that existed before history was kept
+INSERT INTO product_prices (product_id, cost_price, selling_price, changed_by, created_at)
+SELECT id, cost_price, selling_price, created_by, COALESCE(created_at, now())
+FROM products;
+
+CREATE TRIGGER trigger_record_price_change
+  AFTER INSERT OR UPDATE ON products
+  FOR EACH ROW
+  EXECUTE PROCEDURE record_price_change();
+
+-- RLS
+ALTER TABLE product_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read price history."
+  ON product_prices FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- App settings
+-- Shop-wide key/value settings that owners can change at runtime.
+--   valuation_method: 'fifo' or 'wac' (weighted average cost) for stock value KPIs
+
+CREATE TABLE app_settings (
+    key text PRIMARY KEY,
+    value text NOT NULL,
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+INSERT INTO app_settings (key, value) VALUES ('valuation_method', 'fifo');
+
+-- What stock valuation needs per product, chain-wide or at one location: the open lots
+-- (FIFO values what is left of each receipt) and the running average cost (WAC)
+CREATE FUNCTION stock_cost_basis(p_location_id bigint DEFAULT NULL)
+RETURNS TABLE (product_id bigint, costed_quantity integer, costed_value numeric, average_cost numeric) AS $$
+  SELECT p.id,
+         COALESCE(SUM(lot.quantity) FILTER (WHERE lot.unit_cost IS NOT NULL), 0)::integer,
+         COALESCE(SUM(lot.quantity * lot.unit_cost), 0),
+         CASE WHEN p_location_id IS NULL THEN p.average_cost ELSE ps.average_cost END
+    FROM products p
+    LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = p_location_id
+    LEFT JOIN stock_lots lot ON lot.product_id = p.id
+                            AND lot.quantity > 0
+                            AND (p_location_id IS NULL OR lot.location_id = p_location_id)
+   WHERE p.archived_at IS NULL
+   GROUP BY p.id, ps.average_cost;
+$$ LANGUAGE sql STABLE;
+
+-- RLS
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read app settings."
+  ON app_settings FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can manage app settings."
+  ON app_settings FOR ALL TO authenticated
+  USING (is_owner(auth.uid()));
+
+-- ============================================================
+-- Sales (point of sale)
+-- A sale books one 'sale' movement per line at the till's location, all or nothing.
+-- client_reference is generated by the till, so a sale replayed from the offline queue is only recorded once.
+
+CREATE TABLE sales (
+    id bigserial PRIMARY KEY,
+    location_id bigint NOT NULL REFERENCES locations(id),
+    client_reference text UNIQUE,
+    total numeric(12,2) NOT NULL DEFAULT 0 CHECK (total >= 0),
+    note text,
+    sold_at timestamptz NOT NULL DEFAULT now(),                        -- when the till rang it up (offline sales sync later)
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE sale_lines (
+    id bigserial PRIMARY KEY,
+    sale_id bigint NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    quantity integer NOT NULL CHECK (quantity > 0),
+    unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),         -- selling price at the time of sale
+    line_total numeric(12,2) NOT NULL CHECK (line_total >= 0),
+    movement_id bigint REFERENCES stock_movements(id) ON DELETE SET NULL,
+    UNIQUE (sale_id, product_id)
+);
+
+CREATE INDEX idx_sales_sold_at ON sales (sold_at DESC);
+CREATE INDEX idx_sale_lines_product ON sale_lines (product_id);
+
+-- Records a sale and takes its lines out of stock at the given location.
+-- p_lines is [{"product_id": 12, "quantity": 2}, ...]; lines are priced at the product's current selling price.
+-- Every line is checked before anything is written so a rejected sale reports all short lines at once:
+-- P0422 with DETAIL {"lines": [{"line": 0, "product_id": 12, "available": 1, "requested": 2}]}.
+-- Replaying a client_reference returns the sale that was already recorded.
+CREATE FUNCTION record_sale(
+  p_lines jsonb,
+  p_actor uuid DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL,
+  p_client_reference text DEFAULT NULL,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS sales AS $$
+DECLARE
+  v_location_id bigint := COALESCE(p_location_id, default_location_id());
+  v_sale sales;
+  v_entry record;
+  v_product products;
+  v_available integer;
+  v_shortages jsonb := '[]'::jsonb;
+  v_movement stock_movements;
+  v_total numeric := 0;
+BEGIN
+  IF p_client_reference IS NOT NULL THEN
+    -- Serialises concurrent replays of the same offline sale
+    PERFORM pg_advisory_xact_lock(hashtext('sale:' || p_client_reference));
+
+    SELECT * INTO v_sale FROM sales WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_sale;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = v_location_id) THEN
+    RAISE EXCEPTION 'location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock every product (in id order) and collect the lines that would take stock below zero
+  FOR v_entry IN
+    SELECT (entry.value ->> 'product_id')::bigint AS product_id,
+           (entry.value ->> 'quantity')::integer AS quantity,
+           entry.ordinality - 1 AS line
+      FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS entry
+     ORDER BY product_id
+  LOOP
+    SELECT * INTO v_product FROM products WHERE id = v_entry.product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_product.archived_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Archived products cannot be sold'
+        USING ERRCODE = 'P0412',
+              DETAIL = json_build_object('product_id', v_entry.product_id, 'line', v_entry.line)::text;
+    END IF;
+
+    SELECT quantity INTO v_available
+      FROM product_stock
+     WHERE product_id = v_entry.product_id AND location_id = v_location_id
+       FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < v_entry.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'line', v_entry.line,
+        'product_id', v_entry.product_id,
+        'sku', v_product.sku,
+        'available', COALESCE(v_available, 0),
+        'requested', v_entry.quantity
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING ERRCODE = 'P0422',
+            DETAIL = json_build_object('location_id', v_location_id, 'lines', v_shortages)::text;
+  END IF;
+
+  INSERT INTO sales (location_id, client_reference, note, sold_at, created_by)
+  VALUES (v_location_id, p_client_reference, p_note, COALESCE(p_sold_at, now()), p_actor)
+  RETURNING * INTO v_sale;
+
+  FOR v_entry IN
+    SELECT (entry.value ->> 'product_id')::bigint AS product_id,
+           (entry.value ->> 'quantity')::integer AS quantity
+      FROM jsonb_array_elements(p_lines) AS entry
+     ORDER BY product_id
+  LOOP
+    v_movement := apply_stock_movement(
+      v_entry.product_id,
+      -v_entry.quantity,
+      'sale',
+      p_actor,
+      'Sale',
+      'sale:' || v_sale.id,
+      NULL,
+      true,
+      v_location_id
+    );
+
+    SELECT * INTO v_product FROM products WHERE id = v_entry.product_id;
+
+    INSERT INTO sale_lines (sale_id, product_id, quantity, unit_price, line_total, movement_id)
+    VALUES (v_sale.id, v_entry.product_id, v_entry.quantity, v_product.unit_price,
+            v_product.unit_price * v_entry.quantity, v_movement.id);
+
+    v_total := v_total + v_product.unit_price * v_entry.quantity;
+  END LOOP;
+
+  UPDATE sales SET total = v_total WHERE id = v_sale.id RETURNING * INTO v_sale;
+
+  RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read sales."
+  ON sales FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read sale lines."
+  ON sale_lines FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- GST invoices
+-- An invoice is a sale (stock goes out through record_sale) with a tax breakdown per line.
+-- Intra-state supplies are taxed CGST + SGST at half the rate each, inter-state supplies IGST.
+-- Unit prices are exclusive of GST. Numbers run per financial year (April–March, Indian time): 2025-26/00001.
+-- The seller's name, address and GSTIN come from app_settings and are copied onto each invoice.
+
+INSERT INTO app_settings (key, value) VALUES
+  ('business_name', ''),
+  ('business_address', ''),
+  ('gstin', '');
+
+CREATE TABLE invoice_sequences (
+    financial_year text PRIMARY KEY,
+    last_number integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE invoices (
+    id bigserial PRIMARY KEY,
+    invoice_number text NOT NULL UNIQUE,
+    financial_year text NOT NULL,
+    sequence_number integer NOT NULL,
+    invoice_date date NOT NULL,
+    sale_id bigint NOT NULL UNIQUE REFERENCES sales(id),
+    seller_name text NOT NULL,
+    seller_address text,
+    seller_gstin varchar(15) NOT NULL,
+    buyer_name text,
+    buyer_address text,
+    buyer_gstin varchar(15),
+    place_of_supply char(2) NOT NULL,                                   -- GST state code
+    supply_type text NOT NULL CHECK (supply_type IN ('intra_state', 'inter_state')),
+    taxable_value numeric(12,2) NOT NULL DEFAULT 0,
+    cgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    sgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    igst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    total numeric(12,2) NOT NULL DEFAULT 0,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (financial_year, sequence_number)
+);
+
+-- Product details are copied so the invoice reads the same after the product changes
+CREATE TABLE invoice_lines (
+    id bigserial PRIMARY KEY,
+    invoice_id bigint NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    sku varchar(64) NOT NULL,
+    description text NOT NULL,
+    hsn_code varchar(8),
+    quantity integer NOT NULL CHECK (quantity > 0),
+    unit_price numeric(10,2) NOT NULL,
+    taxable_value numeric(12,2) NOT NULL,
+    gst_rate numeric(5,2) NOT NULL,
+    cgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    sgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    igst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    line_total numeric(12,2) NOT NULL
+);
+
+CREATE INDEX idx_invoices_date ON invoices (invoice_date DESC);
+
+-- Indian financial year of a date, e.g. 2025-08-14 → '2025-26'
+CREATE FUNCTION financial_year(p_date date)
+RETURNS text AS $$
+  SELECT to_char(y, 'FM0000') || '-' || to_char((y + 1) % 100, 'FM00')
+    FROM (SELECT EXTRACT(YEAR FROM p_date)::integer - CASE WHEN EXTRACT(MONTH FROM p_date) < 4 THEN 1 ELSE 0 END AS y) fy;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Records the sale and issues the invoice for it in one transaction, so numbers have no gaps.
+-- p_lines, p_client_reference and p_sold_at work as for record_sale; replaying a client_reference returns
+-- its invoice. The invoice is dated (and numbered in the financial year of) the day of the sale.
+-- P0412 when the seller GSTIN is not configured or a product has no GST rate.
+CREATE FUNCTION create_invoice(
+  p_lines jsonb,
+  p_place_of_supply char(2),
+  p_actor uuid DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL,
+  p_client_reference text DEFAULT NULL,
+  p_buyer_name text DEFAULT NULL,
+  p_buyer_address text DEFAULT NULL,
+  p_buyer_gstin text DEFAULT NULL,
+  p_sold_at timestamptz DEFAULT NULL
+)
+RETURNS invoices AS $$
+DECLARE
+  v_sale sales;
+  v_invoice invoices;
+  v_line record;
+  v_seller_gstin text;
+  v_inter_state boolean;
+  v_invoice_date date := (COALESCE(p_sold_at, now()) AT TIME ZONE 'Asia/Kolkata')::date;
+  v_financial_year text := financial_year(v_invoice_date);
+  v_number integer;
+  v_taxable numeric;
+  v_half numeric;
+BEGIN
+  IF p_client_reference IS NOT NULL THEN
+    SELECT i.* INTO v_invoice
+      FROM invoices i
+      JOIN sales s ON s.id = i.sale_id
+     WHERE s.client_reference = p_client_reference;
+
+    IF FOUND THEN
+      RETURN v_invoice;
+    END IF;
+  END IF;
+
+  SELECT NULLIF(value, '') INTO v_seller_gstin FROM app_settings WHERE key = 'gstin';
+
+  IF v_seller_gstin IS NULL THEN
+    RAISE EXCEPTION 'Set the business GSTIN before issuing invoices' USING ERRCODE = 'P0412';
+  END IF;
+
+  SELECT p.id, p.sku INTO v_line
+    FROM jsonb_array_elements(p_lines) AS entry
+    JOIN products p ON p.id = (entry ->> 'product_id')::bigint
+   WHERE p.gst_rate IS NULL
+   LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Product has no GST rate'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('product_id', v_line.id, 'sku', v_line.sku)::text;
+  END IF;
+
+  v_sale := record_sale(p_lines, p_actor, p_location_id, p_client_reference, p_sold_at, NULL);
+
+  -- A concurrent replay may have issued it while record_sale waited for the lock
+  SELECT * INTO v_invoice FROM invoices WHERE sale_id = v_sale.id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  v_inter_state := left(v_seller_gstin, 2) <> p_place_of_supply;
+
+  INSERT INTO invoice_sequences (financial_year, last_number)
+  VALUES (v_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO invoices (invoice_number, financial_year, sequence_number, invoice_date, sale_id,
+                        seller_name, seller_address, seller_gstin,
+                        buyer_name, buyer_address, buyer_gstin, place_of_supply, supply_type, created_by)
+  SELECT v_financial_year || '/' || to_char(v_number, 'FM00000'), v_financial_year, v_number, v_invoice_date, v_sale.id,
+         COALESCE((SELECT NULLIF(value, '') FROM app_settings WHERE key = 'business_name'), v_seller_gstin),
+         (SELECT NULLIF(value, '') FROM app_settings WHERE key = 'business_address'),
+         v_seller_gstin,
+         p_buyer_name, p_buyer_address, NULLIF(p_buyer_gstin, ''), p_place_of_supply,
+         CASE WHEN v_inter_state THEN 'inter_state' ELSE 'intra_state' END,
+         p_actor
+  RETURNING * INTO v_invoice;
+
+  -- Tax is rounded per line; intra-state tax is split so CGST + SGST always equals the full rate
+  FOR v_line IN
+    SELECT sl.product_id, sl.quantity, sl.unit_price, p.sku, p.name, p.hsn_code, p.gst_rate
+      FROM sale_lines sl
+      JOIN products p ON p.id = sl.product_id
+     WHERE sl.sale_id = v_sale.id
+     ORDER BY sl.id
+  LOOP
+    v_taxable := round(v_line.unit_price * v_line.quantity, 2);
+    v_half := round(v_taxable * v_line.gst_rate / 200, 2);
+
+    INSERT INTO invoice_lines (invoice_id, product_id, sku, description, hsn_code, quantity, unit_price,
+                               taxable_value, gst_rate, cgst_amount, sgst_amount, igst_amount, line_total)
+    VALUES (v_invoice.id, v_line.product_id, v_line.sku, v_line.name, v_line.hsn_code, v_line.quantity, v_line.unit_price,
+            v_taxable, v_line.gst_rate,
+            CASE WHEN v_inter_state THEN 0 ELSE v_half END,
+            CASE WHEN v_inter_state THEN 0 ELSE v_half END,
+            CASE WHEN v_inter_state THEN round(v_taxable * v_line.gst_rate / 100, 2) ELSE 0 END,
+            v_taxable + CASE WHEN v_inter_state THEN round(v_taxable * v_line.gst_rate / 100, 2) ELSE 2 * v_half END);
+  END LOOP;
+
+  UPDATE invoices i
+     SET taxable_value = t.taxable_value,
+         cgst_amount = t.cgst_amount,
+         sgst_amount = t.sgst_amount,
+         igst_amount = t.igst_amount,
+         total = t.total
+    FROM (SELECT SUM(taxable_value) AS taxable_value, SUM(cgst_amount) AS cgst_amount,
+                 SUM(sgst_amount) AS sgst_amount, SUM(igst_amount) AS igst_amount, SUM(line_total) AS total
+            FROM invoice_lines WHERE invoice_id = v_invoice.id) t
+   WHERE i.id = v_invoice.id
+  RETURNING i.* INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read invoices."
+  ON invoices FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read invoice lines."
+  ON invoice_lines FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Customer returns
+-- Each returned line is either restocked (a 'return' movement back into the store, which bumps the
+-- product version like any other stock change) or written off as damaged (no stock comes back).
+-- Every return issues a credit note, numbered per financial year like invoices: CN/2025-26/00001.
+-- A return may name the sale it came from; lines are then refunded at the price paid and can't
+-- exceed what was sold less what has already come back. When that sale was invoiced the refund
+-- includes the GST charged on it, which the credit note reverses line by line, and restocked
+-- units go back in at the cost of the lots the sale drew from.
+
+CREATE TABLE credit_note_sequences (
+    financial_year text PRIMARY KEY,
+    last_number integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE returns (
+    id bigserial PRIMARY KEY,
+    credit_note_number text NOT NULL UNIQUE,
+    financial_year text NOT NULL,
+    sequence_number integer NOT NULL,
+    return_date date NOT NULL,
+    location_id bigint NOT NULL REFERENCES locations(id),
+    sale_id bigint REFERENCES sales(id),
+    client_reference text UNIQUE,
+    reason text,
+    taxable_value numeric(12,2) NOT NULL DEFAULT 0,
+    cgst_amount numeric(12,2) NOT NULL DEFAULT 0,                      -- GST reversed, invoiced sales only
+    sgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    igst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    total numeric(12,2) NOT NULL DEFAULT 0 CHECK (total >= 0),         -- amount refunded
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (financial_year, sequence_number)
+);
+
+CREATE TABLE return_lines (
+    id bigserial PRIMARY KEY,
+    return_id bigint NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    sku varchar(64) NOT NULL,
+    description text NOT NULL,
+    quantity integer NOT NULL CHECK (quantity > 0),
+    disposition text NOT NULL CHECK (disposition IN ('restock', 'damaged')),
+    unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),         -- before GST
+    taxable_value numeric(12,2) NOT NULL DEFAULT 0,
+    gst_rate numeric(5,2),                                             -- NULL when the sale wasn't invoiced
+    cgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    sgst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    igst_amount numeric(12,2) NOT NULL DEFAULT 0,
+    line_total numeric(12,2) NOT NULL CHECK (line_total >= 0),         -- taxable value plus GST
+    movement_id bigint REFERENCES stock_movements(id) ON DELETE SET NULL, -- restocked lines only
+    UNIQUE (return_id, product_id, disposition)
+);
+
+CREATE INDEX idx_returns_date ON returns (return_date DESC);
+CREATE INDEX idx_returns_sale ON returns (sale_id);
+CREATE INDEX idx_return_lines_product ON return_lines (product_id);
+
+-- Records a return and its credit note in one transaction.
+-- p_lines is [{"product_id": 12, "quantity": 1, "disposition": "restock", "version": 4}, ...]; lines
+-- for the same product and disposition are merged, and restocks check the product version given.
+-- Lines over the returnable quantity (of p_sale_id, or of all sales without one) are all reported at once:
+-- P0412 with DETAIL {"lines": [{"line": 0, "product_id": 12, "sold": 2, "returned": 1, "requested": 2}]}.
+-- Invoiced lines are refunded their share of the invoice line, GST included; tax is prorated per
+-- component and rounded per line like the invoice.
+-- Replaying a client_reference returns the return that was already recorded.
+CREATE FUNCTION record_return(
+  p_lines jsonb,
+  p_actor uuid DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL,
+  p_sale_id bigint DEFAULT NULL,
+  p_client_reference text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS returns AS $$
+DECLARE
+  v_return returns;
+  v_sale sales;
+  v_location_id bigint := p_location_id;
+  v_entry record;
+  v_product products;
+  v_sold integer;
+  v_returned integer;
+  v_price numeric;
+  v_invoiced record;
+  v_taxable numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_igst numeric;
+  v_unit_cost numeric;
+  v_excess jsonb := '[]'::jsonb;
+  v_movement stock_movements;
+  v_financial_year text := financial_year((now() AT TIME ZONE 'Asia/Kolkata')::date);
+  v_number integer;
+BEGIN
+  IF p_client_reference IS NOT NULL THEN
+    -- Serialises concurrent replays of the same offline return
+    PERFORM pg_advisory_xact_lock(hashtext('return:' || p_client_reference));
+
+    SELECT * INTO v_return FROM returns WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_return;
+    END IF;
+  END IF;
+
+  IF p_sale_id IS NOT NULL THEN
+    -- Locking the sale serialises returns against it, so two can't both take the last units
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'sale not found' USING ERRCODE = 'P0002';
+    END IF;
+    v_location_id := COALESCE(v_location_id, v_sale.location_id);
+  END IF;
+
+  v_location_id := COALESCE(v_location_id, default_location_id());
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = v_location_id) THEN
+    RAISE EXCEPTION 'location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock every product (in id order) and check the lines against the original sale
+  FOR v_entry IN
+    SELECT product_id, SUM(quantity)::integer AS quantity, MIN(line) AS line,
+           bool_or(disposition = 'restock') AS restocks
+      FROM (SELECT (entry.value ->> 'product_id')::bigint AS product_id,
+                   (entry.value ->> 'quantity')::integer AS quantity,
+                   entry.value ->> 'disposition' AS disposition,
+                   entry.ordinality - 1 AS line
+              FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS entry) lines
+     GROUP BY product_id
+     ORDER BY product_id
+  LOOP
+    SELECT * INTO v_product FROM products WHERE id = v_entry.product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_product.archived_at IS NOT NULL AND v_entry.restocks THEN
+      RAISE EXCEPTION 'Archived products cannot be restocked'
+        USING ERRCODE = 'P0412',
+              DETAIL = json_build_object('product_id', v_entry.product_id, 'line', v_entry.line)::text;
+    END IF;
+
+    -- A line can't exceed what the sale sold less earlier returns against it; without the sale,
+    -- what was ever sold of the product less everything returned of it
+    SELECT COALESCE(SUM(quantity), 0) INTO v_sold
+      FROM sale_lines
+     WHERE product_id = v_entry.product_id AND (p_sale_id IS NULL OR sale_id = p_sale_id);
+
+    SELECT COALESCE(SUM(rl.quantity), 0) INTO v_returned
+      FROM return_lines rl
+      JOIN returns r ON r.id = rl.return_id
+     WHERE rl.product_id = v_entry.product_id AND (p_sale_id IS NULL OR r.sale_id = p_sale_id);
+
+    IF v_entry.quantity > v_sold - v_returned THEN
+      v_excess := v_excess || jsonb_build_object(
+        'line', v_entry.line,
+        'product_id', v_entry.product_id,
+        'sku', v_product.sku,
+        'sold', v_sold,
+        'returned', v_returned,
+        'requested', v_entry.quantity
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_excess) > 0 THEN
+    RAISE EXCEPTION 'More returned than was sold'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('sale_id', p_sale_id, 'lines', v_excess)::text;
+  END IF;
+
+  INSERT INTO credit_note_sequences (financial_year, last_number)
+  VALUES (v_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = credit_note_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO returns (credit_note_number, financial_year, sequence_number, return_date, location_id, sale_id,
+                       client_reference, reason, created_by)
+  VALUES ('CN/' || v_financial_year || '/' || to_char(v_number, 'FM00000'), v_financial_year, v_number,
+          (now() AT TIME ZONE 'Asia/Kolkata')::date, v_location_id, p_sale_id, p_client_reference, p_reason, p_actor)
+  RETURNING * INTO v_return;
+
+  -- One line per product and disposition, however the lines were given
+  FOR v_entry IN
+    SELECT (entry ->> 'product_id')::bigint AS product_id,
+           entry ->> 'disposition' AS disposition,
+           SUM((entry ->> 'quantity')::integer)::integer AS quantity,
+           MIN((entry ->> 'version')::integer) AS version
+      FROM jsonb_array_elements(p_lines) AS entry
+     GROUP BY 1, 2
+     ORDER BY 1, 2
+  LOOP
+    SELECT * INTO v_product FROM products WHERE id = v_entry.product_id;
+
+    -- Refund what the customer paid when the sale is known, otherwise today's price. Sums over
+    -- every line of the product, so a product billed on several lines refunds their average.
+    -- (The aggregate always yields a row, all NULL when the sale is unknown or wasn't invoiced.)
+    SELECT SUM(il.quantity) AS quantity, SUM(il.taxable_value) AS taxable_value, MAX(il.gst_rate) AS gst_rate,
+           SUM(il.cgst_amount) AS cgst_amount, SUM(il.sgst_amount) AS sgst_amount, SUM(il.igst_amount) AS igst_amount
+      INTO v_invoiced
+      FROM invoice_lines il
+      JOIN invoices i ON i.id = il.invoice_id
+     WHERE i.sale_id = p_sale_id AND il.product_id = v_entry.product_id;
+
+    v_unit_cost := NULL;
+    v_price := v_product.unit_price;
+    IF p_sale_id IS NOT NULL THEN
+      IF v_invoiced.quantity IS NULL THEN
+        SELECT round(SUM(line_total) / SUM(quantity), 2) INTO v_price
+          FROM sale_lines WHERE sale_id = p_sale_id AND product_id = v_entry.product_id;
+      ELSE
+        v_price := round(v_invoiced.taxable_value / v_invoiced.quantity, 2);
+      END IF;
+
+      -- What the sold units cost, from the lots the sale drew them from
+      SELECT SUM(-lm.quantity * l.unit_cost) / NULLIF(SUM(-lm.quantity) FILTER (WHERE l.unit_cost IS NOT NULL), 0)
+        INTO v_unit_cost
+        FROM sale_lines sl
+        JOIN stock_lot_movements lm ON lm.movement_id = sl.movement_id
+        JOIN stock_lots l ON l.id = lm.lot_id
+       WHERE sl.sale_id = p_sale_id AND sl.product_id = v_entry.product_id;
+    END IF;
+
+    IF v_invoiced.quantity IS NULL THEN
+      v_taxable := v_price * v_entry.quantity;
+      v_cgst := 0;
+      v_sgst := 0;
+      v_igst := 0;
+    ELSE
+      v_taxable := round(v_invoiced.taxable_value * v_entry.quantity / v_invoiced.quantity, 2);
+      v_cgst := round(v_invoiced.cgst_amount * v_entry.quantity / v_invoiced.quantity, 2);
+      v_sgst := round(v_invoiced.sgst_amount * v_entry.quantity / v_invoiced.quantity, 2);
+      v_igst := round(v_invoiced.igst_amount * v_entry.quantity / v_invoiced.quantity, 2);
+    END IF;
+
+    v_movement := NULL;
+    IF v_entry.disposition = 'restock' THEN
+      v_movement := apply_stock_movement(
+        v_entry.product_id,
+        v_entry.quantity,
+        'return',
+        p_actor,
+        'Customer return',
+        'return:' || v_return.id,
+        v_entry.version,                              -- the version the clerk saw (P0409 when stale)
+        true,
+        v_location_id,
+        v_unit_cost                                   -- NULL falls back to the product's cost price
+      );
+    END IF;
+
+    INSERT INTO return_lines (return_id, product_id, sku, description, quantity, disposition, unit_price,
+                              taxable_value, gst_rate, cgst_amount, sgst_amount, igst_amount, line_total, movement_id)
+    VALUES (v_return.id, v_entry.product_id, v_product.sku, v_product.name, v_entry.quantity, v_entry.disposition, v_price,
+            v_taxable, v_invoiced.gst_rate, v_cgst, v_sgst, v_igst, v_taxable + v_cgst + v_sgst + v_igst, v_movement.id);
+  END LOOP;
+
+  UPDATE returns
+     SET (taxable_value, cgst_amount, sgst_amount, igst_amount, total) =
+         (SELECT COALESCE(SUM(taxable_value), 0), COALESCE(SUM(cgst_amount), 0), COALESCE(SUM(sgst_amount), 0),
+                 COALESCE(SUM(igst_amount), 0), COALESCE(SUM(line_total), 0)
+            FROM return_lines WHERE return_id = v_return.id)
+   WHERE id = v_return.id
+  RETURNING * INTO v_return;
+
+  RETURN v_return;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Units sold, returned and written off per category since p_since, for the dashboard
+CREATE FUNCTION return_stats(p_since timestamptz)
+RETURNS TABLE (category text, sold integer, returned integer, damaged integer) AS $$
+  WITH sold AS (
+    SELECT sl.product_id, SUM(sl.quantity) AS quantity
+      FROM sale_lines sl
+      JOIN sales s ON s.id = sl.sale_id
+     WHERE s.sold_at >= p_since
+     GROUP BY sl.product_id
+  ), returned AS (
+    SELECT rl.product_id,
+           SUM(rl.quantity) AS quantity,
+           SUM(rl.quantity) FILTER (WHERE rl.disposition = 'damaged') AS damaged
+      FROM return_lines rl
+      JOIN returns r ON r.id = rl.return_id
+     WHERE r.created_at >= p_since
+     GROUP BY rl.product_id
+  )
+  SELECT COALESCE(p.category, 'Uncategorized') AS category,
+         COALESCE(SUM(sold.quantity), 0)::integer AS sold,
+         COALESCE(SUM(returned.quantity), 0)::integer AS returned,
+         COALESCE(SUM(returned.damaged), 0)::integer AS damaged
+    FROM products p
+    LEFT JOIN sold ON sold.product_id = p.id
+    LEFT JOIN returned ON returned.product_id = p.id
+   WHERE sold.product_id IS NOT NULL OR returned.product_id IS NOT NULL
+   GROUP BY COALESCE(p.category, 'Uncategorized');
+$$ LANGUAGE sql STABLE;
+
+-- RLS
+ALTER TABLE credit_note_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read returns."
+  ON returns FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read return lines."
+  ON return_lines FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Customer credit ledger (khata)
+-- Regular buyers can take goods on credit and pay later. customers.balance is the amount
+-- owed and is only changed by record_credit_sale() and record_customer_payment(), which
+-- append to customer_ledger in the same transaction. Payments settle the oldest credit
+-- first, so a customer is overdue by whatever credit past its due date is still unpaid.
+
+CREATE TABLE customers (
+    id bigserial PRIMARY KEY,
+    name text NOT NULL,
+    phone varchar(20) UNIQUE,
+    address text,
+    note text,
+    credit_limit numeric(12,2) CHECK (credit_limit >= 0),               -- NULL = no limit
+    credit_days integer NOT NULL DEFAULT 30 CHECK (credit_days BETWEEN 0 AND 365),
+    balance numeric(12,2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+CREATE TYPE customer_ledger_entry AS ENUM ('credit_sale', 'payment');
+
+-- Credit sales are positive, payments negative
+CREATE TABLE customer_ledger (
+    id bigserial PRIMARY KEY,
+    customer_id bigint NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    entry_type customer_ledger_entry NOT NULL,
+    amount numeric(12,2) NOT NULL CHECK (amount <> 0),
+    balance_after numeric(12,2) NOT NULL,
+    sale_id bigint REFERENCES sales(id),
+    due_date date,                                                      -- credit sales only
+    payment_method text CHECK (payment_method IN ('cash', 'upi', 'card', 'bank', 'other')),
+    client_reference text UNIQUE,
+    note text,
+    entry_date timestamptz NOT NULL DEFAULT now(),
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    CHECK ((entry_type = 'credit_sale') = (amount > 0)),
+    CHECK ((entry_type = 'credit_sale') = (sale_id IS NOT NULL AND due_date IS NOT NULL))
+);
+
+CREATE INDEX idx_customers_name ON customers (lower(name));
+CREATE INDEX idx_customer_ledger_customer ON customer_ledger (customer_id, entry_date, id);
+
+-- Sells on credit: records the sale (see record_sale) and adds its total to the customer's balance.
+-- The entry is dated p_sold_at (default now, as for record_sale) and falls due credit_days after that. P0412 when the sale would take the balance over the
+-- credit limit, with DETAIL {"customer_id", "credit_limit", "balance", "requested"}.
+-- Replaying a client_reference returns the entry that was already recorded.
+CREATE FUNCTION record_credit_sale(
+  p_customer_id bigint,
+  p_lines jsonb,
+  p_actor uuid DEFAULT NULL,
+  p_location_id bigint DEFAULT NULL,
+  p_client_reference text DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_sold_at timestamptz DEFAULT NULL
+)
+RETURNS customer_ledger AS $$
+DECLARE
+  v_customer customers;
+  v_sale sales;
+  v_entry customer_ledger;
+BEGIN
+  IF p_client_reference IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('khata:' || p_client_reference));
+
+    SELECT * INTO v_entry FROM customer_ledger WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_entry;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_sale := record_sale(p_lines, p_actor, p_location_id, p_client_reference, p_sold_at, COALESCE(p_note, 'Credit sale to ' || v_customer.name));
+
+  IF v_customer.credit_limit IS NOT NULL AND v_customer.balance + v_sale.total > v_customer.credit_limit THEN
+    RAISE EXCEPTION 'Credit limit exceeded'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('customer_id', p_customer_id, 'credit_limit', v_customer.credit_limit,
+                                       'balance', v_customer.balance, 'requested', v_sale.total)::text;
+  END IF;
+
+  UPDATE customers SET balance = balance + v_sale.total WHERE id = p_customer_id RETURNING * INTO v_customer;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, amount, balance_after, sale_id, due_date, client_reference, note, entry_date, created_by)
+  VALUES (p_customer_id, 'credit_sale', v_sale.total, v_customer.balance, v_sale.id,
+          (v_sale.sold_at AT TIME ZONE 'Asia/Kolkata')::date + v_customer.credit_days, p_client_reference, p_note,
+          v_sale.sold_at, p_actor)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Records a payment against the customer's balance.
+-- P0412 when it is more than the balance owed, with DETAIL {"customer_id", "balance", "requested"}.
+CREATE FUNCTION record_customer_payment(
+  p_customer_id bigint,
+  p_amount numeric,
+  p_actor uuid DEFAULT NULL,
+  p_payment_method text DEFAULT 'cash',
+  p_client_reference text DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_paid_at timestamptz DEFAULT NULL
+)
+RETURNS customer_ledger AS $$
+DECLARE
+  v_customer customers;
+  v_entry customer_ledger;
+BEGIN
+  IF p_client_reference IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('khata:' || p_client_reference));
+
+    SELECT * INTO v_entry FROM customer_ledger WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_entry;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_amount > v_customer.balance THEN
+    RAISE EXCEPTION 'Payment is more than the balance owed'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('customer_id', p_customer_id, 'balance', v_customer.balance, 'requested', p_amount)::text;
+  END IF;
+
+  UPDATE customers SET balance = balance - p_amount WHERE id = p_customer_id RETURNING * INTO v_customer;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, amount, balance_after, payment_method, client_reference, note, entry_date, created_by)
+  VALUES (p_customer_id, 'payment', -p_amount, v_customer.balance, p_payment_method, p_client_reference, p_note,
+          COALESCE(p_paid_at, now()), p_actor)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- What each customer owes and how much of it is past due (payments settle the oldest credit first)
+CREATE VIEW customer_receivables AS
+SELECT c.id AS customer_id,
+       c.balance,
+       LEAST(c.balance, GREATEST(0, COALESCE(due.amount, 0) - COALESCE(paid.amount, 0)))::numeric(12,2) AS overdue_amount,
+       due.oldest_due_date
+  FROM customers c
+  LEFT JOIN (
+    SELECT customer_id, SUM(amount) AS amount, MIN(due_date) AS oldest_due_date
+      FROM customer_ledger
+     WHERE entry_type = 'credit_sale' AND due_date < (now() AT TIME ZONE 'Asia/Kolkata')::date
+     GROUP BY customer_id
+  ) due ON due.customer_id = c.id
+  LEFT JOIN (
+    SELECT customer_id, -SUM(amount) AS amount
+      FROM customer_ledger
+     WHERE entry_type = 'payment'
+     GROUP BY customer_id
+  ) paid ON paid.customer_id = c.id;
+
+-- RLS
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read customers."
+  ON customers FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read the customer ledger."
+  ON customer_ledger FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Stock-take sessions
+-- counting → approved | cancelled. Starting a stock take freezes the expected quantity and
+-- unit cost of every active product at one location. Staff add counts while the session is
+-- open (counts for the same product add up, so several people can count different shelves),
+-- and an owner approves the variance, which books one 'adjustment' movement per product whose
+-- count differs. The adjustment is counted − expected, applied to current stock, so sales
+-- rung up while counting are kept. Products nobody counted are left as they are.
+
+CREATE TYPE stock_take_status AS ENUM ('counting', 'approved', 'cancelled');
+
+CREATE TABLE stock_takes (
+    id bigserial PRIMARY KEY,
+    location_id bigint NOT NULL REFERENCES locations(id),
+    status stock_take_status NOT NULL DEFAULT 'counting',
+    category text,                                                      -- NULL = all categories
+    note text,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    approved_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open count per location at a time
+CREATE UNIQUE INDEX idx_stock_takes_open ON stock_takes (location_id) WHERE status = 'counting';
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON stock_takes
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE stock_take_lines (
+    id bigserial PRIMARY KEY,
+    stock_take_id bigint NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    expected_quantity integer NOT NULL CHECK (expected_quantity >= 0),
+    unit_cost numeric(12,2) CHECK (unit_cost >= 0),                     -- NULL = no recorded cost
+    counted_quantity integer CHECK (counted_quantity >= 0),             -- NULL = not counted yet
+    counted_at timestamptz,
+    movement_id bigint REFERENCES stock_movements(id),
+    UNIQUE (stock_take_id, product_id)
+);
+
+-- Every count entered, kept so a session shows who counted what
+CREATE TABLE stock_take_counts (
+    id bigserial PRIMARY KEY,
+    stock_take_id bigint NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+    product_id bigint NOT NULL REFERENCES products(id),
+    quantity integer NOT NULL CHECK (quantity <> 0),                    -- negative = correction
+    client_reference text,
+    counted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_takes_status ON stock_takes (status);
+CREATE INDEX idx_stock_take_counts_take ON stock_take_counts (stock_take_id, product_id);
+CREATE INDEX idx_stock_take_counts_reference ON stock_take_counts (client_reference) WHERE client_reference IS NOT NULL;
+
+-- Opens a stock take at a location (the default store when NULL), optionally for one category.
+-- Unit cost is the average cost of the open lots there, falling back to the product's cost price.
+-- P0412 when a count is already open at the location, with DETAIL {"stock_take_id"}.
+CREATE FUNCTION start_stock_take(
+  p_location_id bigint DEFAULT NULL,
+  p_actor uuid DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS stock_takes AS $$
+DECLARE
+  v_location_id bigint := COALESCE(p_location_id, default_location_id());
+  v_open_id bigint;
+  v_take stock_takes;
+BEGIN
+  PERFORM 1 FROM locations WHERE id = v_location_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT id INTO v_open_id FROM stock_takes WHERE location_id = v_location_id AND status = 'counting';
+  IF FOUND THEN
+    RAISE EXCEPTION 'A stock take is already in progress at this location'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('stock_take_id', v_open_id)::text;
+  END IF;
+
+  INSERT INTO stock_takes (location_id, category, note, created_by)
+  VALUES (v_location_id, p_category, p_note, p_actor)
+  RETURNING * INTO v_take;
+
+  INSERT INTO stock_take_lines (stock_take_id, product_id, expected_quantity, unit_cost)
+  SELECT v_take.id, p.id, COALESCE(ps.quantity, 0), COALESCE(lots.unit_cost, p.cost_price)
+    FROM products p
+    LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = v_location_id
+    LEFT JOIN LATERAL (
+      SELECT ROUND(SUM(l.quantity * l.unit_cost) / NULLIF(SUM(l.quantity), 0), 2) AS unit_cost
+        FROM stock_lots l
+       WHERE l.product_id = p.id AND l.location_id = v_location_id
+         AND l.quantity > 0 AND l.unit_cost IS NOT NULL
+    ) lots ON true
+   WHERE p.archived_at IS NULL
+     AND (p_category IS NULL OR p.category = p_category);
+
+  RETURN v_take;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds counts to an open stock take. p_counts is [{"product_id": 12, "quantity": 5}, ...];
+-- a negative quantity corrects an earlier miscount. P0412 when the session is closed, or with
+-- DETAIL {"lines": [...]} for products outside the session or counts that would go below zero.
+-- Replaying a client_reference records nothing new.
+CREATE FUNCTION record_stock_take_counts(
+  p_stock_take_id bigint,
+  p_counts jsonb,
+  p_actor uuid DEFAULT NULL,
+  p_client_reference text DEFAULT NULL
+)
+RETURNS stock_takes AS $$
+DECLARE
+  v_take stock_takes;
+  v_count record;
+  v_line stock_take_lines;
+  v_errors jsonb := '[]'::jsonb;
+BEGIN
+  -- FOR SHARE lets several counters work at once while approval (FOR UPDATE) waits for them
+  SELECT * INTO v_take FROM stock_takes WHERE id = p_stock_take_id FOR SHARE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'stock take not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_client_reference IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('stock_take:' || p_client_reference));
+
+    IF EXISTS (SELECT 1 FROM stock_take_counts WHERE client_reference = p_client_reference) THEN
+      RETURN v_take;
+    END IF;
+  END IF;
+
+  IF v_take.status <> 'counting' THEN
+    RAISE EXCEPTION 'Counts can only be added while the stock take is open'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_take.status)::text;
+  END IF;
+
+  -- Lines are locked in product order so concurrent counters can't deadlock
+  FOR v_count IN
+    SELECT (entry ->> 'product_id')::bigint AS product_id, (entry ->> 'quantity')::integer AS quantity
+      FROM jsonb_array_elements(p_counts) AS entry
+     ORDER BY 1
+  LOOP
+    SELECT * INTO v_line
+      FROM stock_take_lines
+     WHERE stock_take_id = p_stock_take_id AND product_id = v_count.product_id
+       FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_errors := v_errors || jsonb_build_object('product_id', v_count.product_id, 'code', 'NOT_IN_STOCK_TAKE',
+                                                 'message', 'Product is not part of this stock take');
+    ELSIF COALESCE(v_line.counted_quantity, 0) + v_count.quantity < 0 THEN
+      v_errors := v_errors || jsonb_build_object('product_id', v_count.product_id, 'code', 'NEGATIVE_COUNT',
+                                                 'message', 'Correction is larger than the quantity counted so far',
+                                                 'counted', COALESCE(v_line.counted_quantity, 0), 'requested', v_count.quantity);
+    ELSE
+      UPDATE stock_take_lines
+         SET counted_quantity = COALESCE(counted_quantity, 0) + v_count.quantity,
+             counted_at = now()
+       WHERE id = v_line.id;
+
+      INSERT INTO stock_take_counts (stock_take_id, product_id, quantity, client_reference, counted_by)
+      VALUES (p_stock_take_id, v_count.product_id, v_count.quantity, p_client_reference, p_actor);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'One or more counts cannot be recorded'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('lines', v_errors)::text;
+  END IF;
+
+  RETURN v_take;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Approves a stock take: one 'adjustment' movement (counted − expected) per counted product
+-- whose count differs, all or nothing. Surplus stock is booked at the snapshot unit cost.
+-- P0412 when the session is closed or nothing was counted; P0422 when stock sold since the
+-- snapshot leaves too little to take the shortage out of.
+CREATE FUNCTION approve_stock_take(
+  p_stock_take_id bigint,
+  p_actor uuid DEFAULT NULL
+)
+RETURNS stock_takes AS $$
+DECLARE
+  v_take stock_takes;
+  v_line stock_take_lines;
+  v_movement stock_movements;
+BEGIN
+  SELECT * INTO v_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'stock take not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_take.status <> 'counting' THEN
+    RAISE EXCEPTION 'Only open stock takes can be approved'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_take.status)::text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM stock_take_lines WHERE stock_take_id = p_stock_take_id AND counted_quantity IS NOT NULL) THEN
+    RAISE EXCEPTION 'Nothing has been counted yet'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_take.status)::text;
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_take_lines
+     WHERE stock_take_id = p_stock_take_id
+       AND counted_quantity IS NOT NULL
+       AND counted_quantity <> expected_quantity
+     ORDER BY product_id
+  LOOP
+    v_movement := apply_stock_movement(
+      v_line.product_id,
+      v_line.counted_quantity - v_line.expected_quantity,
+      'adjustment',
+      p_actor,
+      'Stock take #' || p_stock_take_id,
+      'stock_take:' || p_stock_take_id,
+      NULL,
+      true,
+      v_take.location_id,
+      v_line.unit_cost
+    );
+
+    UPDATE stock_take_lines SET movement_id = v_movement.id WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE stock_takes
+     SET status = 'approved', approved_by = p_actor, approved_at = now()
+   WHERE id = p_stock_take_id
+  RETURNING * INTO v_take;
+
+  RETURN v_take;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read stock takes."
+  ON stock_takes FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read stock take lines."
+  ON stock_take_lines FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read stock take counts."
+  ON stock_take_counts FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Product variants
+-- A parent product (e.g. "Coca Cola") groups variants that differ by a few named attributes
+-- (size, flavour, pack). The parent holds no stock or price of its own; every variant is an
+-- ordinary product with its own SKU, quantity, price and version, and says which attribute
+-- values it has in variant_values, e.g. {"size": "500ml"}. Parent SKUs are a separate
+-- namespace, referenced by the parent_sku column of CSV imports.
+
+CREATE TABLE parent_products (
+    id bigserial PRIMARY KEY,
+    sku varchar(64) NOT NULL UNIQUE,
+    name text NOT NULL,
+    category text,
+    variant_attributes text[] NOT NULL DEFAULT '{}',   -- attribute names, e.g. {size, flavour}
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON parent_products
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+-- Deleting a parent leaves its variants as standalone products
+ALTER TABLE products
+  ADD COLUMN parent_id bigint REFERENCES parent_products(id) ON DELETE SET NULL,
+  ADD COLUMN variant_values jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(variant_values) = 'object');
+
+CREATE INDEX idx_products_parent ON products (parent_id) WHERE parent_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE parent_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read parent products."
+  ON parent_products FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Import rollback
+-- Every product a CSV import creates or updates gets an import_changes row holding the
+-- product as it was before the row and the version the import left it at, so
+-- rollback_import() can undo the file as long as nobody has changed those products since.
+
+ALTER TABLE import_logs
+  ADD COLUMN run integer NOT NULL DEFAULT 1,     -- bumped when a failed or rolled-back job runs again
+  ADD COLUMN rolled_back_at timestamptz,
+  ADD COLUMN rolled_back_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE import_changes (
+    id bigserial PRIMARY KEY,
+    import_id bigint NOT NULL REFERENCES import_logs(id) ON DELETE CASCADE,
+    run integer NOT NULL,                  -- import_logs.run of the job run that made the change
+    row_number integer NOT NULL,
+    product_id bigint NOT NULL,            -- no foreign key: a rollback may delete the product
+    sku varchar(64) NOT NULL,
+    operation text NOT NULL CHECK (operation IN ('create', 'update')),
+    before jsonb,                          -- product row before the import; NULL when it created the product
+    quantity_delta integer NOT NULL DEFAULT 0,  -- stock booked by the row's 'import' movement
+    location_id bigint REFERENCES locations(id),
+    version_after integer NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_import_changes_import ON import_changes (import_id, run, product_id, id);
+
+-- Undoes an import, all or nothing. Only the changes of the job's latest run count: a failed
+-- attempt that was run again left products the later run read afresh, and its versions would
+-- look like conflicts. Per product the first change's "before" is restored and the
+-- stock the import booked is reversed, or the product is deleted when the import created it.
+-- A product that was deleted, has a newer version than the import left, or (for created ones) is
+-- used by other records is a conflict; conflicts are collected for every row and raised together
+-- as P0409 with DETAIL.rows, which undoes everything. Returns one {product_id, operation, before,
+-- after} entry per product for the audit trail.
+CREATE FUNCTION rollback_import(p_import_id bigint, p_actor uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_import import_logs;
+  v_product_id bigint;
+  v_first import_changes;
+  v_last import_changes;
+  v_product products;
+  v_restored products;
+  v_stock record;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_undone jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_import FROM import_logs WHERE id = p_import_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'import not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_import.status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Only completed or failed imports can be rolled back'
+      USING ERRCODE = 'P0412',
+            DETAIL = json_build_object('status', v_import.status)::text;
+  END IF;
+
+  FOR v_product_id IN
+    SELECT product_id FROM import_changes WHERE import_id = p_import_id AND run = v_import.run GROUP BY product_id ORDER BY min(id)
+  LOOP
+    SELECT * INTO v_first FROM import_changes
+     WHERE import_id = p_import_id AND run = v_import.run AND product_id = v_product_id ORDER BY id LIMIT 1;
+    SELECT * INTO v_last FROM import_changes
+     WHERE import_id = p_import_id AND run = v_import.run AND product_id = v_product_id ORDER BY id DESC LIMIT 1;
+
+    SELECT * INTO v_product FROM products WHERE id = v_product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'row', v_last.row_number, 'sku', v_last.sku, 'product_id', v_product_id,
+        'reason', 'Product was deleted after the import');
+      CONTINUE;
+    END IF;
+
+    IF v_product.version <> v_last.version_after THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'row', v_last.row_number, 'sku', v_last.sku, 'product_id', v_product_id,
+        'reason', 'Product was changed after the import',
+        'expected_version', v_last.version_after, 'actual_version', v_product.version);
+      CONTINUE;
+    END IF;
+
+    IF v_first.operation = 'create' THEN
+      BEGIN
+        DELETE FROM products WHERE id = v_product_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        v_conflicts := v_conflicts || jsonb_build_object(
+          'row', v_first.row_number, 'sku', v_first.sku, 'product_id', v_product_id,
+          'reason', 'Product is used by transfers, purchase orders or sales');
+        CONTINUE;
+      END;
+
+      v_undone := v_undone || jsonb_build_object('product_id', v_product_id, 'operation', 'delete', 'before', to_jsonb(v_product), 'after', NULL);
+      CONTINUE;
+    END IF;
+
+    -- Reverse the stock the import booked, per location (several rows may list the same SKU)
+    FOR v_stock IN
+      SELECT location_id, sum(quantity_delta)::integer AS delta
+        FROM import_changes
+       WHERE import_id = p_import_id AND run = v_import.run AND product_id = v_product_id
+       GROUP BY location_id
+    LOOP
+      CONTINUE WHEN v_stock.delta = 0;
+      PERFORM apply_stock_movement(
+        p_product_id => v_product_id,
+        p_delta => -v_stock.delta,
+        p_reason => 'import',
+        p_actor => p_actor,
+        p_note => 'Rollback of import #' || p_import_id,
+        p_reference => 'import-rollback:' || p_import_id,
+        p_bump_version => false,
+        p_location_id => v_stock.location_id
+      );
+    END LOOP;
+
+    -- A parent deleted since the import leaves the product standalone
+    UPDATE products
+       SET name = v_first.before->>'name',
+           category = v_first.before->>'category',
+           unit_price = (v_first.before->>'unit_price')::numeric,
+           cost_price = (v_first.before->>'cost_price')::numeric,
+           hsn_code = v_first.before->>'hsn_code',
+           gst_rate = (v_first.before->>'gst_rate')::numeric,
+           reorder_point = (v_first.before->>'reorder_point')::integer,
+           reorder_quantity = (v_first.before->>'reorder_quantity')::integer,
+           parent_id = (SELECT id FROM parent_products WHERE id = (v_first.before->>'parent_id')::bigint),
+           variant_values = COALESCE(v_first.before->'variant_values', '{}'::jsonb),
+           updated_by = p_actor,
+           version = version + 1
+     WHERE id = v_product_id
+    RETURNING * INTO v_restored;
+
+    v_undone := v_undone || jsonb_build_object('product_id', v_product_id, 'operation', 'update', 'before', to_jsonb(v_product), 'after', to_jsonb(v_restored));
+  END LOOP;
+
+  IF jsonb_array_length(v_conflicts) > 0 THEN
+    RAISE EXCEPTION 'Import cannot be rolled back: some products changed after it'
+      USING ERRCODE = 'P0409',
+            DETAIL = json_build_object('import_id', p_import_id, 'rows', v_conflicts)::text;
+  END IF;
+
+  -- The changes are spent, along with any left by earlier runs; uploading the same file again
+  -- starts a fresh run
+  DELETE FROM import_changes WHERE import_id = p_import_id;
+
+  UPDATE import_logs
+     SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = p_actor
+   WHERE id = p_import_id;
+
+  RETURN v_undone;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE import_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can read import changes."
+  ON import_changes FOR SELECT TO authenticated
+  USING (is_owner(auth.uid()));
+
+-- ============================================================
+-- Import column mappings
+-- Named per-user templates that map the headers of supplier and POS exports to product
+-- fields: mapping = { "<file column, lower-case>": "<product field>" | null (ignored) }.
+
+CREATE TABLE import_mappings (
+    id bigserial PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    mapping jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(mapping) = 'object'),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+CREATE TRIGGER trigger_set_updated_at
+  BEFORE UPDATE ON import_mappings
+  FOR EACH ROW
+  EXECUTE PROCEDURE set_updated_at();
+
+-- RLS
+ALTER TABLE import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own import mappings."
+  ON import_mappings FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
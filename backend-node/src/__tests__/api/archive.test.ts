@@ -0,0 +1,125 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { archiveProduct, purgeProduct, restoreProduct, updateProduct } from '../../controllers/productController';
+import { mockQuery, mockSupabase, mockTables, signInAs } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.put('/api/products/:id', authenticateToken, updateProduct);
+app.delete('/api/products/:id', authenticateToken, archiveProduct);
+app.post('/api/products/:id/restore', authenticateToken, restoreProduct);
+app.delete('/api/products/:id/purge', authenticateToken, purgeProduct);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const product = { id: '1', name: 'Tea', sku: 'TEA-1', category: 'Tea', quantity: 4, unit_price: 10, version: 3, archived_at: null };
+const archived = (daysAgo: number) => ({ ...product, archived_at: new Date(Date.now() - daysAgo * DAY_MS).toISOString() });
+
+describe('Product recycle bin API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('owner');
+  });
+
+  describe('DELETE /api/products/:id', () => {
+    it('archives the product instead of deleting it', async () => {
+      const update = mockQuery({ data: archived(0) });
+      const audit = mockQuery();
+      mockTables({ products: [mockQuery({ data: product }), update], product_audit: audit });
+
+      const response = await request(app).delete('/api/products/1').expect(200);
+
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ archived_by: 'owner-user-id' }));
+      expect(update.is).toHaveBeenCalledWith('archived_at', null);
+      expect(update.delete).not.toHaveBeenCalled();
+      expect(audit.insert).toHaveBeenCalledWith([expect.objectContaining({ operation: 'archive' })]);
+      expect(response.body.data.archived_at).toEqual(expect.any(String));
+    });
+
+    it('refuses to archive a product twice', async () => {
+      mockTables({ products: [mockQuery({ data: archived(1) }), mockQuery({ data: null })] });
+
+      const response = await request(app).delete('/api/products/1').expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', message: 'Product is already archived' });
+    });
+  });
+
+  describe('PUT /api/products/:id', () => {
+    it('refuses to edit an archived product', async () => {
+      mockTables({ products: mockQuery({ data: archived(1) }) });
+
+      const response = await request(app).put('/api/products/1').send({ name: 'Green tea', version: 3 }).expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATE');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/products/:id/restore', () => {
+    it('restores the product and bumps its version', async () => {
+      const update = mockQuery({ data: { ...product, version: 4 } });
+      mockTables({ products: [mockQuery({ data: archived(2) }), update], product_audit: mockQuery() });
+
+      const response = await request(app).post('/api/products/1/restore').expect(200);
+
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ archived_at: null, version: 4 }));
+      expect(response.body.data.version).toBe(4);
+    });
+
+    it('only restores archived products', async () => {
+      mockTables({ products: [mockQuery({ data: product }), mockQuery({ data: null })] });
+
+      const response = await request(app).post('/api/products/1/restore').expect(409);
+
+      expect(response.body.error.message).toBe('Only archived products can be restored');
+    });
+  });
+
+  describe('DELETE /api/products/:id/purge', () => {
+    it('purges a product once the retention period has passed', async () => {
+      const remove = mockQuery();
+      const audit = mockQuery();
+      mockTables({ products: [mockQuery({ data: archived(31) }), remove], product_audit: audit });
+
+      await request(app).delete('/api/products/1/purge').expect(200);
+
+      expect(remove.delete).toHaveBeenCalled();
+      expect(audit.insert).toHaveBeenCalledWith([expect.objectContaining({ operation: 'delete' })]);
+    });
+
+    it('keeps a product archived for less than the retention period', async () => {
+      const products = mockQuery({ data: archived(5) });
+      mockTables({ products });
+
+      const response = await request(app).delete('/api/products/1/purge').expect(409);
+
+      expect(response.body.error.details.purgeable_at).toEqual(expect.any(String));
+      expect(products.delete).not.toHaveBeenCalled();
+    });
+
+    it('refuses to purge a product that was never archived', async () => {
+      mockTables({ products: mockQuery({ data: product }) });
+
+      const response = await request(app).delete('/api/products/1/purge').expect(409);
+
+      expect(response.body.error.message).toBe('Archive the product before purging it');
+    });
+
+    it('keeps a product still referenced by transfers or purchase orders', async () => {
+      mockTables({
+        products: [mockQuery({ data: archived(40) }), mockQuery({ error: { code: '23503', message: 'foreign key violation' } })]
+      });
+
+      const response = await request(app).delete('/api/products/1/purge').expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATE');
+    });
+  });
+});
@@ -2,79 +2,132 @@ import request from 'supertest';
 import express from 'express';
 import { authenticateToken } from '../../middleware/auth';
 import { updateProduct } from '../../controllers/productController';
-import { supabase } from '../../config/database';
+import { createStockMovement } from '../../controllers/stockMovementController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
 
 // Create test app
 const app = express();
 app.use(express.json());
 app.put('/api/products/:id', authenticateToken, updateProduct);
+app.post('/api/products/:id/movements', authenticateToken, createStockMovement);
+
+const product = {
+  id: '1',
+  name: 'Test Product',
+  sku: 'TEST-001',
+  category: 'Test Category',
+  quantity: 10,
+  unit_price: 9.99,
+  cost_price: null,
+  parent_id: null,
+  variant_values: {},
+  archived_at: null,
+  version: 1
+};
 
 describe('API Optimistic Concurrency Failure Tests', () => {
-  const mockUser = {
-    id: 'test-user-id',
-    email: 'test@example.com',
-    role: 'owner'
-  };
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
 
   beforeEach(() => {
-    jest.clearAllMocks();
-    
-    // Mock authentication middleware
-    (authenticateToken as jest.Mock).mockImplementation((req, res, next) => {
-      req.user = mockUser;
-      next();
-    });
+    signInAs('owner');
   });
 
   describe('PUT /api/products/:id - Optimistic Concurrency Failure', () => {
-    it('should handle optimistic concurrency failure during update operation', async () => {
-      // Mock Supabase to return matching version for initial check but fail during update
-      const mockSupabase = supabase as jest.Mocked<typeof supabase>;
-      
-      mockSupabase.from.mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            single: jest.fn().mockResolvedValue({
-              data: { version: 1, unit_price: 9.99 },
-              error: null
-            })
-          })
-        }),
-        update: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            select: jest.fn().mockResolvedValue({
-              data: null,
-              error: {
-                message: 'Row was updated by another transaction',
-                code: 'PGRST116'
-              }
-            })
-          })
-        })
-      } as any);
+    it('rejects an edit based on a stale version before writing anything', async () => {
+      mockTables({ products: mockQuery({ data: { ...product, version: 2 } }) });
+
+      const response = await request(app)
+        .put('/api/products/1')
+        .send({ name: 'Updated Product', quantity: 15, unit_price: 12.99, version: 1 })
+        .expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: { resource: 'product', id: '1', expected_version: 1, actual_version: 2 }
+      });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('reports a conflict when a stock movement lands between the read and the write', async () => {
+      const audit = mockQuery();
+      mockTables({ products: mockQuery({ data: product }), product_audit: audit });
+      mockRpc({
+        update_product: {
+          error: sqlError('P0409', 'version conflict', { product_id: 1, expected_version: 1, actual_version: 2 })
+        }
+      });
+
+      const response = await request(app)
+        .put('/api/products/1')
+        .send({ name: 'Updated Product', quantity: 15, unit_price: 12.99, version: 1 })
+        .expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: { resource: 'product', id: '1', expected_version: 1, actual_version: 2 }
+      });
+      expect(audit.insert).not.toHaveBeenCalled();
+    });
+
+    it('applies the field edit and the quantity change in one call', async () => {
+      mockTables({ products: mockQuery({ data: product }), product_audit: mockQuery() });
+      mockRpc({ update_product: { data: { ...product, name: 'Updated Product', quantity: 15, version: 2 } } });
 
       const response = await request(app)
         .put('/api/products/1')
-        .send({
-          name: 'Updated Product',
-          sku: 'TEST-001',
-          category: 'Test Category',
-          quantity: 15,
-          unit_price: 12.99,
-          version: 1
-        })
+        .send({ name: 'Updated Product', quantity: 15, version: 1 })
+        .expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('update_product', expect.objectContaining({
+        p_product_id: '1',
+        p_expected_version: 1,
+        p_quantity: 15,
+        p_changes: expect.objectContaining({ name: 'Updated Product' })
+      }));
+      expect(response.body.data).toEqual([expect.objectContaining({ quantity: 15, version: 2 })]);
+    });
+  });
+
+  describe('POST /api/products/:id/movements - Optimistic Concurrency Failure', () => {
+    it('reports a conflict when the product changed since it was read', async () => {
+      mockRpc({
+        apply_stock_movement: {
+          error: sqlError('P0409', 'version conflict', { expected_version: 1, actual_version: 3 })
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: -2, reason: 'damage', version: 1 })
         .expect(409);
 
-      expect(response.body).toEqual({
-        error: {
-          code: 'NOT_FOUND',
-          message: 'product not found',
-          details: {
-            resource: 'product',
-            id: '1'
-          }
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: { resource: 'product', id: '1', expected_version: 1, actual_version: 3 }
+      });
+    });
+
+    it('reports stock that would go below zero', async () => {
+      mockRpc({
+        apply_stock_movement: {
+          error: sqlError('P0422', 'insufficient stock', { product_id: 1, available: 2, requested: 5 })
         }
       });
+
+      const response = await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: -5, reason: 'sale', version: 1 })
+        .expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'INSUFFICIENT_STOCK',
+        details: { id: '1', available: 2, requested: 5 }
+      });
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,332 @@
+import request from 'supertest';
+import express from 'express';
+import multer from 'multer';
+import { authenticateToken } from '../../middleware/auth';
+import { getImportJob, importCSV, rollbackImport } from '../../controllers/importController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.post('/api/import/csv', authenticateToken, multer({ storage: multer.memoryStorage() }).single('file'), importCSV);
+app.get('/api/import/:id', authenticateToken, getImportJob);
+app.post('/api/import/:id/rollback', authenticateToken, rollbackImport);
+
+const csv = Buffer.from('name,sku,category,quantity,unit_price\nGreen tea,TEA-2,Tea,12,15\n');
+
+const job = {
+  id: 'job-1',
+  filename: 'products.csv',
+  status: 'pending',
+  total_rows: 1,
+  processed_rows: 0,
+  successful_rows: 0,
+  failed_rows: 0,
+  results: null,
+  run: 1,
+  imported_by: 'staff-user-id',
+  created_at: '2025-08-14T10:00:00Z'
+};
+
+// The import runs after the response is sent; wait until it writes its final status
+const jobFinished = async (jobs: ReturnType<typeof mockQuery>) => {
+  for (let tick = 0; tick < 50; tick++) {
+    if (jobs.update.mock.calls.some(([fields]) => fields.status === 'completed' || fields.status === 'failed')) return;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  throw new Error('Import job did not finish');
+};
+
+describe('CSV import API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // The import controller reports failures with console.error rather than the request logger
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  describe('POST /api/import/csv', () => {
+    it('queues the file and imports its rows in the background', async () => {
+      const insert = mockQuery({ data: job });
+      const progress = mockQuery();
+      const changes = mockQuery();
+      mockTables({
+        import_logs: [mockQuery({ data: null }), insert, progress],
+        products: mockQuery({ data: null }),
+        product_audit: mockQuery(),
+        import_changes: changes
+      });
+      mockRpc({ create_product: { data: { id: '7', sku: 'TEA-2', name: 'Green tea', quantity: 12, unit_price: 15, version: 1 } } });
+
+      const response = await request(app)
+        .post('/api/import/csv')
+        .attach('file', csv, 'products.csv')
+        .expect(202);
+
+      expect(response.body).toMatchObject({ import_id: 'job-1', data: { status: 'pending', total_rows: 1 } });
+      expect(insert.insert).toHaveBeenCalledWith([expect.objectContaining({ status: 'pending', imported_by: 'staff-user-id' })]);
+
+      await jobFinished(progress);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_product', expect.objectContaining({ p_reason: 'import' }));
+      expect(changes.insert).toHaveBeenCalledWith([expect.objectContaining({ import_id: 'job-1', run: 1, operation: 'create', sku: 'TEA-2' })]);
+      expect(progress.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: 'completed',
+        processed_rows: 1,
+        successful_rows: 1,
+        results: [expect.objectContaining({ sku: 'TEA-2', status: 'created' })]
+      }));
+    });
+
+    it('drops the changes of a failed attempt and fails a row whose change cannot be recorded', async () => {
+      const rerun = mockQuery({ data: { ...job, status: 'failed' } });
+      const progress = mockQuery();
+      const cleared = mockQuery();
+      const recordFailure = mockQuery({ error: { message: 'insert failed' } });
+      mockTables({
+        import_logs: [mockQuery({ data: { ...job, status: 'failed' } }), rerun, progress],
+        products: mockQuery({ data: null }),
+        product_audit: mockQuery(),
+        import_changes: [cleared, recordFailure]
+      });
+      mockRpc({ create_product: { data: { id: '7', sku: 'TEA-2', name: 'Green tea', quantity: 12, unit_price: 15, version: 1 } } });
+
+      await request(app).post('/api/import/csv').attach('file', csv, 'products.csv').expect(202);
+      await jobFinished(progress);
+
+      expect(rerun.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending' }));
+      expect(cleared.delete).toHaveBeenCalled();
+      expect(cleared.eq).toHaveBeenCalledWith('import_id', 'job-1');
+      expect(recordFailure.insert).toHaveBeenCalled();
+      expect(progress.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: 'completed',
+        successful_rows: 0,
+        failed_rows: 1,
+        results: [expect.objectContaining({
+          sku: 'TEA-2',
+          status: 'error',
+          message: expect.stringContaining('rolling back this import will not undo this row')
+        })]
+      }));
+    });
+
+    it("records a re-run's changes under the next run number, the only one rollback undoes", async () => {
+      const rerun = mockQuery({ data: { ...job, status: 'pending', run: 2 } });
+      const progress = mockQuery();
+      const changes = mockQuery();
+      mockTables({
+        import_logs: [mockQuery({ data: { ...job, status: 'rolled_back' } }), rerun, progress],
+        products: mockQuery({ data: null }),
+        product_audit: mockQuery(),
+        import_changes: changes
+      });
+      mockRpc({ create_product: { data: { id: '7', sku: 'TEA-2', name: 'Green tea', quantity: 12, unit_price: 15, version: 1 } } });
+
+      await request(app).post('/api/import/csv').attach('file', csv, 'products.csv').expect(202);
+      await jobFinished(progress);
+
+      expect(rerun.update).toHaveBeenCalledWith(expect.objectContaining({ run: 2, rolled_back_at: null }));
+      expect(changes.insert).toHaveBeenCalledWith([expect.objectContaining({ import_id: 'job-1', run: 2, sku: 'TEA-2', version_after: 1 })]);
+    });
+
+    it('skips a row that changes nothing without writing the product', async () => {
+      const progress = mockQuery();
+      const changes = mockQuery();
+      mockTables({
+        import_logs: [mockQuery({ data: null }), mockQuery({ data: job }), progress],
+        products: mockQuery({
+          data: { id: '7', version: 3, name: 'Green tea', sku: 'TEA-2', category: 'Tea', quantity: 12, unit_price: 15, cost_price: null, archived_at: null }
+        }),
+        import_changes: changes
+      });
+
+      await request(app).post('/api/import/csv').attach('file', csv, 'products.csv').expect(202);
+      await jobFinished(progress);
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(changes.insert).not.toHaveBeenCalled();
+      expect(progress.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: 'completed',
+        successful_rows: 0,
+        failed_rows: 0,
+        results: [expect.objectContaining({ sku: 'TEA-2', status: 'skipped', message: 'No changes detected' })]
+      }));
+    });
+
+    it('returns the running job when the same file is uploaded again', async () => {
+      const jobs = mockQuery({ data: { ...job, status: 'processing' } });
+      mockTables({ import_logs: jobs });
+
+      const response = await request(app)
+        .post('/api/import/csv')
+        .attach('file', csv, 'products.csv')
+        .expect(202);
+
+      expect(response.body).toMatchObject({ message: 'File is already being imported', import_id: 'job-1' });
+      expect(jobs.insert).not.toHaveBeenCalled();
+      expect(jobs.update).not.toHaveBeenCalled();
+    });
+
+    it('previews a dry run without writing anything', async () => {
+      const jobs = mockQuery({ data: null });
+      const products = mockQuery({
+        data: { id: '7', version: 3, name: 'Green tea', sku: 'TEA-2', category: 'Tea', quantity: 4, unit_price: 10, cost_price: null, archived_at: null }
+      });
+      mockTables({ import_logs: jobs, products });
+
+      const response = await request(app)
+        .post('/api/import/csv?dryRun=true')
+        .attach('file', csv, 'products.csv')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        dry_run: true,
+        data: {
+          already_imported_id: null,
+          summary: { total_rows: 1, updated: 1 },
+          results: [{
+            sku: 'TEA-2',
+            status: 'updated',
+            message: 'Updated: quantity: 4 → 12; unit_price 10 → 15 will be submitted for approval',
+            data: { quantity: 12, unit_price: 10, version: 4 }
+          }]
+        }
+      });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(jobs.insert).not.toHaveBeenCalled();
+      expect(products.update).not.toHaveBeenCalled();
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('product_audit');
+    });
+    it('previews a new SKU listed for two locations as one create and an update', async () => {
+      signInAs('owner');
+      const products = mockQuery({ data: null });
+      mockTables({
+        import_logs: mockQuery({ data: null }),
+        locations: mockQuery({ data: [{ id: '1', name: 'Main store', code: 'MAIN' }, { id: '2', name: 'Annex', code: 'ANX' }] }),
+        products
+      });
+      const perLocation = Buffer.from('name,sku,category,quantity,unit_price,location\nGreen tea,TEA-2,Tea,12,15,MAIN\nGreen tea,TEA-2,Tea,5,15,ANX\n');
+
+      const response = await request(app)
+        .post('/api/import/csv?dryRun=true')
+        .attach('file', perLocation, 'products.csv')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        summary: { total_rows: 2, created: 1, updated: 1 },
+        results: [
+          { sku: 'TEA-2', status: 'created', message: 'Product will be created' },
+          { sku: 'TEA-2', status: 'updated', message: 'Updated: quantity (Annex): 0 → 5', data: { quantity: 17, version: 2 } }
+        ]
+      });
+      expect(products.eq).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/import/:id', () => {
+    it('reports progress and a summary of the row results', async () => {
+      mockTables({
+        import_logs: mockQuery({
+          data: {
+            ...job,
+            status: 'completed',
+            processed_rows: 2,
+            successful_rows: 1,
+            failed_rows: 1,
+            results: [
+              { row: 2, sku: 'TEA-2', status: 'created' },
+              { row: 3, sku: 'TEA-3', status: 'error', message: 'quantity: Quantity must be a valid integer' }
+            ]
+          }
+        })
+      });
+
+      const response = await request(app).get('/api/import/job-1').expect(200);
+
+      expect(response.body.data).toMatchObject({
+        status: 'completed',
+        processed_rows: 2,
+        summary: { created: 1, errors: 1 }
+      });
+    });
+
+    it("hides another user's import from staff", async () => {
+      mockTables({ import_logs: mockQuery({ data: { ...job, imported_by: 'someone-else' } }) });
+
+      await request(app).get('/api/import/job-1').expect(404);
+    });
+  });
+
+  describe('POST /api/import/:id/rollback', () => {
+    beforeEach(() => {
+      signInAs('owner');
+    });
+
+    it('undoes the import and audits every product it puts back', async () => {
+      const tea = { id: '7', sku: 'TEA-2', name: 'Green tea', category: 'Tea', quantity: 12, unit_price: 15, version: 2 };
+      const audit = mockQuery();
+      mockRpc({
+        rollback_import: {
+          data: [
+            { product_id: '7', operation: 'update', before: tea, after: { ...tea, unit_price: 10, version: 3 } },
+            { product_id: '8', operation: 'delete', before: { ...tea, id: '8', sku: 'TEA-3' }, after: null }
+          ]
+        }
+      });
+      mockTables({
+        product_audit: audit,
+        import_logs: mockQuery({ data: { ...job, status: 'rolled_back', rolled_back_at: '2025-08-15T09:00:00Z' } })
+      });
+
+      const response = await request(app).post('/api/import/job-1/rollback').expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('rollback_import', { p_import_id: 'job-1', p_actor: 'owner-user-id' });
+      expect(audit.insert).toHaveBeenCalledWith([expect.objectContaining({ product_id: '7', operation: 'update', source: 'import' })]);
+      expect(audit.insert).toHaveBeenCalledWith([expect.objectContaining({ product_id: '8', operation: 'delete', source: 'import' })]);
+      expect(response.body.data).toMatchObject({ status: 'rolled_back', restored: 1, removed: 1 });
+    });
+
+    it('lists every row that changed since the import instead of undoing any', async () => {
+      mockRpc({
+        rollback_import: {
+          error: sqlError('P0409', 'Import cannot be rolled back: some products changed after it', {
+            import_id: 'job-1',
+            rows: [
+              { row: 2, sku: 'TEA-2', product_id: 7, reason: 'Product was changed after the import', expected_version: 2, actual_version: 4 },
+              { row: 3, sku: 'TEA-3', product_id: 8, reason: 'Product was deleted after the import' }
+            ]
+          })
+        }
+      });
+
+      const response = await request(app).post('/api/import/job-1/rollback').expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: {
+          resource: 'import',
+          id: 'job-1',
+          rows: [
+            { row: 2, sku: 'TEA-2', expected_version: 2, actual_version: 4 },
+            { row: 3, sku: 'TEA-3', reason: 'Product was deleted after the import' }
+          ]
+        }
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('refuses to roll back an import that is still running', async () => {
+      mockRpc({
+        rollback_import: { error: sqlError('P0412', 'Only completed or failed imports can be rolled back', { status: 'processing' }) }
+      });
+
+      const response = await request(app).post('/api/import/job-1/rollback').expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { status: 'processing' } });
+    });
+  });
+});
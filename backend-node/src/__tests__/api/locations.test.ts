@@ -0,0 +1,95 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { deleteLocation } from '../../controllers/locationController';
+import { getProducts, updateProduct } from '../../controllers/productController';
+import { createStockMovement } from '../../controllers/stockMovementController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.get('/api/products', authenticateToken, getProducts);
+app.put('/api/products/:id', authenticateToken, updateProduct);
+app.post('/api/products/:id/movements', authenticateToken, createStockMovement);
+app.delete('/api/locations/:id', authenticateToken, deleteLocation);
+
+describe('Multi-location stock API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('owner');
+  });
+
+  it('lists a store\'s own stock rather than the chain total when filtered by location', async () => {
+    const products = mockQuery({
+      data: [{
+        id: '1', name: 'Tea', sku: 'TEA-1', quantity: 30, parent_id: null, parent: null,
+        location_stock: [{ location_id: '2', quantity: 4 }]
+      }],
+      count: 1
+    });
+    mockTables({ products, stock_on_order: mockQuery({ data: [{ sku: 'TEA-1', quantity: 6 }] }) });
+
+    const response = await request(app).get('/api/products?location_id=2').expect(200);
+
+    expect(products.eq).toHaveBeenCalledWith('location_stock.location_id', '2');
+    expect(response.body.data).toEqual([expect.objectContaining({ sku: 'TEA-1', quantity: 4, on_order: 6 })]);
+  });
+
+  it('books a movement against the given store', async () => {
+    mockRpc({ apply_stock_movement: { data: { id: '9', product_id: '1', delta: 5, location_id: '2' } } });
+
+    await request(app)
+      .post('/api/products/1/movements')
+      .send({ delta: 5, reason: 'purchase', location_id: '2', version: 3 })
+      .expect(201);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('apply_stock_movement', expect.objectContaining({
+      p_product_id: '1',
+      p_delta: 5,
+      p_location_id: '2',
+      p_expected_version: 3
+    }));
+  });
+
+  it('asks which store changed when a product stocked at several is given a new total', async () => {
+    const audit = mockQuery();
+    mockTables({ products: mockQuery({ data: { id: '1', name: 'Tea', quantity: 30, unit_price: 10, version: 3, archived_at: null } }), product_audit: audit });
+    mockRpc({
+      update_product: {
+        error: sqlError('P0412', 'Product is stocked at more than one location; give the location whose stock changed', {
+          product_id: 1,
+          field: 'location_id'
+        })
+      }
+    });
+
+    const response = await request(app).put('/api/products/1').send({ quantity: 25, version: 3 }).expect(409);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('update_product', expect.objectContaining({ p_quantity: 25, p_location_id: null }));
+    expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { field: 'location_id' } });
+    expect(audit.insert).not.toHaveBeenCalled();
+  });
+
+  it('keeps a location that has stock history', async () => {
+    const locations = mockQuery({ data: { id: '2', is_default: false } });
+    mockTables({ locations, stock_movements: mockQuery({ count: 12 }) });
+
+    const response = await request(app).delete('/api/locations/2').expect(400);
+
+    expect(response.body.error).toMatchObject({ code: 'VALIDATION_ERROR', details: { id: '2', movements: 12 } });
+    expect(locations.delete).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delete the default location', async () => {
+    mockTables({ locations: mockQuery({ data: { id: '1', is_default: true } }) });
+
+    const response = await request(app).delete('/api/locations/1').expect(400);
+
+    expect(response.body.error.message).toBe('The default location cannot be deleted');
+  });
+});
@@ -0,0 +1,109 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { getExpiringStock } from '../../controllers/lotController';
+import { createStockMovement } from '../../controllers/stockMovementController';
+import { receivePurchaseOrder } from '../../controllers/purchaseOrderController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.get('/api/products/expiring', authenticateToken, getExpiringStock);
+app.post('/api/products/:id/movements', authenticateToken, createStockMovement);
+app.post('/api/purchase-orders/:id/receive', authenticateToken, receivePurchaseOrder);
+
+describe('Stock lot API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  describe('GET /api/products/expiring', () => {
+    it('flags expired lots and values the stock at risk', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-08-14T06:00:00Z'));
+      const lots = mockQuery({
+        data: [
+          { id: '1', expiry_date: '2025-08-10', quantity: 3, product: { name: 'Milk', sku: 'MILK-1', category: 'Dairy', unit_price: 30 } },
+          { id: '2', expiry_date: '2025-08-20', quantity: 5, product: { name: 'Curd', sku: 'CURD-1', category: 'Dairy', unit_price: 40 } }
+        ]
+      });
+      mockTables({ stock_lots: lots });
+
+      const response = await request(app).get('/api/products/expiring?within=1w').expect(200);
+
+      expect(lots.lte).toHaveBeenCalledWith('expiry_date', '2025-08-21');
+      expect(response.body.data.map((lot: { id: string; days_to_expiry: number }) => [lot.id, lot.days_to_expiry]))
+        .toEqual([['1', -4], ['2', 6]]);
+      expect(response.body.summary).toEqual({ within_days: 7, lots: 2, expired_lots: 1, quantity: 8, value_at_risk: 290 });
+    });
+
+    it('rejects a window it cannot read', async () => {
+      await request(app).get('/api/products/expiring?within=soon').expect(400);
+
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inbound lots', () => {
+    it('passes the lot code and expiry of a stock receipt to the ledger', async () => {
+      signInAs('owner');
+      mockRpc({ apply_stock_movement: { data: { id: '9' } } });
+
+      await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: 12, reason: 'purchase', lot_code: 'B-42', expiry_date: '2025-12-31', unit_cost: 18 })
+        .expect(201);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('apply_stock_movement', expect.objectContaining({
+        p_delta: 12,
+        p_unit_cost: 18,
+        p_lot_code: 'B-42',
+        p_expiry_date: '2025-12-31'
+      }));
+    });
+
+    it('keeps costed receipts to owners', async () => {
+      const response = await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: 12, reason: 'purchase', lot_code: 'B-42', unit_cost: 0 })
+        .expect(403);
+
+      expect(response.body.error).toMatchObject({ code: 'PERMISSION_DENIED', details: { field: 'reason' } });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('stops staff from costing stock they count in', async () => {
+      const response = await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: 3, reason: 'adjustment', lot_code: 'B-43', unit_cost: 0 })
+        .expect(403);
+
+      expect(response.body.error.details.field).toBe('unit_cost');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('refuses lot details on stock going out', async () => {
+      const response = await request(app)
+        .post('/api/products/1/movements')
+        .send({ delta: -2, reason: 'damage', lot_code: 'B-42' })
+        .expect(400);
+
+      expect(response.body.error.details.field).toBe('delta');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('rejects a received line with a malformed expiry date', async () => {
+      await request(app)
+        .post('/api/purchase-orders/7/receive')
+        .send({ lines: [{ sku: 'MILK-1', quantity: 10, lot_code: 'B-7', expiry_date: '31/12/2025' }] })
+        .expect(400);
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { getLowStock } from '../../controllers/productController';
+import { mockQuery, mockTables, signInAs } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.get('/api/products/low-stock', authenticateToken, getLowStock);
+
+const stockRow = (sku: string, category: string, quantity: number, reorder_point: number | null) => ({
+  id: sku, name: sku, sku, category, quantity, unit_price: 10, cost_price: null, reorder_point, reorder_quantity: null
+});
+
+describe('GET /api/products/low-stock', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  it('uses the product\'s reorder point, then its category\'s, then the default', async () => {
+    mockTables({
+      products: mockQuery({
+        data: [
+          stockRow('OWN', 'Snacks', 8, 10),
+          stockRow('CATEGORY', 'Dairy', 15, null),
+          stockRow('DEFAULT', 'Other', 4, null),
+          stockRow('STOCKED', 'Other', 5, null)
+        ]
+      }),
+      category_settings: mockQuery({ data: [{ category: 'Dairy', reorder_point: 20 }] })
+    });
+
+    const response = await request(app).get('/api/products/low-stock').expect(200);
+
+    // Largest shortfall first; a product at exactly its reorder point is not low
+    expect(response.body.data.map((row: { sku: string; reorder_point_source: string; shortfall: number }) =>
+      [row.sku, row.reorder_point_source, row.shortfall]
+    )).toEqual([
+      ['CATEGORY', 'category', 5],
+      ['OWN', 'product', 2],
+      ['DEFAULT', 'default', 1]
+    ]);
+  });
+
+  it('measures a store against its own stock when given a location', async () => {
+    const stock = mockQuery({ data: [{ quantity: 1, product: stockRow('TEA-1', 'Tea', 40, 3) }] });
+    mockTables({ product_stock: stock, category_settings: mockQuery({ data: [] }) });
+
+    const response = await request(app).get('/api/products/low-stock?location_id=2').expect(200);
+
+    expect(stock.eq).toHaveBeenCalledWith('location_id', '2');
+    expect(response.body.data).toEqual([expect.objectContaining({ sku: 'TEA-1', quantity: 1, shortfall: 2 })]);
+  });
+});
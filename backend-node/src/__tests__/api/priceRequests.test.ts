@@ -0,0 +1,180 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { approvePriceRequest, createPriceRequest, rejectPriceRequest } from '../../controllers/priceRequestController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.post('/api/price-requests', authenticateToken, createPriceRequest);
+app.post('/api/price-requests/:id/approve', authenticateToken, approvePriceRequest);
+app.post('/api/price-requests/:id/reject', authenticateToken, rejectPriceRequest);
+
+describe('Price request API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  describe('POST /api/price-requests', () => {
+    beforeEach(() => {
+      signInAs('staff');
+    });
+
+    it('opens a request against the version the staff member saw', async () => {
+      const pending = mockQuery({ data: null });
+      const insert = mockQuery({ data: { id: '3', status: 'pending' } });
+      mockTables({
+        products: mockQuery({ data: { id: '1', unit_price: 10, version: 4 } }),
+        price_requests: [pending, insert]
+      });
+
+      const response = await request(app)
+        .post('/api/price-requests')
+        .send({ product_id: '1', requested_price: 12, version: 3 })
+        .expect(201);
+
+      expect(pending.eq).toHaveBeenCalledWith('requested_by', 'staff-user-id');
+      expect(insert.insert).toHaveBeenCalledWith([expect.objectContaining({
+        product_id: '1',
+        current_price: 10,
+        requested_price: 12,
+        base_version: 3
+      })]);
+      expect(response.body.data).toEqual({ id: '3', status: 'pending' });
+    });
+
+    it('rejects a request for the price the product already has', async () => {
+      mockTables({ products: mockQuery({ data: { id: '1', unit_price: 10, version: 4 } }) });
+
+      const response = await request(app)
+        .post('/api/price-requests')
+        .send({ product_id: '1', requested_price: 10 })
+        .expect(400);
+
+      expect(response.body.error.details.field).toBe('requested_price');
+    });
+  });
+
+  describe('POST /api/price-requests/:id/approve', () => {
+    beforeEach(() => {
+      signInAs('owner');
+    });
+
+    it('applies the price with the version the owner reviewed and audits the change', async () => {
+      const tea = { id: '1', name: 'Tea', unit_price: 10, version: 4 };
+      const audit = mockQuery();
+      mockTables({ product_audit: audit });
+      mockRpc({
+        approve_price_request: {
+          data: {
+            request: { id: '3', status: 'approved', product_id: '1' },
+            before: tea,
+            after: { ...tea, unit_price: 12, version: 5 }
+          }
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/price-requests/3/approve')
+        .send({ comment: 'ok', version: 4 })
+        .expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('approve_price_request', {
+        p_request_id: '3',
+        p_actor: 'owner-user-id',
+        p_expected_version: 4,
+        p_comment: 'ok'
+      });
+      expect(audit.insert).toHaveBeenCalledWith([expect.objectContaining({
+        product_id: '1',
+        source: 'price_request',
+        changes: { unit_price: { from: 10, to: 12 } }
+      })]);
+      expect(response.body.data).toEqual({ id: '3', status: 'approved', product_id: '1' });
+    });
+
+    it('needs the version the owner reviewed', async () => {
+      const response = await request(app).post('/api/price-requests/3/approve').send({ comment: 'ok' }).expect(400);
+
+      expect(response.body.error.details.field).toBe('version');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('reports a product edited after the request was made', async () => {
+      mockRpc({
+        approve_price_request: {
+          error: sqlError('P0409', 'version conflict', { product_id: 1, expected_version: 4, actual_version: 6 })
+        }
+      });
+
+      const response = await request(app).post('/api/price-requests/3/approve').send({ version: 4 }).expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: { resource: 'product', id: '1', expected_version: 4, actual_version: 6 }
+      });
+    });
+
+    it('refuses to approve a request that was already reviewed', async () => {
+      mockRpc({
+        approve_price_request: { error: sqlError('P0412', 'Only pending price requests can be approved', { status: 'rejected' }) }
+      });
+
+      const response = await request(app).post('/api/price-requests/3/approve').send({ version: 4 }).expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { status: 'rejected' } });
+    });
+
+    it('refuses to reprice a product in the recycle bin', async () => {
+      mockRpc({
+        approve_price_request: {
+          error: sqlError('P0412', 'Restore the product from the recycle bin before changing its price', {
+            product_id: 1,
+            archived_at: '2025-08-01T00:00:00Z'
+          })
+        }
+      });
+
+      const response = await request(app).post('/api/price-requests/3/approve').send({ version: 4 }).expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { product_id: 1 } });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/price-requests/:id/reject', () => {
+    beforeEach(() => {
+      signInAs('owner');
+    });
+
+    it('rejects a pending request', async () => {
+      const requests = mockQuery({ data: { id: '3', status: 'rejected', product_id: '1' } });
+      mockTables({ price_requests: requests });
+
+      await request(app).post('/api/price-requests/3/reject').send({ comment: 'too high' }).expect(200);
+
+      expect(requests.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'rejected',
+        reviewed_by: 'owner-user-id',
+        review_comment: 'too high'
+      }));
+      expect(requests.eq).toHaveBeenCalledWith('status', 'pending');
+    });
+
+    it('refuses to reject a request that was already approved', async () => {
+      mockTables({ price_requests: [mockQuery({ data: null }), mockQuery({ data: { status: 'approved' } })] });
+
+      const response = await request(app).post('/api/price-requests/3/reject').send({}).expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { id: '3', status: 'approved' } });
+    });
+
+    it('reports a request that does not exist', async () => {
+      mockTables({ price_requests: mockQuery({ data: null }) });
+
+      await request(app).post('/api/price-requests/99/reject').send({}).expect(404);
+    });
+  });
+});
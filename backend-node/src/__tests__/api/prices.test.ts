@@ -0,0 +1,81 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { getProductPrices, updateProduct } from '../../controllers/productController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.put('/api/products/:id', authenticateToken, updateProduct);
+app.get('/api/products/:id/prices', authenticateToken, getProductPrices);
+
+const product = { id: '1', name: 'Tea', sku: 'TEA-1', category: 'Tea', quantity: 4, unit_price: 10, cost_price: 6, archived_at: null, version: 2 };
+
+describe('Product price API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  describe('PUT /api/products/:id', () => {
+    it('stops staff from changing the cost price', async () => {
+      signInAs('staff');
+      mockTables({ products: mockQuery({ data: product }) });
+
+      const response = await request(app).put('/api/products/1').send({ cost_price: 7, version: 2 }).expect(403);
+
+      expect(response.body.error).toMatchObject({ code: 'PERMISSION_EDIT_PRICE', details: { field: 'cost_price' } });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('costs stock an owner adds at the new cost price', async () => {
+      signInAs('owner');
+      mockTables({ products: mockQuery({ data: product }), product_audit: mockQuery() });
+      mockRpc({ update_product: { data: { ...product, cost_price: 7, quantity: 10, version: 3 } } });
+
+      await request(app).put('/api/products/1').send({ cost_price: 7, quantity: 10, version: 2 }).expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('update_product', expect.objectContaining({
+        p_changes: expect.objectContaining({ cost_price: 7 }),
+        p_unit_cost: 7
+      }));
+    });
+
+    it('rejects a negative cost price', async () => {
+      signInAs('owner');
+      mockTables({ products: mockQuery({ data: product }) });
+
+      await request(app).put('/api/products/1').send({ cost_price: -1, version: 2 }).expect(400);
+    });
+  });
+
+  describe('GET /api/products/:id/prices', () => {
+    beforeEach(() => {
+      signInAs('staff');
+    });
+
+    it('returns the price history newest first with the current prices', async () => {
+      const prices = mockQuery({
+        data: [
+          { id: '8', cost_price: 6, selling_price: 10, created_at: '2025-08-10T00:00:00Z' },
+          { id: '5', cost_price: 5, selling_price: 9, created_at: '2025-07-01T00:00:00Z' }
+        ]
+      });
+      mockTables({ products: mockQuery({ data: { id: '1', cost_price: 6, selling_price: 10 } }), product_prices: prices });
+
+      const response = await request(app).get('/api/products/1/prices?limit=1000').expect(200);
+
+      expect(prices.order).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(prices.limit).toHaveBeenCalledWith(500);
+      expect(response.body.current).toEqual({ cost_price: 6, selling_price: 10 });
+      expect(response.body.data).toHaveLength(2);
+    });
+
+    it('reports a product that does not exist', async () => {
+      mockTables({ products: mockQuery({ error: { code: 'PGRST116', message: 'no rows' } }) });
+
+      await request(app).get('/api/products/99/prices').expect(404);
+    });
+  });
+});
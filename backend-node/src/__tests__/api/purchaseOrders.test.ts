@@ -0,0 +1,77 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { receivePurchaseOrder } from '../../controllers/purchaseOrderController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.post('/api/purchase-orders/:id/receive', authenticateToken, receivePurchaseOrder);
+
+describe('Purchase order receipt API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('owner');
+  });
+
+  it('books a partial receipt and returns the updated order', async () => {
+    mockRpc({ receive_purchase_order: {} });
+    mockTables({ purchase_orders: mockQuery({ data: { id: '7', status: 'partially_received' } }) });
+
+    const response = await request(app)
+      .post('/api/purchase-orders/7/receive')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 4, unit_cost: 2.5 }], versions: { 1: 2 } })
+      .expect(200);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('receive_purchase_order', {
+      p_purchase_order_id: '7',
+      p_actor: 'owner-user-id',
+      p_lines: [{ sku: 'TEA-1', quantity: 4, unit_cost: 2.5 }],
+      p_versions: { 1: 2 }
+    });
+    expect(response.body.data.status).toBe('partially_received');
+  });
+
+  it('reports a product edited since the order was opened', async () => {
+    mockRpc({
+      receive_purchase_order: {
+        error: sqlError('P0409', 'version conflict', { product_id: 1, expected_version: 2, actual_version: 5 })
+      }
+    });
+
+    const response = await request(app)
+      .post('/api/purchase-orders/7/receive')
+      .send({ versions: { 1: 2 } })
+      .expect(409);
+
+    expect(response.body.error).toMatchObject({
+      code: 'CONFLICT',
+      details: { resource: 'product', id: '1', expected_version: 2, actual_version: 5 }
+    });
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('refuses to receive an order that is already closed', async () => {
+    mockRpc({
+      receive_purchase_order: { error: sqlError('P0412', 'Purchase order is already received', { status: 'received' }) }
+    });
+
+    const response = await request(app).post('/api/purchase-orders/7/receive').send({}).expect(409);
+
+    expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { resource: 'purchase_order', id: '7' } });
+  });
+
+  it('rejects a line without a whole quantity', async () => {
+    await request(app)
+      .post('/api/purchase-orders/7/receive')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 1.5 }] })
+      .expect(400);
+
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,186 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { createReturn } from '../../controllers/returnController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.post('/api/returns', authenticateToken, createReturn);
+
+const recorded = { id: '5', credit_note_number: 'CN/2025-26/0001', sale_id: 11, total: 23.6, lines: [{ sku: 'TEA-1', quantity: 1 }] };
+
+describe('POST /api/returns', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  it('records a return against the original sale', async () => {
+    mockTables({
+      returns: [mockQuery({ data: null }), mockQuery({ data: recorded })],
+      products: mockQuery({ data: [{ id: '1', sku: 'TEA-1', archived_at: null }] })
+    });
+    mockRpc({ record_return: { data: { id: '5', credit_note_number: 'CN/2025-26/0001' } } });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ client_reference: 'till-1:r7', sale_id: 11, lines: [{ sku: 'TEA-1', quantity: 1, disposition: 'restock', version: 4 }] })
+      .expect(201);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('record_return', expect.objectContaining({
+      p_lines: [{ product_id: '1', quantity: 1, disposition: 'restock', version: 4 }],
+      p_actor: 'staff-user-id',
+      p_sale_id: 11,
+      p_client_reference: 'till-1:r7'
+    }));
+    expect(response.body.data).toEqual(recorded);
+  });
+
+  it('returns the recorded return when the offline queue replays it', async () => {
+    const existing = mockQuery({ data: { id: '5' } });
+    mockTables({ returns: [existing, mockQuery({ data: recorded })] });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ client_reference: 'till-1:r7', sale_id: 11, lines: [{ sku: 'TEA-1', quantity: 1, disposition: 'restock', version: 4 }] })
+      .expect(200);
+
+    expect(existing.eq).toHaveBeenCalledWith('client_reference', 'till-1:r7');
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    expect(response.body.data).toEqual(recorded);
+  });
+
+  it('reports every line that takes back more than was sold', async () => {
+    mockTables({
+      products: mockQuery({
+        data: [
+          { id: '1', sku: 'TEA-1', archived_at: null },
+          { id: '2', sku: 'MILK-1', archived_at: null }
+        ]
+      })
+    });
+    mockRpc({
+      record_return: {
+        error: sqlError('P0412', 'More returned than was sold', {
+          sale_id: 11,
+          lines: [
+            { line: 0, product_id: 1, sku: 'TEA-1', sold: 2, returned: 1, requested: 2 },
+            { line: 1, product_id: 2, sku: 'MILK-1', sold: 1, returned: 0, requested: 3 }
+          ]
+        })
+      }
+    });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({
+        sale_id: 11,
+        lines: [
+          { sku: 'TEA-1', quantity: 2, disposition: 'restock', version: 4 },
+          { sku: 'MILK-1', quantity: 3, disposition: 'damaged' }
+        ]
+      })
+      .expect(409);
+
+    expect(response.body.error).toMatchObject({
+      code: 'INVALID_STATE',
+      message: 'More returned than was sold',
+      details: {
+        sale_id: 11,
+        lines: [
+          { line: 0, sku: 'TEA-1', sold: 2, returned: 1, requested: 2 },
+          { line: 1, sku: 'MILK-1', sold: 1, returned: 0, requested: 3 }
+        ]
+      }
+    });
+  });
+
+  it('refuses a restock when the product changed since the clerk loaded it', async () => {
+    mockTables({ products: mockQuery({ data: [{ id: '1', sku: 'TEA-1', archived_at: null }] }) });
+    mockRpc({
+      record_return: {
+        error: sqlError('P0409', 'Stale update — product has changed', { product_id: 1, expected_version: 4, actual_version: 6 })
+      }
+    });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 1, disposition: 'restock', version: 4 }] })
+      .expect(409);
+
+    expect(response.body.error).toMatchObject({
+      code: 'CONFLICT',
+      details: { resource: 'product', id: '1', expected_version: 4, actual_version: 6 }
+    });
+  });
+
+  it('needs the product version to restock', async () => {
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ lines: [{ sku: 'MILK-1', quantity: 1, disposition: 'damaged' }, { sku: 'TEA-1', quantity: 1, disposition: 'restock' }] })
+      .expect(400);
+
+    expect(response.body.error.details.field).toBe('lines[1].version');
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('caps a return without its sale at what was sold and not yet returned', async () => {
+    mockTables({ products: mockQuery({ data: [{ id: '1', sku: 'TEA-1', archived_at: null }] }) });
+    mockRpc({
+      record_return: {
+        error: sqlError('P0412', 'More returned than was sold', {
+          sale_id: null,
+          lines: [{ line: 0, product_id: 1, sku: 'TEA-1', sold: 5, returned: 4, requested: 2 }]
+        })
+      }
+    });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 2, disposition: 'damaged' }] })
+      .expect(409);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('record_return', expect.objectContaining({ p_sale_id: null }));
+    expect(response.body.error).toMatchObject({
+      code: 'INVALID_STATE',
+      details: { sale_id: null, lines: [{ sku: 'TEA-1', sold: 5, returned: 4, requested: 2 }] }
+    });
+  });
+
+  it('rejects a line that is not an object', async () => {
+    const response = await request(app).post('/api/returns').send({ lines: [null] }).expect(400);
+
+    expect(response.body.error.details.field).toBe('lines[0]');
+  });
+
+  it('refuses to restock an archived product', async () => {
+    mockTables({ products: mockQuery({ data: [{ id: '1', sku: 'TEA-1', archived_at: '2025-08-01T00:00:00Z' }] }) });
+
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 1, disposition: 'restock', version: 4 }, { sku: 'GONE-1', quantity: 1, disposition: 'damaged' }] })
+      .expect(400);
+
+    expect(response.body.error.details.lines).toEqual([
+      expect.objectContaining({ line: 0, code: 'ARCHIVED' }),
+      expect.objectContaining({ line: 1, code: 'NOT_FOUND' })
+    ]);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('rejects the same SKU twice with the same disposition', async () => {
+    const response = await request(app)
+      .post('/api/returns')
+      .send({ lines: [{ sku: 'TEA-1', quantity: 1, disposition: 'restock', version: 4 }, { sku: 'TEA-1', quantity: 2, disposition: 'restock', version: 4 }] })
+      .expect(400);
+
+    expect(response.body.error.details.field).toBe('lines[1].sku');
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { createSale } from '../../controllers/saleController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.post('/api/sales', authenticateToken, createSale);
+
+const sale = { id: '11', client_reference: 'till-1:42', total: 20, lines: [{ product_id: '1', quantity: 2 }] };
+
+describe('POST /api/sales', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  it('records a sale and takes its lines out of stock', async () => {
+    mockTables({
+      sales: [mockQuery({ data: null }), mockQuery({ data: sale })],
+      products: mockQuery({ data: [{ id: '1', archived_at: null }] })
+    });
+    mockRpc({ record_sale: { data: { id: '11' } } });
+
+    const response = await request(app)
+      .post('/api/sales')
+      .send({ client_reference: 'till-1:42', lines: [{ product_id: '1', quantity: 2 }] })
+      .expect(201);
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('record_sale', expect.objectContaining({
+      p_lines: [{ product_id: '1', quantity: 2 }],
+      p_actor: 'staff-user-id',
+      p_client_reference: 'till-1:42'
+    }));
+    expect(response.body.data).toEqual(sale);
+  });
+
+  it('returns the recorded sale when the offline queue replays it', async () => {
+    const existing = mockQuery({ data: { id: '11' } });
+    mockTables({ sales: [existing, mockQuery({ data: sale })] });
+
+    const response = await request(app)
+      .post('/api/sales')
+      .send({ client_reference: 'till-1:42', lines: [{ product_id: '1', quantity: 2 }] })
+      .expect(200);
+
+    expect(existing.eq).toHaveBeenCalledWith('client_reference', 'till-1:42');
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    expect(response.body.data).toEqual(sale);
+  });
+
+  describe('offline sale time', () => {
+    beforeEach(() => {
+      mockTables({
+        sales: [mockQuery({ data: null }), mockQuery({ data: sale })],
+        products: mockQuery({ data: [{ id: '1', archived_at: null }] })
+      });
+      mockRpc({ record_sale: { data: { id: '11' } } });
+    });
+
+    it('keeps the time the sale was rung up', async () => {
+      await request(app)
+        .post('/api/sales')
+        .send({ client_reference: 'till-1:42', sold_at: '2025-08-14T10:30:00Z', lines: [{ product_id: '1', quantity: 2 }] })
+        .expect(201);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('record_sale', expect.objectContaining({
+        p_sold_at: '2025-08-14T10:30:00.000Z'
+      }));
+    });
+
+    it('never dates a sale in the future', async () => {
+      const before = Date.now();
+      await request(app)
+        .post('/api/sales')
+        .send({ client_reference: 'till-1:43', sold_at: '2999-01-01T00:00:00Z', lines: [{ product_id: '1', quantity: 2 }] })
+        .expect(201);
+
+      const soldAt = Date.parse(mockSupabase.rpc.mock.calls[0][1].p_sold_at);
+      expect(soldAt).toBeGreaterThanOrEqual(before);
+      expect(soldAt).toBeLessThanOrEqual(Date.now());
+    });
+  });
+
+  it('rejects a line that is not an object', async () => {
+    const response = await request(app)
+      .post('/api/sales')
+      .send({ lines: [{ product_id: '1', quantity: 1 }, null] })
+      .expect(400);
+
+    expect(response.body.error).toMatchObject({ code: 'VALIDATION_ERROR', details: { field: 'lines[1]' } });
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('reports every line that cannot be sold at once', async () => {
+    mockTables({ products: mockQuery({ data: [{ id: '1', archived_at: '2025-08-01T00:00:00Z' }] }) });
+
+    const response = await request(app)
+      .post('/api/sales')
+      .send({ lines: [{ product_id: '1', quantity: 1 }, { product_id: '2', quantity: 1 }] })
+      .expect(400);
+
+    expect(response.body.error.details.lines).toEqual([
+      expect.objectContaining({ line: 0, code: 'ARCHIVED' }),
+      expect.objectContaining({ line: 1, code: 'NOT_FOUND' })
+    ]);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('reports every short line when stock has run out', async () => {
+    mockTables({ products: mockQuery({ data: [{ id: '1', archived_at: null }] }) });
+    mockRpc({
+      record_sale: {
+        error: sqlError('P0422', 'insufficient stock', { lines: [{ line: 0, product_id: 1, available: 1, requested: 2 }] })
+      }
+    });
+
+    const response = await request(app)
+      .post('/api/sales')
+      .send({ lines: [{ product_id: '1', quantity: 2 }] })
+      .expect(409);
+
+    expect(response.body.error).toMatchObject({
+      code: 'INSUFFICIENT_STOCK',
+      details: { lines: [{ line: 0, available: 1, requested: 2 }] }
+    });
+  });
+});
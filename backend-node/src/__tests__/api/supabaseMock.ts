@@ -0,0 +1,73 @@
+import { NextFunction, Request, Response } from 'express';
+import { supabase } from '../../config/database';
+import { authenticateToken } from '../../middleware/auth';
+
+interface QueryResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+export type MockQuery = Record<string, jest.Mock> & PromiseLike<Required<QueryResult>>;
+
+const CHAIN_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'in', 'is', 'not', 'or', 'gt', 'gte', 'lt', 'lte', 'ilike',
+  'order', 'limit', 'range'
+];
+
+export const mockSupabase = supabase as unknown as { from: jest.Mock; rpc: jest.Mock };
+
+// Stands in for a Supabase query builder: filters chain, and awaiting it, .single() or
+// .maybeSingle() yields the result
+export const mockQuery = (result: QueryResult = {}): MockQuery => {
+  const response = { data: null, error: null, count: null, ...result };
+  const query = {} as MockQuery;
+
+  CHAIN_METHODS.forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.single = jest.fn(() => Promise.resolve(response));
+  query.maybeSingle = jest.fn(() => Promise.resolve(response));
+  Object.assign(query, {
+    then: (resolve: (value: typeof response) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(response).then(resolve, reject)
+  });
+
+  return query;
+};
+
+// Serves each table its queries in call order (the last one repeats); any other table fails the test
+export const mockTables = (tables: Record<string, MockQuery | MockQuery[]>) => {
+  const queues = new Map(Object.entries(tables).map(([table, queries]) => [table, ([] as MockQuery[]).concat(queries)]));
+
+  mockSupabase.from.mockImplementation((table: string) => {
+    const queue = queues.get(table);
+    if (!queue) throw new Error(`Unexpected query on ${table}`);
+    return queue.length > 1 ? queue.shift() : queue[0];
+  });
+};
+
+// Answers each SQL function by name; unlisted functions fail the test
+export const mockRpc = (functions: Record<string, QueryResult>) => {
+  mockSupabase.rpc.mockImplementation((name: string) => {
+    if (!(name in functions)) throw new Error(`Unexpected call to ${name}`);
+    return Promise.resolve({ data: null, error: null, ...functions[name] });
+  });
+};
+
+// The error PostgREST reports when a SQL function raises with our custom SQLSTATEs
+export const sqlError = (code: string, message: string, details?: Record<string, unknown>) => ({
+  code,
+  message,
+  details: details ? JSON.stringify(details) : null,
+  hint: null
+});
+
+// Makes the (auto-mocked) auth middleware sign every request in with the given role
+export const signInAs = (role: 'owner' | 'staff') => {
+  (authenticateToken as jest.Mock).mockImplementation((req: Request, _res: Response, next: NextFunction) => {
+    req.user = { id: `${role}-user-id`, email: `${role}@example.com`, role };
+    next();
+  });
+};
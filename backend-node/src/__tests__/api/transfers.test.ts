@@ -0,0 +1,138 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateToken } from '../../middleware/auth';
+import { cancelTransfer, dispatchTransfer, getTransfers, receiveTransfer } from '../../controllers/transferController';
+import { mockQuery, mockRpc, mockSupabase, mockTables, signInAs, sqlError } from './supabaseMock';
+
+jest.mock('../../middleware/auth');
+
+const app = express();
+app.use(express.json());
+app.get('/api/transfers', authenticateToken, getTransfers);
+app.post('/api/transfers/:id/dispatch', authenticateToken, dispatchTransfer);
+app.post('/api/transfers/:id/receive', authenticateToken, receiveTransfer);
+app.post('/api/transfers/:id/cancel', authenticateToken, cancelTransfer);
+
+describe('Stock transfer API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    signInAs('staff');
+  });
+
+  describe('POST /api/transfers/:id/dispatch', () => {
+    it('dispatches with the product versions the user saw', async () => {
+      mockRpc({ dispatch_stock_transfer: { data: { id: '5', status: 'dispatched' } } });
+
+      const response = await request(app)
+        .post('/api/transfers/5/dispatch')
+        .send({ versions: { 1: 3 } })
+        .expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('dispatch_stock_transfer', {
+        p_transfer_id: '5',
+        p_actor: 'staff-user-id',
+        p_versions: { 1: 3 }
+      });
+      expect(response.body.data.status).toBe('dispatched');
+    });
+
+    it('reports a product that changed since the transfer was opened', async () => {
+      mockRpc({
+        dispatch_stock_transfer: {
+          error: sqlError('P0409', 'version conflict', { product_id: 1, expected_version: 3, actual_version: 4 })
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/transfers/5/dispatch')
+        .send({ versions: { 1: 3 } })
+        .expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CONFLICT',
+        details: { resource: 'product', id: '1', expected_version: 3, actual_version: 4 }
+      });
+    });
+
+    it('reports source stock that has run short', async () => {
+      mockRpc({
+        dispatch_stock_transfer: {
+          error: sqlError('P0422', 'insufficient stock', { product_id: 1, available: 2, requested: 5 })
+        }
+      });
+
+      const response = await request(app).post('/api/transfers/5/dispatch').send({}).expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INSUFFICIENT_STOCK', details: { id: '1', available: 2, requested: 5 } });
+    });
+
+    it('rejects versions that are not integers', async () => {
+      await request(app)
+        .post('/api/transfers/5/dispatch')
+        .send({ versions: { 1: 'three' } })
+        .expect(400);
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/transfers/:id/receive', () => {
+    it('receives a partial delivery line by line', async () => {
+      mockRpc({ receive_stock_transfer: { data: { id: '5', status: 'partially_received' } } });
+
+      const response = await request(app)
+        .post('/api/transfers/5/receive')
+        .send({ lines: [{ product_id: '1', quantity: 2 }] })
+        .expect(200);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('receive_stock_transfer', expect.objectContaining({
+        p_transfer_id: '5',
+        p_lines: [{ product_id: '1', quantity: 2 }]
+      }));
+      expect(response.body.data.status).toBe('partially_received');
+    });
+
+    it('refuses to receive a transfer that was never dispatched', async () => {
+      mockRpc({
+        receive_stock_transfer: { error: sqlError('P0412', 'Only dispatched transfers can be received', { status: 'draft' }) }
+      });
+
+      const response = await request(app).post('/api/transfers/5/receive').send({}).expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { id: '5', status: 'draft' } });
+    });
+
+    it('rejects negative received quantities', async () => {
+      await request(app)
+        .post('/api/transfers/5/receive')
+        .send({ lines: [{ product_id: '1', quantity: -1 }] })
+        .expect(400);
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/transfers/:id/cancel', () => {
+    it('only cancels drafts', async () => {
+      mockTables({ stock_transfers: [mockQuery({ data: null }), mockQuery({ data: { status: 'dispatched' } })] });
+
+      const response = await request(app).post('/api/transfers/5/cancel').expect(409);
+
+      expect(response.body.error).toMatchObject({ code: 'INVALID_STATE', details: { status: 'dispatched' } });
+    });
+  });
+
+  describe('GET /api/transfers', () => {
+    it('rejects a location_id that is not an id before filtering', async () => {
+      const transfers = mockQuery({ data: [] });
+      mockTables({ stock_transfers: transfers });
+
+      await request(app).get('/api/transfers?location_id=1,status.eq.draft').expect(400);
+
+      expect(transfers.or).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -24,6 +24,7 @@ jest.mock('../config/database', () => ({
         eq: jest.fn(),
       })),
     })),
+    rpc: jest.fn(),
   },
 }));
 
@@ -0,0 +1,50 @@
+import { diffProduct } from '../../utils/audit';
+
+describe('diffProduct', () => {
+  const product = {
+    id: '1',
+    name: 'Milk 1L',
+    sku: 'MILK-1L',
+    category: 'Dairy',
+    quantity: 10,
+    unit_price: '2.50',
+    reorder_point: null,
+    version: 3
+  };
+
+  it('records only the audited fields that changed', () => {
+    const after = { ...product, quantity: 7, version: 4, updated_at: 'later' };
+    expect(diffProduct(product, after)).toEqual({ quantity: { from: 10, to: 7 } });
+  });
+
+  it('treats numeric strings and numbers as the same value', () => {
+    expect(diffProduct(product, { ...product, unit_price: 2.5 })).toEqual({});
+    expect(diffProduct(product, { ...product, unit_price: 2.75 }))
+      .toEqual({ unit_price: { from: 2.5, to: 2.75 } });
+  });
+
+  it('keeps leading zeros in codes', () => {
+    expect(diffProduct({ ...product, barcode: null }, { ...product, barcode: '036000291452' }))
+      .toEqual({ barcode: { from: null, to: '036000291452' } });
+  });
+
+  it('compares variant values by content and ignores empty ones', () => {
+    const variant = { ...product, parent_id: 4, variant_values: { size: '1L' } };
+    expect(diffProduct(variant, { ...variant, variant_values: { size: '1L' } })).toEqual({});
+    expect(diffProduct({ ...product, variant_values: {} }, variant)).toEqual({
+      parent_id: { from: null, to: 4 },
+      variant_values: { from: null, to: '{"size":"1L"}' }
+    });
+  });
+
+  it('diffs against nothing for creates and deletes', () => {
+    expect(diffProduct(null, product)).toEqual({
+      name: { from: null, to: 'Milk 1L' },
+      sku: { from: null, to: 'MILK-1L' },
+      category: { from: null, to: 'Dairy' },
+      quantity: { from: null, to: 10 },
+      unit_price: { from: null, to: 2.5 }
+    });
+    expect(diffProduct(product, null).name).toEqual({ from: 'Milk 1L', to: null });
+  });
+});
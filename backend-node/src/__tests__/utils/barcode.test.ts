@@ -0,0 +1,69 @@
+import { code128Values, encodeCode128, encodeEan, gtinCheckDigit, gtinVariants, isValidGtin } from '../../utils/barcode';
+
+describe('isValidGtin', () => {
+  it('accepts EAN-8, UPC-A, EAN-13 and GTIN-14 codes with a matching check digit', () => {
+    expect(gtinCheckDigit('400638133393')).toBe(1);
+    expect(['96385074', '036000291452', '4006381333931', '10012345678902'].every(isValidGtin)).toBe(true);
+  });
+
+  it('rejects mistyped, short and non-numeric codes', () => {
+    expect(['4006381333932', '036000291453', '1234567', '40063813339310', '4OO6381333931', 4006381333931]
+      .some(isValidGtin)).toBe(false);
+  });
+});
+
+describe('gtinVariants', () => {
+  it('lists a UPC-A with the leading zeros scanners add for EAN-13 and GTIN-14', () => {
+    expect(gtinVariants('036000291452')).toEqual(['036000291452', '0036000291452', '00036000291452']);
+    expect(gtinVariants('0036000291452')).toEqual(gtinVariants('036000291452'));
+  });
+
+  it('pads EAN-8 codes to every longer length', () => {
+    expect(gtinVariants('96385074')).toEqual(['96385074', '000096385074', '0000096385074', '00000096385074']);
+  });
+});
+
+describe('encodeEan', () => {
+  it('draws an EAN-13 as 95 modules between guard bars', () => {
+    const modules = encodeEan('4006381333931');
+    expect(modules).toHaveLength(95);
+    expect(modules.slice(0, 3)).toBe('101');
+    expect(modules.slice(45, 50)).toBe('01010');
+    expect(modules.slice(-3)).toBe('101');
+    // First digit 4 sets the parity LGLLGG; 0 in L is 0001101, 0 in G is 0100111
+    expect(modules.slice(3, 10)).toBe('0001101');
+    expect(modules.slice(10, 17)).toBe('0100111');
+  });
+
+  it('prints a UPC-A with the same bars as its EAN-13 form', () => {
+    expect(encodeEan('036000291452')).toBe(encodeEan('0036000291452'));
+  });
+
+  it('draws an EAN-8 as 67 modules and refuses codes that are not EAN', () => {
+    expect(encodeEan('96385074')).toHaveLength(67);
+    expect(() => encodeEan('10012345678902')).toThrow();
+    expect(() => encodeEan('4006381333932')).toThrow();
+  });
+});
+
+describe('encodeCode128', () => {
+  it('adds the weighted modulo-103 check symbol', () => {
+    expect(code128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+  });
+
+  it('packs even-length digit strings two per symbol in set C', () => {
+    expect(code128Values('1234')).toEqual([105, 12, 34, (105 + 12 + 34 * 2) % 103, 106]);
+  });
+
+  it('draws 11 modules per symbol plus a 13-module stop, starting and ending on a bar', () => {
+    const modules = encodeCode128('SKU-001');
+    expect(modules).toHaveLength(11 * 9 + 13);
+    expect(modules[0]).toBe('1');
+    expect(modules[modules.length - 1]).toBe('1');
+  });
+
+  it('rejects text outside printable ASCII', () => {
+    expect(() => encodeCode128('')).toThrow();
+    expect(() => encodeCode128('Café')).toThrow();
+  });
+});
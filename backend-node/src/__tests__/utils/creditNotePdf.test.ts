@@ -0,0 +1,72 @@
+import { CreditNoteDocument, renderCreditNotePdf } from '../../utils/creditNotePdf';
+
+const note = (overrides: Partial<CreditNoteDocument>): CreditNoteDocument => ({
+  credit_note_number: 'CN/2025-26/00001',
+  return_date: '2025-08-14',
+  sale_id: 7,
+  invoice_number: null,
+  reason: null,
+  seller_name: 'Corner Store',
+  seller_address: null,
+  seller_gstin: null,
+  supply_type: null,
+  taxable_value: 200,
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 0,
+  total: 200,
+  lines: [{
+    sku: 'TEA-1',
+    description: 'Tea',
+    quantity: 2,
+    disposition: 'restock',
+    unit_price: 100,
+    taxable_value: 200,
+    gst_rate: null,
+    cgst_amount: 0,
+    sgst_amount: 0,
+    igst_amount: 0,
+    line_total: 200
+  }],
+  ...overrides
+});
+
+const render = (document: CreditNoteDocument) => renderCreditNotePdf(document).buffer.toString('latin1');
+
+describe('renderCreditNotePdf', () => {
+  it('reverses CGST and SGST for a return against an intra-state invoice', () => {
+    const output = render(note({
+      invoice_number: '2025-26/00003',
+      supply_type: 'intra_state',
+      cgst_amount: 18,
+      sgst_amount: 18,
+      total: 236,
+      lines: [{ ...note({}).lines[0], gst_rate: 18, cgst_amount: 18, sgst_amount: 18, line_total: 236 }]
+    }));
+
+    expect(output).toContain('(CGST reversed) Tj');
+    expect(output).toContain('(SGST reversed) Tj');
+    expect(output).not.toContain('(IGST reversed) Tj');
+    expect(output).toContain('(Rs. 236.00) Tj');
+  });
+
+  it('reverses IGST for a return against an inter-state invoice', () => {
+    const output = render(note({
+      invoice_number: '2025-26/00003',
+      supply_type: 'inter_state',
+      igst_amount: 36,
+      total: 236,
+      lines: [{ ...note({}).lines[0], gst_rate: 18, igst_amount: 36, line_total: 236 }]
+    }));
+
+    expect(output).toContain('(IGST reversed) Tj');
+    expect(output).not.toContain('(CGST reversed) Tj');
+  });
+
+  it('leaves GST off returns that were never invoiced', () => {
+    const output = render(note({}));
+
+    expect(output).not.toContain('(Taxable value) Tj');
+    expect(output).toContain('(TEA-1) Tj');
+  });
+});
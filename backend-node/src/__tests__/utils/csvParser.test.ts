@@ -0,0 +1,75 @@
+import { createCsvParser, CsvParseError, parseCsvStream } from '../../utils/csvParser';
+
+const parse = (content: string) => {
+  const parser = createCsvParser();
+  return [...parser.push(content), ...parser.end()];
+};
+
+const collect = async (chunks: (string | Buffer)[]) => {
+  const records = [];
+  for await (const record of parseCsvStream(chunks)) records.push(record);
+  return records;
+};
+
+describe('createCsvParser', () => {
+  it('splits fields and records, keeping the line each record starts on', () => {
+    expect(parse('name,sku\nMilk,MILK-1L\n')).toEqual([
+      { fields: ['name', 'sku'], line: 1 },
+      { fields: ['Milk', 'MILK-1L'], line: 2 }
+    ]);
+  });
+
+  it('reads quoted commas, escaped quotes and line breaks inside quotes', () => {
+    const records = parse('name,note\n"Cola, 500ml","He said ""hi""\nthen left"\nTea,x\n');
+    expect(records).toEqual([
+      { fields: ['name', 'note'], line: 1 },
+      { fields: ['Cola, 500ml', 'He said "hi"\nthen left'], line: 2 },
+      { fields: ['Tea', 'x'], line: 4 }
+    ]);
+  });
+
+  it('handles CRLF and lone CR line endings, a BOM, empty lines and a missing final newline', () => {
+    expect(parse('\uFEFFa,b\r\n\r\n1,2\r3,"4\r\n5"\n\n6,')).toEqual([
+      { fields: ['a', 'b'], line: 1 },
+      { fields: ['1', '2'], line: 3 },
+      { fields: ['3', '4\r\n5'], line: 4 },
+      { fields: ['6', ''], line: 7 }
+    ]);
+  });
+
+  it('keeps empty and quoted-empty fields and does not trim', () => {
+    expect(parse(',"", x \n')).toEqual([{ fields: ['', '', ' x '], line: 1 }]);
+  });
+
+  it('reports the line and column of a stray quote or text after a closing quote', () => {
+    expect(() => parse('a,b\nab"c,d\n')).toThrow(new CsvParseError('Unexpected quote in an unquoted field (quote the whole field and double the quote)', 2, 3));
+    try {
+      parse('a,b\n"x"y,z\n');
+      fail('expected a parse error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CsvParseError);
+      expect(error).toMatchObject({ line: 2, column: 4 });
+    }
+  });
+
+  it('reports where an unclosed quoted field opened', () => {
+    const parser = createCsvParser();
+    parser.push('a,b\n1,"open\n2,3\n');
+    expect(() => parser.end()).toThrow(expect.objectContaining({ line: 2, column: 3 }));
+  });
+});
+
+describe('parseCsvStream', () => {
+  it('gives the same records however the input is chunked', async () => {
+    const content = 'name,note\r\n"Café, ""best""","x\r\ny"\r\n';
+    const bytes = Buffer.from(content, 'utf8');
+    const oneByteChunks = Array.from(bytes, byte => Buffer.from([byte]));
+
+    const whole = await collect([bytes]);
+    expect(whole).toEqual([
+      { fields: ['name', 'note'], line: 1 },
+      { fields: ['Café, "best"', 'x\r\ny'], line: 2 }
+    ]);
+    expect(await collect(oneByteChunks)).toEqual(whole);
+  });
+});
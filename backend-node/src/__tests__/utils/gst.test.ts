@@ -0,0 +1,39 @@
+import { amountInWords, gstinCheckCharacter, isValidGstin, isValidGstRate, isValidHsnCode } from '../../utils/gst';
+
+describe('isValidGstin', () => {
+  it('accepts a GSTIN with a matching check character', () => {
+    expect(gstinCheckCharacter('27AAPFU0939F1ZV')).toBe('V');
+    expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true);
+  });
+
+  it('rejects a mistyped GSTIN', () => {
+    expect(isValidGstin('27AAPFU0939F1ZX')).toBe(false);
+    expect(isValidGstin('27aapfu0939f1zv')).toBe(false);
+    expect(isValidGstin('99AAPFU0939F1ZV')).toBe(false);
+  });
+});
+
+describe('HSN codes and GST rates', () => {
+  it('accepts 4, 6 and 8 digit HSN codes', () => {
+    expect(['0401', '040110', '04011010'].every(isValidHsnCode)).toBe(true);
+    expect(['401', '04011', '040110100', '04O1'].some(isValidHsnCode)).toBe(false);
+  });
+
+  it('accepts percentages with at most two decimals', () => {
+    expect([0, 0.25, 5, 18, 28].every(isValidGstRate)).toBe(true);
+    expect([-1, 101, 0.125, '18'].some(isValidGstRate)).toBe(false);
+  });
+});
+
+describe('amountInWords', () => {
+  it('spells rupees in lakh and crore', () => {
+    expect(amountInWords(12345678)).toBe(
+      'Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only'
+    );
+  });
+
+  it('adds paise when there are any', () => {
+    expect(amountInWords(1180.5)).toBe('Rupees One Thousand One Hundred Eighty and Fifty Paise Only');
+    expect(amountInWords(0)).toBe('Rupees Zero Only');
+  });
+});
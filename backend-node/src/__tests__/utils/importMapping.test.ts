@@ -0,0 +1,37 @@
+import { applyColumnMapping, duplicateColumns, normalizeColumnMapping } from '../../utils/importMapping';
+
+describe('normalizeColumnMapping', () => {
+  it('lower-cases source columns and treats blank targets as ignored', () => {
+    expect(normalizeColumnMapping({ ' Item Name ': 'name', Barcode: '', Notes: null })).toEqual({
+      'item name': 'name',
+      barcode: null,
+      notes: null
+    });
+  });
+
+  it('rejects unknown fields, a field mapped twice and non-objects', () => {
+    expect(normalizeColumnMapping({ Colour: 'colour' })).toBeNull();
+    expect(normalizeColumnMapping({ Qty: 'quantity', Stock: 'quantity' })).toBeNull();
+    expect(normalizeColumnMapping({ Qty: 5 })).toBeNull();
+    expect(normalizeColumnMapping(['name'])).toBeNull();
+    expect(normalizeColumnMapping('name')).toBeNull();
+  });
+
+  it('rejects source columns that collide once lower-cased', () => {
+    expect(normalizeColumnMapping({ Qty: 'quantity', QTY: null })).toBeNull();
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('renames mapped columns, blanks ignored ones and keeps the rest', () => {
+    const mapping = { 'item name': 'name', mrp: 'unit_price', notes: null };
+    expect(applyColumnMapping(['item name', 'sku', 'mrp', 'notes'], mapping)).toEqual(['name', 'sku', 'unit_price', '']);
+  });
+});
+
+describe('duplicateColumns', () => {
+  it('lists fields filled by more than one column, ignoring blanked columns', () => {
+    expect(duplicateColumns(['name', 'sku', 'name', '', ''])).toEqual(['name']);
+    expect(duplicateColumns(['name', 'sku'])).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+import { createPdfDocument, textWidth } from '../../utils/pdf';
+
+describe('createPdfDocument', () => {
+  it('prints Latin-1 text in WinAnsiEncoding', () => {
+    const pdf = createPdfDocument();
+    pdf.addPage();
+    pdf.text(10, 10, 'Café Müller – ₹ 10');
+
+    const output = pdf.toBuffer();
+    expect(output.includes(Buffer.from('(Caf\xe9 M\xfcller \x96 Rs. 10) Tj', 'latin1'))).toBe(true);
+    expect(pdf.unrenderedText()).toEqual([]);
+  });
+
+  it('reports text the standard fonts cannot show', () => {
+    const pdf = createPdfDocument();
+    pdf.addPage();
+    pdf.text(10, 10, 'चाय पत्ती');
+    pdf.text(10, 30, 'Tea');
+    pdf.text(10, 50, 'चाय पत्ती');
+
+    expect(pdf.toBuffer().toString('latin1')).toContain('(??? ?????) Tj');
+    expect(pdf.unrenderedText()).toEqual(['चाय पत्ती']);
+  });
+});
+
+describe('textWidth', () => {
+  it('measures accented letters like their base letter', () => {
+    expect(textWidth('é', 10)).toBe(textWidth('e', 10));
+    expect(textWidth('Ä', 10, true)).toBe(textWidth('A', 10, true));
+  });
+});
@@ -0,0 +1,40 @@
+import { suggestReorder, resolveReorderPoint, DEFAULT_REORDER_POINT } from '../../utils/reorder';
+
+describe('resolveReorderPoint', () => {
+  const categoryPoints = new Map([['Dairy', 20]]);
+
+  it('prefers the product reorder point over the category default', () => {
+    expect(resolveReorderPoint({ category: 'Dairy', reorder_point: 3 }, categoryPoints))
+      .toEqual({ reorderPoint: 3, source: 'product' });
+  });
+
+  it('falls back to the category default, then the global default', () => {
+    expect(resolveReorderPoint({ category: 'Dairy', reorder_point: null }, categoryPoints))
+      .toEqual({ reorderPoint: 20, source: 'category' });
+    expect(resolveReorderPoint({ category: 'Snacks' }, categoryPoints))
+      .toEqual({ reorderPoint: DEFAULT_REORDER_POINT, source: 'default' });
+  });
+});
+
+describe('suggestReorder', () => {
+  const base = { quantity: 10, onOrder: 0, outflow: 60, observedDays: 30, coverDays: 14, reorderPoint: 0 };
+
+  it('orders enough to cover the requested days of average outflow', () => {
+    // 2/day * 14 days = 28, minus 10 on hand
+    expect(suggestReorder(base)).toEqual({ dailyOutflow: 2, daysOfCover: 5, suggestedQuantity: 18 });
+  });
+
+  it('counts stock already on order', () => {
+    expect(suggestReorder({ ...base, onOrder: 20 }).suggestedQuantity).toBe(0);
+  });
+
+  it('tops up to the reorder point when nothing is moving', () => {
+    const suggestion = suggestReorder({ ...base, quantity: 2, outflow: 0, reorderPoint: 5 });
+    expect(suggestion).toEqual({ dailyOutflow: 0, daysOfCover: null, suggestedQuantity: 3 });
+  });
+
+  it('treats reorder quantity as a minimum order size', () => {
+    expect(suggestReorder({ ...base, reorderQuantity: 24 }).suggestedQuantity).toBe(24);
+    expect(suggestReorder({ ...base, onOrder: 20, reorderQuantity: 24 }).suggestedQuantity).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+import { buildStatement, StatementEntry } from '../../utils/statement';
+
+const entries: StatementEntry[] = [
+  { id: 1, entry_type: 'credit_sale', amount: '250.00', entry_date: '2025-07-02T10:00:00+00:00', sale_id: 11, due_date: '2025-08-01' },
+  { id: 2, entry_type: 'payment', amount: '-100.00', entry_date: '2025-07-20T09:00:00+00:00', payment_method: 'upi' },
+  { id: 3, entry_type: 'credit_sale', amount: '80.50', entry_date: '2025-08-03T12:30:00+00:00', sale_id: 15, due_date: '2025-09-02', note: 'Festival order' },
+  { id: 4, entry_type: 'payment', amount: '-50.00', entry_date: '2025-08-20T08:00:00+00:00', payment_method: 'cash' }
+];
+
+describe('buildStatement', () => {
+  it('lists every entry with a running balance when no dates are given', () => {
+    const statement = buildStatement(entries);
+
+    expect(statement.opening_balance).toBe(0);
+    expect(statement.lines.map(line => line.balance)).toEqual([250, 150, 230.5, 180.5]);
+    expect(statement.total_debits).toBe(330.5);
+    expect(statement.total_credits).toBe(150);
+    expect(statement.closing_balance).toBe(180.5);
+  });
+
+  it('rolls earlier entries into the opening balance and stops after the end date', () => {
+    const statement = buildStatement(entries, '2025-08-01', '2025-08-03');
+
+    expect(statement.opening_balance).toBe(150);
+    expect(statement.lines).toHaveLength(1);
+    expect(statement.lines[0]).toMatchObject({
+      entry_id: '3',
+      description: 'Credit sale #15 - Festival order',
+      debit: 80.5,
+      credit: 0,
+      balance: 230.5,
+      due_date: '2025-09-02',
+      sale_id: '15'
+    });
+    expect(statement.closing_balance).toBe(230.5);
+  });
+
+  it('places back-dated payments in date order', () => {
+    const backdated: StatementEntry = { id: 5, entry_type: 'payment', amount: -30, entry_date: '2025-07-10T00:00:00+00:00', payment_method: 'cash' };
+    const statement = buildStatement([...entries, backdated]);
+
+    expect(statement.lines.map(line => line.entry_id)).toEqual(['1', '5', '2', '3', '4']);
+    expect(statement.lines[1]).toMatchObject({ description: 'Payment (cash)', credit: 30, balance: 220 });
+    expect(statement.closing_balance).toBe(150.5);
+  });
+});
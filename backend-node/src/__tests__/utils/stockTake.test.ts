@@ -0,0 +1,40 @@
+import { buildVarianceReport, StockTakeLineInput } from '../../utils/stockTake';
+
+const product = (sku: string, category: string | null = 'Groceries') => ({ sku, name: `Product ${sku}`, category });
+
+const lines: StockTakeLineInput[] = [
+  { product_id: 1, expected_quantity: 10, counted_quantity: 10, unit_cost: '5.00', product: product('MATCH') },
+  { product_id: 2, expected_quantity: 20, counted_quantity: 17, unit_cost: '12.50', product: product('SHORT') },
+  { product_id: 3, expected_quantity: 4, counted_quantity: 6, unit_cost: 3, product: product('OVER') },
+  { product_id: 4, expected_quantity: 8, counted_quantity: null, unit_cost: 2, product: product('SKIPPED') },
+  { product_id: 5, expected_quantity: 5, counted_quantity: 0, unit_cost: null, product: product('NOCOST', null) }
+];
+
+describe('buildVarianceReport', () => {
+  it('values shortages and surpluses at the snapshot cost', () => {
+    const { summary } = buildVarianceReport(lines);
+
+    expect(summary).toEqual({
+      products: 5,
+      counted: 4,
+      uncounted: 1,
+      with_variance: 3,
+      shortage_units: 8,
+      shortage_value: 37.5,
+      surplus_units: 2,
+      surplus_value: 6,
+      net_units: -6,
+      net_value: -31.5,
+      unvalued: 1
+    });
+  });
+
+  it('lists the biggest losses first and uncounted products last without a variance', () => {
+    const report = buildVarianceReport(lines);
+
+    expect(report.lines.map(line => line.sku)).toEqual(['SHORT', 'NOCOST', 'OVER', 'MATCH', 'SKIPPED']);
+    expect(report.lines[0]).toMatchObject({ product_id: '2', expected: 20, counted: 17, variance: -3, variance_value: -37.5, status: 'short' });
+    expect(report.lines[1]).toMatchObject({ variance: -5, unit_cost: null, variance_value: null });
+    expect(report.lines[4]).toMatchObject({ counted: null, variance: 0, variance_value: 0, status: 'uncounted' });
+  });
+});
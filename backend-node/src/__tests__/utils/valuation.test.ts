@@ -0,0 +1,38 @@
+import { valueStock } from '../../utils/valuation';
+
+describe('valueStock', () => {
+  // Bought 10 @ 2, sold 6, bought 10 @ 3, sold 4 → 10 on hand, all from the second lot
+  const basis = {
+    costedQuantity: 10,
+    costedValue: 30,
+    // After the second receipt: 4 @ 2 + 10 @ 3 = 38 / 14; issues keep that average
+    averageCost: 38 / 14
+  };
+
+  it('values FIFO stock at the cost of its open lots', () => {
+    expect(valueStock('fifo', basis, 10)).toEqual({
+      value: 30,
+      valuedQuantity: 10,
+      unvaluedQuantity: 0,
+      unitCost: 3
+    });
+  });
+
+  it('values weighted-average stock at the running average cost', () => {
+    const valuation = valueStock('wac', basis, 10);
+    expect(valuation.value).toBeCloseTo(27.14, 2);
+    expect(valuation.unitCost).toBeCloseTo(38 / 14, 6);
+  });
+
+  it('falls back to the product cost for stock older than the ledger', () => {
+    const lot = { costedQuantity: 5, costedValue: 20, averageCost: null };
+    expect(valueStock('fifo', lot, 8, 1).value).toBe(23);
+    expect(valueStock('wac', undefined, 4, 2.5).value).toBe(10);
+  });
+
+  it('reports stock it cannot cost instead of guessing', () => {
+    const lots = { costedQuantity: 5, costedValue: 10, averageCost: null };
+    expect(valueStock('fifo', lots, 8)).toMatchObject({ value: 10, valuedQuantity: 5, unvaluedQuantity: 3 });
+    expect(valueStock('wac', undefined, 4)).toMatchObject({ value: 0, unvaluedQuantity: 4 });
+  });
+});
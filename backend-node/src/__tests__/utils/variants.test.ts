@@ -0,0 +1,46 @@
+import { normalizeVariantAttributes, normalizeVariantValues, rollUpVariants } from '../../utils/variants';
+
+describe('normalizeVariantAttributes', () => {
+  it('trims and lower-cases attribute names', () => {
+    expect(normalizeVariantAttributes([' Size', 'Flavour '])).toEqual(['size', 'flavour']);
+    expect(normalizeVariantAttributes([])).toEqual([]);
+  });
+
+  it('rejects duplicates, blanks, non-strings and too many names', () => {
+    expect(normalizeVariantAttributes(['size', 'SIZE'])).toBeNull();
+    expect(normalizeVariantAttributes(['size', ' '])).toBeNull();
+    expect(normalizeVariantAttributes(['size', 3])).toBeNull();
+    expect(normalizeVariantAttributes('size')).toBeNull();
+    expect(normalizeVariantAttributes(['a', 'b', 'c', 'd', 'e', 'f'])).toBeNull();
+  });
+});
+
+describe('normalizeVariantValues', () => {
+  const attributes = ['size', 'flavour'];
+
+  it('keys values by the parent attribute names and drops blanks', () => {
+    expect(normalizeVariantValues({ Size: ' 500ml ', flavour: '' }, attributes)).toEqual({ size: '500ml' });
+  });
+
+  it('rejects attributes the parent does not have and non-string values', () => {
+    expect(normalizeVariantValues({ colour: 'red' }, attributes)).toBeNull();
+    expect(normalizeVariantValues({ size: 500 }, attributes)).toBeNull();
+    expect(normalizeVariantValues(['500ml'], attributes)).toBeNull();
+  });
+});
+
+describe('rollUpVariants', () => {
+  it('totals quantity and value and spans the price range per parent', () => {
+    const rollups = rollUpVariants([
+      { parent_id: 1, quantity: 24, unit_price: '20.00' },
+      { parent_id: 1, quantity: 12, unit_price: 40 },
+      { parent_id: '1', quantity: 6, unit_price: 90.5 },
+      { parent_id: 2, quantity: 0, unit_price: 10 },
+      { parent_id: null, quantity: 100, unit_price: 1 }
+    ]);
+
+    expect(rollups.get('1')).toEqual({ variant_count: 3, total_quantity: 42, min_price: 20, max_price: 90.5, retail_value: 1503 });
+    expect(rollups.get('2')).toEqual({ variant_count: 1, total_quantity: 0, min_price: 10, max_price: 10, retail_value: 0 });
+    expect(rollups.size).toBe(2);
+  });
+});
@@ -27,11 +27,32 @@ export interface Product {
   category: string
   quantity: number
   unit_price: number
+  cost_price?: number | null
+  selling_price?: number
+  hsn_code?: string | null
+  gst_rate?: number | null
+  barcode?: string | null
+  // Set on variants: the parent product and this variant's attribute values, e.g. { size: '500ml' }
+  parent_id?: string | null
+  variant_values?: Record<string, string>
   created_at: string
   updated_at: string
   version: number
   created_by?: string
   updated_by?: string
+  archived_at?: string | null
+  archived_by?: string | null
+}
+
+export interface ParentProduct {
+  id: string
+  sku: string
+  name: string
+  category: string | null
+  variant_attributes: string[]
+  created_by?: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface UserProfile {
@@ -41,3 +62,376 @@ export interface UserProfile {
   created_at: string
   updated_at: string
 }
+
+export type StockMovementReason = 'sale' | 'purchase' | 'adjustment' | 'import' | 'transfer' | 'damage' | 'return'
+
+export interface Location {
+  id: string
+  name: string
+  code: string
+  type: 'store' | 'warehouse'
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface ProductStock {
+  product_id: string
+  location_id: string
+  quantity: number
+  updated_at: string
+}
+
+export interface StockMovement {
+  id: string
+  product_id: string
+  location_id: string
+  delta: number
+  reason: StockMovementReason
+  quantity_after: number
+  location_quantity_after: number
+  unit_cost?: number | null
+  note?: string | null
+  reference?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface StockLot {
+  id: string
+  product_id: string
+  location_id: string
+  lot_code?: string | null
+  expiry_date?: string | null
+  quantity: number
+  received_quantity: number
+  unit_cost?: number | null
+  movement_id?: string | null
+  received_at: string
+}
+
+export type TransferStatus = 'draft' | 'dispatched' | 'partially_received' | 'received' | 'cancelled'
+
+export interface StockTransfer {
+  id: string
+  from_location_id: string
+  to_location_id: string
+  status: TransferStatus
+  note?: string | null
+  created_by?: string | null
+  dispatched_by?: string | null
+  dispatched_at?: string | null
+  received_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface StockTransferLine {
+  id: string
+  transfer_id: string
+  product_id: string
+  quantity: number
+  quantity_received: number
+}
+
+export interface Supplier {
+  id: string
+  name: string
+  contact_name?: string | null
+  phone?: string | null
+  email?: string | null
+  address?: string | null
+  notes?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled'
+
+export interface PurchaseOrder {
+  id: string
+  supplier_id: string
+  location_id: string
+  status: PurchaseOrderStatus
+  supplier_reference?: string | null
+  expected_date?: string | null
+  note?: string | null
+  created_by?: string | null
+  ordered_at?: string | null
+  received_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PurchaseOrderLine {
+  id: string
+  purchase_order_id: string
+  sku: string
+  quantity: number
+  unit_cost: number
+  quantity_received: number
+  received_unit_cost?: number | null
+}
+
+export type PriceRequestStatus = 'pending' | 'approved' | 'rejected'
+
+export interface PriceRequest {
+  id: string
+  product_id: string
+  current_price: number
+  requested_price: number
+  base_version: number
+  reason?: string | null
+  source: 'manual' | 'import'
+  status: PriceRequestStatus
+  requested_by?: string | null
+  reviewed_by?: string | null
+  review_comment?: string | null
+  reviewed_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ProductAudit {
+  id: string
+  product_id: string
+  operation: 'create' | 'update' | 'archive' | 'restore' | 'delete'
+  source: 'ui' | 'import' | 'offline_sync' | 'price_request'
+  actor_id?: string | null
+  changes: Record<string, { from: unknown; to: unknown }>
+  created_at: string
+}
+
+export interface ProductPrice {
+  id: string
+  product_id: string
+  cost_price: number | null
+  selling_price: number
+  changed_by?: string | null
+  created_at: string
+}
+
+export interface Sale {
+  id: string
+  location_id: string
+  client_reference?: string | null
+  total: number
+  note?: string | null
+  sold_at: string
+  created_by?: string | null
+  created_at: string
+}
+
+export interface SaleLine {
+  id: string
+  sale_id: string
+  product_id: string
+  quantity: number
+  unit_price: number
+  line_total: number
+  movement_id?: string | null
+}
+
+export interface Invoice {
+  id: string
+  invoice_number: string
+  financial_year: string
+  sequence_number: number
+  invoice_date: string
+  sale_id: string
+  seller_name: string
+  seller_address?: string | null
+  seller_gstin: string
+  buyer_name?: string | null
+  buyer_address?: string | null
+  buyer_gstin?: string | null
+  place_of_supply: string
+  supply_type: 'intra_state' | 'inter_state'
+  taxable_value: number
+  cgst_amount: number
+  sgst_amount: number
+  igst_amount: number
+  total: number
+  created_by?: string | null
+  created_at: string
+}
+
+export interface InvoiceLine {
+  id: string
+  invoice_id: string
+  product_id: string
+  sku: string
+  description: string
+  hsn_code?: string | null
+  quantity: number
+  unit_price: number
+  taxable_value: number
+  gst_rate: number
+  cgst_amount: number
+  sgst_amount: number
+  igst_amount: number
+  line_total: number
+}
+
+export type ReturnDisposition = 'restock' | 'damaged'
+
+export interface Return {
+  id: string
+  credit_note_number: string
+  financial_year: string
+  sequence_number: number
+  return_date: string
+  location_id: string
+  sale_id?: string | null
+  client_reference?: string | null
+  reason?: string | null
+  taxable_value: number
+  cgst_amount: number
+  sgst_amount: number
+  igst_amount: number
+  total: number
+  created_by?: string | null
+  created_at: string
+}
+
+export interface ReturnLine {
+  id: string
+  return_id: string
+  product_id: string
+  sku: string
+  description: string
+  quantity: number
+  disposition: ReturnDisposition
+  unit_price: number
+  taxable_value: number
+  gst_rate?: number | null
+  cgst_amount: number
+  sgst_amount: number
+  igst_amount: number
+  line_total: number
+  movement_id?: string | null
+}
+
+export interface Customer {
+  id: string
+  name: string
+  phone?: string | null
+  address?: string | null
+  note?: string | null
+  credit_limit?: number | null
+  credit_days: number
+  balance: number
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type CustomerLedgerEntryType = 'credit_sale' | 'payment'
+
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank' | 'other'
+
+export interface CustomerLedgerEntry {
+  id: string
+  customer_id: string
+  entry_type: CustomerLedgerEntryType
+  // Positive for credit sales, negative for payments
+  amount: number
+  balance_after: number
+  sale_id?: string | null
+  due_date?: string | null
+  payment_method?: PaymentMethod | null
+  client_reference?: string | null
+  note?: string | null
+  entry_date: string
+  created_by?: string | null
+}
+
+export type StockTakeStatus = 'counting' | 'approved' | 'cancelled'
+
+export interface StockTake {
+  id: string
+  location_id: string
+  status: StockTakeStatus
+  category?: string | null
+  note?: string | null
+  created_by?: string | null
+  approved_by?: string | null
+  approved_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface StockTakeLine {
+  id: string
+  stock_take_id: string
+  product_id: string
+  expected_quantity: number
+  unit_cost?: number | null
+  // NULL until someone counts the product
+  counted_quantity?: number | null
+  counted_at?: string | null
+  movement_id?: string | null
+}
+
+export interface StockTakeCount {
+  id: string
+  stock_take_id: string
+  product_id: string
+  // Negative when correcting an earlier count
+  quantity: number
+  client_reference?: string | null
+  counted_by?: string | null
+  created_at: string
+}
+
+export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'rolled_back'
+
+export interface ImportLog {
+  id: string
+  filename: string
+  file_hash: string
+  status: ImportStatus
+  // Data rows in the file, known when the job is queued
+  total_rows: number
+  processed_rows: number
+  successful_rows: number
+  failed_rows: number
+  // Bumped each time a failed or rolled-back job runs again
+  run: number
+  // Per-row results, written when the job finishes
+  results?: unknown[] | null
+  error_message?: string | null
+  imported_by?: string | null
+  completed_at?: string | null
+  rolled_back_at?: string | null
+  rolled_back_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ImportChange {
+  id: string
+  import_id: string
+  // The job run that made the change; rollback only undoes the latest run
+  run: number
+  row_number: number
+  product_id: string
+  sku: string
+  operation: 'create' | 'update'
+  // Product row before the import; null when the import created the product
+  before?: Record<string, unknown> | null
+  quantity_delta: number
+  location_id?: string | null
+  version_after: number
+  created_at: string
+}
+
+export interface ImportMapping {
+  id: string
+  user_id: string
+  name: string
+  // File column (lower-case) → product field, or null to ignore the column
+  mapping: Record<string, string | null>
+  created_at: string
+  updated_at: string
+}
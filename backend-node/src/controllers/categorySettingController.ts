@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { DEFAULT_REORDER_POINT } from '../utils/reorder';
+
+export const getCategorySettings = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { data, error } = await supabase
+            .from('category_settings')
+            .select('category, reorder_point, updated_at')
+            .order('category', { ascending: true });
+
+        if (error) throw mapSupabaseError(error, 'category_settings');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, default_reorder_point: DEFAULT_REORDER_POINT });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'category_settings') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const upsertCategorySetting = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { category } = req.params;
+
+    try {
+        const { reorder_point } = req.body;
+
+        if (!Number.isInteger(reorder_point) || reorder_point < 0) {
+            throw ErrorTypes.VALIDATION_ERROR('reorder_point must be a non-negative integer', {
+                resource: 'category_setting',
+                field: 'reorder_point'
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('category_settings')
+            .upsert({ category, reorder_point }, { onConflict: 'category' })
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'category_setting', category);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'category_setting', category) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const deleteCategorySetting = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { category } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('category_settings')
+            .delete()
+            .eq('category', category)
+            .select('category');
+
+        if (error) throw mapSupabaseError(error, 'category_setting', category);
+        if (!data || data.length === 0) throw ErrorTypes.NOT_FOUND('category_setting', category);
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, message: 'Category setting removed' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'category_setting', category) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,590 @@
+import { Request, Response } from 'express';
+import { supabase, CustomerLedgerEntry, PaymentMethod, Product, SaleLine } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { isValidDate } from '../utils/stockLedger';
+import { buildStatement, StatementEntry } from '../utils/statement';
+
+const CUSTOMER_COLUMNS = 'id, name, phone, address, note, credit_limit, credit_days, balance, created_by, created_at, updated_at';
+
+const LEDGER_COLUMNS = 'id, customer_id, entry_type, amount, balance_after, sale_id, due_date, payment_method, client_reference, note, entry_date, created_by';
+
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'upi', 'card', 'bank', 'other'];
+
+interface CreditLineInput {
+    sku: string;
+    quantity: number;
+}
+
+// A ledger entry with the lines of its credit sale, as selected for statements
+interface StatementLedgerRow extends CustomerLedgerEntry {
+    sale: {
+        lines: (Pick<SaleLine, 'quantity' | 'unit_price'> & { product: Pick<Product, 'name' | 'sku'> })[];
+    } | null;
+}
+
+// Adds overdue_amount and oldest_due_date from the customer_receivables view
+const attachReceivables = async <T extends { id: string | number }>(customers: T[]) => {
+    if (customers.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('customer_receivables')
+        .select('customer_id, overdue_amount, oldest_due_date')
+        .in('customer_id', customers.map(customer => customer.id));
+
+    if (error) throw mapSupabaseError(error, 'customers');
+
+    const byCustomer = new Map((data || []).map(row => [String(row.customer_id), row]));
+    return customers.map(customer => {
+        const receivable = byCustomer.get(String(customer.id));
+        const overdue = Number(receivable?.overdue_amount ?? 0);
+        return {
+            ...customer,
+            overdue_amount: overdue,
+            oldest_due_date: overdue > 0 ? receivable?.oldest_due_date ?? null : null
+        };
+    });
+};
+
+const fetchCustomer = async (id: string) => {
+    const { data, error } = await supabase
+        .from('customers')
+        .select(CUSTOMER_COLUMNS)
+        .eq('id', id)
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'customer', id);
+
+    const [customer] = await attachReceivables([data]);
+    return customer;
+};
+
+// Validates the editable customer fields; credit terms are owner-only
+const pickCustomerFields = (body: Record<string, unknown>, role: string | undefined, id?: string) => {
+    const fields: Record<string, unknown> = {};
+
+    if (body.name !== undefined) {
+        if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 200) {
+            throw ErrorTypes.VALIDATION_ERROR('Name is required and must be at most 200 characters', {
+                resource: 'customer',
+                field: 'name'
+            });
+        }
+        fields.name = body.name.trim();
+    }
+
+    if (body.phone !== undefined) {
+        const phone = typeof body.phone === 'string' ? body.phone.trim() : body.phone;
+        if (phone !== null && phone !== '' && (typeof phone !== 'string' || !/^\+?[0-9][0-9 -]{5,18}$/.test(phone))) {
+            throw ErrorTypes.VALIDATION_ERROR('Phone must be 6 to 20 digits, spaces or dashes', {
+                resource: 'customer',
+                field: 'phone'
+            });
+        }
+        fields.phone = phone || null;
+    }
+
+    for (const field of ['address', 'note'] as const) {
+        if (body[field] !== undefined) {
+            if (body[field] !== null && (typeof body[field] !== 'string' || (body[field] as string).length > 500)) {
+                throw ErrorTypes.VALIDATION_ERROR(`${field} must be a string of at most 500 characters`, {
+                    resource: 'customer',
+                    field
+                });
+            }
+            fields[field] = (body[field] as string | null)?.trim() || null;
+        }
+    }
+
+    for (const field of ['credit_limit', 'credit_days'] as const) {
+        if (body[field] === undefined) continue;
+
+        if (role !== 'owner') {
+            throw ErrorTypes.PERMISSION_DENIED('Only owners can set credit terms', {
+                resource: 'customer',
+                ...(id && { id }),
+                field
+            });
+        }
+
+        const value = body[field];
+        if (field === 'credit_limit' && value !== null && (typeof value !== 'number' || value < 0)) {
+            throw ErrorTypes.VALIDATION_ERROR('credit_limit must be a non-negative number or null for no limit', {
+                resource: 'customer',
+                field
+            });
+        }
+        if (field === 'credit_days' && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 365)) {
+            throw ErrorTypes.VALIDATION_ERROR('credit_days must be a whole number of days between 0 and 365', {
+                resource: 'customer',
+                field
+            });
+        }
+        fields[field] = value;
+    }
+
+    return fields;
+};
+
+const validateClientReference = (clientReference: unknown) => {
+    if (clientReference !== undefined && (typeof clientReference !== 'string' || !clientReference.trim() || clientReference.length > 100)) {
+        throw ErrorTypes.VALIDATION_ERROR('client_reference must be a non-empty string of at most 100 characters', {
+            resource: 'customer_ledger',
+            field: 'client_reference'
+        });
+    }
+};
+
+// A ledger entry replayed from the offline queue returns the one already recorded
+const findReplayedEntry = async (clientReference: string | undefined) => {
+    if (!clientReference) return null;
+
+    const { data, error } = await supabase
+        .from('customer_ledger')
+        .select(LEDGER_COLUMNS)
+        .eq('client_reference', clientReference)
+        .maybeSingle();
+
+    if (error) throw mapSupabaseError(error, 'customer_ledger');
+
+    return data;
+};
+
+export const getCustomers = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { search, with_balance } = req.query as { search?: string; with_balance?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('customers')
+            .select(CUSTOMER_COLUMNS, { count: 'exact' })
+            .order('name', { ascending: true })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (search?.trim()) {
+            const term = search.trim().replace(/[%,()]/g, '');
+            query = query.or(`name.ilike.%${term}%,phone.ilike.%${term}%`);
+        }
+
+        if (with_balance === 'true') {
+            query = query.gt('balance', 0);
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'customers');
+
+        const customers = await attachReceivables(data || []);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data: customers, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customers') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getCustomerById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await fetchCustomer(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createCustomer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        if (req.body.name === undefined) {
+            throw ErrorTypes.VALIDATION_ERROR('Name is required', {
+                resource: 'customer',
+                required_fields: ['name']
+            });
+        }
+
+        const fields = pickCustomerFields(req.body, req.user?.role);
+
+        const { data, error } = await supabase
+            .from('customers')
+            .insert({ ...fields, created_by: req.user?.id ?? null })
+            .select(CUSTOMER_COLUMNS)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'customer');
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            customer_id: data.id
+        }));
+
+        res.status(201).json({ success: true, data: { ...data, overdue_amount: 0, oldest_due_date: null } });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, appError.code === 'PERMISSION_DENIED' ? 'PERMISSION_DENIED' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updateCustomer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const fields = pickCustomerFields(req.body, req.user?.role, id);
+
+        if (Object.keys(fields).length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Nothing to update', {
+                resource: 'customer',
+                id
+            });
+        }
+
+        const { error } = await supabase
+            .from('customers')
+            .update(fields)
+            .eq('id', id)
+            .select('id')
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'customer', id);
+
+        const data = await fetchCustomer(id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : appError.code === 'PERMISSION_DENIED' ? 'PERMISSION_DENIED' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createCreditSale = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { lines, location_id, client_reference, note, sold_at } = req.body as {
+            lines?: CreditLineInput[];
+            location_id?: string;
+            client_reference?: string;
+            note?: string;
+            sold_at?: string;
+        };
+
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('A credit sale needs at least one line', {
+                resource: 'customer_ledger',
+                required_fields: ['lines']
+            });
+        }
+
+        const seenSkus = new Set<string>();
+        lines.forEach((line, index) => {
+            if (typeof line.sku !== 'string' || !line.sku.trim() || !Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line needs a sku and a positive integer quantity', {
+                    resource: 'customer_ledger',
+                    field: `lines[${index}]`
+                });
+            }
+            if (seenSkus.has(line.sku.trim())) {
+                throw ErrorTypes.VALIDATION_ERROR('A SKU can only appear once per sale', {
+                    resource: 'customer_ledger',
+                    field: `lines[${index}].sku`
+                });
+            }
+            seenSkus.add(line.sku.trim());
+        });
+
+        if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+            throw ErrorTypes.VALIDATION_ERROR('note must be a string of at most 500 characters', {
+                resource: 'customer_ledger',
+                field: 'note'
+            });
+        }
+
+        if (sold_at !== undefined && (typeof sold_at !== 'string' || isNaN(Date.parse(sold_at)))) {
+            throw ErrorTypes.VALIDATION_ERROR('sold_at must be a timestamp', {
+                resource: 'customer_ledger',
+                field: 'sold_at'
+            });
+        }
+
+        validateClientReference(client_reference);
+
+        const replayed = await findReplayedEntry(client_reference);
+        if (replayed) {
+            logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', id, undefined, undefined, {
+                ledger_entry_id: replayed.id,
+                replayed: true
+            }));
+
+            res.json({ success: true, data: replayed });
+            return;
+        }
+
+        // Report every unknown or archived SKU at once
+        const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('id, sku, archived_at')
+            .in('sku', lines.map(line => line.sku.trim()));
+
+        if (productsError) throw mapSupabaseError(productsError, 'products');
+
+        const productsBySku = new Map((products || []).map(product => [product.sku, product]));
+        const lineErrors = lines.flatMap((line, index) => {
+            const product = productsBySku.get(line.sku.trim());
+            if (!product) return [{ line: index, sku: line.sku, code: 'NOT_FOUND', message: 'Product not found' }];
+            if (product.archived_at) return [{ line: index, sku: line.sku, product_id: product.id, code: 'ARCHIVED', message: 'Product is archived' }];
+            return [];
+        });
+
+        if (lineErrors.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('One or more lines cannot be sold', {
+                resource: 'customer_ledger',
+                field: 'lines',
+                lines: lineErrors
+            });
+        }
+
+        // A till clock running ahead must not date a sale in the future
+        const soldAt = sold_at ? new Date(Math.min(Date.parse(sold_at), Date.now())).toISOString() : null;
+
+        const { data: entry, error } = await supabase.rpc('record_credit_sale', {
+            p_customer_id: id,
+            p_lines: lines.map(line => ({ product_id: productsBySku.get(line.sku.trim())!.id, quantity: line.quantity })),
+            p_actor: req.user?.id ?? null,
+            p_location_id: location_id ?? null,
+            p_client_reference: client_reference ?? null,
+            p_note: note?.trim() || null,
+            p_sold_at: soldAt
+        });
+
+        if (error) throw mapSupabaseError(error, 'customer', id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', id, undefined, undefined, {
+            ledger_entry_id: entry.id,
+            sale_id: entry.sale_id,
+            amount: entry.amount
+        }));
+
+        res.status(201).json({ success: true, data: entry });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createPayment = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { amount, payment_method = 'cash', client_reference, note, paid_at } = req.body as {
+            amount?: number;
+            payment_method?: PaymentMethod;
+            client_reference?: string;
+            note?: string;
+            paid_at?: string;
+        };
+
+        if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0 || Math.round(amount * 100) !== amount * 100) {
+            throw ErrorTypes.VALIDATION_ERROR('Amount must be a positive number with at most two decimals', {
+                resource: 'customer_ledger',
+                field: 'amount'
+            });
+        }
+
+        if (!PAYMENT_METHODS.includes(payment_method)) {
+            throw ErrorTypes.VALIDATION_ERROR('Invalid payment method', {
+                resource: 'customer_ledger',
+                field: 'payment_method',
+                allowed_values: PAYMENT_METHODS
+            });
+        }
+
+        if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+            throw ErrorTypes.VALIDATION_ERROR('note must be a string of at most 500 characters', {
+                resource: 'customer_ledger',
+                field: 'note'
+            });
+        }
+
+        if (paid_at !== undefined && (typeof paid_at !== 'string' || isNaN(Date.parse(paid_at)))) {
+            throw ErrorTypes.VALIDATION_ERROR('paid_at must be a date', {
+                resource: 'customer_ledger',
+                field: 'paid_at'
+            });
+        }
+
+        validateClientReference(client_reference);
+
+        const replayed = await findReplayedEntry(client_reference);
+        if (replayed) {
+            logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', id, undefined, undefined, {
+                ledger_entry_id: replayed.id,
+                replayed: true
+            }));
+
+            res.json({ success: true, data: replayed });
+            return;
+        }
+
+        // A payment can be back-dated to when it was taken, but not post-dated
+        const paidAt = paid_at ? new Date(Math.min(Date.parse(paid_at), Date.now())).toISOString() : null;
+
+        const { data: entry, error } = await supabase.rpc('record_customer_payment', {
+            p_customer_id: id,
+            p_amount: amount,
+            p_actor: req.user?.id ?? null,
+            p_payment_method: payment_method,
+            p_client_reference: client_reference ?? null,
+            p_note: note?.trim() || null,
+            p_paid_at: paidAt
+        });
+
+        if (error) throw mapSupabaseError(error, 'customer', id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', id, undefined, undefined, {
+            ledger_entry_id: entry.id,
+            amount
+        }));
+
+        res.status(201).json({ success: true, data: entry });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getCustomerStatement = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { from, to } = req.query as { from?: string; to?: string };
+
+        for (const [field, value] of [['from', from], ['to', to]] as const) {
+            if (value !== undefined && !isValidDate(value)) {
+                throw ErrorTypes.VALIDATION_ERROR(`${field} must be a YYYY-MM-DD date`, {
+                    resource: 'customer_statement',
+                    field
+                });
+            }
+        }
+
+        if (from && to && from > to) {
+            throw ErrorTypes.VALIDATION_ERROR('from must not be after to', {
+                resource: 'customer_statement',
+                field: 'from'
+            });
+        }
+
+        const customer = await fetchCustomer(id);
+
+        // The whole ledger up to the end date is needed for the opening balance
+        let query = supabase
+            .from('customer_ledger')
+            .select(`${LEDGER_COLUMNS}, sale:sales(lines:sale_lines(quantity, unit_price, product:products(name, sku)))`)
+            .eq('customer_id', id)
+            .order('entry_date', { ascending: true })
+            .order('id', { ascending: true });
+
+        if (to) query = query.lte('entry_date', `${to}T23:59:59.999Z`);
+
+        const { data: entries, error } = await query;
+        if (error) throw mapSupabaseError(error, 'customer_ledger');
+
+        const statement = buildStatement(
+            ((entries || []) as unknown as StatementLedgerRow[]).map((entry): StatementEntry => ({
+                ...entry,
+                items: entry.sale?.lines?.map(line => ({
+                    sku: line.product.sku,
+                    name: line.product.name,
+                    quantity: line.quantity,
+                    unit_price: Number(line.unit_price)
+                }))
+            })),
+            from,
+            to
+        );
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({
+            success: true,
+            data: {
+                customer,
+                statement_date: new Date().toISOString().slice(0, 10),
+                from: from ?? null,
+                to: to ?? null,
+                ...statement
+            }
+        });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Owner dashboard: what customers owe in total and how much of it is past due
+export const getReceivables = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { data, error } = await supabase
+            .from('customer_receivables')
+            .select('customer_id, balance, overdue_amount')
+            .gt('balance', 0);
+
+        if (error) throw mapSupabaseError(error, 'customers');
+
+        const rows = data || [];
+        const totalReceivable = rows.reduce((sum, row) => sum + Number(row.balance), 0);
+        const overdueRows = rows.filter(row => Number(row.overdue_amount) > 0);
+        const overdueAmount = overdueRows.reduce((sum, row) => sum + Number(row.overdue_amount), 0);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({
+            success: true,
+            data: {
+                totalReceivable: Math.round(totalReceivable * 100) / 100,
+                overdueAmount: Math.round(overdueAmount * 100) / 100,
+                customersWithBalance: rows.length,
+                overdueCustomers: overdueRows.length
+            }
+        });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'customers') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -1,6 +1,20 @@
 import { Request, Response } from 'express';
-import { supabase } from '../config/database';
+import { supabase, ImportChange, ImportLog, Product } from '../config/database';
 import { createHash } from 'crypto';
+import { createProductWithOpeningBalance, updateProductWithStock } from '../utils/stockLedger';
+import { submitPriceRequest } from '../utils/priceRequests';
+import { recordProductAudit } from '../utils/audit';
+import { mapSupabaseError, sendErrorResponse } from '../utils/errors';
+import { isValidGstRate, isValidHsnCode } from '../utils/gst';
+import { CsvParseError, CsvRecord, parseCsvStream } from '../utils/csvParser';
+import {
+    applyColumnMapping,
+    ColumnMapping,
+    duplicateColumns,
+    IMPORT_COLUMNS,
+    normalizeColumnMapping,
+    REQUIRED_IMPORT_COLUMNS
+} from '../utils/importMapping';
 
 interface CSVRow {
     name: string;
@@ -25,6 +39,54 @@ interface ValidationError {
     message: string;
 }
 
+// Everything an import or its dry run needs from the upload request
+interface ImportSource {
+    buffer: Buffer;
+    filename: string;
+    fileHash: string;
+    header: string[];
+    userId?: string;
+    userRole: string;
+}
+
+// Progress counters are written to import_logs every this many rows
+const PROGRESS_INTERVAL_ROWS = 25;
+
+// Feeds an upload to the CSV parser in slices, so records come out as the file is read
+function* bufferChunks(buffer: Buffer, size = 64 * 1024) {
+    for (let offset = 0; offset < buffer.length; offset += size) {
+        yield buffer.subarray(offset, offset + size);
+    }
+}
+
+const summarizeResults = (results: ImportResult[], totalRows: number) => ({
+    total_rows: totalRows,
+    created: results.filter(r => r.status === 'created').length,
+    updated: results.filter(r => r.status === 'updated').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    errors: results.filter(r => r.status === 'error').length
+});
+
+// Shapes an import_logs row for the API; the summary fills in as results are written at the end
+const formatImportJob = (log: ImportLog) => {
+    const results = (log.results || []) as ImportResult[];
+    return {
+        id: log.id,
+        filename: log.filename,
+        status: log.status,
+        total_rows: log.total_rows,
+        processed_rows: log.processed_rows,
+        successful_rows: log.successful_rows,
+        failed_rows: log.failed_rows,
+        error_message: log.error_message ?? null,
+        created_at: log.created_at,
+        completed_at: log.completed_at ?? null,
+        rolled_back_at: log.rolled_back_at ?? null,
+        summary: summarizeResults(results, log.total_rows),
+        results
+    };
+};
+
 export const importCSV = async (req: Request, res: Response) => {
     try {
         // Check if file exists
@@ -49,26 +111,69 @@ export const importCSV = async (req: Request, res: Response) => {
             });
         }
 
-        // Parse CSV content
-        const csvContent = req.file.buffer.toString('utf-8');
-        const lines = csvContent.split('\n').filter(line => line.trim());
-        
-        if (lines.length < 2) {
+        // Files with other headers come with a column mapping, sent as a JSON form field next to the file
+        let mapping: ColumnMapping | null = null;
+        if (req.body?.mapping) {
+            try {
+                mapping = normalizeColumnMapping(JSON.parse(req.body.mapping));
+            } catch {
+                mapping = null;
+            }
+            if (!mapping) {
+                return res.status(400).json({
+                    error: {
+                        code: 'VALIDATION_ERROR',
+                        message: 'mapping must be a JSON object mapping file columns to product fields (each used once) or to null to ignore them',
+                        details: { field: 'mapping', allowed_fields: IMPORT_COLUMNS }
+                    }
+                });
+            }
+        }
+
+        // Parse the header and first data row
+        const records = parseCsvStream(bufferChunks(req.file.buffer));
+        let headerRecord: IteratorResult<CsvRecord>;
+        let next: IteratorResult<CsvRecord>;
+        try {
+            headerRecord = await records.next();
+            next = headerRecord.done ? headerRecord : await records.next();
+        } catch (error) {
+            if (!(error instanceof CsvParseError)) throw error;
+            return res.status(400).json({
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: `Malformed CSV: ${error.message}`,
+                    details: { line: error.line, column: error.column }
+                }
+            });
+        }
+
+        if (headerRecord.done || next.done) {
             return res.status(400).json({
                 error: {
                     code: 'VALIDATION_ERROR',
                     message: 'CSV file must contain at least a header and one data row',
-                    details: { min_rows: 2, actual_rows: lines.length }
+                    details: { min_rows: 2, actual_rows: headerRecord.done ? 0 : 1 }
+                }
+            });
+        }
+
+        const fileHeader = headerRecord.value.fields.map(h => h.trim().toLowerCase());
+        const header = mapping ? applyColumnMapping(fileHeader, mapping) : fileHeader;
+
+        const duplicates = duplicateColumns(header);
+        if (duplicates.length > 0) {
+            return res.status(400).json({
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: `More than one column maps to: ${duplicates.join(', ')}`,
+                    details: { duplicate_columns: duplicates }
                 }
             });
         }
 
-        // Parse header
-        const header = lines[0].split(',').map(h => h.trim().toLowerCase());
-        const requiredColumns = ['name', 'sku', 'category', 'quantity', 'unit_price'];
-        
         // Check for required columns
-        const missingColumns = requiredColumns.filter(col => !header.includes(col));
+        const missingColumns = REQUIRED_IMPORT_COLUMNS.filter(col => !header.includes(col));
         if (missingColumns.length > 0) {
             return res.status(400).json({
                 error: {
@@ -80,13 +185,30 @@ export const importCSV = async (req: Request, res: Response) => {
         }
 
         // Warn about unknown columns
-        const unknownColumns = header.filter(col => !requiredColumns.includes(col));
+        const unknownColumns = header.filter(col => col && !IMPORT_COLUMNS.includes(col));
         if (unknownColumns.length > 0) {
             console.warn(`Unknown columns in CSV: ${unknownColumns.join(', ')}`);
         }
 
-        // Generate file hash for idempotency
-        const fileHash = createHash('md5').update(csvContent).digest('hex');
+        // Count the data rows up front: it sizes the progress bar and rejects a malformed file before anything is written
+        let totalRows = 1;
+        try {
+            for await (const _record of records) totalRows++;
+        } catch (error) {
+            if (!(error instanceof CsvParseError)) throw error;
+            return res.status(400).json({
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: `Malformed CSV: ${error.message}`,
+                    details: { line: error.line, column: error.column }
+                }
+            });
+        }
+
+        // Generate file hash for idempotency; a mapped file is only the same import under the same mapping
+        const hash = createHash('md5').update(req.file.buffer);
+        if (mapping) hash.update(JSON.stringify(header));
+        const fileHash = hash.digest('hex');
 
         // Check if this file was already processed
         const { data: existingImport } = await supabase
@@ -95,219 +217,677 @@ export const importCSV = async (req: Request, res: Response) => {
             .eq('file_hash', fileHash)
             .single();
 
-        if (existingImport) {
+        const upload: ImportSource = {
+            buffer: req.file.buffer,
+            filename: req.file.originalname,
+            fileHash,
+            header,
+            userId: req.user?.id,
+            userRole
+        };
+
+        // ?dryRun=true previews the import with the same row checks and change messages, writing nothing
+        if (req.query.dryRun === 'true') {
+            const results: ImportResult[] = [];
+            await importRows(upload, results, { dryRun: true });
+            const alreadyImported = existingImport?.status === 'completed';
+            return res.status(200).json({
+                success: true,
+                dry_run: true,
+                message: alreadyImported ? 'File already processed; committing it returns the earlier import' : 'Dry run: nothing was imported',
+                data: {
+                    already_imported_id: alreadyImported ? existingImport.id : null,
+                    summary: summarizeResults(results, totalRows),
+                    results
+                }
+            });
+        }
+
+        if (existingImport?.status === 'completed') {
             return res.status(200).json({
                 success: true,
                 message: 'File already processed',
                 import_id: existingImport.id,
-                results: existingImport.results
+                data: formatImportJob(existingImport)
             });
         }
 
-        // Process data rows
-        const results: ImportResult[] = [];
-        const dataRows = lines.slice(1);
-        const processedSkus: Set<string> = new Set(); // Track SKUs processed in this file
+        if (existingImport && existingImport.status !== 'failed' && existingImport.status !== 'rolled_back') {
+            return res.status(202).json({
+                success: true,
+                message: 'File is already being imported',
+                import_id: existingImport.id,
+                data: formatImportJob(existingImport)
+            });
+        }
+
+        // A failed or rolled-back job is run again under the same id and the next run number; rows a
+        // failed run already imported come back as "No changes detected"
+        const jobFields = {
+            run: existingImport ? existingImport.run + 1 : 1,
+            filename: req.file.originalname,
+            status: 'pending',
+            total_rows: totalRows,
+            processed_rows: 0,
+            successful_rows: 0,
+            failed_rows: 0,
+            results: null,
+            error_message: null,
+            completed_at: null,
+            rolled_back_at: null,
+            rolled_back_by: null,
+            imported_by: req.user?.id
+        };
+        const { data: importLog, error: importLogError } = existingImport ?
+            await supabase.from('import_logs').update(jobFields).eq('id', existingImport.id).select().single() :
+            await supabase.from('import_logs').insert([{ ...jobFields, file_hash: fileHash }]).select().single();
+
+        if (importLogError) throw importLogError;
+
+        // Rows are processed after the response; the client polls GET /api/import/:id
+        void runImportJob(importLog.id, importLog.run, upload);
+
+        res.status(202).json({
+            success: true,
+            message: 'CSV import queued',
+            import_id: importLog.id,
+            data: formatImportJob(importLog)
+        });
+
+    } catch (error) {
+        console.error('CSV import error:', error);
+        res.status(500).json({
+            error: {
+                code: 'INTERNAL_ERROR',
+                message: (error as Error).message
+            }
+        });
+    }
+};
+
+// Saves what a row changed for rollback_import; the caller fails the row when this returns false,
+// since rollback can't undo a change it has no record of
+const recordImportChange = async (change: Omit<ImportChange, 'id' | 'created_at'>): Promise<boolean> => {
+    const { error } = await supabase.from('import_changes').insert([change]);
+    if (error) console.error(`Could not record import change for ${change.sku}:`, error);
+    return !error;
+};
+
+// Imports the rows of a queued job, recording progress and the final results on its import_logs row
+async function runImportJob(id: string, run: number, source: ImportSource) {
+    const results: ImportResult[] = [];
+    const progress = { processed_rows: 0, successful_rows: 0, failed_rows: 0 };
+
+    // Folds results added since the last call into the counters
+    const tally = () => {
+        for (; progress.processed_rows < results.length; progress.processed_rows++) {
+            const { status } = results[progress.processed_rows];
+            if (status === 'created' || status === 'updated') progress.successful_rows++;
+            if (status === 'error') progress.failed_rows++;
+        }
+        return { ...progress };
+    };
 
-        for (let i = 0; i < dataRows.length; i++) {
-            const rowNumber = i + 2; // +2 because we start from line 2 (after header)
-            const row = dataRows[i];
+    const updateJob = async (fields: Record<string, unknown>) => {
+        const { error } = await supabase.from('import_logs').update(fields).eq('id', id);
+        if (error) throw error;
+    };
+
+    try {
+        await updateJob({ status: 'processing' });
+
+        // A failed job is re-run under the same id; the changes recorded by the earlier attempt
+        // describe products this run is about to read afresh, so they are dropped first
+        const { error: clearError } = await supabase.from('import_changes').delete().eq('import_id', id);
+        if (clearError) throw clearError;
+
+        await importRows(source, results, { importId: id, run, onProgress: async () => updateJob(tally()) });
+
+        await updateJob({
+            status: 'completed',
+            ...tally(),
+            results: results,
+            completed_at: new Date().toISOString()
+        });
+    } catch (error) {
+        // Rows imported before the failure stay imported and are listed in the results
+        console.error(`CSV import job ${id} failed:`, error);
+        try {
+            await updateJob({
+                status: 'failed',
+                ...tally(),
+                results: results,
+                error_message: (error as Error).message,
+                completed_at: new Date().toISOString()
+            });
+        } catch (updateError) {
+            console.error(`Could not record failure of import job ${id}:`, updateError);
+        }
+    }
+}
+
+// Runs each data row through validation and the create/update/skip logic, appending to results.
+// A dry run reads current products to describe the changes but writes nothing; a real import
+// records what each row changed under importId and the job's run so it can be rolled back.
+async function importRows(
+    upload: ImportSource,
+    results: ImportResult[],
+    { dryRun = false, importId, run = 1, onProgress }: { dryRun?: boolean; importId?: string; run?: number; onProgress?: () => Promise<void> } = {}
+) {
+    const { header, fileHash, userRole } = upload;
+
+    // Resolve the optional location column (matched by location code or name)
+    const locationsByKey = new Map<string, { id: string; name: string }>();
+    if (header.includes('location')) {
+        const { data: locations, error: locationsError } = await supabase
+            .from('locations')
+            .select('id, name, code');
+
+        if (locationsError) throw locationsError;
+
+        (locations || []).forEach(location => {
+            locationsByKey.set(location.code.toLowerCase(), location);
+            locationsByKey.set(location.name.toLowerCase(), location);
+        });
+    }
+
+    // Resolve the optional parent_sku column, which makes the row's product a variant of that parent
+    const parentsBySku = new Map<string, { id: string; sku: string }>();
+    if (header.includes('parent_sku')) {
+        const { data: parents, error: parentsError } = await supabase
+            .from('parent_products')
+            .select('id, sku');
+
+        if (parentsError) throw parentsError;
+
+        (parents || []).forEach(parent => parentsBySku.set(parent.sku.toLowerCase(), parent));
+    }
+    const parentSkuById = new Map(Array.from(parentsBySku.values()).map(parent => [String(parent.id), parent.sku]));
+
+    // Process data rows; the header was checked when the job was submitted
+    const processedSkus: Set<string> = new Set(); // Track SKU (per location) processed in this file
+    // A dry run writes nothing, so it keeps each SKU as the rows so far would have left it; a new
+    // SKU listed for several locations is then created once and updated by the later rows, as it
+    // would be in the real import
+    const previewProducts = new Map<string, Record<string, unknown>>();
+    const records = parseCsvStream(bufferChunks(upload.buffer));
+    await records.next();
+
+    for await (const record of records) {
+        // Rows are numbered by the file line they start on
+        const rowNumber = record.line;
+
+        if (onProgress && results.length > 0 && results.length % PROGRESS_INTERVAL_ROWS === 0) {
+            await onProgress();
+        }
+
+        try {
+            const values = record.fields.map(value => value.trim());
+            const csvRow: CSVRow = {} as CSVRow;
             
-            try {
-                // Parse CSV row
-                const values = parseCSVRow(row);
-                const csvRow: CSVRow = {} as CSVRow;
-                
-                header.forEach((col, index) => {
-                    csvRow[col] = values[index] || '';
+            header.forEach((col, index) => {
+                // Columns the mapping ignores have no name
+                if (col) csvRow[col] = values[index] || '';
+            });
+
+            // Validate row
+            const validationErrors = validateRow(csvRow, rowNumber);
+            if (validationErrors.length > 0) {
+                results.push({
+                    row: rowNumber,
+                    sku: csvRow.sku || 'unknown',
+                    status: 'error',
+                    message: validationErrors.map(e => `${e.field}: ${e.message}`).join('; ')
                 });
+                continue;
+            }
 
-                // Validate row
-                const validationErrors = validateRow(csvRow, rowNumber);
-                if (validationErrors.length > 0) {
-                    results.push({
-                        row: rowNumber,
-                        sku: csvRow.sku || 'unknown',
-                        status: 'error',
-                        message: validationErrors.map(e => `${e.field}: ${e.message}`).join('; ')
-                    });
-                    continue;
-                }
+            const sku = csvRow.sku.trim();
 
-                // Check for duplicates in the same file
-                const sku = csvRow.sku.trim();
-                if (processedSkus.has(sku)) {
-                    results.push({
-                        row: rowNumber,
-                        sku: sku,
-                        status: 'skipped',
-                        message: 'Duplicate in same file'
-                    });
-                    continue;
-                }
-                processedSkus.add(sku);
+            // Each branch may upload its own counts; an empty location means the default one
+            const locationValue = (csvRow.location || '').trim();
+            const location = locationValue ? locationsByKey.get(locationValue.toLowerCase()) : undefined;
+            if (locationValue && !location) {
+                results.push({
+                    row: rowNumber,
+                    sku: sku,
+                    status: 'error',
+                    message: `location: Unknown location "${locationValue}"`
+                });
+                continue;
+            }
 
-                // Check if product exists by SKU
-                const { data: existingProduct } = await supabase
-                    .from('products')
-                    .select('id, version, name, category, quantity, unit_price')
-                    .eq('sku', sku)
-                    .single();
+            // A blank parent_sku leaves the product's parent as it is
+            const parentSku = (csvRow.parent_sku || '').trim();
+            const parent = parentSku ? parentsBySku.get(parentSku.toLowerCase()) : undefined;
+            if (parentSku && !parent) {
+                results.push({
+                    row: rowNumber,
+                    sku: sku,
+                    status: 'error',
+                    message: `parent_sku: Unknown parent product "${parentSku}"`
+                });
+                continue;
+            }
 
-                const productData = {
-                    name: csvRow.name.trim(),
+            // Check for duplicates in the same file
+            const skuKey = location ? `${sku}@${location.id}` : sku;
+            if (processedSkus.has(skuKey)) {
+                results.push({
+                    row: rowNumber,
                     sku: sku,
-                    category: csvRow.category.trim(),
-                    quantity: parseInt(csvRow.quantity),
-                    unit_price: parseFloat(csvRow.unit_price)
-                };
+                    status: 'skipped',
+                    message: 'Duplicate in same file'
+                });
+                continue;
+            }
+            processedSkus.add(skuKey);
 
-                // Check if this is a unit_price change
-                const isUnitPriceChange = existingProduct &&
-                    parseFloat(csvRow.unit_price) !== existingProduct.unit_price;
+            // Check if product exists by SKU
+            const existingProduct = previewProducts.get(sku) ?? (await supabase
+                .from('products')
+                .select('id, version, name, sku, category, quantity, unit_price, cost_price, hsn_code, gst_rate, reorder_point, reorder_quantity, parent_id, variant_values, archived_at')
+                .eq('sku', sku)
+                .single()).data;
 
-                // For staff users, skip unit_price changes but allow other updates
-                const isStaffSkippingUnitPrice = userRole === 'staff' && isUnitPriceChange;
+            // The SKU still belongs to the archived product, so don't silently edit it in the recycle bin
+            if (existingProduct?.archived_at) {
+                results.push({
+                    row: rowNumber,
+                    sku: sku,
+                    status: 'skipped',
+                    message: 'SKU is in the recycle bin; restore it before importing'
+                });
+                continue;
+            }
 
-                let result: ImportResult;
+            // Reorder settings are only touched when the column is present and the cell is filled
+            const reorderData: { reorder_point?: number; reorder_quantity?: number } = {};
+            if (csvRow.reorder_point?.trim()) reorderData.reorder_point = parseInt(csvRow.reorder_point);
+            if (csvRow.reorder_quantity?.trim()) reorderData.reorder_quantity = parseInt(csvRow.reorder_quantity);
 
-                if (existingProduct) {
-                    // Update existing product - all fields except SKU can be updated
-                    const updateData = {
-                        name: productData.name,
-                        category: productData.category,
-                        quantity: productData.quantity,
-                        version: existingProduct.version + 1,
-                        ...( (!isUnitPriceChange || userRole === 'owner') && { unit_price: productData.unit_price } )
-                    };
+            // GST fields for invoices follow the same rule
+            const taxData: { hsn_code?: string; gst_rate?: number } = {};
+            if (csvRow.hsn_code?.trim()) taxData.hsn_code = csvRow.hsn_code.trim();
+            if (csvRow.gst_rate?.trim()) taxData.gst_rate = parseFloat(csvRow.gst_rate);
 
-                    const { data: updatedProduct, error: updateError } = await supabase
-                        .from('products')
-                        .update(updateData)
-                        .eq('id', existingProduct.id)
-                        .select()
-                        .single();
-
-                    if (updateError) {
-                        result = {
-                            row: rowNumber,
-                            sku: sku,
-                            status: 'error',
-                            message: `Update failed: ${updateError.message}`
-                        };
-                    } else {
-                        // Create detailed message about what was updated
-                        const changes: string[] = [];
-                        if (productData.name !== existingProduct.name) {
-                            changes.push(`name: "${existingProduct.name}" → "${productData.name}"`);
-                        }
-                        if (productData.category !== existingProduct.category) {
-                            changes.push(`category: "${existingProduct.category}" → "${productData.category}"`);
-                        }
-                        if (productData.quantity !== existingProduct.quantity) {
-                            changes.push(`quantity: ${existingProduct.quantity} → ${productData.quantity}`);
-                        }
-                        if (isUnitPriceChange && userRole === 'owner') {
-                            changes.push(`unit_price: ${existingProduct.unit_price} → ${productData.unit_price}`);
+            // Attribute values belong to the old parent, so moving a variant clears them
+            const isParentChange = parent !== undefined && String(parent.id) !== String(existingProduct?.parent_id ?? '');
+            const variantData = isParentChange ? { parent_id: parent.id, variant_values: {} } : {};
+
+            // Cost price follows the same rule and, like unit_price, is owner-only
+            const costPrice = csvRow.cost_price?.trim() ? parseFloat(csvRow.cost_price) : undefined;
+            const isCostPriceChange = costPrice !== undefined &&
+                (!existingProduct || costPrice !== (existingProduct.cost_price === null ? null : parseFloat(existingProduct.cost_price)));
+            const isStaffSkippingCostPrice = userRole === 'staff' && isCostPriceChange;
+            const costData = costPrice !== undefined && !isStaffSkippingCostPrice ? { cost_price: costPrice } : {};
+
+            const productData = {
+                name: csvRow.name.trim(),
+                sku: sku,
+                category: csvRow.category.trim(),
+                quantity: parseInt(csvRow.quantity),
+                unit_price: parseFloat(csvRow.unit_price),
+                ...reorderData,
+                ...taxData
+            };
+
+            // Check if this is a unit_price change
+            const isUnitPriceChange = existingProduct &&
+                parseFloat(csvRow.unit_price) !== existingProduct.unit_price;
+
+            // For staff users, skip unit_price changes but allow other updates
+            const isStaffSkippingUnitPrice = userRole === 'staff' && isUnitPriceChange;
+
+            let result: ImportResult;
+
+            // With a location column the CSV quantity is that store's count, otherwise the product total
+            let currentQuantity = existingProduct?.quantity;
+            if (existingProduct && location) {
+                // A product the dry run has only previewed creating holds no stock yet
+                const { data: locationStock } = existingProduct.id === null ? { data: null } : await supabase
+                    .from('product_stock')
+                    .select('quantity')
+                    .eq('product_id', existingProduct.id)
+                    .eq('location_id', location.id)
+                    .maybeSingle();
+                currentQuantity = locationStock?.quantity ?? 0;
+            }
+            const quantityLabel = location ? `quantity (${location.name})` : 'quantity';
+
+            if (existingProduct) {
+                // Update existing product - all fields except SKU can be updated
+                const updateData = {
+                    name: productData.name,
+                    category: productData.category,
+                    ...reorderData,
+                    ...taxData,
+                    ...costData,
+                    ...variantData,
+                    ...( (!isUnitPriceChange || userRole === 'owner') && { unit_price: productData.unit_price } )
+                };
+
+                // Work out what the row changes first: a row that changes nothing is not written,
+                // so it doesn't bump the product's version
+                const changes: string[] = [];
+                if (productData.name !== existingProduct.name) {
+                    changes.push(`name: "${existingProduct.name}" → "${productData.name}"`);
+                }
+                if (productData.category !== existingProduct.category) {
+                    changes.push(`category: "${existingProduct.category}" → "${productData.category}"`);
+                }
+                if (productData.quantity !== currentQuantity) {
+                    changes.push(`${quantityLabel}: ${currentQuantity} → ${productData.quantity}`);
+                }
+                (['reorder_point', 'reorder_quantity'] as const).forEach(field => {
+                    if (reorderData[field] !== undefined && reorderData[field] !== existingProduct[field]) {
+                        changes.push(`${field}: ${existingProduct[field] ?? 'default'} → ${reorderData[field]}`);
+                    }
+                });
+                if (taxData.hsn_code !== undefined && taxData.hsn_code !== existingProduct.hsn_code) {
+                    changes.push(`hsn_code: ${existingProduct.hsn_code ?? 'unset'} → ${taxData.hsn_code}`);
+                }
+                if (taxData.gst_rate !== undefined && taxData.gst_rate !== (existingProduct.gst_rate === null ? null : parseFloat(existingProduct.gst_rate))) {
+                    changes.push(`gst_rate: ${existingProduct.gst_rate ?? 'unset'} → ${taxData.gst_rate}`);
+                }
+                if (isParentChange) {
+                    const previousParent = existingProduct.parent_id ? parentSkuById.get(String(existingProduct.parent_id)) ?? 'unknown' : 'none';
+                    changes.push(`parent: ${previousParent} → ${parentSku}`);
+                }
+                if (isUnitPriceChange && userRole === 'owner') {
+                    changes.push(`unit_price: ${existingProduct.unit_price} → ${productData.unit_price}`);
+                }
+                if (isCostPriceChange && !isStaffSkippingCostPrice) {
+                    changes.push(`cost_price: ${existingProduct.cost_price ?? 'unset'} → ${costPrice}`);
+                }
+
+                let updatedProduct: Product | null = null;
+                let updateError: { message: string } | null = null;
+                if (dryRun && changes.length > 0) {
+                    previewProducts.set(sku, {
+                        ...existingProduct,
+                        ...updateData,
+                        quantity: existingProduct.quantity + productData.quantity - currentQuantity,
+                        version: existingProduct.version + 1
+                    });
+                } else if (changes.length > 0) {
+                    try {
+                        // Quantity changes are written to the stock ledger rather than overwritten, in the
+                        // same transaction as the field update
+                        updatedProduct = await updateProductWithStock({
+                            productId: existingProduct.id,
+                            expectedVersion: existingProduct.version,
+                            fields: updateData,
+                            quantity: productData.quantity,
+                            reason: 'import',
+                            locationId: location?.id,
+                            actorId: upload.userId,
+                            // Stock added by the row is costed at the row's cost_price when given
+                            unitCost: costData.cost_price,
+                            note: `CSV import: ${upload.filename}`,
+                            reference: `import:${fileHash}`
+                        });
+                    } catch (updateFailure) {
+                        updateError = { message: (updateFailure as Error).message };
+                    }
+                }
+
+                if (updateError) {
+                    result = {
+                        row: rowNumber,
+                        sku: sku,
+                        status: 'error',
+                        message: `Update failed: ${updateError.message}`
+                    };
+                } else {
+                    let recorded = true;
+                    if (updatedProduct) {
+                        await recordProductAudit({
+                            productId: existingProduct.id,
+                            operation: 'update',
+                            source: 'import',
+                            actorId: upload.userId,
+                            before: existingProduct,
+                            after: updatedProduct
+                        });
+                        if (importId) {
+                            recorded = await recordImportChange({
+                                import_id: importId,
+                                run,
+                                row_number: rowNumber,
+                                product_id: existingProduct.id,
+                                sku,
+                                operation: 'update',
+                                before: existingProduct,
+                                quantity_delta: productData.quantity - currentQuantity,
+                                location_id: location?.id ?? null,
+                                version_after: updatedProduct.version
+                            });
                         }
-                        
-                        // Create message based on user role and changes
-                        let message = '';
-                        if (changes.length > 0) {
-                            message = `Updated: ${changes.join(', ')}`;
-                            if (isStaffSkippingUnitPrice) {
-                                message += '; unit_price skipped (staff restriction)';
-                            }
-                        } else {
-                            message = isStaffSkippingUnitPrice ? 'unit_price skipped (staff restriction)' : 'No changes detected';
+                    }
+
+                    // Staff price changes go to the owner's approval queue instead of being dropped
+                    let priceNote = '';
+                    if (isStaffSkippingUnitPrice && dryRun) {
+                        priceNote = `unit_price ${existingProduct.unit_price} → ${productData.unit_price} will be submitted for approval`;
+                    } else if (isStaffSkippingUnitPrice) {
+                        try {
+                            await submitPriceRequest({
+                                productId: existingProduct.id,
+                                requestedPrice: productData.unit_price,
+                                currentPrice: parseFloat(existingProduct.unit_price),
+                                baseVersion: (updatedProduct ?? existingProduct).version,
+                                actorId: upload.userId,
+                                reason: `CSV import: ${upload.filename}`,
+                                source: 'import'
+                            });
+                            priceNote = `unit_price ${existingProduct.unit_price} → ${productData.unit_price} submitted for approval`;
+                        } catch {
+                            priceNote = 'unit_price skipped (price request could not be submitted)';
                         }
-                        
-                        result = {
-                            row: rowNumber,
-                            sku: sku,
-                            status: 'updated',
-                            message: message,
-                            data: updatedProduct
-                        };
                     }
-                } else {
-                    // Create new product
-                    // For staff users, exclude unit_price from creation if it's being provided
-                    const createData = isStaffSkippingUnitPrice ? {
-                        name: productData.name,
-                        sku: productData.sku,
-                        category: productData.category,
-                        quantity: productData.quantity,
-                        unit_price: 0 // Default to 0 for staff users
-                    } : productData;
-
-                    const { data: newProduct, error: insertError } = await supabase
-                        .from('products')
-                        .insert([createData])
-                        .select()
-                        .single();
-
-                    if (insertError) {
-                        result = {
-                            row: rowNumber,
-                            sku: sku,
-                            status: 'error',
-                            message: `Insert failed: ${insertError.message}`
-                        };
+                    if (isStaffSkippingCostPrice) {
+                        priceNote = [priceNote, 'cost_price skipped (staff restriction)'].filter(Boolean).join('; ');
+                    }
+
+                    // Create message based on user role and changes
+                    let message = '';
+                    if (changes.length > 0) {
+                        message = `Updated: ${changes.join(', ')}`;
+                        if (priceNote) {
+                            message += `; ${priceNote}`;
+                        }
                     } else {
-                        const message = isStaffSkippingUnitPrice ?
-                            'Product created successfully (unit_price skipped due to staff restriction)' :
-                            'Product created successfully';
-                        result = {
-                            row: rowNumber,
-                            sku: sku,
-                            status: 'created',
-                            message: message,
-                            data: newProduct
-                        };
+                        message = priceNote || 'No changes detected';
                     }
+
+                    result = recorded ? {
+                        row: rowNumber,
+                        sku: sku,
+                        status: changes.length > 0 ? 'updated' : 'skipped',
+                        message: message,
+                        // The preview shows the product as the import would leave it
+                        data: updatedProduct ?? previewProducts.get(sku) ?? existingProduct
+                    } : {
+                        // The product was changed but rollback can't see it, so the row is reported as failed
+                        row: rowNumber,
+                        sku: sku,
+                        status: 'error',
+                        message: `${message}; the change could not be recorded, so rolling back this import will not undo this row`,
+                        data: updatedProduct
+                    };
                 }
+            } else {
+                // Create new product
+                // For staff users, exclude unit_price from creation if it's being provided
+                const createData = isStaffSkippingUnitPrice ? {
+                    name: productData.name,
+                    sku: productData.sku,
+                    category: productData.category,
+                    quantity: productData.quantity,
+                    unit_price: 0, // Default to 0 for staff users
+                    ...reorderData,
+                    ...taxData,
+                    ...variantData
+                } : { ...productData, ...costData, ...variantData };
 
-                results.push(result);
+                let newProduct: Product | null = null;
+                let insertError: { message: string } | null = null;
+                if (dryRun) {
+                    previewProducts.set(sku, {
+                        id: null,
+                        version: 1,
+                        cost_price: null,
+                        hsn_code: null,
+                        gst_rate: null,
+                        reorder_point: null,
+                        reorder_quantity: null,
+                        parent_id: null,
+                        variant_values: {},
+                        archived_at: null,
+                        ...createData
+                    });
+                } else {
+                    try {
+                        // The opening balance is booked in the same transaction as the insert
+                        newProduct = await createProductWithOpeningBalance(createData, 'import', upload.userId, `import:${fileHash}`, location?.id);
+                    } catch (insertFailure) {
+                        insertError = { message: (insertFailure as Error).message };
+                    }
+                }
 
-            } catch (error) {
-                results.push({
-                    row: rowNumber,
-                    sku: 'unknown',
-                    status: 'error',
-                    message: `Row parsing failed: ${(error as Error).message}`
-                });
+                if (insertError) {
+                    result = {
+                        row: rowNumber,
+                        sku: sku,
+                        status: 'error',
+                        message: `Insert failed: ${insertError.message}`
+                    };
+                } else {
+                    let recorded = true;
+                    if (newProduct) {
+                        await recordProductAudit({
+                            productId: newProduct.id,
+                            operation: 'create',
+                            source: 'import',
+                            actorId: upload.userId,
+                            before: null,
+                            after: newProduct
+                        });
+                        if (importId) {
+                            recorded = await recordImportChange({
+                                import_id: importId,
+                                run,
+                                row_number: rowNumber,
+                                product_id: newProduct.id,
+                                sku,
+                                operation: 'create',
+                                before: null,
+                                quantity_delta: newProduct.quantity,
+                                location_id: location?.id ?? null,
+                                version_after: newProduct.version
+                            });
+                        }
+                    }
+                    const skippedFields = [
+                        ...(isStaffSkippingUnitPrice ? ['unit_price'] : []),
+                        ...(isStaffSkippingCostPrice ? ['cost_price'] : [])
+                    ];
+                    const created = dryRun ? 'Product will be created' : 'Product created successfully';
+                    const message = skippedFields.length > 0 ?
+                        `${created} (${skippedFields.join(', ')} skipped due to staff restriction)` :
+                        created;
+                    result = recorded ? {
+                        row: rowNumber,
+                        sku: sku,
+                        status: 'created',
+                        message: message,
+                        data: newProduct ?? createData
+                    } : {
+                        row: rowNumber,
+                        sku: sku,
+                        status: 'error',
+                        message: `${message}; the change could not be recorded, so rolling back this import will not undo this row`,
+                        data: newProduct
+                    };
+                }
             }
+
+            results.push(result);
+
+        } catch (error) {
+            results.push({
+                row: rowNumber,
+                sku: 'unknown',
+                status: 'error',
+                message: `Row parsing failed: ${(error as Error).message}`
+            });
+        }
+    }
+
+}
+
+export const getImportJob = async (req: Request, res: Response) => {
+    try {
+        const { data: importLog, error } = await supabase
+            .from('import_logs')
+            .select('*')
+            .eq('id', req.params.id)
+            .maybeSingle();
+
+        if (error) throw error;
+
+        // Staff only see their own imports, as with the table's RLS policy
+        if (!importLog || (req.user?.role !== 'owner' && importLog.imported_by !== req.user?.id)) {
+            return res.status(404).json({
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Import with id ${req.params.id} not found`
+                }
+            });
         }
 
-        // Log the import
-        const { data: importLog } = await supabase
+        res.status(200).json({
+            success: true,
+            data: formatImportJob(importLog)
+        });
+
+    } catch (error) {
+        console.error('Get import job error:', error);
+        res.status(500).json({
+            error: {
+                code: 'INTERNAL_ERROR',
+                message: (error as Error).message
+            }
+        });
+    }
+};
+
+export const getImportJobs = async (req: Request, res: Response) => {
+    try {
+        // Row results are left out of the list; fetch a single import for those
+        let query = supabase
             .from('import_logs')
-            .insert([{
-                file_hash: fileHash,
-                filename: req.file.originalname,
-                total_rows: dataRows.length,
-                results: results,
-                imported_by: req.user?.id
-            }])
-            .select()
-            .single();
+            .select('id, filename, status, total_rows, processed_rows, successful_rows, failed_rows, error_message, imported_by, completed_at, rolled_back_at, created_at')
+            .order('created_at', { ascending: false })
+            .limit(20);
+
+        if (req.user?.role !== 'owner') {
+            query = query.eq('imported_by', req.user?.id);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw error;
 
         res.status(200).json({
             success: true,
-            message: 'CSV import completed',
-            import_id: importLog?.id,
-            summary: {
-                total_rows: dataRows.length,
-                created: results.filter(r => r.status === 'created').length,
-                updated: results.filter(r => r.status === 'updated').length,
-                errors: results.filter(r => r.status === 'error').length
-            },
-            results: results
+            data: data || [],
+            count: data?.length || 0
         });
 
     } catch (error) {
-        console.error('CSV import error:', error);
+        console.error('Get import jobs error:', error);
         res.status(500).json({
             error: {
                 code: 'INTERNAL_ERROR',
@@ -317,27 +897,67 @@ export const importCSV = async (req: Request, res: Response) => {
     }
 };
 
-function parseCSVRow(row: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < row.length; i++) {
-        const char = row[i];
-        
-        if (char === '"') {
-            inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-            result.push(current.trim());
-            current = '';
-        } else {
-            current += char;
+export const rollbackImport = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const { data: undone, error } = await supabase.rpc('rollback_import', {
+            p_import_id: id,
+            p_actor: req.user?.id ?? null
+        });
+
+        if (error) throw mapSupabaseError(error, 'import', id);
+
+        // Each undone product as it was before the rollback and after it (null when deleted)
+        const entries = (undone || []) as { product_id: string; operation: 'update' | 'delete'; before: Product; after: Product | null }[];
+        for (const entry of entries) {
+            await recordProductAudit({
+                productId: entry.product_id,
+                operation: entry.operation,
+                source: 'import',
+                actorId: req.user?.id,
+                before: entry.before,
+                after: entry.after
+            });
         }
+
+        const { data: importLog, error: fetchError } = await supabase
+            .from('import_logs')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw mapSupabaseError(fetchError, 'import', id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Import rolled back',
+            data: {
+                ...formatImportJob(importLog),
+                restored: entries.filter(entry => entry.operation === 'update').length,
+                removed: entries.filter(entry => entry.operation === 'delete').length
+            }
+        });
+
+    } catch (error) {
+        console.error('Rollback import error:', error);
+        sendErrorResponse(res, mapSupabaseError(error as Error, 'import', id));
     }
-    
-    result.push(current.trim());
-    return result;
-}
+};
+
+// Jobs run inside the API process, so any still queued or running at startup were cut off by a restart
+export const failInterruptedImports = async () => {
+    const { error } = await supabase
+        .from('import_logs')
+        .update({
+            status: 'failed',
+            error_message: 'Interrupted by a server restart; upload the file again to resume',
+            completed_at: new Date().toISOString()
+        })
+        .in('status', ['pending', 'processing']);
+
+    if (error) throw error;
+};
 
 function validateRow(row: CSVRow, rowNumber: number): ValidationError[] {
     const errors: ValidationError[] = [];
@@ -370,5 +990,39 @@ function validateRow(row: CSVRow, rowNumber: number): ValidationError[] {
         errors.push({ field: 'unit_price', message: 'Unit price must be non-negative' });
     }
 
+    // Validate optional reorder settings (blank cells are left unchanged)
+    if (row.reorder_point?.trim()) {
+        const reorderPoint = Number(row.reorder_point);
+        if (!Number.isInteger(reorderPoint) || reorderPoint < 0) {
+            errors.push({ field: 'reorder_point', message: 'Reorder point must be a non-negative integer' });
+        }
+    }
+
+    if (row.reorder_quantity?.trim()) {
+        const reorderQuantity = Number(row.reorder_quantity);
+        if (!Number.isInteger(reorderQuantity) || reorderQuantity <= 0) {
+            errors.push({ field: 'reorder_quantity', message: 'Reorder quantity must be a positive integer' });
+        }
+    }
+
+    if (row.cost_price?.trim()) {
+        const costPrice = Number(row.cost_price);
+        if (isNaN(costPrice) || costPrice < 0) {
+            errors.push({ field: 'cost_price', message: 'Cost price must be a non-negative number' });
+        }
+    }
+
+    if (row.hsn_code?.trim() && !isValidHsnCode(row.hsn_code.trim())) {
+        errors.push({ field: 'hsn_code', message: 'HSN code must be 4, 6 or 8 digits' });
+    }
+
+    if (row.gst_rate?.trim() && !isValidGstRate(Number(row.gst_rate))) {
+        errors.push({ field: 'gst_rate', message: 'GST rate must be a percentage between 0 and 100' });
+    }
+
+    if (row.parent_sku && row.parent_sku.trim().length > 64) {
+        errors.push({ field: 'parent_sku', message: 'Parent SKU must be 64 characters or less' });
+    }
+
     return errors;
 }
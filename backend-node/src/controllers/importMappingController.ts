@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { IMPORT_COLUMNS, normalizeColumnMapping } from '../utils/importMapping';
+
+const MAX_NAME_LENGTH = 60;
+
+export const getImportMappings = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { data, error } = await supabase
+            .from('import_mappings')
+            .select('id, name, mapping, updated_at')
+            .eq('user_id', req.user?.id)
+            .order('name', { ascending: true });
+
+        if (error) throw mapSupabaseError(error, 'import_mappings');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, fields: IMPORT_COLUMNS });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'import_mappings') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Saving under a name the user already has replaces that template
+export const saveImportMapping = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        if (!name || name.length > MAX_NAME_LENGTH) {
+            throw ErrorTypes.VALIDATION_ERROR(`name is required (at most ${MAX_NAME_LENGTH} characters)`, {
+                resource: 'import_mapping',
+                field: 'name'
+            });
+        }
+
+        const mapping = normalizeColumnMapping(req.body.mapping);
+        if (!mapping) {
+            throw ErrorTypes.VALIDATION_ERROR('mapping must map file columns to product fields (each used once) or to null to ignore them', {
+                resource: 'import_mapping',
+                field: 'mapping',
+                allowed_fields: IMPORT_COLUMNS
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('import_mappings')
+            .upsert({ user_id: req.user?.id, name, mapping }, { onConflict: 'user_id,name' })
+            .select('id, name, mapping, updated_at')
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'import_mapping');
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', data.id));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'import_mapping') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const deleteImportMapping = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('import_mappings')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', req.user?.id)
+            .select('id');
+
+        if (error) throw mapSupabaseError(error, 'import_mapping', id);
+        if (!data || data.length === 0) throw ErrorTypes.NOT_FOUND('import_mapping', id);
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, message: 'Column mapping deleted' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'import_mapping', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,294 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { isValidGstin, isValidStateCode } from '../utils/gst';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import { UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue } from '../utils/pdf';
+
+const INVOICE_COLUMNS = `
+    id, invoice_number, financial_year, sequence_number, invoice_date, sale_id,
+    seller_name, seller_address, seller_gstin, buyer_name, buyer_address, buyer_gstin,
+    place_of_supply, supply_type, taxable_value, cgst_amount, sgst_amount, igst_amount, total,
+    created_by, created_at,
+    lines:invoice_lines(id, product_id, sku, description, hsn_code, quantity, unit_price, taxable_value,
+        gst_rate, cgst_amount, sgst_amount, igst_amount, line_total)
+`;
+
+interface InvoiceLineInput {
+    sku: string;
+    quantity: number;
+}
+
+interface BuyerInput {
+    name?: string;
+    address?: string;
+    gstin?: string;
+}
+
+const fetchInvoice = async (id: string) => {
+    const { data, error } = await supabase
+        .from('invoices')
+        .select(INVOICE_COLUMNS)
+        .eq('id', id)
+        .order('id', { ascending: true, referencedTable: 'invoice_lines' })
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'invoice', id);
+
+    return data;
+};
+
+export const getInvoices = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { financial_year, from, to } = req.query as { financial_year?: string; from?: string; to?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('invoices')
+            .select(INVOICE_COLUMNS, { count: 'exact' })
+            .order('invoice_date', { ascending: false })
+            .order('sequence_number', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (financial_year) {
+            if (!/^\d{4}-\d{2}$/.test(financial_year)) {
+                throw ErrorTypes.VALIDATION_ERROR('financial_year must look like 2025-26', {
+                    resource: 'invoices',
+                    field: 'financial_year'
+                });
+            }
+            query = query.eq('financial_year', financial_year);
+        }
+
+        if (from) query = query.gte('invoice_date', from);
+        if (to) query = query.lte('invoice_date', to);
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'invoices');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'invoices') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getInvoiceById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await fetchInvoice(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'invoice', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getInvoicePdf = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const invoice = await fetchInvoice(id);
+        const pdf = renderInvoicePdf(invoice);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            invoice_id: id,
+            format: 'pdf',
+            unrendered_text: pdf.unrenderedText.length
+        }));
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf"`);
+        // Text the PDF fonts can't show is printed as '?'; the client warns about it
+        if (pdf.unrenderedText.length > 0) {
+            res.setHeader(UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue(pdf.unrenderedText));
+        }
+        res.send(pdf.buffer);
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'invoice', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createInvoice = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { lines, place_of_supply, location_id, client_reference, sold_at } = req.body as {
+            lines?: InvoiceLineInput[];
+            place_of_supply?: string;
+            location_id?: string;
+            client_reference?: string;
+            sold_at?: string;
+        };
+        const buyer: BuyerInput = req.body.buyer ?? {};
+
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('An invoice needs at least one line', {
+                resource: 'invoice',
+                required_fields: ['lines']
+            });
+        }
+
+        const seenSkus = new Set<string>();
+        lines.forEach((line, index) => {
+            if (typeof line.sku !== 'string' || !line.sku.trim() || !Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line needs a sku and a positive integer quantity', {
+                    resource: 'invoice',
+                    field: `lines[${index}]`
+                });
+            }
+            if (seenSkus.has(line.sku.trim())) {
+                throw ErrorTypes.VALIDATION_ERROR('A SKU can only appear once per invoice', {
+                    resource: 'invoice',
+                    field: `lines[${index}].sku`
+                });
+            }
+            seenSkus.add(line.sku.trim());
+        });
+
+        if (buyer.gstin && !isValidGstin(buyer.gstin)) {
+            throw ErrorTypes.VALIDATION_ERROR('Buyer GSTIN is not valid', {
+                resource: 'invoice',
+                field: 'buyer.gstin'
+            });
+        }
+
+        if (place_of_supply !== undefined && !isValidStateCode(place_of_supply)) {
+            throw ErrorTypes.VALIDATION_ERROR('place_of_supply must be a two-digit GST state code', {
+                resource: 'invoice',
+                field: 'place_of_supply'
+            });
+        }
+
+        if (client_reference !== undefined && (typeof client_reference !== 'string' || !client_reference.trim() || client_reference.length > 100)) {
+            throw ErrorTypes.VALIDATION_ERROR('client_reference must be a non-empty string of at most 100 characters', {
+                resource: 'invoice',
+                field: 'client_reference'
+            });
+        }
+
+        if (sold_at !== undefined && (typeof sold_at !== 'string' || isNaN(Date.parse(sold_at)))) {
+            throw ErrorTypes.VALIDATION_ERROR('sold_at must be a timestamp', {
+                resource: 'invoice',
+                field: 'sold_at'
+            });
+        }
+
+        // An invoice replayed from the offline queue returns the one already issued
+        if (client_reference) {
+            const { data: existing, error: existingError } = await supabase
+                .from('invoices')
+                .select('id, sale:sales!inner(client_reference)')
+                .eq('sale.client_reference', client_reference)
+                .maybeSingle();
+
+            if (existingError) throw mapSupabaseError(existingError, 'invoice');
+
+            if (existing) {
+                const data = await fetchInvoice(existing.id);
+
+                logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+                    invoice_id: existing.id,
+                    replayed: true
+                }));
+
+                res.json({ success: true, data });
+                return;
+            }
+        }
+
+        const { data: gstinSetting, error: settingError } = await supabase
+            .from('app_settings')
+            .select('value')
+            .eq('key', 'gstin')
+            .maybeSingle();
+
+        if (settingError) throw mapSupabaseError(settingError, 'app_settings');
+
+        if (!gstinSetting?.value) {
+            throw ErrorTypes.INVALID_STATE('Set the business GSTIN before issuing invoices', {
+                resource: 'setting',
+                id: 'gstin'
+            });
+        }
+
+        // Report every unknown, archived or untaxed product at once
+        const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('id, sku, archived_at, gst_rate')
+            .in('sku', lines.map(line => line.sku.trim()));
+
+        if (productsError) throw mapSupabaseError(productsError, 'products');
+
+        const productsBySku = new Map((products || []).map(product => [product.sku, product]));
+        const lineErrors = lines.flatMap((line, index) => {
+            const product = productsBySku.get(line.sku.trim());
+            if (!product) return [{ line: index, sku: line.sku, code: 'NOT_FOUND', message: 'Product not found' }];
+            if (product.archived_at) return [{ line: index, sku: line.sku, product_id: product.id, code: 'ARCHIVED', message: 'Product is archived' }];
+            if (product.gst_rate === null) return [{ line: index, sku: line.sku, product_id: product.id, code: 'NO_GST_RATE', message: 'Product has no GST rate' }];
+            return [];
+        });
+
+        if (lineErrors.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('One or more lines cannot be invoiced', {
+                resource: 'invoice',
+                field: 'lines',
+                lines: lineErrors
+            });
+        }
+
+        // Supplies to a registered buyer go to the buyer's state; counter sales stay in ours
+        const placeOfSupply = place_of_supply ?? (buyer.gstin ? buyer.gstin.slice(0, 2) : gstinSetting.value.slice(0, 2));
+
+        // A till clock running ahead must not date a sale in the future
+        const soldAt = sold_at ? new Date(Math.min(Date.parse(sold_at), Date.now())).toISOString() : null;
+
+        const { data: invoice, error } = await supabase.rpc('create_invoice', {
+            p_lines: lines.map(line => ({ product_id: productsBySku.get(line.sku.trim())!.id, quantity: line.quantity })),
+            p_place_of_supply: placeOfSupply,
+            p_actor: req.user?.id ?? null,
+            p_location_id: location_id ?? null,
+            p_client_reference: client_reference ?? null,
+            p_buyer_name: buyer.name?.trim() || null,
+            p_buyer_address: buyer.address?.trim() || null,
+            p_buyer_gstin: buyer.gstin || null,
+            p_sold_at: soldAt
+        });
+
+        if (error) throw mapSupabaseError(error, 'invoice');
+
+        const data = await fetchInvoice(invoice.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            invoice_id: invoice.id,
+            invoice_number: invoice.invoice_number
+        }));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'invoice') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { LabelProduct, LabelTemplate, renderLabelsPdf } from '../utils/labelPdf';
+import { UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue } from '../utils/pdf';
+
+const MAX_PRODUCTS = 500;
+const MAX_COPIES = 100;
+const MAX_LABELS = 2000;
+const MAX_COLUMNS = 5;
+const MAX_ROWS = 15;
+// 3 x 8 is the common 24-up sheet (70 x 37 mm labels)
+const DEFAULT_TEMPLATE: LabelTemplate = { columns: 3, rows: 8, borders: true };
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const parseTemplate = (input: unknown): LabelTemplate => {
+    if (input === undefined || input === null) return DEFAULT_TEMPLATE;
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        throw ErrorTypes.VALIDATION_ERROR('template must be an object with columns and rows', {
+            resource: 'label',
+            field: 'template'
+        });
+    }
+
+    const { columns = DEFAULT_TEMPLATE.columns, rows = DEFAULT_TEMPLATE.rows, borders = DEFAULT_TEMPLATE.borders } =
+        input as Record<string, unknown>;
+    if (!isIntegerInRange(columns, 1, MAX_COLUMNS)) {
+        throw ErrorTypes.VALIDATION_ERROR(`template.columns must be an integer from 1 to ${MAX_COLUMNS}`, {
+            resource: 'label',
+            field: 'template.columns'
+        });
+    }
+    if (!isIntegerInRange(rows, 1, MAX_ROWS)) {
+        throw ErrorTypes.VALIDATION_ERROR(`template.rows must be an integer from 1 to ${MAX_ROWS}`, {
+            resource: 'label',
+            field: 'template.rows'
+        });
+    }
+    if (typeof borders !== 'boolean') {
+        throw ErrorTypes.VALIDATION_ERROR('template.borders must be a boolean', {
+            resource: 'label',
+            field: 'template.borders'
+        });
+    }
+    return { columns, rows, borders };
+};
+
+// Shelf labels (name, price and barcode) for the given products as an A4 PDF
+export const createLabels = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { product_ids, copies = 1 } = req.body;
+
+        if (!Array.isArray(product_ids) || product_ids.length === 0 || product_ids.length > MAX_PRODUCTS) {
+            throw ErrorTypes.VALIDATION_ERROR(`product_ids must list between 1 and ${MAX_PRODUCTS} products`, {
+                resource: 'label',
+                field: 'product_ids'
+            });
+        }
+        if (product_ids.some(id => typeof id !== 'string' || !id.trim())) {
+            throw ErrorTypes.VALIDATION_ERROR('product_ids must be product id strings', {
+                resource: 'label',
+                field: 'product_ids'
+            });
+        }
+        if (!isIntegerInRange(copies, 1, MAX_COPIES)) {
+            throw ErrorTypes.VALIDATION_ERROR(`copies must be an integer from 1 to ${MAX_COPIES}`, {
+                resource: 'label',
+                field: 'copies'
+            });
+        }
+        const template = parseTemplate(req.body.template);
+
+        const ids: string[] = Array.from(new Set(product_ids));
+        if (ids.length * copies > MAX_LABELS) {
+            throw ErrorTypes.VALIDATION_ERROR(`At most ${MAX_LABELS} labels can be printed at once`, {
+                resource: 'label',
+                field: 'copies',
+                requested: ids.length * copies
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('products')
+            .select('id, name, sku, unit_price, barcode')
+            .in('id', ids)
+            .is('archived_at', null);
+
+        if (error) throw mapSupabaseError(error, 'product');
+
+        const products = new Map((data ?? []).map(product => [String(product.id), product as LabelProduct]));
+        const missing = ids.filter(id => !products.has(id));
+        if (missing.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Some products do not exist or are in the recycle bin', {
+                resource: 'label',
+                field: 'product_ids',
+                missing_product_ids: missing
+            });
+        }
+
+        // Copies of a product sit next to each other, in the order the products were asked for
+        const labels = ids.flatMap(id => Array<LabelProduct>(copies).fill(products.get(id)!));
+        const pdf = renderLabelsPdf(labels, template);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            products: ids.length,
+            labels: labels.length,
+            template,
+            format: 'pdf',
+            unrendered_text: pdf.unrenderedText.length
+        }));
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', 'attachment; filename="shelf-labels.pdf"');
+        // Text the PDF fonts can't show is printed as '?'; the client warns about it
+        if (pdf.unrenderedText.length > 0) {
+            res.setHeader(UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue(pdf.unrenderedText));
+        }
+        res.send(pdf.buffer);
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'label') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message, appError.details));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+
+const LOCATION_TYPES = ['store', 'warehouse'];
+
+export const getLocations = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { data, error } = await supabase
+            .from('locations')
+            .select('id, name, code, type, is_default')
+            .order('is_default', { ascending: false })
+            .order('name', { ascending: true });
+
+        if (error) throw mapSupabaseError(error, 'locations');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'locations') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createLocation = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { name, code, type = 'store' } = req.body;
+
+        if (!name || !code) {
+            throw ErrorTypes.VALIDATION_ERROR('Missing required fields', {
+                resource: 'location',
+                required_fields: ['name', 'code']
+            });
+        }
+
+        if (!LOCATION_TYPES.includes(type)) {
+            throw ErrorTypes.VALIDATION_ERROR('Invalid location type', {
+                resource: 'location',
+                field: 'type',
+                allowed_values: LOCATION_TYPES
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('locations')
+            .insert([{ name: String(name).trim(), code: String(code).trim().toUpperCase(), type }])
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'location');
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS'));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'location') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updateLocation = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { name, code, type } = req.body;
+
+        if (type !== undefined && !LOCATION_TYPES.includes(type)) {
+            throw ErrorTypes.VALIDATION_ERROR('Invalid location type', {
+                resource: 'location',
+                field: 'type',
+                allowed_values: LOCATION_TYPES
+            });
+        }
+
+        const updateData: Record<string, string> = {};
+        if (name !== undefined) updateData.name = String(name).trim();
+        if (code !== undefined) updateData.code = String(code).trim().toUpperCase();
+        if (type !== undefined) updateData.type = type;
+
+        const { data, error } = await supabase
+            .from('locations')
+            .update(updateData)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'location', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'location', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const deleteLocation = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data: location, error: fetchError } = await supabase
+            .from('locations')
+            .select('id, is_default')
+            .eq('id', id)
+            .single();
+
+        if (fetchError || !location) throw ErrorTypes.NOT_FOUND('location', id);
+
+        if (location.is_default) {
+            throw ErrorTypes.VALIDATION_ERROR('The default location cannot be deleted', {
+                resource: 'location',
+                id
+            });
+        }
+
+        // Locations referenced by the stock ledger are kept for history
+        const { count, error: historyError } = await supabase
+            .from('stock_movements')
+            .select('*', { count: 'exact', head: true })
+            .eq('location_id', id);
+
+        if (historyError) throw mapSupabaseError(historyError, 'stock_movements');
+
+        if (count && count > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Location has stock history and cannot be deleted', {
+                resource: 'location',
+                id,
+                movements: count
+            });
+        }
+
+        const { error: clearError } = await supabase.from('product_stock').delete().eq('location_id', id);
+        if (clearError) throw mapSupabaseError(clearError, 'product_stock');
+
+        const { error } = await supabase.from('locations').delete().eq('id', id);
+        if (error) throw mapSupabaseError(error, 'location', id);
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, message: 'Location deleted successfully' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'location', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
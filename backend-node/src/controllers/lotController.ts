@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { supabase, Location, Product, StockLot } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A lot with the product and store it belongs to, as selected for the expiry report
+interface ExpiringLotRow extends StockLot {
+    product: Pick<Product, 'name' | 'sku' | 'category' | 'unit_price'>;
+    location: Pick<Location, 'name' | 'code'>;
+}
+
+// Parses windows like "7d", "2w" or a bare number of days
+const parseWithin = (value: unknown): number => {
+    if (value === undefined || value === '') return 7;
+
+    const match = /^(\d+)\s*([dw]?)$/i.exec(String(value).trim());
+    const days = match ? parseInt(match[1], 10) * (match[2].toLowerCase() === 'w' ? 7 : 1) : NaN;
+
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+        throw ErrorTypes.VALIDATION_ERROR('within must be a number of days (e.g. 7d or 2w) up to 365', {
+            resource: 'stock_lot',
+            field: 'within'
+        });
+    }
+    return days;
+};
+
+// Today's date (UTC) shifted by a number of days, as YYYY-MM-DD
+const isoDate = (offsetDays: number): string =>
+    new Date(Date.now() + offsetDays * DAY_MS).toISOString().slice(0, 10);
+
+export const getExpiringStock = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const withinDays = parseWithin(req.query.within);
+        const today = isoDate(0);
+
+        // Already expired lots that still hold stock are included, flagged by negative days_to_expiry
+        let query = supabase
+            .from('stock_lots')
+            .select('id, product_id, location_id, lot_code, expiry_date, quantity, unit_cost, product:products(name, sku, category, unit_price), location:locations(name, code)')
+            .gt('quantity', 0)
+            .not('expiry_date', 'is', null)
+            .lte('expiry_date', isoDate(withinDays))
+            .order('expiry_date', { ascending: true });
+
+        if (req.query.location_id) {
+            query = query.eq('location_id', req.query.location_id as string);
+        }
+
+        const { data: lots, error } = await query;
+        if (error) throw mapSupabaseError(error, 'stock_lots');
+
+        const data = ((lots || []) as unknown as ExpiringLotRow[]).map(lot => {
+            const unitPrice = Number(lot.product.unit_price) || 0;
+            return {
+                ...lot,
+                // The query only returns lots with an expiry date
+                days_to_expiry: Math.round((Date.parse(lot.expiry_date as string) - Date.parse(today)) / DAY_MS),
+                value_at_risk: lot.quantity * unitPrice
+            };
+        });
+
+        const summary = {
+            within_days: withinDays,
+            lots: data.length,
+            expired_lots: data.filter(lot => lot.days_to_expiry < 0).length,
+            quantity: data.reduce((sum, lot) => sum + lot.quantity, 0),
+            value_at_risk: data.reduce((sum, lot) => sum + lot.value_at_risk, 0)
+        };
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, summary });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_lots') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getProductLots = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { error: fetchError } = await supabase
+            .from('products')
+            .select('id')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw ErrorTypes.NOT_FOUND('product', id);
+
+        let query = supabase
+            .from('stock_lots')
+            .select('id, location_id, lot_code, expiry_date, quantity, received_quantity, unit_cost, received_at, location:locations(name, code)')
+            .eq('product_id', id)
+            .order('expiry_date', { ascending: true, nullsFirst: false })
+            .order('received_at', { ascending: true });
+
+        // Open lots only unless ?all=true
+        if (req.query.all !== 'true') {
+            query = query.gt('quantity', 0);
+        }
+
+        if (req.query.location_id) {
+            query = query.eq('location_id', req.query.location_id as string);
+        }
+
+        const { data, error } = await query;
+        if (error) throw mapSupabaseError(error, 'stock_lots');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
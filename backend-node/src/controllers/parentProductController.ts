@@ -0,0 +1,223 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { fetchVariantRollups, normalizeVariantAttributes, MAX_VARIANT_ATTRIBUTES } from '../utils/variants';
+
+const PARENT_COLUMNS = 'id, sku, name, category, variant_attributes, created_at, updated_at';
+
+// Picks the editable parent fields from a request body; sku is only accepted on create
+const pickParentFields = (body: Record<string, unknown>, isCreate: boolean) => {
+    const fields: { sku?: string; name?: string; category?: string | null; variant_attributes?: string[] } = {};
+
+    if (isCreate) {
+        const sku = typeof body.sku === 'string' ? body.sku.trim() : '';
+        if (!sku || sku.length > 64) {
+            throw ErrorTypes.VALIDATION_ERROR('sku is required and must be 64 characters or less', {
+                resource: 'parent_product',
+                field: 'sku'
+            });
+        }
+        fields.sku = sku;
+    }
+
+    if (body.name !== undefined || isCreate) {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name) {
+            throw ErrorTypes.VALIDATION_ERROR('name is required', {
+                resource: 'parent_product',
+                field: 'name'
+            });
+        }
+        fields.name = name;
+    }
+
+    if (body.category !== undefined) {
+        fields.category = body.category === null ? null : String(body.category).trim() || null;
+    }
+
+    if (body.variant_attributes !== undefined) {
+        const attributes = normalizeVariantAttributes(body.variant_attributes);
+        if (!attributes) {
+            throw ErrorTypes.VALIDATION_ERROR(`variant_attributes must list up to ${MAX_VARIANT_ATTRIBUTES} distinct names, e.g. ["size", "flavour"]`, {
+                resource: 'parent_product',
+                field: 'variant_attributes'
+            });
+        }
+        fields.variant_attributes = attributes;
+    }
+
+    return fields;
+};
+
+// GET /api/parent-products lists parents with their variant roll-ups
+export const getParentProducts = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const search = req.query.search as string | undefined;
+        let query = supabase
+            .from('parent_products')
+            .select(PARENT_COLUMNS)
+            .order('name', { ascending: true });
+
+        // Commas and parentheses would split the or() filter
+        const term = (search ?? '').replace(/[,()]/g, ' ').trim();
+        if (term) {
+            query = query.or(`name.ilike.%${term}%,sku.ilike.%${term}%`);
+        }
+
+        const { data: parents, error } = await query;
+        if (error) throw mapSupabaseError(error, 'parent_products');
+
+        const rollups = await fetchVariantRollups((parents || []).map(parent => String(parent.id)));
+        const data = (parents || []).map(parent => ({
+            ...parent,
+            rollup: rollups.get(String(parent.id)) ?? null
+        }));
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'parent_products') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// GET /api/parent-products/:id returns the parent with its active variants
+export const getParentProductById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data: parent, error } = await supabase
+            .from('parent_products')
+            .select(PARENT_COLUMNS)
+            .eq('id', id)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'parent_product', id);
+
+        const { data: variants, error: variantsError } = await supabase
+            .from('products')
+            .select('id, name, sku, quantity, unit_price, barcode, version, variant_values')
+            .eq('parent_id', id)
+            .is('archived_at', null)
+            .order('name', { ascending: true });
+
+        if (variantsError) throw mapSupabaseError(variantsError, 'products');
+
+        const rollups = await fetchVariantRollups([String(parent.id)]);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data: { ...parent, rollup: rollups.get(String(parent.id)) ?? null, variants } });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'parent_product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createParentProduct = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const fields = pickParentFields(req.body, true);
+
+        const { data, error } = await supabase
+            .from('parent_products')
+            .insert([{ ...fields, created_by: req.user?.id ?? null }])
+            .select(PARENT_COLUMNS)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'parent_product');
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', data.id));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'parent_product') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updateParentProduct = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const fields = pickParentFields(req.body, false);
+
+        // An attribute can only be dropped once no variant has a value for it
+        if (fields.variant_attributes) {
+            const { data: variants, error: variantsError } = await supabase
+                .from('products')
+                .select('sku, variant_values')
+                .eq('parent_id', id);
+
+            if (variantsError) throw mapSupabaseError(variantsError, 'products');
+
+            const kept = fields.variant_attributes;
+            const inUse = (variants || []).filter(variant =>
+                Object.keys(variant.variant_values ?? {}).some(name => !kept.includes(name)));
+            if (inUse.length > 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Variants still have values for the attributes being removed', {
+                    resource: 'parent_product',
+                    field: 'variant_attributes',
+                    skus: inUse.map(variant => variant.sku)
+                });
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('parent_products')
+            .update(fields)
+            .eq('id', id)
+            .select(PARENT_COLUMNS)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'parent_product', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'parent_product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Deleting a parent keeps its variants as standalone products (parent_id is set to NULL)
+export const deleteParentProduct = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('parent_products')
+            .delete()
+            .eq('id', id)
+            .select('id');
+
+        if (error) throw mapSupabaseError(error, 'parent_product', id);
+        if (!data || data.length === 0) throw ErrorTypes.NOT_FOUND('parent_product', id);
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, message: 'Parent product deleted; its variants are now standalone products' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'parent_product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,207 @@
+import { Request, Response } from 'express';
+import { supabase, PriceRequest, Product } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { recordProductAudit } from '../utils/audit';
+import { submitPriceRequest } from '../utils/priceRequests';
+
+const PRICE_REQUEST_STATUSES = ['pending', 'approved', 'rejected'];
+
+const PRICE_REQUEST_COLUMNS = `
+    id, product_id, current_price, requested_price, base_version, reason, source, status,
+    requested_by, reviewed_by, review_comment, reviewed_at, created_at, updated_at,
+    product:products(name, sku, unit_price, version)
+`;
+
+export const getPriceRequests = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { status, product_id } = req.query as { status?: string; product_id?: string };
+
+        let query = supabase
+            .from('price_requests')
+            .select(PRICE_REQUEST_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .limit(200);
+
+        if (status) {
+            if (!PRICE_REQUEST_STATUSES.includes(status)) {
+                throw ErrorTypes.VALIDATION_ERROR('Invalid price request status', {
+                    resource: 'price_request',
+                    field: 'status',
+                    allowed_values: PRICE_REQUEST_STATUSES
+                });
+            }
+            query = query.eq('status', status);
+        }
+
+        if (product_id) query = query.eq('product_id', product_id);
+
+        // Staff only see their own requests; owners see the whole queue
+        if (req.user?.role !== 'owner') {
+            query = query.eq('requested_by', req.user?.id ?? '');
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'price_requests');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'price_requests') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createPriceRequest = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { product_id, requested_price, reason, version } = req.body;
+
+    try {
+        if (!product_id || typeof requested_price !== 'number' || requested_price < 0) {
+            throw ErrorTypes.VALIDATION_ERROR('product_id and a non-negative requested_price are required', {
+                resource: 'price_request',
+                required_fields: ['product_id', 'requested_price']
+            });
+        }
+
+        const { data: product, error: fetchError } = await supabase
+            .from('products')
+            .select('id, unit_price, version')
+            .eq('id', product_id)
+            .single();
+
+        if (fetchError || !product) throw ErrorTypes.NOT_FOUND('product', String(product_id));
+
+        const currentPrice = parseFloat(product.unit_price);
+        if (requested_price === currentPrice) {
+            throw ErrorTypes.VALIDATION_ERROR('Requested price is the same as the current price', {
+                resource: 'price_request',
+                field: 'requested_price'
+            });
+        }
+
+        const data = await submitPriceRequest({
+            productId: product.id,
+            requestedPrice: requested_price,
+            currentPrice,
+            baseVersion: Number.isInteger(version) ? version : product.version,
+            actorId: req.user?.id,
+            reason
+        });
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', String(product_id)));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'price_request') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', product_id ? String(product_id) : undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const approvePriceRequest = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { comment, version } = req.body ?? {};
+
+        // The owner approves the price against the product as they saw it
+        if (!Number.isInteger(version)) {
+            throw ErrorTypes.VALIDATION_ERROR('version of the product being repriced is required', {
+                resource: 'price_request',
+                field: 'version'
+            });
+        }
+
+        const { data: approval, error } = await supabase.rpc('approve_price_request', {
+            p_request_id: id,
+            p_actor: req.user?.id ?? null,
+            p_expected_version: version,
+            p_comment: comment ?? null
+        });
+
+        if (error) throw mapSupabaseError(error, 'price_request', id);
+
+        const { request: data, before, after } = approval as { request: PriceRequest; before: Product; after: Product };
+
+        await recordProductAudit({
+            productId: data.product_id,
+            operation: 'update',
+            source: 'price_request',
+            actorId: req.user?.id,
+            before,
+            after
+        });
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', data.product_id, undefined, undefined, {
+            price_request_id: id,
+            action: 'approve'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'price_request', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const rejectPriceRequest = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { comment } = req.body ?? {};
+
+        const { data, error } = await supabase
+            .from('price_requests')
+            .update({
+                status: 'rejected',
+                reviewed_by: req.user?.id ?? null,
+                review_comment: comment ?? null,
+                reviewed_at: new Date().toISOString()
+            })
+            .eq('id', id)
+            .eq('status', 'pending')
+            .select()
+            .maybeSingle();
+
+        if (error) throw mapSupabaseError(error, 'price_request', id);
+
+        if (!data) {
+            const { data: existing } = await supabase
+                .from('price_requests')
+                .select('status')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (!existing) throw ErrorTypes.NOT_FOUND('price_request', id);
+            throw ErrorTypes.INVALID_STATE('Only pending price requests can be rejected', {
+                resource: 'price_request',
+                id,
+                status: existing.status
+            });
+        }
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', data.product_id, undefined, undefined, {
+            price_request_id: id,
+            action: 'reject'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'price_request', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
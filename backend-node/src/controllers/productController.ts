@@ -1,23 +1,303 @@
 
 import { Request, Response } from 'express';
-import { supabase } from '../config/database';
+import { supabase, ParentProduct, Product, ProductStock } from '../config/database';
 import { logger } from '../utils/logger';
 import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { createProductWithOpeningBalance, updateProductWithStock } from '../utils/stockLedger';
+import { recordProductAudit, resolveAuditSource } from '../utils/audit';
+import { isValidGstRate, isValidHsnCode } from '../utils/gst';
+import { gtinVariants, isValidGtin } from '../utils/barcode';
+import { fetchVariantRollups, normalizeVariantValues } from '../utils/variants';
+import {
+    fetchValuationMethod,
+    fetchCostBasis,
+    isValuationMethod,
+    valueStock,
+    StockValuation,
+    ValuationMethod,
+    VALUATION_METHODS
+} from '../utils/valuation';
+import {
+    fetchCategoryReorderPoints,
+    resolveReorderPoint,
+    isLowStock,
+    suggestReorder,
+    DEFAULT_COVER_DAYS,
+    DEFAULT_LOOKBACK_DAYS
+} from '../utils/reorder';
+
+// One product's row from the reorder_stats() SQL function
+interface ReorderStatRow {
+    product_id: string;
+    outflow: number;
+    first_movement_at: string;
+    last_unit_cost: number | null;
+}
+
+interface StockRow {
+    id: string;
+    name: string;
+    sku: string;
+    category: string | null;
+    quantity: number;
+    unit_price: number | string;
+    cost_price: number | string | null;
+    reorder_point: number | null;
+    reorder_quantity: number | null;
+}
+
+// Validates the optional reorder settings in a create/update body; null clears a value
+const pickReorderFields = (body: Record<string, unknown>) => {
+    const fields: { reorder_point?: number | null; reorder_quantity?: number | null } = {};
+    const rules = { reorder_point: 0, reorder_quantity: 1 } as const;
+
+    (Object.keys(rules) as (keyof typeof rules)[]).forEach(field => {
+        const value = body[field];
+        if (value === undefined) return;
+
+        if (value !== null && (!Number.isInteger(value) || (value as number) < rules[field])) {
+            throw ErrorTypes.VALIDATION_ERROR(
+                `${field} must be ${rules[field] === 0 ? 'a non-negative' : 'a positive'} integer`,
+                { resource: 'product', field }
+            );
+        }
+        fields[field] = value as number | null;
+    });
+
+    return fields;
+};
+
+// Validates the optional cost_price; null clears it. selling_price is accepted as an alias of unit_price.
+const pickCostPrice = (body: Record<string, unknown>) => {
+    const value = body.cost_price;
+    if (value === undefined) return {};
+
+    if (value !== null && (typeof value !== 'number' || value < 0)) {
+        throw ErrorTypes.VALIDATION_ERROR('cost_price must be a non-negative number', {
+            resource: 'product',
+            field: 'cost_price'
+        });
+    }
+
+    return { cost_price: value as number | null };
+};
+
+// Validates the optional GST fields used on invoices; null (or an empty HSN code) clears a value
+const pickTaxFields = (body: Record<string, unknown>) => {
+    const fields: { hsn_code?: string | null; gst_rate?: number | null } = {};
+
+    if (body.hsn_code !== undefined) {
+        const hsnCode = typeof body.hsn_code === 'string' ? body.hsn_code.trim() : body.hsn_code;
+        if (hsnCode !== null && hsnCode !== '' && !isValidHsnCode(hsnCode)) {
+            throw ErrorTypes.VALIDATION_ERROR('hsn_code must be 4, 6 or 8 digits', {
+                resource: 'product',
+                field: 'hsn_code'
+            });
+        }
+        fields.hsn_code = hsnCode || null;
+    }
+
+    if (body.gst_rate !== undefined) {
+        if (body.gst_rate !== null && !isValidGstRate(body.gst_rate)) {
+            throw ErrorTypes.VALIDATION_ERROR('gst_rate must be a percentage between 0 and 100', {
+                resource: 'product',
+                field: 'gst_rate'
+            });
+        }
+        fields.gst_rate = body.gst_rate as number | null;
+    }
+
+    return fields;
+};
+
+// Validates the optional barcode; null (or an empty string) clears it
+const pickBarcode = (body: Record<string, unknown>) => {
+    if (body.barcode === undefined) return {};
+
+    const barcode = typeof body.barcode === 'string' ? body.barcode.trim() : body.barcode;
+    if (barcode === null || barcode === '') return { barcode: null };
+
+    if (!isValidGtin(barcode)) {
+        throw ErrorTypes.VALIDATION_ERROR('barcode must be an EAN-8, UPC-A, EAN-13 or GTIN-14 with a valid check digit', {
+            resource: 'product',
+            field: 'barcode'
+        });
+    }
+
+    return { barcode };
+};
+
+// A barcode belongs to one product, whichever length it was entered at (archived products included)
+const assertBarcodeAvailable = async (barcode: string | null | undefined, productId?: string) => {
+    if (!barcode) return;
+
+    let query = supabase
+        .from('products')
+        .select('id, sku, archived_at')
+        .in('barcode', gtinVariants(barcode))
+        .limit(1);
+
+    if (productId) query = query.neq('id', productId);
+
+    const { data, error } = await query;
+    if (error) throw mapSupabaseError(error, 'product', productId);
+
+    const existing = data?.[0];
+    if (existing) {
+        throw ErrorTypes.VALIDATION_ERROR(
+            `Barcode is already used by ${existing.sku}${existing.archived_at ? ' (in the recycle bin)' : ''}`,
+            { resource: 'product', field: 'barcode', product_id: existing.id, sku: existing.sku }
+        );
+    }
+};
+
+// Validates parent_id and variant_values against the parent's attributes; a null parent_id makes
+// the product standalone again. Values are kept when only other fields change.
+const pickVariantFields = async (
+    body: Record<string, unknown>,
+    current?: { parent_id: string | null; variant_values: Record<string, string> | null }
+) => {
+    if (body.parent_id === undefined && body.variant_values === undefined) return {};
+
+    const parentId = body.parent_id !== undefined ? body.parent_id : current?.parent_id ?? null;
+    if (parentId === null || parentId === '') {
+        return { parent_id: null, variant_values: {} };
+    }
+
+    const { data: parent, error } = await supabase
+        .from('parent_products')
+        .select('id, variant_attributes')
+        .eq('id', parentId)
+        .maybeSingle();
+
+    if (error) throw mapSupabaseError(error, 'parent_product', String(parentId));
+    if (!parent) {
+        throw ErrorTypes.VALIDATION_ERROR('parent_id does not match a parent product', {
+            resource: 'product',
+            field: 'parent_id'
+        });
+    }
+
+    // Values set for another parent don't carry over when a variant moves
+    const isSameParent = current?.parent_id !== undefined && String(current.parent_id) === String(parent.id);
+    const input = body.variant_values !== undefined ? body.variant_values : isSameParent ? current?.variant_values ?? {} : {};
+    const values = normalizeVariantValues(input ?? {}, parent.variant_attributes);
+    if (!values) {
+        throw ErrorTypes.VALIDATION_ERROR('variant_values must map the parent\'s attributes to short text values', {
+            resource: 'product',
+            field: 'variant_values',
+            allowed_values: parent.variant_attributes
+        });
+    }
+
+    return { parent_id: parent.id, variant_values: values };
+};
+
+// Stock rows feeding the dashboard aggregations: one per product, or one per
+// product stocked at the given location (with that location's quantity)
+const fetchStockRows = async (locationId?: string): Promise<StockRow[]> => {
+    if (!locationId) {
+        const { data, error } = await supabase
+            .from('products')
+            .select('id, name, sku, category, quantity, unit_price, cost_price, reorder_point, reorder_quantity')
+            .is('archived_at', null);
+
+        if (error) throw mapSupabaseError(error, 'products');
+        return (data || []) as StockRow[];
+    }
+
+    const { data, error } = await supabase
+        .from('product_stock')
+        .select('quantity, product:products!inner(id, name, sku, category, unit_price, cost_price, reorder_point, reorder_quantity)')
+        .eq('location_id', locationId)
+        .is('product.archived_at', null);
+
+    if (error) throw mapSupabaseError(error, 'product_stock');
+
+    return ((data || []) as unknown as { quantity: number; product: StockRow }[]).map(row => ({ ...row.product, quantity: row.quantity }));
+};
+
+// Values each stock row at cost with ?valuation= (fifo|wac) or the shop-wide default
+const valueStockRows = async (rows: StockRow[], valuationParam: unknown, locationId?: string) => {
+    if (valuationParam !== undefined && !isValuationMethod(valuationParam)) {
+        throw ErrorTypes.VALIDATION_ERROR('valuation must be one of: fifo, wac', {
+            resource: 'dashboard',
+            field: 'valuation',
+            allowed_values: VALUATION_METHODS
+        });
+    }
+
+    const [method, costBasis] = await Promise.all([
+        valuationParam !== undefined ? Promise.resolve(valuationParam as ValuationMethod) : fetchValuationMethod(),
+        fetchCostBasis(locationId)
+    ]);
+
+    const valuations = new Map<string, StockValuation>();
+    rows.forEach(row => {
+        const fallbackCost = row.cost_price === null || row.cost_price === undefined ? null : Number(row.cost_price);
+        valuations.set(String(row.id), valueStock(method, costBasis.get(String(row.id)), Number(row.quantity) || 0, fallbackCost));
+    });
+
+    return { method, valuations };
+};
+
+// Open purchase order quantity per SKU (see the stock_on_order view), optionally for one location
+const fetchOnOrder = async (skus: string[], locationId?: string): Promise<Map<string, number>> => {
+    const onOrder = new Map<string, number>();
+    if (skus.length === 0) return onOrder;
+
+    let query = supabase
+        .from('stock_on_order')
+        .select('sku, quantity')
+        .in('sku', skus);
+
+    if (locationId) {
+        query = query.eq('location_id', locationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw mapSupabaseError(error, 'stock_on_order');
+
+    (data || []).forEach(row => onOrder.set(row.sku, (onOrder.get(row.sku) ?? 0) + row.quantity));
+    return onOrder;
+};
+
+// Price changes embedded per product in the list
+const PRICE_SPARKLINE_POINTS = 12;
+
+// A product as selected for the list, with its parent and, when filtered by location, that store's row
+interface ProductListRow extends Product {
+    parent: Pick<ParentProduct, 'id' | 'sku' | 'name' | 'variant_attributes'> | null;
+    location_stock?: Pick<ProductStock, 'location_id' | 'quantity'>[];
+}
 
 export const getProducts = async (req: Request, res: Response) => {
     const startTime = Date.now();
     
     try {
-        const { search, category } = req.query as { search?: string; category?: string };
+        const { search, category, location_id, parent_id } = req.query as { search?: string; category?: string; location_id?: string; parent_id?: string };
         const limitParam = parseInt((req.query.limit as string) || '100', 10);
         const offsetParam = parseInt((req.query.offset as string) || '0', 10);
 
+        // Per-store breakdown is always embedded; a location filter adds an inner join on that store's row
+        const columns = [
+            'id, name, sku, category, quantity, unit_price, cost_price, selling_price, hsn_code, gst_rate, barcode, version, reorder_point, reorder_quantity',
+            'parent_id, variant_values, parent:parent_products(id, sku, name, variant_attributes)',
+            'stock:product_stock(location_id, quantity, location:locations(name, code))',
+            'price_history:product_prices(selling_price, cost_price, created_at)',
+            ...(location_id ? ['location_stock:product_stock!inner(location_id, quantity)'] : [])
+        ].join(', ');
+
         let query = supabase
             .from('products')
-            .select('id, name, sku, category, quantity, unit_price, version', { count: 'estimated' })
+            .select(columns, { count: 'estimated' })
             .order('name', { ascending: true })
             .limit(Math.min(Math.max(limitParam, 1), 500))
-            .range(offsetParam, offsetParam + Math.min(Math.max(limitParam, 1), 500) - 1);
+            .range(offsetParam, offsetParam + Math.min(Math.max(limitParam, 1), 500) - 1)
+            .is('archived_at', null)
+            // Recent prices for the sparkline (newest first)
+            .order('created_at', { ascending: false, referencedTable: 'product_prices' })
+            .limit(PRICE_SPARKLINE_POINTS, { referencedTable: 'product_prices' });
 
         if (search && search.trim()) {
             // Exact name match (case-insensitive) to mirror UI behavior
@@ -28,8 +308,32 @@ export const getProducts = async (req: Request, res: Response) => {
             query = query.eq('category', category);
         }
 
-        const { data, error, count } = await query;
+        if (location_id) {
+            query = query.eq('location_stock.location_id', location_id);
+        }
+
+        if (parent_id) {
+            query = query.eq('parent_id', parent_id);
+        }
+
+        const { data: selected, error, count } = await query;
         if (error) throw mapSupabaseError(error, 'products');
+        const rows = (selected || []) as unknown as ProductListRow[];
+
+        // Parents carry totals over all their variants, including those on other pages
+        const parentIds = Array.from(new Set(rows.filter(row => row.parent_id).map(row => String(row.parent_id))));
+        const [onOrder, rollups] = await Promise.all([
+            fetchOnOrder(rows.map(row => row.sku), location_id),
+            fetchVariantRollups(parentIds, location_id)
+        ]);
+
+        // When scoped to a location, quantity is that store's stock rather than the chain total
+        const data = rows.map(row => {
+            const { location_stock, ...product } = row;
+            const scoped = location_stock ? { ...product, quantity: location_stock[0]?.quantity ?? 0 } : product;
+            const parent = product.parent ? { ...product.parent, rollup: rollups.get(String(product.parent.id)) ?? null } : null;
+            return { ...scoped, parent, on_order: onOrder.get(product.sku) ?? 0 };
+        });
 
         // Log successful operation
         logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
@@ -65,11 +369,52 @@ export const getProductById = async (req: Request, res: Response) => {
     }
 };
 
+export const getProductByBarcode = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const code = String(req.params.code ?? '').trim();
+
+    try {
+        if (!isValidGtin(code)) {
+            throw ErrorTypes.VALIDATION_ERROR('Not a valid EAN/UPC barcode', {
+                resource: 'product',
+                field: 'barcode',
+                value: code
+            });
+        }
+
+        // Scanners report a UPC-A as 12 or 13 digits; match it however it was stored
+        const { data, error } = await supabase
+            .from('products')
+            .select('*')
+            .in('barcode', gtinVariants(code))
+            .is('archived_at', null)
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw mapSupabaseError(error, 'product', code);
+        if (!data) throw ErrorTypes.NOT_FOUND('product', code);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', data.id));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', code) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
 export const createProduct = async (req: Request, res: Response) => {
     const startTime = Date.now();
     
     try {
-        const { name, sku, category, quantity, unit_price } = req.body;
+        const { name, sku, category, quantity, location_id } = req.body;
+        const unit_price = req.body.unit_price ?? req.body.selling_price;
+        const reorderFields = pickReorderFields(req.body);
+        const costFields = pickCostPrice(req.body);
+        const taxFields = pickTaxFields(req.body);
+        const barcodeFields = pickBarcode(req.body);
         
         // Basic validation
         if (!name || !sku || !category || quantity === undefined || unit_price === undefined) {
@@ -79,19 +424,30 @@ export const createProduct = async (req: Request, res: Response) => {
             });
         }
 
-        const { data, error } = await supabase
-            .from('products')
-            .insert([{ name, sku, category, quantity, unit_price }])
-            .select();
-        
-        if (error) throw mapSupabaseError(error, 'product');
+        await assertBarcodeAvailable(barcodeFields.barcode);
+        const variantFields = await pickVariantFields(req.body);
 
-        const productId = data?.[0]?.id;
+        const product = await createProductWithOpeningBalance(
+            { name, sku, category, quantity, unit_price, ...reorderFields, ...costFields, ...taxFields, ...barcodeFields, ...variantFields },
+            'adjustment',
+            req.user?.id,
+            undefined,
+            location_id
+        );
+
+        await recordProductAudit({
+            productId: product.id,
+            operation: 'create',
+            source: resolveAuditSource(req),
+            actorId: req.user?.id,
+            before: null,
+            after: product
+        });
 
         // Log successful operation
-        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', productId));
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', product.id));
 
-        res.status(201).json({ success: true, data });
+        res.status(201).json({ success: true, data: [product] });
     } catch (error) {
         // Log failed operation
         const appError = error instanceof Error ? mapSupabaseError(error, 'product') : ErrorTypes.INTERNAL_ERROR();
@@ -106,13 +462,18 @@ export const updateProduct = async (req: Request, res: Response) => {
     const { id } = req.params;
     
     try {
-        const { name, sku, category, quantity, unit_price, version } = req.body;
+        const { name, sku, category, quantity, version, location_id } = req.body;
+        const unit_price = req.body.unit_price ?? req.body.selling_price;
         const userRole = req.user?.role;
+        const reorderFields = pickReorderFields(req.body);
+        const costFields = pickCostPrice(req.body);
+        const taxFields = pickTaxFields(req.body);
+        const barcodeFields = pickBarcode(req.body);
 
-        // Get current product data for version check and price comparison
+        // Get current product data for version check, price comparison and the audit diff
         const { data: currentProduct, error: fetchError } = await supabase
             .from('products')
-            .select('version, unit_price')
+            .select('*')
             .eq('id', id)
             .single();
 
@@ -122,6 +483,13 @@ export const updateProduct = async (req: Request, res: Response) => {
             return sendErrorResponse(res, notFoundError);
         }
 
+        if (currentProduct.archived_at) {
+            throw ErrorTypes.INVALID_STATE('Restore the product from the recycle bin before editing it', {
+                resource: 'product',
+                id
+            });
+        }
+
         // Role-based constraint: Staff cannot modify unit_price
         // Only check if staff is actually trying to change the price
         if (userRole === 'staff' && unit_price !== undefined && unit_price !== currentProduct.unit_price) {
@@ -130,6 +498,13 @@ export const updateProduct = async (req: Request, res: Response) => {
             return sendErrorResponse(res, permissionError);
         }
 
+        // Cost price is owner-only as well
+        if (userRole === 'staff' && costFields.cost_price !== undefined && costFields.cost_price !== currentProduct.cost_price) {
+            const permissionError = ErrorTypes.PERMISSION_EDIT_PRICE(id, 'cost_price');
+            logger.log(logger.createLogEntry('UPDATE', startTime, req, 'PERMISSION_DENIED', id, permissionError.code, permissionError.message));
+            return sendErrorResponse(res, permissionError);
+        }
+
         // Optimistic concurrency check
         if (currentProduct.version !== version) {
             const conflictError = ErrorTypes.CONFLICT('product', id, version, currentProduct.version);
@@ -140,35 +515,61 @@ export const updateProduct = async (req: Request, res: Response) => {
             return sendErrorResponse(res, conflictError);
         }
 
+        if (barcodeFields.barcode && barcodeFields.barcode !== currentProduct.barcode) {
+            await assertBarcodeAvailable(barcodeFields.barcode, id);
+        }
+        const variantFields = await pickVariantFields(req.body, currentProduct);
+
         // Prepare update data based on role
-        const updateData: any = {
+        const updateData: Record<string, unknown> = {
             name,
             sku,
             category,
-            quantity,
-            version: version + 1
+            ...reorderFields,
+            ...taxFields,
+            ...barcodeFields,
+            ...variantFields
         };
 
         // Only include unit_price if user is owner OR if staff is not changing it
         if (userRole === 'owner') {
             updateData.unit_price = unit_price;
+            Object.assign(updateData, costFields);
         } else if (userRole === 'staff' && unit_price !== undefined) {
             // Staff can keep the same price, but not change it
             updateData.unit_price = currentProduct.unit_price;
         }
 
-        const { data, error } = await supabase
-            .from('products')
-            .update(updateData)
-            .eq('id', id)
-            .select();
-            
-        if (error) throw mapSupabaseError(error, 'product', id);
+        // Quantity changes go through the stock ledger instead of being overwritten; the database
+        // re-checks the version and applies the movement and the field update in one transaction.
+        // With location_id, quantity is that store's stock; otherwise it is the product total and the
+        // difference is booked at the default location (refused once other stores hold stock).
+        const product = await updateProductWithStock({
+            productId: id,
+            expectedVersion: version,
+            fields: updateData,
+            quantity,
+            reason: 'adjustment',
+            locationId: location_id,
+            actorId: req.user?.id,
+            // An owner's new cost applies to stock added in the same edit
+            unitCost: userRole === 'owner' ? costFields.cost_price ?? undefined : undefined,
+            note: 'Product edit'
+        });
+
+        await recordProductAudit({
+            productId: id,
+            operation: 'update',
+            source: resolveAuditSource(req),
+            actorId: req.user?.id,
+            before: currentProduct,
+            after: product
+        });
 
         // Log successful operation
         logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', id));
 
-        res.json({ success: true, data });
+        res.json({ success: true, data: [product] });
     } catch (error) {
         // Log failed operation
         const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
@@ -178,15 +579,22 @@ export const updateProduct = async (req: Request, res: Response) => {
     }
 };
 
-export const deleteProduct = async (req: Request, res: Response) => {
+// Archived products stay in the recycle bin at least this long before they can be purged
+export const ARCHIVE_RETENTION_DAYS = parseInt(process.env.ARCHIVE_RETENTION_DAYS || '30', 10);
+
+const purgeableAt = (archivedAt: string) =>
+    new Date(new Date(archivedAt).getTime() + ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+// DELETE /api/products/:id moves the product to the recycle bin rather than removing it
+export const archiveProduct = async (req: Request, res: Response) => {
     const startTime = Date.now();
     const { id } = req.params;
     
     try {
-        // First check if product exists
+        // First check if product exists (the full row is kept for the audit trail)
         const { data: existingProduct, error: fetchError } = await supabase
             .from('products')
-            .select('id')
+            .select('*')
             .eq('id', id)
             .single();
 
@@ -196,13 +604,38 @@ export const deleteProduct = async (req: Request, res: Response) => {
             return sendErrorResponse(res, notFoundError);
         }
 
-        const { error } = await supabase.from('products').delete().eq('id', id);
+        // Conditional on archived_at so a double click doesn't move the archive date
+        const { data, error } = await supabase
+            .from('products')
+            .update({ archived_at: new Date().toISOString(), archived_by: req.user?.id ?? null })
+            .eq('id', id)
+            .is('archived_at', null)
+            .select()
+            .maybeSingle();
+
         if (error) throw mapSupabaseError(error, 'product', id);
 
+        if (!data) {
+            throw ErrorTypes.INVALID_STATE('Product is already archived', {
+                resource: 'product',
+                id,
+                archived_at: existingProduct.archived_at
+            });
+        }
+
+        await recordProductAudit({
+            productId: id,
+            operation: 'archive',
+            source: resolveAuditSource(req),
+            actorId: req.user?.id,
+            before: existingProduct,
+            after: data
+        });
+
         // Log successful operation
         logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS', id));
 
-        res.json({ success: true, message: 'Product deleted successfully' });
+        res.json({ success: true, message: 'Product moved to the recycle bin', data });
     } catch (error) {
         // Log failed operation
         const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
@@ -212,38 +645,276 @@ export const deleteProduct = async (req: Request, res: Response) => {
     }
 };
 
-export const getKPIs = async (req: Request, res: Response) => {
+export const getArchivedProducts = async (req: Request, res: Response) => {
     const startTime = Date.now();
-    
+
     try {
-        const totalItemsPromise = supabase
+        const { data, error, count } = await supabase
             .from('products')
-            .select('*', { count: 'exact', head: true });
+            .select('id, name, sku, category, quantity, unit_price, version, archived_at, archived_by', { count: 'exact' })
+            .not('archived_at', 'is', null)
+            .order('archived_at', { ascending: false })
+            .limit(500);
+
+        if (error) throw mapSupabaseError(error, 'products');
+
+        const now = Date.now();
+        const rows = (data || []).map(product => {
+            const purgeAt = purgeableAt(product.archived_at);
+            return { ...product, purgeable_at: purgeAt, purgeable: new Date(purgeAt).getTime() <= now };
+        });
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
 
-        const stockDataPromise = supabase
+        res.json({ success: true, data: rows, count, retention_days: ARCHIVE_RETENTION_DAYS });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'products') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const restoreProduct = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data: existingProduct, error: fetchError } = await supabase
             .from('products')
-            .select('quantity, unit_price');
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw ErrorTypes.NOT_FOUND('product', id);
 
-        const lowStockCountPromise = supabase
+        // Restoring bumps the version so edit forms opened before the archive get a 409
+        const { data, error } = await supabase
             .from('products')
-            .select('*', { count: 'exact', head: true })
-            .lt('quantity', 5);
+            .update({
+                archived_at: null,
+                archived_by: null,
+                updated_by: req.user?.id ?? null,
+                version: existingProduct.version + 1
+            })
+            .eq('id', id)
+            .not('archived_at', 'is', null)
+            .select()
+            .maybeSingle();
 
-        const [totalItemsRes, stockDataRes, lowStockRes] = await Promise.all([
-            totalItemsPromise,
-            stockDataPromise,
-            lowStockCountPromise,
-        ]);
+        if (error) throw mapSupabaseError(error, 'product', id);
+
+        if (!data) {
+            throw ErrorTypes.INVALID_STATE('Only archived products can be restored', {
+                resource: 'product',
+                id
+            });
+        }
+
+        await recordProductAudit({
+            productId: id,
+            operation: 'restore',
+            source: resolveAuditSource(req),
+            actorId: req.user?.id,
+            before: existingProduct,
+            after: data
+        });
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', id, undefined, undefined, { action: 'restore' }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Permanently deletes a product that has been in the recycle bin for the retention period
+export const purgeProduct = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data: existingProduct, error: fetchError } = await supabase
+            .from('products')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw ErrorTypes.NOT_FOUND('product', id);
+
+        if (!existingProduct.archived_at) {
+            throw ErrorTypes.INVALID_STATE('Archive the product before purging it', { resource: 'product', id });
+        }
+
+        const purgeAt = purgeableAt(existingProduct.archived_at);
+        if (new Date(purgeAt).getTime() > Date.now()) {
+            throw ErrorTypes.INVALID_STATE(`Archived products can be purged after ${ARCHIVE_RETENTION_DAYS} days`, {
+                resource: 'product',
+                id,
+                purgeable_at: purgeAt
+            });
+        }
+
+        const { error } = await supabase
+            .from('products')
+            .delete()
+            .eq('id', id)
+            .not('archived_at', 'is', null);
+
+        if (error) {
+            // Transfer and purchase order lines keep their product for the paperwork
+            if (error.code === '23503') {
+                throw ErrorTypes.INVALID_STATE('Product is referenced by transfers or purchase orders and cannot be purged', {
+                    resource: 'product',
+                    id
+                });
+            }
+            throw mapSupabaseError(error, 'product', id);
+        }
+
+        await recordProductAudit({
+            productId: id,
+            operation: 'delete',
+            source: resolveAuditSource(req),
+            actorId: req.user?.id,
+            before: existingProduct,
+            after: null
+        });
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS', id, undefined, undefined, { action: 'purge' }));
+
+        res.json({ success: true, message: 'Product permanently deleted' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getProductHistory = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        const { data, error, count } = await supabase
+            .from('product_audit')
+            .select('id, product_id, operation, source, actor_id, changes, created_at', { count: 'exact' })
+            .eq('product_id', id)
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (error) throw mapSupabaseError(error, 'product_audit', id);
+
+        // History outlives the product, so only an unknown product with no trail is "not found"
+        if (!count) {
+            const { data: product } = await supabase.from('products').select('id').eq('id', id).maybeSingle();
+            if (!product) throw ErrorTypes.NOT_FOUND('product', id);
+        }
+
+        // actor_id references auth.users, which PostgREST can't embed, so emails come from profiles
+        const actorIds = [...new Set((data || []).map(entry => entry.actor_id).filter(Boolean))];
+        const emails = new Map<string, string>();
+        if (actorIds.length > 0) {
+            const { data: profiles, error: profileError } = await supabase
+                .from('profiles')
+                .select('id, email')
+                .in('id', actorIds);
+
+            if (profileError) throw mapSupabaseError(profileError, 'profiles');
+            (profiles || []).forEach(profile => emails.set(profile.id, profile.email));
+        }
+
+        const history = (data || []).map(entry => ({
+            ...entry,
+            actor_email: entry.actor_id ? emails.get(entry.actor_id) ?? null : null
+        }));
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data: history, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getProductPrices = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const limitParam = parseInt((req.query.limit as string) || '100', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 500);
+
+        const { data: product, error: fetchError } = await supabase
+            .from('products')
+            .select('id, cost_price, selling_price')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw ErrorTypes.NOT_FOUND('product', id);
+
+        const { data, error } = await supabase
+            .from('product_prices')
+            .select('id, cost_price, selling_price, changed_by, created_at')
+            .eq('product_id', id)
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit);
 
-        if (totalItemsRes.error) throw mapSupabaseError(totalItemsRes.error, 'products');
-        if (stockDataRes.error) throw mapSupabaseError(stockDataRes.error, 'products');
-        if (lowStockRes.error) throw mapSupabaseError(lowStockRes.error, 'products');
+        if (error) throw mapSupabaseError(error, 'product_prices', id);
 
-        const totalItems = totalItemsRes.count || 0;
-        const totalStockValue = (stockDataRes.data || []).reduce((sum: number, product: any) => {
-            return sum + (Number(product.quantity) * parseFloat(product.unit_price as string));
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({
+            success: true,
+            data,
+            current: { cost_price: product.cost_price, selling_price: product.selling_price }
+        });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getKPIs = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    
+    try {
+        const { location_id, valuation } = req.query as { location_id?: string; valuation?: string };
+        const [stockRows, categoryPoints] = await Promise.all([
+            fetchStockRows(location_id),
+            fetchCategoryReorderPoints()
+        ]);
+        const { method, valuations } = await valueStockRows(stockRows, valuation, location_id);
+
+        const totalItems = stockRows.length;
+        // Stock value is at cost; retail value keeps the old quantity × selling price figure
+        let totalStockValue = 0;
+        let unvaluedUnits = 0;
+        valuations.forEach(v => {
+            totalStockValue += v.value;
+            unvaluedUnits += v.unvaluedQuantity;
+        });
+        const totalRetailValue = stockRows.reduce((sum, row) => {
+            return sum + (Number(row.quantity) * parseFloat(row.unit_price as string));
         }, 0);
-        const lowStockCount = lowStockRes.count || 0;
+        const lowStockCount = stockRows.filter(row =>
+            isLowStock(Number(row.quantity), resolveReorderPoint(row, categoryPoints).reorderPoint)
+        ).length;
 
         // Log successful operation (KPIs are READ operations)
         logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
@@ -252,7 +923,10 @@ export const getKPIs = async (req: Request, res: Response) => {
             success: true,
             data: {
                 totalItems,
-                totalStockValue,
+                totalStockValue: Math.round(totalStockValue * 100) / 100,
+                totalRetailValue,
+                unvaluedUnits,
+                valuationMethod: method,
                 lowStockCount,
             },
         });
@@ -265,28 +939,160 @@ export const getKPIs = async (req: Request, res: Response) => {
     }
 };
 
-export const getStockValueByCategory = async (req: Request, res: Response) => {
+export const getLowStock = async (req: Request, res: Response) => {
     const startTime = Date.now();
 
     try {
-        const { data, error } = await supabase
-            .from('products')
-            .select('category, quantity, unit_price');
+        const { location_id, category } = req.query as { location_id?: string; category?: string };
+        const [stockRows, categoryPoints] = await Promise.all([
+            fetchStockRows(location_id),
+            fetchCategoryReorderPoints()
+        ]);
 
-        if (error) throw mapSupabaseError(error, 'products');
+        const data = stockRows
+            .filter(row => !category || category === 'All' || row.category === category)
+            .map(row => {
+                const { reorderPoint, source } = resolveReorderPoint(row, categoryPoints);
+                return {
+                    id: row.id,
+                    name: row.name,
+                    sku: row.sku,
+                    category: row.category,
+                    quantity: Number(row.quantity),
+                    reorder_point: reorderPoint,
+                    reorder_point_source: source,
+                    reorder_quantity: row.reorder_quantity,
+                    shortfall: reorderPoint - Number(row.quantity)
+                };
+            })
+            .filter(row => isLowStock(row.quantity, row.reorder_point))
+            .sort((a, b) => b.shortfall - a.shortfall);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count: data.length });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'products') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Parses an optional whole-number-of-days query parameter
+const parseDays = (value: unknown, fallback: number, field: string): number => {
+    if (value === undefined || value === '') return fallback;
+
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+        throw ErrorTypes.VALIDATION_ERROR(`${field} must be a whole number of days between 1 and 365`, {
+            resource: 'reorder_suggestion',
+            field
+        });
+    }
+    return days;
+};
+
+export const getReorderSuggestions = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, category } = req.query as { location_id?: string; category?: string };
+        const coverDays = parseDays(req.query.cover_days, DEFAULT_COVER_DAYS, 'cover_days');
+        const lookbackDays = parseDays(req.query.lookback_days, DEFAULT_LOOKBACK_DAYS, 'lookback_days');
+
+        const now = Date.now();
+        const dayMs = 24 * 60 * 60 * 1000;
+        const since = new Date(now - lookbackDays * dayMs).toISOString();
+
+        const [stockRows, categoryPoints, statsResponse] = await Promise.all([
+            fetchStockRows(location_id),
+            fetchCategoryReorderPoints(),
+            supabase.rpc('reorder_stats', { p_since: since, p_location_id: location_id ?? null })
+        ]);
+
+        if (statsResponse.error) throw mapSupabaseError(statsResponse.error, 'stock_movements');
+
+        const stats = new Map(
+            ((statsResponse.data || []) as ReorderStatRow[]).map(row => [String(row.product_id), row])
+        );
+
+        const rows = stockRows.filter(row => !category || category === 'All' || row.category === category);
+        const onOrder = await fetchOnOrder(rows.map(row => row.sku), location_id);
+
+        const data = rows
+            .map(row => {
+                const stat = stats.get(String(row.id));
+                // Products younger than the lookback window are averaged over their own history
+                const observedDays = stat
+                    ? Math.min(lookbackDays, Math.max(1, Math.ceil((now - new Date(stat.first_movement_at).getTime()) / dayMs)))
+                    : lookbackDays;
+                const { reorderPoint } = resolveReorderPoint(row, categoryPoints);
+                const quantity = Number(row.quantity);
+                const onOrderQuantity = onOrder.get(row.sku) ?? 0;
+
+                const suggestion = suggestReorder({
+                    quantity,
+                    onOrder: onOrderQuantity,
+                    outflow: stat?.outflow ?? 0,
+                    observedDays,
+                    coverDays,
+                    reorderPoint,
+                    reorderQuantity: row.reorder_quantity
+                });
+
+                return {
+                    id: row.id,
+                    name: row.name,
+                    sku: row.sku,
+                    category: row.category,
+                    quantity,
+                    on_order: onOrderQuantity,
+                    reorder_point: reorderPoint,
+                    unit_price: Number(row.unit_price),
+                    last_unit_cost: stat?.last_unit_cost !== null && stat?.last_unit_cost !== undefined ? Number(stat.last_unit_cost) : null,
+                    daily_outflow: suggestion.dailyOutflow,
+                    days_of_cover: suggestion.daysOfCover,
+                    suggested_quantity: suggestion.suggestedQuantity
+                };
+            })
+            .filter(row => row.suggested_quantity > 0)
+            .sort((a, b) => (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity) || b.suggested_quantity - a.suggested_quantity);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({
+            success: true,
+            data,
+            count: data.length,
+            parameters: { cover_days: coverDays, lookback_days: lookbackDays, location_id: location_id ?? null }
+        });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'products') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getStockValueByCategory = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, valuation } = req.query as { location_id?: string; valuation?: string };
+        const stockRows = await fetchStockRows(location_id);
+        const { method, valuations } = await valueStockRows(stockRows, valuation, location_id);
 
         const totals = new Map<string, number>();
 
-        (data || []).forEach((p: any) => {
+        stockRows.forEach((p) => {
             const category = (p.category || 'Uncategorized') as string;
-            const qty = Number(p.quantity) || 0;
-            const price = parseFloat(p.unit_price as string) || 0;
-            const value = qty * price;
+            const value = valuations.get(String(p.id))?.value ?? 0;
             totals.set(category, (totals.get(category) || 0) + value);
         });
 
         const result = Array.from(totals.entries())
-            .map(([category, stockValue]) => ({ category, stockValue }))
+            .map(([category, stockValue]) => ({ category, stockValue: Math.round(stockValue * 100) / 100 }))
             .sort((a, b) => b.stockValue - a.stockValue);
 
         logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
@@ -294,6 +1100,7 @@ export const getStockValueByCategory = async (req: Request, res: Response) => {
         res.json({
             success: true,
             data: result,
+            valuation_method: method,
         });
     } catch (error) {
         const appError = error instanceof Error ? mapSupabaseError(error, 'products') : ErrorTypes.INTERNAL_ERROR();
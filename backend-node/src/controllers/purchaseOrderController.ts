@@ -0,0 +1,434 @@
+import { Request, Response } from 'express';
+import { supabase, PurchaseOrderStatus } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { isValidDate } from '../utils/stockLedger';
+
+const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+
+const PURCHASE_ORDER_COLUMNS = `
+    id, supplier_id, location_id, status, supplier_reference, expected_date, note,
+    created_by, ordered_at, received_at, created_at, updated_at,
+    supplier:suppliers(name),
+    location:locations(name, code),
+    lines:purchase_order_lines(id, sku, quantity, unit_cost, quantity_received, received_unit_cost, product:products(id, name, version))
+`;
+
+const HEADER_FIELDS = ['supplier_id', 'location_id', 'supplier_reference', 'expected_date', 'note'];
+
+interface PurchaseOrderLineInput {
+    sku: string;
+    quantity: number;
+    unit_cost?: number;
+}
+
+interface ReceiptLineInput extends PurchaseOrderLineInput {
+    lot_code?: string;
+    expiry_date?: string;
+}
+
+// Validates order lines and checks every SKU exists; returns rows ready for insert
+const validateLines = async (lines: unknown): Promise<PurchaseOrderLineInput[]> => {
+    if (!Array.isArray(lines) || lines.length === 0) {
+        throw ErrorTypes.VALIDATION_ERROR('A purchase order needs at least one line', {
+            resource: 'purchase_order',
+            field: 'lines'
+        });
+    }
+
+    const seen = new Set<string>();
+    const parsed = lines.map((line: PurchaseOrderLineInput, index: number) => {
+        const sku = typeof line?.sku === 'string' ? line.sku.trim() : '';
+        const unitCost = line?.unit_cost ?? 0;
+
+        if (!sku || !Number.isInteger(line.quantity) || line.quantity <= 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Each line needs a sku and a positive integer quantity', {
+                resource: 'purchase_order',
+                field: `lines[${index}]`
+            });
+        }
+        if (typeof unitCost !== 'number' || unitCost < 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Unit cost must be a non-negative number', {
+                resource: 'purchase_order',
+                field: `lines[${index}].unit_cost`
+            });
+        }
+        if (seen.has(sku)) {
+            throw ErrorTypes.VALIDATION_ERROR('A SKU can only appear once per purchase order', {
+                resource: 'purchase_order',
+                field: `lines[${index}].sku`
+            });
+        }
+        seen.add(sku);
+
+        return { sku, quantity: line.quantity, unit_cost: unitCost };
+    });
+
+    const { data: products, error } = await supabase
+        .from('products')
+        .select('sku')
+        .in('sku', parsed.map(line => line.sku));
+
+    if (error) throw mapSupabaseError(error, 'products');
+
+    const known = new Set((products || []).map(product => product.sku));
+    const unknown = parsed.filter(line => !known.has(line.sku)).map(line => line.sku);
+
+    if (unknown.length > 0) {
+        throw ErrorTypes.VALIDATION_ERROR('Unknown SKU on purchase order', {
+            resource: 'purchase_order',
+            field: 'lines',
+            unknown_skus: unknown
+        });
+    }
+
+    return parsed;
+};
+
+// Moves an order between statuses, refusing if it is not currently in one of `from`
+const transitionPurchaseOrder = async (
+    id: string,
+    from: PurchaseOrderStatus[],
+    to: PurchaseOrderStatus,
+    extra: Record<string, unknown> = {}
+) => {
+    const { data, error } = await supabase
+        .from('purchase_orders')
+        .update({ status: to, ...extra })
+        .eq('id', id)
+        .in('status', from)
+        .select()
+        .maybeSingle();
+
+    if (error) throw mapSupabaseError(error, 'purchase_order', id);
+    if (data) return data;
+
+    const { data: existing } = await supabase
+        .from('purchase_orders')
+        .select('status')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (!existing) throw ErrorTypes.NOT_FOUND('purchase_order', id);
+    throw ErrorTypes.INVALID_STATE(`Purchase order is ${existing.status}`, {
+        resource: 'purchase_order',
+        id,
+        status: existing.status,
+        allowed_from: from
+    });
+};
+
+const fetchPurchaseOrder = async (id: string) => {
+    const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(PURCHASE_ORDER_COLUMNS)
+        .eq('id', id)
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'purchase_order', id);
+    return data;
+};
+
+export const getPurchaseOrders = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { status, supplier_id, location_id } = req.query as { status?: string; supplier_id?: string; location_id?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('purchase_orders')
+            .select(PURCHASE_ORDER_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (status) {
+            if (!PURCHASE_ORDER_STATUSES.includes(status as PurchaseOrderStatus)) {
+                throw ErrorTypes.VALIDATION_ERROR('Invalid purchase order status', {
+                    resource: 'purchase_order',
+                    field: 'status',
+                    allowed_values: PURCHASE_ORDER_STATUSES
+                });
+            }
+            query = query.eq('status', status);
+        }
+
+        if (supplier_id) query = query.eq('supplier_id', supplier_id);
+        if (location_id) query = query.eq('location_id', location_id);
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'purchase_orders');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_orders') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getPurchaseOrderById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await fetchPurchaseOrder(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createPurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { supplier_id, status = 'draft', lines } = req.body;
+
+        if (!supplier_id) {
+            throw ErrorTypes.VALIDATION_ERROR('Missing required fields', {
+                resource: 'purchase_order',
+                required_fields: ['supplier_id', 'lines']
+            });
+        }
+
+        if (status !== 'draft' && status !== 'ordered') {
+            throw ErrorTypes.VALIDATION_ERROR('New purchase orders must be draft or ordered', {
+                resource: 'purchase_order',
+                field: 'status',
+                allowed_values: ['draft', 'ordered']
+            });
+        }
+
+        const orderLines = await validateLines(lines);
+
+        const header: Record<string, unknown> = { status, created_by: req.user?.id };
+        HEADER_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) header[field] = req.body[field];
+        });
+        if (status === 'ordered') header.ordered_at = new Date().toISOString();
+
+        const { data: order, error } = await supabase
+            .from('purchase_orders')
+            .insert([header])
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'purchase_order');
+
+        const { error: linesError } = await supabase
+            .from('purchase_order_lines')
+            .insert(orderLines.map(line => ({ ...line, purchase_order_id: order.id })));
+
+        if (linesError) {
+            // Don't leave an order without lines behind
+            await supabase.from('purchase_orders').delete().eq('id', order.id);
+            throw mapSupabaseError(linesError, 'purchase_order');
+        }
+
+        const data = await fetchPurchaseOrder(order.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS'));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updatePurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Only drafts are editable; once ordered the supplier is working from this copy
+        const header: Record<string, unknown> = {};
+        HEADER_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) header[field] = req.body[field];
+        });
+
+        const orderLines = req.body.lines !== undefined ? await validateLines(req.body.lines) : undefined;
+
+        await transitionPurchaseOrder(id, ['draft'], 'draft', header);
+
+        if (orderLines) {
+            const { error: deleteError } = await supabase
+                .from('purchase_order_lines')
+                .delete()
+                .eq('purchase_order_id', id);
+
+            if (deleteError) throw mapSupabaseError(deleteError, 'purchase_order', id);
+
+            const { error: linesError } = await supabase
+                .from('purchase_order_lines')
+                .insert(orderLines.map(line => ({ ...line, purchase_order_id: id })));
+
+            if (linesError) throw mapSupabaseError(linesError, 'purchase_order', id);
+        }
+
+        const data = await fetchPurchaseOrder(id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const deletePurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Orders that booked stock stay for the audit trail; cancel them instead
+        const { data, error } = await supabase
+            .from('purchase_orders')
+            .delete()
+            .eq('id', id)
+            .in('status', ['draft', 'cancelled'])
+            .select('id');
+
+        if (error) throw mapSupabaseError(error, 'purchase_order', id);
+
+        if (!data || data.length === 0) {
+            const { data: existing } = await supabase
+                .from('purchase_orders')
+                .select('status')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (!existing) throw ErrorTypes.NOT_FOUND('purchase_order', id);
+            throw ErrorTypes.INVALID_STATE('Only draft or cancelled purchase orders can be deleted', {
+                resource: 'purchase_order',
+                id,
+                status: existing.status
+            });
+        }
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, message: 'Purchase order deleted successfully' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const placePurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await transitionPurchaseOrder(id, ['draft'], 'ordered', { ordered_at: new Date().toISOString() });
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            purchase_order_id: id,
+            action: 'order'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const cancelPurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Once goods have been received the order can only be completed
+        const data = await transitionPurchaseOrder(id, ['draft', 'ordered'], 'cancelled');
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            purchase_order_id: id,
+            action: 'cancel'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const receivePurchaseOrder = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { lines, versions } = req.body ?? {};
+
+        if (lines !== undefined) {
+            const valid = Array.isArray(lines) && lines.every((line: ReceiptLineInput) =>
+                typeof line?.sku === 'string' &&
+                Number.isInteger(line.quantity) && line.quantity >= 0 &&
+                (line.unit_cost === undefined || (typeof line.unit_cost === 'number' && line.unit_cost >= 0)) &&
+                (line.lot_code === undefined || typeof line.lot_code === 'string') &&
+                (line.expiry_date === undefined || isValidDate(line.expiry_date))
+            );
+            if (!valid) {
+                throw ErrorTypes.VALIDATION_ERROR('Each received line needs a sku and a non-negative integer quantity; unit_cost, lot_code and expiry_date (YYYY-MM-DD) are optional', {
+                    resource: 'purchase_order',
+                    field: 'lines'
+                });
+            }
+        }
+
+        if (versions !== undefined && (typeof versions !== 'object' || versions === null || Array.isArray(versions))) {
+            throw ErrorTypes.VALIDATION_ERROR('versions must map product ids to integer versions', {
+                resource: 'purchase_order',
+                field: 'versions'
+            });
+        }
+
+        const { error } = await supabase.rpc('receive_purchase_order', {
+            p_purchase_order_id: id,
+            p_actor: req.user?.id ?? null,
+            p_lines: lines ?? null,
+            p_versions: versions ?? {}
+        });
+
+        if (error) throw mapSupabaseError(error, 'purchase_order', id);
+
+        const data = await fetchPurchaseOrder(id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            purchase_order_id: id,
+            action: 'receive'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'purchase_order', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,351 @@
+import { Request, Response } from 'express';
+import { supabase, ReturnDisposition } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { renderCreditNotePdf } from '../utils/creditNotePdf';
+import { UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue } from '../utils/pdf';
+
+const RETURN_COLUMNS = `
+    id, credit_note_number, financial_year, sequence_number, return_date, location_id, sale_id,
+    client_reference, reason, taxable_value, cgst_amount, sgst_amount, igst_amount, total, created_by, created_at,
+    location:locations(name, code),
+    lines:return_lines(id, product_id, sku, description, quantity, disposition, unit_price, taxable_value, gst_rate,
+        cgst_amount, sgst_amount, igst_amount, line_total, movement_id)
+`;
+
+const DISPOSITIONS: ReturnDisposition[] = ['restock', 'damaged'];
+
+const DEFAULT_RATE_DAYS = 90;
+
+interface ReturnLineInput {
+    sku: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+    // Product version the clerk saw; restocking checks it like any other stock change
+    version?: number;
+}
+
+const fetchReturn = async (id: string) => {
+    const { data, error } = await supabase
+        .from('returns')
+        .select(RETURN_COLUMNS)
+        .eq('id', id)
+        .order('id', { ascending: true, referencedTable: 'return_lines' })
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'return', id);
+
+    return data;
+};
+
+export const getReturns = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, sale_id, from, to } = req.query as { location_id?: string; sale_id?: string; from?: string; to?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('returns')
+            .select(RETURN_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (location_id) query = query.eq('location_id', location_id);
+        if (sale_id) query = query.eq('sale_id', sale_id);
+
+        for (const [field, value] of [['from', from], ['to', to]] as const) {
+            if (value !== undefined && isNaN(Date.parse(value))) {
+                throw ErrorTypes.VALIDATION_ERROR(`${field} must be a date`, {
+                    resource: 'returns',
+                    field
+                });
+            }
+        }
+
+        if (from) query = query.gte('return_date', from);
+        if (to) query = query.lte('return_date', to);
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'returns');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'returns') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getReturnById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await fetchReturn(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'return', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getCreditNotePdf = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const record = await fetchReturn(id);
+
+        const [settingsResponse, invoiceResponse] = await Promise.all([
+            supabase.from('app_settings').select('key, value').in('key', ['business_name', 'business_address', 'gstin']),
+            record.sale_id
+                ? supabase.from('invoices').select('invoice_number, supply_type').eq('sale_id', record.sale_id).maybeSingle()
+                : Promise.resolve({ data: null, error: null })
+        ]);
+
+        if (settingsResponse.error) throw mapSupabaseError(settingsResponse.error, 'app_settings');
+        if (invoiceResponse.error) throw mapSupabaseError(invoiceResponse.error, 'invoice');
+
+        // Credit notes carry the business details as they are today
+        const settings = new Map((settingsResponse.data || []).map(row => [row.key, row.value as string]));
+
+        const pdf = renderCreditNotePdf({
+            ...record,
+            seller_name: settings.get('business_name') || settings.get('gstin') || 'MSME Inventory Lite',
+            seller_address: settings.get('business_address') || null,
+            seller_gstin: settings.get('gstin') || null,
+            invoice_number: invoiceResponse.data?.invoice_number ?? null,
+            supply_type: invoiceResponse.data?.supply_type ?? null
+        });
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            return_id: id,
+            format: 'pdf',
+            unrendered_text: pdf.unrenderedText.length
+        }));
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="credit-note-${record.credit_note_number.replace(/\//g, '-')}.pdf"`);
+        // Text the PDF fonts can't show is printed as '?'; the client warns about it
+        if (pdf.unrenderedText.length > 0) {
+            res.setHeader(UNRENDERED_TEXT_HEADER, unrenderedTextHeaderValue(pdf.unrenderedText));
+        }
+        res.send(pdf.buffer);
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'return', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createReturn = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { lines, sale_id, location_id, client_reference, reason } = req.body as {
+            lines?: ReturnLineInput[];
+            sale_id?: string | number;
+            location_id?: string;
+            client_reference?: string;
+            reason?: string;
+        };
+
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('A return needs at least one line', {
+                resource: 'return',
+                required_fields: ['lines']
+            });
+        }
+
+        // The same SKU may come back partly restocked and partly damaged, but once per disposition
+        const seenLines = new Set<string>();
+        lines.forEach((line, index) => {
+            if (typeof line !== 'object' || line === null || typeof line.sku !== 'string' || !line.sku.trim() ||
+                !Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line needs a sku and a positive integer quantity', {
+                    resource: 'return',
+                    field: `lines[${index}]`
+                });
+            }
+            if (!DISPOSITIONS.includes(line.disposition)) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line must be restocked or written off as damaged', {
+                    resource: 'return',
+                    field: `lines[${index}].disposition`,
+                    allowed_values: DISPOSITIONS
+                });
+            }
+            if (line.disposition === 'restock' && !Number.isInteger(line.version)) {
+                throw ErrorTypes.VALIDATION_ERROR('Restocked lines need the version of the product', {
+                    resource: 'return',
+                    field: `lines[${index}].version`
+                });
+            }
+            const key = `${line.sku.trim()}:${line.disposition}`;
+            if (seenLines.has(key)) {
+                throw ErrorTypes.VALIDATION_ERROR('A SKU can only appear once per disposition', {
+                    resource: 'return',
+                    field: `lines[${index}].sku`
+                });
+            }
+            seenLines.add(key);
+        });
+
+        if (sale_id !== undefined && sale_id !== null && !/^\d+$/.test(String(sale_id))) {
+            throw ErrorTypes.VALIDATION_ERROR('sale_id must be a sale id', {
+                resource: 'return',
+                field: 'sale_id'
+            });
+        }
+
+        if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+            throw ErrorTypes.VALIDATION_ERROR('reason must be a string of at most 500 characters', {
+                resource: 'return',
+                field: 'reason'
+            });
+        }
+
+        if (client_reference !== undefined && (typeof client_reference !== 'string' || !client_reference.trim() || client_reference.length > 100)) {
+            throw ErrorTypes.VALIDATION_ERROR('client_reference must be a non-empty string of at most 100 characters', {
+                resource: 'return',
+                field: 'client_reference'
+            });
+        }
+
+        // A return replayed from the offline queue returns the one already recorded
+        if (client_reference) {
+            const { data: existing, error: existingError } = await supabase
+                .from('returns')
+                .select('id')
+                .eq('client_reference', client_reference)
+                .maybeSingle();
+
+            if (existingError) throw mapSupabaseError(existingError, 'return');
+
+            if (existing) {
+                const data = await fetchReturn(existing.id);
+
+                logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+                    return_id: existing.id,
+                    replayed: true
+                }));
+
+                res.json({ success: true, data });
+                return;
+            }
+        }
+
+        // Report every unknown SKU, and archived products that can't go back on the shelf, at once
+        const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('id, sku, archived_at')
+            .in('sku', lines.map(line => line.sku.trim()));
+
+        if (productsError) throw mapSupabaseError(productsError, 'products');
+
+        const productsBySku = new Map((products || []).map(product => [product.sku, product]));
+        const lineErrors = lines.flatMap((line, index) => {
+            const product = productsBySku.get(line.sku.trim());
+            if (!product) return [{ line: index, sku: line.sku, code: 'NOT_FOUND', message: 'Product not found' }];
+            if (product.archived_at && line.disposition === 'restock') {
+                return [{ line: index, sku: line.sku, product_id: product.id, code: 'ARCHIVED', message: 'Archived products cannot be restocked' }];
+            }
+            return [];
+        });
+
+        if (lineErrors.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('One or more lines cannot be returned', {
+                resource: 'return',
+                field: 'lines',
+                lines: lineErrors
+            });
+        }
+
+        const { data: record, error } = await supabase.rpc('record_return', {
+            p_lines: lines.map(line => ({
+                product_id: productsBySku.get(line.sku.trim())!.id,
+                quantity: line.quantity,
+                disposition: line.disposition,
+                ...(line.disposition === 'restock' && { version: line.version })
+            })),
+            p_actor: req.user?.id ?? null,
+            p_location_id: location_id ?? null,
+            p_sale_id: sale_id ?? null,
+            p_client_reference: client_reference ?? null,
+            p_reason: reason?.trim() || null
+        });
+
+        if (error) throw mapSupabaseError(error, 'return');
+
+        const data = await fetchReturn(record.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            return_id: record.id,
+            credit_note_number: record.credit_note_number,
+            restocked: lines.filter(line => line.disposition === 'restock').reduce((sum, line) => sum + line.quantity, 0),
+            damaged: lines.filter(line => line.disposition === 'damaged').reduce((sum, line) => sum + line.quantity, 0)
+        }));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'return') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+// Share of units sold in the window that came back, and that came back damaged, per category
+export const getReturnRatesByCategory = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const daysParam = req.query.days as string | undefined;
+        const days = daysParam === undefined || daysParam === '' ? DEFAULT_RATE_DAYS : Number(daysParam);
+
+        if (!Number.isInteger(days) || days < 1 || days > 365) {
+            throw ErrorTypes.VALIDATION_ERROR('days must be a whole number of days between 1 and 365', {
+                resource: 'return_rates',
+                field: 'days'
+            });
+        }
+
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        const { data: stats, error } = await supabase.rpc('return_stats', { p_since: since });
+
+        if (error) throw mapSupabaseError(error, 'returns');
+
+        const rate = (units: number, sold: number) => (sold > 0 ? Math.round((units / sold) * 10000) / 10000 : null);
+
+        const data = ((stats || []) as Array<{ category: string; sold: number; returned: number; damaged: number }>)
+            .map(row => ({
+                category: row.category,
+                unitsSold: row.sold,
+                unitsReturned: row.returned,
+                unitsDamaged: row.damaged,
+                returnRate: rate(row.returned, row.sold),
+                damageRate: rate(row.damaged, row.sold)
+            }))
+            .sort((a, b) => b.unitsReturned - a.unitsReturned || a.category.localeCompare(b.category));
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, days });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'returns') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
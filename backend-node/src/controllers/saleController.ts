@@ -0,0 +1,217 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+
+const SALE_COLUMNS = `
+    id, location_id, client_reference, total, note, sold_at, created_by, created_at,
+    location:locations(name, code),
+    lines:sale_lines(id, product_id, quantity, unit_price, line_total, product:products(name, sku))
+`;
+
+interface SaleLineInput {
+    product_id: string;
+    quantity: number;
+}
+
+const fetchSale = async (id: string) => {
+    const { data, error } = await supabase
+        .from('sales')
+        .select(SALE_COLUMNS)
+        .eq('id', id)
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'sale', id);
+
+    return data;
+};
+
+export const getSales = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, from, to } = req.query as { location_id?: string; from?: string; to?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('sales')
+            .select(SALE_COLUMNS, { count: 'exact' })
+            .order('sold_at', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (location_id) {
+            query = query.eq('location_id', location_id);
+        }
+
+        for (const [field, value] of [['from', from], ['to', to]] as const) {
+            if (value !== undefined && isNaN(Date.parse(value))) {
+                throw ErrorTypes.VALIDATION_ERROR(`${field} must be a date`, {
+                    resource: 'sales',
+                    field
+                });
+            }
+        }
+
+        if (from) query = query.gte('sold_at', from);
+        if (to) query = query.lte('sold_at', to);
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'sales');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'sales') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getSaleById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const data = await fetchSale(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'sale', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createSale = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, client_reference, sold_at, note, lines } = req.body as {
+            location_id?: string;
+            client_reference?: string;
+            sold_at?: string;
+            note?: string;
+            lines?: SaleLineInput[];
+        };
+
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('A sale needs at least one line', {
+                resource: 'sale',
+                required_fields: ['lines']
+            });
+        }
+
+        const seenProducts = new Set<string>();
+        lines.forEach((line, index) => {
+            if (typeof line !== 'object' || line === null || !line.product_id || !Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line needs a product_id and a positive integer quantity', {
+                    resource: 'sale',
+                    field: `lines[${index}]`
+                });
+            }
+            if (seenProducts.has(String(line.product_id))) {
+                throw ErrorTypes.VALIDATION_ERROR('A product can only appear once per sale', {
+                    resource: 'sale',
+                    field: `lines[${index}].product_id`
+                });
+            }
+            seenProducts.add(String(line.product_id));
+        });
+
+        if (client_reference !== undefined && (typeof client_reference !== 'string' || !client_reference.trim() || client_reference.length > 100)) {
+            throw ErrorTypes.VALIDATION_ERROR('client_reference must be a non-empty string of at most 100 characters', {
+                resource: 'sale',
+                field: 'client_reference'
+            });
+        }
+
+        if (sold_at !== undefined && (typeof sold_at !== 'string' || isNaN(Date.parse(sold_at)))) {
+            throw ErrorTypes.VALIDATION_ERROR('sold_at must be a timestamp', {
+                resource: 'sale',
+                field: 'sold_at'
+            });
+        }
+
+        // A sale replayed from the offline queue returns the one already recorded
+        if (client_reference) {
+            const { data: existing, error: existingError } = await supabase
+                .from('sales')
+                .select('id')
+                .eq('client_reference', client_reference)
+                .maybeSingle();
+
+            if (existingError) throw mapSupabaseError(existingError, 'sale');
+
+            if (existing) {
+                const data = await fetchSale(existing.id);
+
+                logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+                    sale_id: existing.id,
+                    replayed: true
+                }));
+
+                res.json({ success: true, data });
+                return;
+            }
+        }
+
+        // Report every unknown or archived product at once, like the stock check in record_sale
+        const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('id, archived_at')
+            .in('id', lines.map(line => line.product_id));
+
+        if (productsError) throw mapSupabaseError(productsError, 'products');
+
+        const productsById = new Map((products || []).map(product => [String(product.id), product]));
+        const lineErrors = lines.flatMap((line, index) => {
+            const product = productsById.get(String(line.product_id));
+            if (!product) return [{ line: index, product_id: line.product_id, code: 'NOT_FOUND', message: 'Product not found' }];
+            if (product.archived_at) return [{ line: index, product_id: line.product_id, code: 'ARCHIVED', message: 'Product is archived' }];
+            return [];
+        });
+
+        if (lineErrors.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('One or more lines cannot be sold', {
+                resource: 'sale',
+                field: 'lines',
+                lines: lineErrors
+            });
+        }
+
+        // A till clock running ahead must not date a sale in the future
+        const soldAt = sold_at ? new Date(Math.min(Date.parse(sold_at), Date.now())).toISOString() : null;
+
+        const { data: sale, error } = await supabase.rpc('record_sale', {
+            p_lines: lines.map(line => ({ product_id: line.product_id, quantity: line.quantity })),
+            p_actor: req.user?.id ?? null,
+            p_location_id: location_id ?? null,
+            p_client_reference: client_reference ?? null,
+            p_sold_at: soldAt,
+            p_note: note ?? null
+        });
+
+        if (error) throw mapSupabaseError(error, 'sale');
+
+        const data = await fetchSale(sale.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            sale_id: sale.id,
+            lines: lines.length
+        }));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'sale') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
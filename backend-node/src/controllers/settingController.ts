@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { DEFAULT_VALUATION_METHOD, VALUATION_METHODS } from '../utils/valuation';
+import { isValidGstin } from '../utils/gst';
+
+interface SettingRule {
+    default: string;
+    // Either a fixed list of values or a check on free text
+    allowed?: string[];
+    isValid?: (value: string) => boolean;
+    message?: string;
+}
+
+// Settings owners may change, with their allowed values and the default used when unset
+const SETTINGS: Record<string, SettingRule> = {
+    valuation_method: { allowed: VALUATION_METHODS, default: DEFAULT_VALUATION_METHOD },
+    // Seller details printed on GST invoices
+    business_name: {
+        default: '',
+        isValid: value => value.length <= 200,
+        message: 'business_name must be at most 200 characters'
+    },
+    business_address: {
+        default: '',
+        isValid: value => value.length <= 500,
+        message: 'business_address must be at most 500 characters'
+    },
+    gstin: {
+        default: '',
+        isValid: value => value === '' || isValidGstin(value),
+        message: 'gstin must be a valid 15-character GSTIN'
+    }
+};
+
+export const getSettings = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { data, error } = await supabase
+            .from('app_settings')
+            .select('key, value, updated_at');
+
+        if (error) throw mapSupabaseError(error, 'app_settings');
+
+        // Every known setting is returned, with its default when no row exists yet
+        const stored = new Map((data || []).map(row => [row.key, row]));
+        const settings = Object.entries(SETTINGS).map(([key, rule]) => ({
+            key,
+            value: stored.get(key)?.value ?? rule.default,
+            allowed_values: rule.allowed ?? null,
+            updated_at: stored.get(key)?.updated_at ?? null
+        }));
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data: settings });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'app_settings') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updateSetting = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { key } = req.params;
+
+    try {
+        const rule = SETTINGS[key];
+        if (!rule) throw ErrorTypes.NOT_FOUND('setting', key);
+
+        const { value } = req.body;
+        const valid = typeof value === 'string' &&
+            (rule.allowed ? rule.allowed.includes(value) : rule.isValid?.(value) ?? true);
+
+        if (!valid) {
+            throw ErrorTypes.VALIDATION_ERROR(
+                rule.allowed ? `${key} must be one of: ${rule.allowed.join(', ')}` : rule.message ?? `Invalid value for ${key}`,
+                {
+                    resource: 'setting',
+                    field: 'value',
+                    ...(rule.allowed && { allowed_values: rule.allowed })
+                }
+            );
+        }
+
+        const { data, error } = await supabase
+            .from('app_settings')
+            .upsert({ key, value, updated_by: req.user?.id ?? null }, { onConflict: 'key' })
+            .select('key, value, updated_at')
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'setting', key);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, { setting: key }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'setting', key) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
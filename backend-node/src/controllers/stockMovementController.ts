@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { supabase, StockMovementReason } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { applyStockMovement, isValidDate, STOCK_MOVEMENT_REASONS } from '../utils/stockLedger';
+
+// Reasons staff may record by hand; the others carry a cost into the valuation or belong to their own workflow
+const STAFF_MOVEMENT_REASONS: StockMovementReason[] = ['adjustment', 'damage'];
+
+export const getStockMovements = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 500);
+
+        const { error: fetchError } = await supabase
+            .from('products')
+            .select('id')
+            .eq('id', id)
+            .single();
+
+        if (fetchError) throw ErrorTypes.NOT_FOUND('product', id);
+
+        let query = supabase
+            .from('stock_movements')
+            .select('id, product_id, location_id, delta, reason, quantity_after, location_quantity_after, unit_cost, note, reference, created_by, created_at', { count: 'exact' })
+            .eq('product_id', id)
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (req.query.location_id) {
+            query = query.eq('location_id', req.query.location_id as string);
+        }
+
+        const { data, error, count } = await query;
+
+        if (error) throw mapSupabaseError(error, 'stock_movements');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS', id));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createStockMovement = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { delta, reason, note, reference, version, location_id, unit_cost, lot_code, expiry_date } = req.body;
+
+        if (!Number.isInteger(delta) || delta === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Delta must be a non-zero integer', {
+                resource: 'stock_movement',
+                field: 'delta'
+            });
+        }
+
+        if (!STOCK_MOVEMENT_REASONS.includes(reason)) {
+            throw ErrorTypes.VALIDATION_ERROR('Invalid movement reason', {
+                resource: 'stock_movement',
+                field: 'reason',
+                allowed_values: STOCK_MOVEMENT_REASONS
+            });
+        }
+
+        if (req.user?.role !== 'owner' && !STAFF_MOVEMENT_REASONS.includes(reason)) {
+            throw ErrorTypes.PERMISSION_DENIED('Only owners can record this kind of movement', {
+                resource: 'stock_movement',
+                field: 'reason',
+                allowed_values: STAFF_MOVEMENT_REASONS
+            });
+        }
+
+        if (req.user?.role !== 'owner' && unit_cost !== undefined) {
+            throw ErrorTypes.PERMISSION_DENIED('Only owners can set the cost of stock', {
+                resource: 'stock_movement',
+                field: 'unit_cost'
+            });
+        }
+
+        if (unit_cost !== undefined && (typeof unit_cost !== 'number' || unit_cost < 0)) {
+            throw ErrorTypes.VALIDATION_ERROR('Unit cost must be a non-negative number', {
+                resource: 'stock_movement',
+                field: 'unit_cost'
+            });
+        }
+
+        if (expiry_date !== undefined && !isValidDate(expiry_date)) {
+            throw ErrorTypes.VALIDATION_ERROR('Expiry date must be a YYYY-MM-DD date', {
+                resource: 'stock_movement',
+                field: 'expiry_date'
+            });
+        }
+
+        if ((lot_code !== undefined || expiry_date !== undefined) && delta < 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Lot details only apply to inbound movements', {
+                resource: 'stock_movement',
+                field: 'delta'
+            });
+        }
+
+        const movement = await applyStockMovement({
+            productId: id,
+            delta,
+            reason: reason as StockMovementReason,
+            locationId: location_id,
+            actorId: req.user?.id,
+            note,
+            reference,
+            expectedVersion: version,
+            unitCost: unit_cost,
+            lotCode: lot_code,
+            expiryDate: expiry_date
+        });
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', id, undefined, undefined, {
+            delta,
+            reason
+        }));
+
+        res.status(201).json({ success: true, data: movement });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'product', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('CREATE', startTime, req, status, id, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
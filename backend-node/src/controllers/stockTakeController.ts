@@ -0,0 +1,356 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+import { buildVarianceReport } from '../utils/stockTake';
+
+const STOCK_TAKE_STATUSES = ['counting', 'approved', 'cancelled'];
+
+const STOCK_TAKE_COLUMNS = `
+    id, location_id, status, category, note, created_by, approved_by, approved_at, created_at, updated_at,
+    location:locations(name, code)
+`;
+
+const LINE_COLUMNS = 'product_id, expected_quantity, unit_cost, counted_quantity, counted_at, movement_id, product:products(sku, name, category)';
+
+interface CountInput {
+    sku: string;
+    quantity: number;
+}
+
+const fetchStockTake = async (id: string) => {
+    const { data, error } = await supabase
+        .from('stock_takes')
+        .select(STOCK_TAKE_COLUMNS)
+        .eq('id', id)
+        .single();
+
+    if (error) throw mapSupabaseError(error, 'stock_take', id);
+    return data;
+};
+
+const fetchLines = async (id: string) => {
+    const { data, error } = await supabase
+        .from('stock_take_lines')
+        .select(LINE_COLUMNS)
+        .eq('stock_take_id', id)
+        .order('product_id');
+
+    if (error) throw mapSupabaseError(error, 'stock_take', id);
+    return data || [];
+};
+
+export const getStockTakes = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { status, location_id } = req.query as { status?: string; location_id?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('stock_takes')
+            .select(STOCK_TAKE_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (status) {
+            if (!STOCK_TAKE_STATUSES.includes(status)) {
+                throw ErrorTypes.VALIDATION_ERROR('Invalid stock take status', {
+                    resource: 'stock_take',
+                    field: 'status',
+                    allowed_values: STOCK_TAKE_STATUSES
+                });
+            }
+            query = query.eq('status', status);
+        }
+
+        if (location_id) {
+            query = query.eq('location_id', location_id);
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'stock_takes');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_takes') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getStockTakeById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const stockTake = await fetchStockTake(id);
+        const lines = await fetchLines(id);
+
+        // Staff count blind: the frozen quantities and costs are only shown to owners
+        const isOwner = req.user?.role === 'owner';
+        const visibleLines = isOwner
+            ? lines
+            : lines.map(({ expected_quantity: _expected, unit_cost: _cost, ...line }) => line);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data: { ...stockTake, lines: visibleLines } });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const startStockTake = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { location_id, category, note } = req.body as { location_id?: string; category?: string; note?: string };
+
+        if (category !== undefined && category !== null && (typeof category !== 'string' || !category.trim())) {
+            throw ErrorTypes.VALIDATION_ERROR('category must be a non-empty string', {
+                resource: 'stock_take',
+                field: 'category'
+            });
+        }
+
+        if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+            throw ErrorTypes.VALIDATION_ERROR('note must be a string of at most 500 characters', {
+                resource: 'stock_take',
+                field: 'note'
+            });
+        }
+
+        const { data: stockTake, error } = await supabase.rpc('start_stock_take', {
+            p_location_id: location_id ?? null,
+            p_actor: req.user?.id ?? null,
+            p_category: category?.trim() || null,
+            p_note: note?.trim() || null
+        });
+
+        if (error) throw mapSupabaseError(error, 'location', location_id);
+
+        const data = await fetchStockTake(stockTake.id);
+        const lines = await fetchLines(stockTake.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            stock_take_id: stockTake.id,
+            products: lines.length
+        }));
+
+        res.status(201).json({ success: true, data: { ...data, lines } });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const recordCounts = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { counts, client_reference } = req.body as { counts?: CountInput[]; client_reference?: string };
+
+        if (!Array.isArray(counts) || counts.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('At least one count is required', {
+                resource: 'stock_take',
+                field: 'counts'
+            });
+        }
+
+        counts.forEach((count, index) => {
+            if (typeof count?.sku !== 'string' || !count.sku.trim() || !Number.isInteger(count.quantity) || count.quantity === 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each count needs a sku and a non-zero integer quantity', {
+                    resource: 'stock_take',
+                    field: `counts[${index}]`
+                });
+            }
+        });
+
+        if (client_reference !== undefined && (typeof client_reference !== 'string' || !client_reference.trim() || client_reference.length > 100)) {
+            throw ErrorTypes.VALIDATION_ERROR('client_reference must be a non-empty string of at most 100 characters', {
+                resource: 'stock_take',
+                field: 'client_reference'
+            });
+        }
+
+        // Report every unknown SKU at once
+        const skus = [...new Set(counts.map(count => count.sku.trim()))];
+        const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('id, sku')
+            .in('sku', skus);
+
+        if (productsError) throw mapSupabaseError(productsError, 'products');
+
+        const productsBySku = new Map((products || []).map(product => [product.sku, product]));
+        const skusById = new Map((products || []).map(product => [String(product.id), product.sku]));
+        const lineErrors = counts.flatMap((count, index) =>
+            productsBySku.has(count.sku.trim())
+                ? []
+                : [{ line: index, sku: count.sku, code: 'NOT_FOUND', message: 'Product not found' }]
+        );
+
+        if (lineErrors.length > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('One or more counts cannot be recorded', {
+                resource: 'stock_take',
+                field: 'counts',
+                lines: lineErrors
+            });
+        }
+
+        const { error } = await supabase.rpc('record_stock_take_counts', {
+            p_stock_take_id: id,
+            p_counts: counts.map(count => ({ product_id: productsBySku.get(count.sku.trim())!.id, quantity: count.quantity })),
+            p_actor: req.user?.id ?? null,
+            p_client_reference: client_reference ?? null
+        });
+
+        if (error) {
+            const appError = mapSupabaseError(error, 'stock_take', id);
+            // The function reports lines by product; the page knows them by SKU
+            const details = appError.details;
+            if (details && Array.isArray(details.lines)) {
+                details.lines = details.lines.map((line: { product_id: string | number }) => ({
+                    ...line,
+                    sku: skusById.get(String(line.product_id))
+                }));
+            }
+            throw appError;
+        }
+
+        const { data: lines, error: linesError } = await supabase
+            .from('stock_take_lines')
+            .select('product_id, counted_quantity, counted_at, product:products(sku, name, category)')
+            .eq('stock_take_id', id)
+            .in('product_id', [...new Set(counts.map(count => productsBySku.get(count.sku.trim())!.id))]);
+
+        if (linesError) throw mapSupabaseError(linesError, 'stock_take', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            stock_take_id: id,
+            action: 'count',
+            counts: counts.length
+        }));
+
+        res.json({ success: true, data: lines });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getVarianceReport = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const stockTake = await fetchStockTake(id);
+        const lines = await fetchLines(id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({
+            success: true,
+            data: {
+                stock_take: stockTake,
+                ...buildVarianceReport(lines.map(line => ({
+                    ...line,
+                    product: Array.isArray(line.product) ? line.product[0] : line.product
+                })))
+            }
+        });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const approveStockTake = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { error } = await supabase.rpc('approve_stock_take', {
+            p_stock_take_id: id,
+            p_actor: req.user?.id ?? null
+        });
+
+        if (error) throw mapSupabaseError(error, 'stock_take', id);
+
+        const data = await fetchStockTake(id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            stock_take_id: id,
+            action: 'approve'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const cancelStockTake = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Approved counts have already been posted to stock
+        const { data, error } = await supabase
+            .from('stock_takes')
+            .update({ status: 'cancelled' })
+            .eq('id', id)
+            .eq('status', 'counting')
+            .select()
+            .maybeSingle();
+
+        if (error) throw mapSupabaseError(error, 'stock_take', id);
+
+        if (!data) {
+            const { data: existing } = await supabase
+                .from('stock_takes')
+                .select('status')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (!existing) throw ErrorTypes.NOT_FOUND('stock_take', id);
+            throw ErrorTypes.INVALID_STATE('Only open stock takes can be cancelled', {
+                resource: 'stock_take',
+                id,
+                status: existing.status
+            });
+        }
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            stock_take_id: id,
+            action: 'cancel'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_take', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+
+const SUPPLIER_FIELDS = ['name', 'contact_name', 'phone', 'email', 'address', 'notes'];
+
+// Picks the editable supplier fields from a request body, trimming strings
+const pickSupplierFields = (body: Record<string, unknown>): Record<string, string | null> => {
+    const fields: Record<string, string | null> = {};
+    SUPPLIER_FIELDS.forEach(field => {
+        if (body[field] !== undefined) {
+            fields[field] = body[field] === null ? null : String(body[field]).trim();
+        }
+    });
+    return fields;
+};
+
+export const getSuppliers = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        let query = supabase
+            .from('suppliers')
+            .select('id, name, contact_name, phone, email, address, notes')
+            .order('name', { ascending: true });
+
+        const search = req.query.search as string | undefined;
+        if (search && search.trim()) {
+            query = query.ilike('name', `%${search.trim()}%`);
+        }
+
+        const { data, error } = await query;
+        if (error) throw mapSupabaseError(error, 'suppliers');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'suppliers') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getSupplierById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('suppliers')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'supplier', id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'supplier', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createSupplier = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const fields = pickSupplierFields(req.body);
+
+        if (!fields.name) {
+            throw ErrorTypes.VALIDATION_ERROR('Missing required fields', {
+                resource: 'supplier',
+                required_fields: ['name']
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('suppliers')
+            .insert([fields])
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'supplier');
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS'));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'supplier') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const updateSupplier = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const fields = pickSupplierFields(req.body);
+
+        if (fields.name !== undefined && !fields.name) {
+            throw ErrorTypes.VALIDATION_ERROR('Supplier name cannot be empty', {
+                resource: 'supplier',
+                field: 'name'
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('suppliers')
+            .update(fields)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'supplier', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'supplier', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const deleteSupplier = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Suppliers with purchase orders are kept for history
+        const { count, error: historyError } = await supabase
+            .from('purchase_orders')
+            .select('*', { count: 'exact', head: true })
+            .eq('supplier_id', id);
+
+        if (historyError) throw mapSupabaseError(historyError, 'purchase_orders');
+
+        if (count && count > 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Supplier has purchase orders and cannot be deleted', {
+                resource: 'supplier',
+                id,
+                purchase_orders: count
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('suppliers')
+            .delete()
+            .eq('id', id)
+            .select('id');
+
+        if (error) throw mapSupabaseError(error, 'supplier', id);
+        if (!data || data.length === 0) throw ErrorTypes.NOT_FOUND('supplier', id);
+
+        logger.log(logger.createLogEntry('DELETE', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, message: 'Supplier deleted successfully' });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'supplier', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('DELETE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
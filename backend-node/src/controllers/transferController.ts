@@ -0,0 +1,339 @@
+import { Request, Response } from 'express';
+import { supabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { ErrorTypes, sendErrorResponse, mapSupabaseError } from '../utils/errors';
+
+const TRANSFER_STATUSES = ['draft', 'dispatched', 'partially_received', 'received', 'cancelled'];
+
+const TRANSFER_COLUMNS = `
+    id, from_location_id, to_location_id, status, note, created_by, dispatched_by,
+    dispatched_at, received_at, created_at, updated_at,
+    from_location:locations!stock_transfers_from_location_id_fkey(name, code),
+    to_location:locations!stock_transfers_to_location_id_fkey(name, code),
+    lines:stock_transfer_lines(id, product_id, quantity, quantity_received, product:products(name, sku, version))
+`;
+
+interface TransferLineInput {
+    product_id: string;
+    quantity: number;
+}
+
+// Validates the optional { product_id: version } map used to version-check each product
+const parseVersions = (versions: unknown): Record<string, number> => {
+    if (versions === undefined || versions === null) return {};
+
+    const valid = typeof versions === 'object' && !Array.isArray(versions) &&
+        Object.values(versions as Record<string, unknown>).every(v => Number.isInteger(v));
+
+    if (!valid) {
+        throw ErrorTypes.VALIDATION_ERROR('versions must map product ids to integer versions', {
+            resource: 'transfer',
+            field: 'versions'
+        });
+    }
+
+    return versions as Record<string, number>;
+};
+
+export const getTransfers = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { status, location_id } = req.query as { status?: string; location_id?: string };
+        const limitParam = parseInt((req.query.limit as string) || '50', 10);
+        const offsetParam = parseInt((req.query.offset as string) || '0', 10);
+        const limit = Math.min(Math.max(limitParam, 1), 200);
+
+        let query = supabase
+            .from('stock_transfers')
+            .select(TRANSFER_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(offsetParam, offsetParam + limit - 1);
+
+        if (status) {
+            if (!TRANSFER_STATUSES.includes(status)) {
+                throw ErrorTypes.VALIDATION_ERROR('Invalid transfer status', {
+                    resource: 'transfer',
+                    field: 'status',
+                    allowed_values: TRANSFER_STATUSES
+                });
+            }
+            query = query.eq('status', status);
+        }
+
+        if (location_id) {
+            // The id is interpolated into the filter string, so it must be a plain integer
+            if (!/^\d+$/.test(String(location_id))) {
+                throw ErrorTypes.VALIDATION_ERROR('location_id must be a location id', {
+                    resource: 'transfer',
+                    field: 'location_id'
+                });
+            }
+            query = query.or(`from_location_id.eq.${location_id},to_location_id.eq.${location_id}`);
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw mapSupabaseError(error, 'transfers');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data, count });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfers') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getInTransit = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        let query = supabase
+            .from('stock_in_transit')
+            .select('product_id, location_id, quantity');
+
+        if (req.query.location_id) {
+            query = query.eq('location_id', req.query.location_id as string);
+        }
+
+        const { data, error } = await query;
+        if (error) throw mapSupabaseError(error, 'stock_in_transit');
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'stock_in_transit') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const getTransferById = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('stock_transfers')
+            .select(TRANSFER_COLUMNS)
+            .eq('id', id)
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'transfer', id);
+
+        logger.log(logger.createLogEntry('READ', startTime, req, 'SUCCESS'));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('READ', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const createTransfer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const { from_location_id, to_location_id, note, lines } = req.body as {
+            from_location_id?: string;
+            to_location_id?: string;
+            note?: string;
+            lines?: TransferLineInput[];
+        };
+
+        if (!from_location_id || !to_location_id || !Array.isArray(lines) || lines.length === 0) {
+            throw ErrorTypes.VALIDATION_ERROR('Missing required fields', {
+                resource: 'transfer',
+                required_fields: ['from_location_id', 'to_location_id', 'lines']
+            });
+        }
+
+        if (String(from_location_id) === String(to_location_id)) {
+            throw ErrorTypes.VALIDATION_ERROR('Source and destination must be different locations', {
+                resource: 'transfer',
+                field: 'to_location_id'
+            });
+        }
+
+        const seenProducts = new Set<string>();
+        lines.forEach((line, index) => {
+            if (!line.product_id || !Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw ErrorTypes.VALIDATION_ERROR('Each line needs a product_id and a positive integer quantity', {
+                    resource: 'transfer',
+                    field: `lines[${index}]`
+                });
+            }
+            if (seenProducts.has(String(line.product_id))) {
+                throw ErrorTypes.VALIDATION_ERROR('A product can only appear once per transfer', {
+                    resource: 'transfer',
+                    field: `lines[${index}].product_id`
+                });
+            }
+            seenProducts.add(String(line.product_id));
+        });
+
+        const { data: transfer, error } = await supabase
+            .from('stock_transfers')
+            .insert([{ from_location_id, to_location_id, note, created_by: req.user?.id }])
+            .select()
+            .single();
+
+        if (error) throw mapSupabaseError(error, 'transfer');
+
+        const { error: linesError } = await supabase
+            .from('stock_transfer_lines')
+            .insert(lines.map(line => ({
+                transfer_id: transfer.id,
+                product_id: line.product_id,
+                quantity: line.quantity
+            })));
+
+        if (linesError) {
+            // Don't leave an empty draft behind
+            await supabase.from('stock_transfers').delete().eq('id', transfer.id);
+            throw mapSupabaseError(linesError, 'transfer');
+        }
+
+        const { data, error: fetchError } = await supabase
+            .from('stock_transfers')
+            .select(TRANSFER_COLUMNS)
+            .eq('id', transfer.id)
+            .single();
+
+        if (fetchError) throw mapSupabaseError(fetchError, 'transfer', transfer.id);
+
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'SUCCESS'));
+
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfer') : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('CREATE', startTime, req, 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const dispatchTransfer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const versions = parseVersions(req.body?.versions);
+
+        const { data, error } = await supabase.rpc('dispatch_stock_transfer', {
+            p_transfer_id: id,
+            p_actor: req.user?.id ?? null,
+            p_versions: versions
+        });
+
+        if (error) throw mapSupabaseError(error, 'transfer', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            transfer_id: id,
+            action: 'dispatch'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfer', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const receiveTransfer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        const versions = parseVersions(req.body?.versions);
+        const lines = req.body?.lines as TransferLineInput[] | undefined;
+
+        if (lines !== undefined) {
+            const valid = Array.isArray(lines) && lines.every(line =>
+                line.product_id && Number.isInteger(line.quantity) && line.quantity >= 0
+            );
+            if (!valid) {
+                throw ErrorTypes.VALIDATION_ERROR('Each received line needs a product_id and a non-negative integer quantity', {
+                    resource: 'transfer',
+                    field: 'lines'
+                });
+            }
+        }
+
+        const { data, error } = await supabase.rpc('receive_stock_transfer', {
+            p_transfer_id: id,
+            p_actor: req.user?.id ?? null,
+            p_lines: lines ?? null,
+            p_versions: versions
+        });
+
+        if (error) throw mapSupabaseError(error, 'transfer', id);
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            transfer_id: id,
+            action: 'receive'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfer', id) : ErrorTypes.INTERNAL_ERROR();
+        const status = appError.code === 'CONFLICT' ? 'CONFLICT' : appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR';
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, status, undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
+
+export const cancelTransfer = async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+        // Only drafts can be cancelled; dispatched stock has already left the source
+        const { data, error } = await supabase
+            .from('stock_transfers')
+            .update({ status: 'cancelled' })
+            .eq('id', id)
+            .eq('status', 'draft')
+            .select()
+            .maybeSingle();
+
+        if (error) throw mapSupabaseError(error, 'transfer', id);
+
+        if (!data) {
+            const { data: existing } = await supabase
+                .from('stock_transfers')
+                .select('status')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (!existing) throw ErrorTypes.NOT_FOUND('transfer', id);
+            throw ErrorTypes.INVALID_STATE('Only draft transfers can be cancelled', {
+                resource: 'transfer',
+                id,
+                status: existing.status
+            });
+        }
+
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, 'SUCCESS', undefined, undefined, undefined, {
+            transfer_id: id,
+            action: 'cancel'
+        }));
+
+        res.json({ success: true, data });
+    } catch (error) {
+        const appError = error instanceof Error ? mapSupabaseError(error, 'transfer', id) : ErrorTypes.INTERNAL_ERROR();
+        logger.log(logger.createLogEntry('UPDATE', startTime, req, appError.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR', undefined, appError.code, appError.message));
+
+        sendErrorResponse(res, appError);
+    }
+};
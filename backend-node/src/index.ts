@@ -5,11 +5,27 @@ import multer from 'multer';
 import { supabase } from './config/database';
 import authRoutes from './routes/auth';
 import productRoutes from './routes/products';
+import parentProductRoutes from './routes/parentProducts';
 import importRoutes from './routes/import';
 import dashboardRoutes from './routes/dashboard';
 import metricsRoutes from './routes/metrics';
+import locationRoutes from './routes/locations';
+import transferRoutes from './routes/transfers';
+import supplierRoutes from './routes/suppliers';
+import purchaseOrderRoutes from './routes/purchaseOrders';
+import categorySettingRoutes from './routes/categorySettings';
+import reorderRoutes from './routes/reorder';
+import priceRequestRoutes from './routes/priceRequests';
+import settingRoutes from './routes/settings';
+import saleRoutes from './routes/sales';
+import invoiceRoutes from './routes/invoices';
+import returnRoutes from './routes/returns';
+import customerRoutes from './routes/customers';
+import stockTakeRoutes from './routes/stockTakes';
+import labelRoutes from './routes/labels';
 import { logger } from './utils/logger';
 import { metricsCollector } from './utils/metrics';
+import { failInterruptedImports } from './controllers/importController';
 dotenv.config();
 
 const app = express();
@@ -153,6 +169,49 @@ app.use('/api/auth', authRoutes);
 // Protected products routes
 app.use('/api/products', productRoutes);
 
+// Protected parent product (variant group) routes
+app.use('/api/parent-products', parentProductRoutes);
+
+// Protected location routes
+app.use('/api/locations', locationRoutes);
+
+// Protected transfer routes
+app.use('/api/transfers', transferRoutes);
+
+// Protected supplier and purchase order routes
+app.use('/api/suppliers', supplierRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+
+// Protected category settings routes
+app.use('/api/category-settings', categorySettingRoutes);
+
+// Protected reorder routes
+app.use('/api/reorder', reorderRoutes);
+
+// Protected price request routes
+app.use('/api/price-requests', priceRequestRoutes);
+
+// Protected settings routes
+app.use('/api/settings', settingRoutes);
+
+// Protected sales routes
+app.use('/api/sales', saleRoutes);
+
+// Protected invoice routes
+app.use('/api/invoices', invoiceRoutes);
+
+// Protected return routes
+app.use('/api/returns', returnRoutes);
+
+// Protected customer (credit ledger) routes
+app.use('/api/customers', customerRoutes);
+
+// Protected stock-take routes
+app.use('/api/stock-takes', stockTakeRoutes);
+
+// Protected shelf label routes
+app.use('/api/labels', labelRoutes);
+
 // Protected import routes
 app.use('/api/import', importRoutes);
 
@@ -173,7 +232,22 @@ app.get('/api', (req, res) => {
         public: '/api/products/public',
         protected: '/api/products'
       },
+      parent_products: '/api/parent-products',
       auth: '/api/auth',
+      locations: '/api/locations',
+      transfers: '/api/transfers',
+      suppliers: '/api/suppliers',
+      purchase_orders: '/api/purchase-orders',
+      category_settings: '/api/category-settings',
+      reorder: '/api/reorder/suggestions',
+      price_requests: '/api/price-requests',
+      settings: '/api/settings',
+      sales: '/api/sales',
+      invoices: '/api/invoices',
+      returns: '/api/returns',
+      customers: '/api/customers',
+      stock_takes: '/api/stock-takes',
+      labels: '/api/labels',
       import: '/api/import',
       dashboard: '/api/dashboard',
       protected_metrics: '/api/metrics (authenticated)'
@@ -208,6 +282,7 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 
 const server = app.listen(port, () => {
   console.log(`Server listening on ${port}`);
+  failInterruptedImports().catch(error => console.error('Could not fail interrupted imports:', error));
 });
 
 const shutdown = () => {
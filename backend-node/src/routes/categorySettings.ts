@@ -0,0 +1,19 @@
+import express from 'express';
+import { getCategorySettings, upsertCategorySetting, deleteCategorySetting } from '../controllers/categorySettingController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/category-settings - Per-category default reorder points (all authenticated users)
+router.get('/', getCategorySettings);
+
+// PUT /api/category-settings/:category - Set a category's default reorder point (owners only)
+router.put('/:category', authorizeRole(['owner']), upsertCategorySetting);
+
+// DELETE /api/category-settings/:category - Fall back to the global default (owners only)
+router.delete('/:category', authorizeRole(['owner']), deleteCategorySetting);
+
+export default router;
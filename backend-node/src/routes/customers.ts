@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+    getCustomers,
+    getCustomerById,
+    createCustomer,
+    updateCustomer,
+    createCreditSale,
+    createPayment,
+    getCustomerStatement
+} from '../controllers/customerController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/customers - List customers with balance and overdue amount (?search, ?with_balance=true)
+router.get('/', getCustomers);
+
+// GET /api/customers/:id/statement - Dated statement with running balance (?from, ?to)
+router.get('/:id/statement', getCustomerStatement);
+
+// GET /api/customers/:id - Get a customer with balance and overdue amount
+router.get('/:id', getCustomerById);
+
+// POST /api/customers - Add a customer (credit terms are owner-only)
+router.post('/', createCustomer);
+
+// PUT /api/customers/:id - Edit a customer (credit terms are owner-only)
+router.put('/:id', updateCustomer);
+
+// POST /api/customers/:id/credit - Sell on credit by SKU and add the total to the balance
+router.post('/:id/credit', createCreditSale);
+
+// POST /api/customers/:id/payments - Record a payment against the balance
+router.post('/:id/payments', createPayment);
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import { getKPIs, getStockValueByCategory } from '../controllers/productController';
-import { authenticateToken } from '../middleware/auth';
+import { getReturnRatesByCategory } from '../controllers/returnController';
+import { getReceivables } from '../controllers/customerController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -13,4 +15,10 @@ router.get('/kpis', getKPIs);
 // GET /api/dashboard/stock-by-category - Stock value aggregation
 router.get('/stock-by-category', getStockValueByCategory);
 
+// GET /api/dashboard/return-rates - Return and damage rates by category (?days, default 90)
+router.get('/return-rates', getReturnRatesByCategory);
+
+// GET /api/dashboard/receivables - Total owed by customers and the overdue part (owner)
+router.get('/receivables', authorizeRole(['owner']), getReceivables);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import express from 'express';
 import multer from 'multer';
-import { importCSV } from '../controllers/importController';
+import { importCSV, getImportJob, getImportJobs, rollbackImport } from '../controllers/importController';
+import { getImportMappings, saveImportMapping, deleteImportMapping } from '../controllers/importMappingController';
 import { authenticateToken, authorizeRole } from '../middleware/auth';
 import path from 'path';
 
@@ -30,7 +31,25 @@ const upload = multer({
 // Apply authentication to all routes
 router.use(authenticateToken);
 
-// POST /api/import/csv - Import CSV file (owners and staff only)
+// POST /api/import/csv - Queue a CSV file (with an optional `mapping` field) for import and return the job id, or preview it with ?dryRun=true (owners and staff only)
 router.post('/csv', authorizeRole(['owner', 'staff']), upload.single('file'), importCSV);
 
+// GET /api/import - Recent imports without row results (owners see all, staff their own)
+router.get('/', getImportJobs);
+
+// GET /api/import/mappings - The user's saved column mapping templates (registered before /:id)
+router.get('/mappings', getImportMappings);
+
+// POST /api/import/mappings - Save a named column mapping, replacing one with the same name
+router.post('/mappings', saveImportMapping);
+
+// DELETE /api/import/mappings/:id - Delete one of the user's column mappings
+router.delete('/mappings/:id', deleteImportMapping);
+
+// GET /api/import/:id - Import job status, progress and results (owner, or the user who uploaded it)
+router.get('/:id', getImportJob);
+
+// POST /api/import/:id/rollback - Undo a finished import unless its products changed since (owner only)
+router.post('/:id/rollback', authorizeRole(['owner']), rollbackImport);
+
 export default router;
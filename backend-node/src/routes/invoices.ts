@@ -0,0 +1,22 @@
+import express from 'express';
+import { getInvoices, getInvoiceById, getInvoicePdf, createInvoice } from '../controllers/invoiceController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/invoices - List invoices, newest first, optionally by financial year or date range (all authenticated users)
+router.get('/', getInvoices);
+
+// GET /api/invoices/:id.pdf - Download the invoice as a PDF (registered before /:id)
+router.get('/:id.pdf', getInvoicePdf);
+
+// GET /api/invoices/:id - Get an invoice with its lines
+router.get('/:id', getInvoiceById);
+
+// POST /api/invoices - Sell by SKU and issue a GST invoice (all authenticated users)
+router.post('/', createInvoice);
+
+export default router;
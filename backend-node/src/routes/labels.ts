@@ -0,0 +1,13 @@
+import express from 'express';
+import { createLabels } from '../controllers/labelController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// POST /api/labels - Render shelf labels for a list of products as an A4 PDF (all authenticated users)
+router.post('/', createLabels);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { getLocations, createLocation, updateLocation, deleteLocation } from '../controllers/locationController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/locations - List stores and warehouses (all authenticated users)
+router.get('/', getLocations);
+
+// POST /api/locations - Create location (owners only)
+router.post('/', authorizeRole(['owner']), createLocation);
+
+// PUT /api/locations/:id - Update location (owners only)
+router.put('/:id', authorizeRole(['owner']), updateLocation);
+
+// DELETE /api/locations/:id - Delete location without stock history (owners only)
+router.delete('/:id', authorizeRole(['owner']), deleteLocation);
+
+export default router;
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+    getParentProducts,
+    getParentProductById,
+    createParentProduct,
+    updateParentProduct,
+    deleteParentProduct
+} from '../controllers/parentProductController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/parent-products - List parent products with variant roll-ups, optionally by ?search (all authenticated users)
+router.get('/', getParentProducts);
+
+// GET /api/parent-products/:id - Get a parent product with its variants
+router.get('/:id', getParentProductById);
+
+// POST /api/parent-products - Create a parent product (owners only)
+router.post('/', authorizeRole(['owner']), createParentProduct);
+
+// PUT /api/parent-products/:id - Rename a parent or change its variant attributes (owners only)
+router.put('/:id', authorizeRole(['owner']), updateParentProduct);
+
+// DELETE /api/parent-products/:id - Delete a parent, keeping its variants as standalone products (owners only)
+router.delete('/:id', authorizeRole(['owner']), deleteParentProduct);
+
+export default router;
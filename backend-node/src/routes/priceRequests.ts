@@ -0,0 +1,22 @@
+import express from 'express';
+import { getPriceRequests, createPriceRequest, approvePriceRequest, rejectPriceRequest } from '../controllers/priceRequestController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/price-requests - Owners see the queue, staff see their own requests
+router.get('/', getPriceRequests);
+
+// POST /api/price-requests - Propose a new unit price (all authenticated users)
+router.post('/', createPriceRequest);
+
+// POST /api/price-requests/:id/approve - Apply the price as a versioned update (owners only)
+router.post('/:id/approve', authorizeRole(['owner']), approvePriceRequest);
+
+// POST /api/price-requests/:id/reject - Reject with an optional comment (owners only)
+router.post('/:id/reject', authorizeRole(['owner']), rejectPriceRequest);
+
+export default router;
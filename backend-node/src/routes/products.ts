@@ -1,6 +1,8 @@
 
 import express from 'express';
-import { getProducts, getProductById, createProduct, updateProduct, deleteProduct, getKPIs } from '../controllers/productController';
+import { getProducts, getProductById, getProductByBarcode, createProduct, updateProduct, archiveProduct, restoreProduct, purgeProduct, getArchivedProducts, getKPIs, getLowStock, getProductHistory, getProductPrices } from '../controllers/productController';
+import { getStockMovements, createStockMovement } from '../controllers/stockMovementController';
+import { getExpiringStock, getProductLots } from '../controllers/lotController';
 import { authenticateToken, authorizeRole } from '../middleware/auth';
 
 const router = express.Router();
@@ -11,6 +13,18 @@ router.use(authenticateToken);
 // GET /api/products - Get all products (all authenticated users)
 router.get('/', getProducts);
 
+// GET /api/products/low-stock - Products below their reorder point (registered before /:id)
+router.get('/low-stock', getLowStock);
+
+// GET /api/products/expiring - Lots expiring within ?within=7d, with value at risk (registered before /:id)
+router.get('/expiring', getExpiringStock);
+
+// GET /api/products/archived - Recycle bin with purge dates (owners only, registered before /:id)
+router.get('/archived', authorizeRole(['owner']), getArchivedProducts);
+
+// GET /api/products/by-barcode/:code - Find the active product with an EAN/UPC barcode (registered before /:id)
+router.get('/by-barcode/:code', getProductByBarcode);
+
 // GET /api/products/:id - Get product by ID (all authenticated users)
 router.get('/:id', getProductById);
 
@@ -20,8 +34,29 @@ router.post('/', authorizeRole(['owner']), createProduct);
 // PUT /api/products/:id - Update product (all authenticated users, with role-based constraints)
 router.put('/:id', updateProduct);
 
-// DELETE /api/products/:id - Delete product (owners only)
-router.delete('/:id', authorizeRole(['owner']), deleteProduct);
+// DELETE /api/products/:id - Move product to the recycle bin (owners only)
+router.delete('/:id', authorizeRole(['owner']), archiveProduct);
+
+// POST /api/products/:id/restore - Restore an archived product (owners only)
+router.post('/:id/restore', authorizeRole(['owner']), restoreProduct);
+
+// DELETE /api/products/:id/purge - Permanently delete after the retention period (owners only)
+router.delete('/:id/purge', authorizeRole(['owner']), purgeProduct);
+
+// GET /api/products/:id/movements - Stock movement ledger (all authenticated users)
+router.get('/:id/movements', getStockMovements);
+
+// POST /api/products/:id/movements - Record a signed stock movement (staff: adjustment and damage only, without unit_cost)
+router.post('/:id/movements', createStockMovement);
+
+// GET /api/products/:id/history - Audit trail with field-level diffs (all authenticated users)
+router.get('/:id/history', getProductHistory);
+
+// GET /api/products/:id/prices - Cost and selling price history (all authenticated users)
+router.get('/:id/prices', getProductPrices);
+
+// GET /api/products/:id/lots - Open lots in FEFO order (all authenticated users)
+router.get('/:id/lots', getProductLots);
 
 // GET /api/dashboard/kpis - Get KPIs (all authenticated users)
 router.get('/kpis', getKPIs);
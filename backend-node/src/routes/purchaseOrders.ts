@@ -0,0 +1,43 @@
+import express from 'express';
+import {
+    getPurchaseOrders,
+    getPurchaseOrderById,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    deletePurchaseOrder,
+    placePurchaseOrder,
+    cancelPurchaseOrder,
+    receivePurchaseOrder
+} from '../controllers/purchaseOrderController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/purchase-orders - List purchase orders by ?status, ?supplier_id, ?location_id
+router.get('/', getPurchaseOrders);
+
+// GET /api/purchase-orders/:id - Get purchase order with its lines
+router.get('/:id', getPurchaseOrderById);
+
+// POST /api/purchase-orders - Create purchase order (owners only)
+router.post('/', authorizeRole(['owner']), createPurchaseOrder);
+
+// PUT /api/purchase-orders/:id - Edit a draft purchase order (owners only)
+router.put('/:id', authorizeRole(['owner']), updatePurchaseOrder);
+
+// DELETE /api/purchase-orders/:id - Delete a draft or cancelled purchase order (owners only)
+router.delete('/:id', authorizeRole(['owner']), deletePurchaseOrder);
+
+// POST /api/purchase-orders/:id/order - Mark a draft as sent to the supplier (owners only)
+router.post('/:id/order', authorizeRole(['owner']), placePurchaseOrder);
+
+// POST /api/purchase-orders/:id/cancel - Cancel an order with nothing received (owners only)
+router.post('/:id/cancel', authorizeRole(['owner']), cancelPurchaseOrder);
+
+// POST /api/purchase-orders/:id/receive - Receive goods at actual cost (all authenticated users)
+router.post('/:id/receive', receivePurchaseOrder);
+
+export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import { getReorderSuggestions } from '../controllers/productController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/reorder/suggestions - Order quantities from recent outflow (?cover_days, ?lookback_days, ?location_id, ?category)
+router.get('/suggestions', getReorderSuggestions);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { getReturns, getReturnById, getCreditNotePdf, createReturn } from '../controllers/returnController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/returns - List returns, newest first, optionally by store, sale or date range (all authenticated users)
+router.get('/', getReturns);
+
+// GET /api/returns/:id.pdf - Download the credit note as a PDF (registered before /:id)
+router.get('/:id.pdf', getCreditNotePdf);
+
+// GET /api/returns/:id - Get a return with its lines
+router.get('/:id', getReturnById);
+
+// POST /api/returns - Take back returned SKUs, restocking or writing off each line, and issue a credit note (all authenticated users)
+router.post('/', createReturn);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from 'express';
+import { getSales, getSaleById, createSale } from '../controllers/saleController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/sales - List sales, newest first, optionally by location or date range (all authenticated users)
+router.get('/', getSales);
+
+// GET /api/sales/:id - Get a sale with its lines
+router.get('/:id', getSaleById);
+
+// POST /api/sales - Record a sale and take its lines out of stock (all authenticated users)
+router.post('/', createSale);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { getSettings, updateSetting } from '../controllers/settingController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/settings - Shop-wide settings with their allowed values (all authenticated users)
+router.get('/', getSettings);
+
+// PUT /api/settings/:key - Change a setting, e.g. valuation_method (owners only)
+router.put('/:key', authorizeRole(['owner']), updateSetting);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+    getStockTakes,
+    getStockTakeById,
+    startStockTake,
+    recordCounts,
+    getVarianceReport,
+    approveStockTake,
+    cancelStockTake
+} from '../controllers/stockTakeController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/stock-takes - List stock takes, optionally by status or location (all authenticated users)
+router.get('/', getStockTakes);
+
+// GET /api/stock-takes/:id/variance - Counted against expected, in units and value (owners only)
+router.get('/:id/variance', authorizeRole(['owner']), getVarianceReport);
+
+// GET /api/stock-takes/:id - Get stock take with its lines (expected quantities for owners only)
+router.get('/:id', getStockTakeById);
+
+// POST /api/stock-takes - Freeze expected quantities at a location and start counting (owners only)
+router.post('/', authorizeRole(['owner']), startStockTake);
+
+// POST /api/stock-takes/:id/counts - Add counts by SKU (all authenticated users)
+router.post('/:id/counts', recordCounts);
+
+// POST /api/stock-takes/:id/approve - Post the variance as adjustment movements (owners only)
+router.post('/:id/approve', authorizeRole(['owner']), approveStockTake);
+
+// POST /api/stock-takes/:id/cancel - Close an open stock take without changing stock (owners only)
+router.post('/:id/cancel', authorizeRole(['owner']), cancelStockTake);
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import { getSuppliers, getSupplierById, createSupplier, updateSupplier, deleteSupplier } from '../controllers/supplierController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/suppliers - List suppliers, optionally by ?search (all authenticated users)
+router.get('/', getSuppliers);
+
+// GET /api/suppliers/:id - Get supplier
+router.get('/:id', getSupplierById);
+
+// POST /api/suppliers - Create supplier (owners only)
+router.post('/', authorizeRole(['owner']), createSupplier);
+
+// PUT /api/suppliers/:id - Update supplier (owners only)
+router.put('/:id', authorizeRole(['owner']), updateSupplier);
+
+// DELETE /api/suppliers/:id - Delete supplier without purchase orders (owners only)
+router.delete('/:id', authorizeRole(['owner']), deleteSupplier);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+    getTransfers,
+    getInTransit,
+    getTransferById,
+    createTransfer,
+    dispatchTransfer,
+    receiveTransfer,
+    cancelTransfer
+} from '../controllers/transferController';
+import { authenticateToken, authorizeRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/transfers - List transfers, optionally by status or location (all authenticated users)
+router.get('/', getTransfers);
+
+// GET /api/transfers/in-transit - Dispatched quantity not yet received, per product and destination
+router.get('/in-transit', getInTransit);
+
+// GET /api/transfers/:id - Get transfer with its lines
+router.get('/:id', getTransferById);
+
+// POST /api/transfers - Create draft transfer (owners only)
+router.post('/', authorizeRole(['owner']), createTransfer);
+
+// POST /api/transfers/:id/dispatch - Take stock out of the source location (owners only)
+router.post('/:id/dispatch', authorizeRole(['owner']), dispatchTransfer);
+
+// POST /api/transfers/:id/receive - Receive all or part of a dispatched transfer (all authenticated users)
+router.post('/:id/receive', receiveTransfer);
+
+// POST /api/transfers/:id/cancel - Cancel a draft transfer (owners only)
+router.post('/:id/cancel', authorizeRole(['owner']), cancelTransfer);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Request } from 'express';
+import { supabase } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+export type AuditOperation = 'create' | 'update' | 'archive' | 'restore' | 'delete';
+export type AuditSource = 'ui' | 'import' | 'offline_sync' | 'price_request';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Product columns tracked in the audit diff (bookkeeping columns like version are left out)
+export const AUDITED_FIELDS = [
+  'name',
+  'sku',
+  'category',
+  'quantity',
+  'unit_price',
+  'cost_price',
+  'hsn_code',
+  'gst_rate',
+  'barcode',
+  'parent_id',
+  'variant_values',
+  'reorder_point',
+  'reorder_quantity'
+] as const;
+
+// Any product-shaped row; only the audited fields are read
+export type AuditedProduct = Partial<Record<typeof AUDITED_FIELDS[number], unknown>>;
+
+// Sources a client may declare with the X-Change-Source header
+const CLIENT_SOURCES: AuditSource[] = ['ui', 'offline_sync'];
+
+// Codes that can be all digits but must keep their leading zeros
+const CODE_FIELDS: readonly string[] = ['sku', 'hsn_code', 'barcode'];
+
+// Numeric columns come back from PostgREST as strings or numbers depending on type
+const normalize = (value: unknown, field: string) => {
+  if (value === undefined || value === '') return null;
+  if (CODE_FIELDS.includes(field)) return value;
+  // jsonb columns (variant_values) are compared by content
+  if (typeof value === 'object' && value !== null) return Object.keys(value).length > 0 ? JSON.stringify(value) : null;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+// Field-level diff between two versions of a product; null before/after means create/delete
+export const diffProduct = (
+  before: AuditedProduct | null,
+  after: AuditedProduct | null
+): AuditChanges => {
+  const changes: AuditChanges = {};
+
+  AUDITED_FIELDS.forEach(field => {
+    const from = before ? normalize(before[field], field) : null;
+    const to = after ? normalize(after[field], field) : null;
+    if (from !== to) changes[field] = { from, to };
+  });
+
+  return changes;
+};
+
+// Where a UI request came from; queued offline edits are replayed with X-Change-Source: offline_sync
+export const resolveAuditSource = (req: Request): AuditSource => {
+  const header = req.get('X-Change-Source');
+  return CLIENT_SOURCES.includes(header as AuditSource) ? (header as AuditSource) : 'ui';
+};
+
+export interface ProductAuditInput {
+  productId: string;
+  operation: AuditOperation;
+  source: AuditSource;
+  actorId?: string;
+  before: AuditedProduct | null;
+  after: AuditedProduct | null;
+}
+
+// Writes one audit row; updates that changed none of the audited fields are not recorded
+export const recordProductAudit = async (input: ProductAuditInput): Promise<void> => {
+  const changes = diffProduct(input.before, input.after);
+  if (input.operation === 'update' && Object.keys(changes).length === 0) return;
+
+  const { error } = await supabase.from('product_audit').insert([{
+    product_id: input.productId,
+    operation: input.operation,
+    source: input.source,
+    actor_id: input.actorId ?? null,
+    changes
+  }]);
+
+  if (error) throw mapSupabaseError(error, 'product_audit', input.productId);
+};
@@ -0,0 +1,99 @@
+// GTIN lengths a product barcode may have: EAN-8, UPC-A, EAN-13 and GTIN-14
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// GS1 mod-10 check digit for the digits before it: weights alternate 3, 1 from the right
+export const gtinCheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidGtin = (code: unknown): code is string =>
+  typeof code === 'string' &&
+  /^[0-9]+$/.test(code) &&
+  GTIN_LENGTHS.includes(code.length) &&
+  gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+
+// The same GTIN written at every length it fits, e.g. a UPC-A and the EAN-13 a scanner
+// reports for it with a leading zero. Used to look barcodes up and keep them unique.
+export const gtinVariants = (code: string): string[] => {
+  const core = code.replace(/^0+/, '');
+  return GTIN_LENGTHS
+    .filter(length => length >= core.length)
+    .map(length => core.padStart(length, '0'));
+};
+
+// EAN/UPC digit patterns, one character per module ('1' = bar). Right-hand digits use the
+// complement of the L set and the even-parity G set is R read backwards.
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = EAN_L.map(pattern => pattern.replace(/[01]/g, bit => (bit === '1' ? '0' : '1')));
+const EAN_G = EAN_R.map(pattern => pattern.split('').reverse().join(''));
+// Parity of the six left-hand digits of an EAN-13, chosen by its (unprinted) first digit
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Module patterns for an EAN-13 (95 modules) or EAN-8 (67 modules). A UPC-A is printed
+// as the EAN-13 with a leading zero, which draws the same bars.
+export const encodeEan = (code: string): string => {
+  if (!isValidGtin(code) || code.length === 14) {
+    throw new Error(`Cannot draw ${code} as an EAN barcode`);
+  }
+  if (code.length === 8) {
+    return '101' +
+      code.slice(0, 4).split('').map(digit => EAN_L[Number(digit)]).join('') +
+      '01010' +
+      code.slice(4).split('').map(digit => EAN_R[Number(digit)]).join('') +
+      '101';
+  }
+
+  const ean13 = code.padStart(13, '0');
+  const parity = EAN13_PARITY[Number(ean13[0])];
+  return '101' +
+    ean13.slice(1, 7).split('').map((digit, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[Number(digit)]).join('') +
+    '01010' +
+    ean13.slice(7).split('').map(digit => EAN_R[Number(digit)]).join('') +
+    '101';
+};
+
+// Code 128 symbol widths (bar, space, bar, ...) by symbol value; 103-105 are the
+// start codes for sets A, B and C and 106 is the stop pattern
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+// Symbol values for a Code 128 barcode, including start, check and stop symbols. All-digit
+// values of even length use set C (two digits per symbol), anything else printable ASCII set B.
+export const code128Values = (value: string): number[] => {
+  if (!value || !/^[\x20-\x7e]+$/.test(value)) {
+    throw new Error('Code 128 labels take printable ASCII text');
+  }
+
+  const data = /^([0-9]{2})+$/.test(value)
+    ? [CODE128_START_C, ...value.match(/[0-9]{2}/g)!.map(Number)]
+    : [CODE128_START_B, ...value.split('').map(char => char.charCodeAt(0) - 32)];
+  const check = data.reduce((sum, symbol, i) => sum + symbol * Math.max(i, 1), 0) % 103;
+  return [...data, check, CODE128_STOP];
+};
+
+export const encodeCode128 = (value: string): string =>
+  code128Values(value)
+    .map(symbol => CODE128_WIDTHS[symbol]
+      .split('')
+      .map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width)))
+      .join(''))
+    .join('');
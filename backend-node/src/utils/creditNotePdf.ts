@@ -0,0 +1,196 @@
+import { A4, createPdfDocument, formatAmount, formatDocumentDate, PdfDocument, RenderedPdf, wrapText } from './pdf';
+import { amountInWords } from './gst';
+
+export interface CreditNoteDocumentLine {
+  sku: string;
+  description: string;
+  quantity: number;
+  disposition: 'restock' | 'damaged';
+  unit_price: number | string;
+  taxable_value: number | string;
+  // NULL when the sale wasn't invoiced, so there is no GST to reverse
+  gst_rate: number | string | null;
+  cgst_amount: number | string;
+  sgst_amount: number | string;
+  igst_amount: number | string;
+  line_total: number | string;
+}
+
+export interface CreditNoteDocument {
+  credit_note_number: string;
+  return_date: string;
+  sale_id: string | number | null;
+  // Number of the invoice the returned goods were billed on, when there was one
+  invoice_number: string | null;
+  reason: string | null;
+  seller_name: string;
+  seller_address: string | null;
+  seller_gstin: string | null;
+  // Supply type of that invoice, which decides whether CGST and SGST or IGST are reversed
+  supply_type: 'intra_state' | 'inter_state' | null;
+  taxable_value: number | string;
+  cgst_amount: number | string;
+  sgst_amount: number | string;
+  igst_amount: number | string;
+  total: number | string;
+  lines: CreditNoteDocumentLine[];
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FOOTER_SPACE = 150;
+
+interface Column {
+  title: string;
+  width: number;
+  align: 'left' | 'right';
+  value: (line: CreditNoteDocumentLine, index: number) => string;
+}
+
+const action = (line: CreditNoteDocumentLine) => (line.disposition === 'restock' ? 'Restocked' : 'Damaged');
+
+const PLAIN_COLUMNS: Column[] = [
+  { title: '#', width: 20, align: 'left', value: (_, index) => String(index + 1) },
+  { title: 'SKU', width: 80, align: 'left', value: line => line.sku },
+  { title: 'Description', width: 185, align: 'left', value: line => line.description },
+  { title: 'Qty', width: 35, align: 'right', value: line => String(line.quantity) },
+  { title: 'Action', width: 65, align: 'left', value: action },
+  { title: 'Rate', width: 55, align: 'right', value: line => formatAmount(line.unit_price) },
+  { title: 'Amount', width: 75, align: 'right', value: line => formatAmount(line.line_total) }
+];
+
+// Returns against an invoice reverse its GST, laid out like the invoice: CGST and SGST, or IGST
+const taxColumnsFor = (interState: boolean): Column[] => [
+  { title: '#', width: 18, align: 'left', value: (_, index) => String(index + 1) },
+  { title: 'Description', width: interState ? 172 : 127, align: 'left', value: line => line.description },
+  { title: 'Qty', width: 28, align: 'right', value: line => String(line.quantity) },
+  { title: 'Action', width: 52, align: 'left', value: action },
+  { title: 'Rate', width: 48, align: 'right', value: line => formatAmount(line.unit_price) },
+  { title: 'Taxable', width: 58, align: 'right', value: line => formatAmount(line.taxable_value) },
+  { title: 'GST %', width: 32, align: 'right', value: line => (line.gst_rate === null ? '' : String(Number(line.gst_rate))) },
+  ...(interState
+    ? [{ title: 'IGST', width: 45, align: 'right' as const, value: (line: CreditNoteDocumentLine) => formatAmount(line.igst_amount) }]
+    : [
+        { title: 'CGST', width: 45, align: 'right' as const, value: (line: CreditNoteDocumentLine) => formatAmount(line.cgst_amount) },
+        { title: 'SGST', width: 45, align: 'right' as const, value: (line: CreditNoteDocumentLine) => formatAmount(line.sgst_amount) }
+      ]),
+  { title: 'Amount', width: 62, align: 'right', value: line => formatAmount(line.line_total) }
+];
+
+const drawTableHeader = (pdf: PdfDocument, columns: Column[], y: number) => {
+  let x = MARGIN;
+  pdf.line(MARGIN, y - 11, A4.width - MARGIN, y - 11);
+  columns.forEach(column => {
+    pdf.text(column.align === 'right' ? x + column.width - 2 : x + 2, y, column.title, { size: 8, bold: true, align: column.align });
+    x += column.width;
+  });
+  pdf.line(MARGIN, y + 5, A4.width - MARGIN, y + 5);
+  return y + ROW_HEIGHT;
+};
+
+// Renders the credit note issued for a customer return on A4
+export const renderCreditNotePdf = (note: CreditNoteDocument): RenderedPdf => {
+  const pdf = createPdfDocument();
+  const taxed = note.supply_type !== null && note.lines.some(line => line.gst_rate !== null);
+  const interState = note.supply_type === 'inter_state';
+  const columns = taxed ? taxColumnsFor(interState) : PLAIN_COLUMNS;
+  const descriptionColumn = columns.findIndex(column => column.title === 'Description');
+  const descriptionWidth = columns[descriptionColumn].width - 4;
+  const right = A4.width - MARGIN;
+
+  pdf.addPage();
+  pdf.text(A4.width / 2, 50, 'CREDIT NOTE', { size: 16, bold: true, align: 'center' });
+
+  let y = 80;
+  pdf.text(MARGIN, y, note.seller_name, { size: 12, bold: true });
+  y += 14;
+  for (const line of wrapText(note.seller_address ?? '', 260, 9)) {
+    if (!line) continue;
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+  if (note.seller_gstin) {
+    pdf.text(MARGIN, y, `GSTIN: ${note.seller_gstin}`, { size: 9 });
+    y += 12;
+  }
+
+  pdf.text(right, 80, `Credit Note No: ${note.credit_note_number}`, { size: 10, bold: true, align: 'right' });
+  pdf.text(right, 94, `Date: ${formatDocumentDate(note.return_date)}`, { size: 9, align: 'right' });
+  let detailY = 106;
+  if (note.invoice_number) {
+    pdf.text(right, detailY, `Against invoice: ${note.invoice_number}`, { size: 9, align: 'right' });
+    detailY += 12;
+  }
+  if (note.sale_id !== null) {
+    pdf.text(right, detailY, `Original sale: #${note.sale_id}`, { size: 9, align: 'right' });
+  }
+
+  y = Math.max(y + 10, 130);
+  if (note.reason) {
+    pdf.text(MARGIN, y, 'Reason', { size: 9, bold: true });
+    y += 13;
+    for (const line of wrapText(note.reason, A4.width - 2 * MARGIN, 9)) {
+      pdf.text(MARGIN, y, line, { size: 9 });
+      y += 12;
+    }
+  }
+
+  y = drawTableHeader(pdf, columns, y + 20);
+  note.lines.forEach((line, index) => {
+    const descriptionLines = wrapText(line.description, descriptionWidth, 8);
+    const height = Math.max(1, descriptionLines.length) * 10 + 6;
+
+    if (y + height > A4.height - FOOTER_SPACE) {
+      pdf.addPage();
+      pdf.text(MARGIN, 40, `Credit note ${note.credit_note_number} (continued)`, { size: 9 });
+      y = drawTableHeader(pdf, columns, 70);
+    }
+
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      if (columnIndex === descriptionColumn) {
+        descriptionLines.forEach((text, lineIndex) => pdf.text(x + 2, y + lineIndex * 10, text, { size: 8 }));
+      } else {
+        pdf.text(column.align === 'right' ? x + column.width - 2 : x + 2, y, column.value(line, index), { size: 8, align: column.align });
+      }
+      x += column.width;
+    });
+    y += height;
+  });
+  pdf.line(MARGIN, y - 6, A4.width - MARGIN, y - 6);
+
+  if (y + FOOTER_SPACE > A4.height) {
+    pdf.addPage();
+    y = 60;
+  }
+
+  if (taxed) {
+    const totals: [string, string][] = [
+      ['Taxable value', formatAmount(note.taxable_value)],
+      ...(interState
+        ? [['IGST reversed', formatAmount(note.igst_amount)] as [string, string]]
+        : [['CGST reversed', formatAmount(note.cgst_amount)] as [string, string], ['SGST reversed', formatAmount(note.sgst_amount)] as [string, string]])
+    ];
+    y += 8;
+    totals.forEach(([label, value]) => {
+      pdf.text(right - 90, y, label, { size: 9, align: 'right' });
+      pdf.text(right, y, value, { size: 9, align: 'right' });
+      y += 13;
+    });
+  }
+
+  y += 10;
+  pdf.text(right - 90, y, 'Total refund', { size: 11, bold: true, align: 'right' });
+  pdf.text(right, y, `Rs. ${formatAmount(note.total)}`, { size: 11, bold: true, align: 'right' });
+
+  y += 22;
+  for (const line of wrapText(amountInWords(Number(note.total)), A4.width - 2 * MARGIN, 9)) {
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+
+  pdf.text(MARGIN, A4.height - 40, 'This is a computer-generated credit note.', { size: 8 });
+  pdf.text(right, A4.height - 40, `For ${note.seller_name}`, { size: 8, align: 'right' });
+
+  return { buffer: pdf.toBuffer(), unrenderedText: pdf.unrenderedText() };
+};
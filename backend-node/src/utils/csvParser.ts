@@ -0,0 +1,173 @@
+import { StringDecoder } from 'string_decoder';
+
+// Incremental RFC 4180 parser for CSV imports. Fields may be quoted; inside quotes "" is a
+// literal quote and commas and line breaks are data. Records end at CRLF, LF or a lone CR,
+// a leading UTF-8 BOM is dropped and empty lines are skipped. Fields are returned as written
+// (no trimming). Anything else, such as a stray quote in an unquoted field, text after a
+// closing quote or a quote left open at the end of the file, raises CsvParseError.
+
+export interface CsvRecord {
+  fields: string[];
+  // 1-based line the record starts on (quoted line breaks make records span lines)
+  line: number;
+}
+
+export class CsvParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+type State = 'field_start' | 'unquoted' | 'quoted' | 'quote_in_quoted';
+
+export interface CsvParser {
+  // Parses a chunk and returns the records it completed
+  push(chunk: string): CsvRecord[];
+  // Flushes the last record; throws if a quoted field is still open
+  end(): CsvRecord[];
+}
+
+export const createCsvParser = (): CsvParser => {
+  let state: State = 'field_start';
+  let field = '';
+  let fields: string[] = [];
+  let line = 1;
+  let column = 0;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+  let atStart = true;
+  // A CR ended the last record; an LF right after it (maybe in the next chunk) belongs to it
+  let afterCR = false;
+  let previous = '';
+
+  const endRecord = (records: CsvRecord[]) => {
+    fields.push(field);
+    // A line with nothing on it is not a record
+    if (!(fields.length === 1 && fields[0] === '' && state === 'field_start')) {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = '';
+    state = 'field_start';
+  };
+
+  const newLine = () => {
+    line += 1;
+    column = 0;
+  };
+
+  return {
+    push(chunk) {
+      const records: CsvRecord[] = [];
+
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+
+        if (atStart) {
+          atStart = false;
+          if (char === '\uFEFF') continue;
+        }
+
+        if (afterCR) {
+          afterCR = false;
+          if (char === '\n') continue;
+        }
+
+        const last = previous;
+        previous = char;
+        column += 1;
+        if (state === 'field_start' && fields.length === 0 && field === '') recordLine = line;
+
+        switch (state) {
+          case 'field_start':
+            if (char === '"') {
+              state = 'quoted';
+              quoteLine = line;
+              quoteColumn = column;
+            } else if (char === ',') {
+              fields.push(field);
+              field = '';
+            } else if (char === '\r' || char === '\n') {
+              endRecord(records);
+              afterCR = char === '\r';
+              newLine();
+            } else {
+              field += char;
+              state = 'unquoted';
+            }
+            break;
+
+          case 'unquoted':
+            if (char === ',') {
+              fields.push(field);
+              field = '';
+              state = 'field_start';
+            } else if (char === '\r' || char === '\n') {
+              endRecord(records);
+              afterCR = char === '\r';
+              newLine();
+            } else if (char === '"') {
+              throw new CsvParseError('Unexpected quote in an unquoted field (quote the whole field and double the quote)', line, column);
+            } else {
+              field += char;
+            }
+            break;
+
+          case 'quoted':
+            if (char === '"') {
+              state = 'quote_in_quoted';
+            } else {
+              field += char;
+              // CRLF inside quotes is one line break; the LF doesn't start another line
+              if (char === '\r' || (char === '\n' && last !== '\r')) newLine();
+            }
+            break;
+
+          case 'quote_in_quoted':
+            if (char === '"') {
+              field += '"';
+              state = 'quoted';
+            } else if (char === ',') {
+              fields.push(field);
+              field = '';
+              state = 'field_start';
+            } else if (char === '\r' || char === '\n') {
+              endRecord(records);
+              afterCR = char === '\r';
+              newLine();
+            } else {
+              throw new CsvParseError('Unexpected character after a closing quote', line, column);
+            }
+            break;
+        }
+      }
+
+      return records;
+    },
+
+    end() {
+      if (state === 'quoted') {
+        throw new CsvParseError('Quoted field is never closed', quoteLine, quoteColumn);
+      }
+
+      const records: CsvRecord[] = [];
+      if (state !== 'field_start' || fields.length > 0 || field !== '') endRecord(records);
+      return records;
+    }
+  };
+};
+
+// Streams records from a byte or text source (e.g. an upload buffer or a file stream),
+// decoding UTF-8 safely across chunk boundaries
+export async function* parseCsvStream(source: AsyncIterable<Buffer | string> | Iterable<Buffer | string>): AsyncGenerator<CsvRecord> {
+  const parser = createCsvParser();
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of source) {
+    yield* parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  yield* parser.push(decoder.end());
+  yield* parser.end();
+}
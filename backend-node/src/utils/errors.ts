@@ -49,11 +49,11 @@ export const ErrorTypes = {
   PERMISSION_DENIED: (message: string, details?: ErrorDetails) => 
     new AppError('PERMISSION_DENIED', message, 403, details),
   
-  PERMISSION_EDIT_PRICE: (productId: string) => 
-    new AppError('PERMISSION_EDIT_PRICE', 'Staff members cannot modify unit price', 403, {
+  PERMISSION_EDIT_PRICE: (productId: string, field: string = 'unit_price') => 
+    new AppError('PERMISSION_EDIT_PRICE', `Staff members cannot modify ${field.replace('_', ' ')}`, 403, {
       resource: 'product',
       id: productId,
-      field: 'unit_price'
+      field
     }),
   
   // 404 Not Found
@@ -64,7 +64,7 @@ export const ErrorTypes = {
     }),
   
   // 409 Conflict
-  CONFLICT: (resource: string, id: string, expectedVersion: number, actualVersion: number) => 
+  CONFLICT: (resource: string, id: string, expectedVersion?: number, actualVersion?: number) => 
     new AppError('CONFLICT', 'Stale update — product has changed', 409, {
       resource: resource.toLowerCase(),
       id,
@@ -72,6 +72,20 @@ export const ErrorTypes = {
       actual_version: actualVersion
     }),
   
+  // 409 Conflict - workflow action not allowed in the current status
+  INVALID_STATE: (message: string, details?: ErrorDetails) =>
+    new AppError('INVALID_STATE', message, 409, details),
+  
+  // 409 Conflict - stock would go negative
+  INSUFFICIENT_STOCK: (productId: string, available?: number, requested?: number) =>
+    new AppError('INSUFFICIENT_STOCK', 'Insufficient stock for this movement', 409, {
+      resource: 'product',
+      id: productId,
+      field: 'quantity',
+      ...(available !== undefined && { available }),
+      ...(requested !== undefined && { requested })
+    }),
+  
   // 500 Internal Server Error
   INTERNAL_ERROR: (message: string = 'An unexpected error occurred') => 
     new AppError('INTERNAL_ERROR', message, 500),
@@ -105,8 +119,28 @@ export const sendErrorResponse = (res: Response, error: AppError | Error): void
   }
 };
 
+// Parses the JSON DETAIL attached to errors raised from our SQL functions
+const parseErrorDetails = (details: unknown): Record<string, unknown> => {
+  if (typeof details !== 'string') return {};
+  try {
+    const parsed: unknown = JSON.parse(details);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+};
+
+// A numeric DETAIL field, or undefined when the function left it out
+const detailNumber = (details: Record<string, unknown>, key: string): number | undefined =>
+  typeof details[key] === 'number' ? details[key] : undefined;
+
 // Supabase error mapper
 export const mapSupabaseError = (error: any, resource: string = 'resource', id?: string): AppError => {
+  // Already mapped (e.g. rethrown from a helper)
+  if (error instanceof AppError) {
+    return error;
+  }
+
   // Handle common Supabase error codes
   if (error.code === 'PGRST116') {
     // No rows returned
@@ -137,6 +171,47 @@ export const mapSupabaseError = (error: any, resource: string = 'resource', id?:
     });
   }
   
+  if (error.code === 'P0002') {
+    // Raised by SQL functions when the target row does not exist
+    return ErrorTypes.NOT_FOUND(resource, id || 'unknown');
+  }
+  
+  if (error.code === 'P0409') {
+    // Version check failed inside a SQL function (always on a product row)
+    const details = parseErrorDetails(error.details);
+    if (Array.isArray(details.rows)) {
+      // Batch functions (e.g. rollback_import) report every conflicting row at once
+      return new AppError('CONFLICT', error.message, 409, {
+        resource,
+        id,
+        ...details
+      });
+    }
+    return details.product_id !== undefined
+      ? ErrorTypes.CONFLICT('product', String(details.product_id), detailNumber(details, 'expected_version'), detailNumber(details, 'actual_version'))
+      : ErrorTypes.CONFLICT(resource, id || 'unknown', detailNumber(details, 'expected_version'), detailNumber(details, 'actual_version'));
+  }
+  
+  if (error.code === 'P0412') {
+    // Workflow function refused the transition
+    return ErrorTypes.INVALID_STATE(error.message, { resource, id, ...parseErrorDetails(error.details) });
+  }
+  
+  if (error.code === 'P0422') {
+    // Stock movement would take quantity below zero
+    const details = parseErrorDetails(error.details);
+    if (Array.isArray(details.lines)) {
+      // Multi-line functions (e.g. record_sale) report every short line at once
+      return new AppError('INSUFFICIENT_STOCK', 'Insufficient stock for one or more lines', 409, {
+        resource,
+        field: 'quantity',
+        ...details
+      });
+    }
+    const productId = details.product_id !== undefined ? String(details.product_id) : id || 'unknown';
+    return ErrorTypes.INSUFFICIENT_STOCK(productId, detailNumber(details, 'available'), detailNumber(details, 'requested'));
+  }
+  
   // Default to internal error for unmapped errors
   return ErrorTypes.DATABASE_ERROR(error.message || 'Database operation failed');
 };
\ No newline at end of file
@@ -0,0 +1,109 @@
+// GST state codes (the first two digits of a GSTIN and the place of supply on an invoice)
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+// State code, PAN, entity number, 'Z' and a check character
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Check character over the first 14 characters (base 36, weights alternating 1 and 2)
+export const gstinCheckCharacter = (gstin: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+export const isValidGstin = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  GSTIN_PATTERN.test(value) &&
+  value.slice(0, 2) in GST_STATE_CODES &&
+  gstinCheckCharacter(value) === value[14];
+
+export const isValidStateCode = (value: unknown): value is string =>
+  typeof value === 'string' && value in GST_STATE_CODES;
+
+// HSN codes are 4, 6 or 8 digits (SAC codes for services are 6)
+export const isValidHsnCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[0-9]{4}([0-9]{2}){0,2}$/.test(value);
+
+// A percentage between 0 and 100 with at most two decimals
+export const isValidGstRate = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  value >= 0 &&
+  value <= 100 &&
+  Math.abs(value * 100 - Math.round(value * 100)) < 1e-9;
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number): string =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (n: number): string =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+
+// Whole numbers in the Indian system (thousand, lakh, crore)
+const integerInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+
+  return [
+    crore ? `${integerInWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(n % 1000)
+  ].filter(Boolean).join(' ');
+};
+
+// Invoice total in words, e.g. 1180.5 → "Rupees One Thousand One Hundred Eighty and Fifty Paise Only"
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(amount * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
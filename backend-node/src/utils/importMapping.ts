@@ -0,0 +1,45 @@
+// Product fields a CSV import understands; a file must provide the required ones
+export const REQUIRED_IMPORT_COLUMNS = ['name', 'sku', 'category', 'quantity', 'unit_price'];
+export const OPTIONAL_IMPORT_COLUMNS = ['location', 'reorder_point', 'reorder_quantity', 'cost_price', 'hsn_code', 'gst_rate', 'parent_sku'];
+export const IMPORT_COLUMNS = [...REQUIRED_IMPORT_COLUMNS, ...OPTIONAL_IMPORT_COLUMNS];
+
+const MAX_MAPPED_COLUMNS = 100;
+const MAX_COLUMN_LENGTH = 100;
+
+// Source column (lower-case header) → product field, or null to ignore the column
+export type ColumnMapping = Record<string, string | null>;
+
+// A mapping as stored and applied: keys trimmed and lower-cased like headers, blank targets meaning "ignore".
+// Null when the input is not such an object, names an unknown field, or maps two columns to the same field.
+export const normalizeColumnMapping = (input: unknown): ColumnMapping | null => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return null;
+
+  const entries = Object.entries(input);
+  if (entries.length > MAX_MAPPED_COLUMNS) return null;
+
+  const mapping: ColumnMapping = {};
+  const targets = new Set<string>();
+  for (const [source, target] of entries) {
+    const column = source.trim().toLowerCase();
+    if (!column || column.length > MAX_COLUMN_LENGTH || column === '__proto__') return null;
+    if (Object.prototype.hasOwnProperty.call(mapping, column)) return null;
+
+    if (target === null || target === '') {
+      mapping[column] = null;
+      continue;
+    }
+    if (typeof target !== 'string' || !IMPORT_COLUMNS.includes(target) || targets.has(target)) return null;
+    targets.add(target);
+    mapping[column] = target;
+  }
+  return mapping;
+};
+
+// Renames a file's header through the mapping. Ignored columns become '' and columns the
+// mapping doesn't mention keep their own name, so files already using our headers still work.
+export const applyColumnMapping = (header: string[], mapping: ColumnMapping): string[] =>
+  header.map(column => (Object.prototype.hasOwnProperty.call(mapping, column) ? mapping[column] ?? '' : column));
+
+// Fields more than one column of a (mapped) header would fill
+export const duplicateColumns = (header: string[]): string[] =>
+  Array.from(new Set(header.filter((column, index) => column && header.indexOf(column) !== index)));
@@ -0,0 +1,179 @@
+import { A4, createPdfDocument, formatAmount, formatDocumentDate, PdfDocument, RenderedPdf, wrapText } from './pdf';
+import { amountInWords, GST_STATE_CODES } from './gst';
+
+export interface InvoiceDocumentLine {
+  sku: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit_price: number | string;
+  taxable_value: number | string;
+  gst_rate: number | string;
+  cgst_amount: number | string;
+  sgst_amount: number | string;
+  igst_amount: number | string;
+  line_total: number | string;
+}
+
+export interface InvoiceDocument {
+  invoice_number: string;
+  invoice_date: string;
+  seller_name: string;
+  seller_address: string | null;
+  seller_gstin: string;
+  buyer_name: string | null;
+  buyer_address: string | null;
+  buyer_gstin: string | null;
+  place_of_supply: string;
+  supply_type: 'intra_state' | 'inter_state';
+  taxable_value: number | string;
+  cgst_amount: number | string;
+  sgst_amount: number | string;
+  igst_amount: number | string;
+  total: number | string;
+  lines: InvoiceDocumentLine[];
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FOOTER_SPACE = 130;
+
+const stateLabel = (code: string) => `${GST_STATE_CODES[code] ?? 'Unknown'} (${code})`;
+
+interface Column {
+  title: string;
+  width: number;
+  align: 'left' | 'right';
+  value: (line: InvoiceDocumentLine, index: number) => string;
+}
+
+// Intra-state invoices show CGST and SGST; inter-state invoices show IGST in their place
+const columnsFor = (interState: boolean): Column[] => [
+  { title: '#', width: 18, align: 'left', value: (_, index) => String(index + 1) },
+  { title: 'Description', width: interState ? 170 : 125, align: 'left', value: line => line.description },
+  { title: 'HSN', width: 45, align: 'left', value: line => line.hsn_code ?? '' },
+  { title: 'Qty', width: 30, align: 'right', value: line => String(line.quantity) },
+  { title: 'Rate', width: 50, align: 'right', value: line => formatAmount(line.unit_price) },
+  { title: 'Taxable', width: 58, align: 'right', value: line => formatAmount(line.taxable_value) },
+  { title: 'GST %', width: 32, align: 'right', value: line => String(Number(line.gst_rate)) },
+  ...(interState
+    ? [{ title: 'IGST', width: 45, align: 'right' as const, value: (line: InvoiceDocumentLine) => formatAmount(line.igst_amount) }]
+    : [
+        { title: 'CGST', width: 45, align: 'right' as const, value: (line: InvoiceDocumentLine) => formatAmount(line.cgst_amount) },
+        { title: 'SGST', width: 45, align: 'right' as const, value: (line: InvoiceDocumentLine) => formatAmount(line.sgst_amount) }
+      ]),
+  { title: 'Total', width: 62, align: 'right', value: line => formatAmount(line.line_total) }
+];
+
+const drawTableHeader = (pdf: PdfDocument, columns: Column[], y: number) => {
+  let x = MARGIN;
+  pdf.line(MARGIN, y - 11, A4.width - MARGIN, y - 11);
+  columns.forEach(column => {
+    pdf.text(column.align === 'right' ? x + column.width - 2 : x + 2, y, column.title, { size: 8, bold: true, align: column.align });
+    x += column.width;
+  });
+  pdf.line(MARGIN, y + 5, A4.width - MARGIN, y + 5);
+  return y + ROW_HEIGHT;
+};
+
+// Renders a GST tax invoice on A4, continuing the line table over as many pages as needed
+export const renderInvoicePdf = (invoice: InvoiceDocument): RenderedPdf => {
+  const pdf = createPdfDocument();
+  const interState = invoice.supply_type === 'inter_state';
+  const columns = columnsFor(interState);
+  const descriptionWidth = columns[1].width - 4;
+
+  pdf.addPage();
+  pdf.text(A4.width / 2, 50, 'TAX INVOICE', { size: 16, bold: true, align: 'center' });
+
+  // Seller (left) and invoice details (right)
+  let y = 80;
+  pdf.text(MARGIN, y, invoice.seller_name, { size: 12, bold: true });
+  y += 14;
+  for (const line of wrapText(invoice.seller_address ?? '', 260, 9)) {
+    if (!line) continue;
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+  pdf.text(MARGIN, y, `GSTIN: ${invoice.seller_gstin}`, { size: 9 });
+  pdf.text(MARGIN, y + 12, `State: ${stateLabel(invoice.seller_gstin.slice(0, 2))}`, { size: 9 });
+
+  const right = A4.width - MARGIN;
+  pdf.text(right, 80, `Invoice No: ${invoice.invoice_number}`, { size: 10, bold: true, align: 'right' });
+  pdf.text(right, 94, `Date: ${formatDocumentDate(invoice.invoice_date)}`, { size: 9, align: 'right' });
+  pdf.text(right, 106, `Place of supply: ${stateLabel(invoice.place_of_supply)}`, { size: 9, align: 'right' });
+  pdf.text(right, 118, interState ? 'Inter-state supply' : 'Intra-state supply', { size: 9, align: 'right' });
+
+  // Buyer
+  y = Math.max(y + 36, 140);
+  pdf.text(MARGIN, y, 'Bill to', { size: 9, bold: true });
+  y += 13;
+  pdf.text(MARGIN, y, invoice.buyer_name || 'Walk-in customer', { size: 10 });
+  y += 12;
+  for (const line of wrapText(invoice.buyer_address ?? '', 260, 9)) {
+    if (!line) continue;
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+  if (invoice.buyer_gstin) {
+    pdf.text(MARGIN, y, `GSTIN: ${invoice.buyer_gstin}`, { size: 9 });
+    y += 12;
+  }
+
+  // Lines
+  y = drawTableHeader(pdf, columns, y + 20);
+  invoice.lines.forEach((line, index) => {
+    const descriptionLines = wrapText(line.description, descriptionWidth, 8);
+    const height = Math.max(1, descriptionLines.length) * 10 + 6;
+
+    if (y + height > A4.height - FOOTER_SPACE) {
+      pdf.addPage();
+      pdf.text(MARGIN, 40, `Invoice ${invoice.invoice_number} (continued)`, { size: 9 });
+      y = drawTableHeader(pdf, columns, 70);
+    }
+
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      if (columnIndex === 1) {
+        descriptionLines.forEach((text, lineIndex) => pdf.text(x + 2, y + lineIndex * 10, text, { size: 8 }));
+      } else {
+        pdf.text(column.align === 'right' ? x + column.width - 2 : x + 2, y, column.value(line, index), { size: 8, align: column.align });
+      }
+      x += column.width;
+    });
+    y += height;
+  });
+  pdf.line(MARGIN, y - 6, A4.width - MARGIN, y - 6);
+
+  // Totals
+  if (y + FOOTER_SPACE > A4.height) {
+    pdf.addPage();
+    y = 60;
+  }
+
+  const totals: [string, string][] = [
+    ['Taxable value', formatAmount(invoice.taxable_value)],
+    ...(interState
+      ? [['IGST', formatAmount(invoice.igst_amount)] as [string, string]]
+      : [['CGST', formatAmount(invoice.cgst_amount)] as [string, string], ['SGST', formatAmount(invoice.sgst_amount)] as [string, string]])
+  ];
+  y += 8;
+  totals.forEach(([label, value]) => {
+    pdf.text(right - 90, y, label, { size: 9, align: 'right' });
+    pdf.text(right, y, value, { size: 9, align: 'right' });
+    y += 13;
+  });
+  pdf.text(right - 90, y + 2, 'Total', { size: 11, bold: true, align: 'right' });
+  pdf.text(right, y + 2, `Rs. ${formatAmount(invoice.total)}`, { size: 11, bold: true, align: 'right' });
+
+  y += 24;
+  for (const line of wrapText(amountInWords(Number(invoice.total)), A4.width - 2 * MARGIN, 9)) {
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+
+  pdf.text(MARGIN, A4.height - 40, 'This is a computer-generated invoice.', { size: 8 });
+  pdf.text(right, A4.height - 40, `For ${invoice.seller_name}`, { size: 8, align: 'right' });
+
+  return { buffer: pdf.toBuffer(), unrenderedText: pdf.unrenderedText() };
+};
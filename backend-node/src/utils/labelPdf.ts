@@ -0,0 +1,96 @@
+import { A4, createPdfDocument, formatAmount, PdfDocument, RenderedPdf, wrapText } from './pdf';
+import { encodeCode128, encodeEan, isValidGtin } from './barcode';
+
+export interface LabelProduct {
+  name: string;
+  sku: string;
+  unit_price: number | string;
+  barcode: string | null;
+}
+
+// Grid of labels on an A4 sheet, filled left to right, top to bottom
+export interface LabelTemplate {
+  columns: number;
+  rows: number;
+  // Thin outline around each label for cutting plain paper; off for pre-cut sheets
+  borders: boolean;
+}
+
+const MARGIN = 18;
+const PADDING = 6;
+// Blank modules scanners need either side of the bars
+const QUIET_ZONE = 10;
+const MAX_MODULE_WIDTH = 1.2;
+
+// EAN for products with a retail barcode, otherwise Code 128 (GTIN-14 codes, or the SKU
+// for products without a barcode). Null when the SKU cannot be encoded at all.
+export const labelBarcode = (product: LabelProduct): { modules: string; text: string } | null => {
+  if (product.barcode && isValidGtin(product.barcode)) {
+    return product.barcode.length === 14
+      ? { modules: encodeCode128(product.barcode), text: product.barcode }
+      : { modules: encodeEan(product.barcode), text: product.barcode };
+  }
+  try {
+    return { modules: encodeCode128(product.sku), text: product.sku };
+  } catch {
+    return null;
+  }
+};
+
+// Draws the bars centred in the box, merging runs of dark modules into one rectangle
+const drawBars = (pdf: PdfDocument, modules: string, centerX: number, y: number, maxWidth: number, height: number) => {
+  const moduleWidth = Math.min(MAX_MODULE_WIDTH, maxWidth / (modules.length + 2 * QUIET_ZONE));
+  let x = centerX - (modules.length * moduleWidth) / 2;
+  for (const run of modules.match(/1+|0+/g) ?? []) {
+    if (run[0] === '1') pdf.rect(x, y, run.length * moduleWidth, height, true);
+    x += run.length * moduleWidth;
+  }
+};
+
+const drawLabel = (pdf: PdfDocument, product: LabelProduct, x: number, y: number, width: number, height: number) => {
+  const innerWidth = width - 2 * PADDING;
+  const compact = height < 70;
+  const nameSize = compact ? 7 : 9;
+  const priceSize = compact ? 10 : 13;
+
+  let cursor = y + PADDING + nameSize;
+  const nameLines = wrapText(product.name, innerWidth, nameSize, true).slice(0, compact ? 1 : 2);
+  for (const line of nameLines) {
+    pdf.text(x + PADDING, cursor, line, { size: nameSize, bold: true });
+    cursor += nameSize + 2;
+  }
+
+  cursor += priceSize - 2;
+  pdf.text(x + PADDING, cursor, `Rs. ${formatAmount(product.unit_price)}`, { size: priceSize, bold: true });
+
+  const barcode = labelBarcode(product);
+  const bottom = y + height - PADDING;
+  const barTop = cursor + 4;
+  const barHeight = bottom - 8 - barTop;
+  if (barcode && barHeight >= 10) {
+    drawBars(pdf, barcode.modules, x + width / 2, barTop, innerWidth, barHeight);
+    pdf.text(x + width / 2, bottom, barcode.text, { size: 6, align: 'center' });
+  } else {
+    pdf.text(x + PADDING, bottom, product.sku, { size: 7 });
+  }
+};
+
+// Renders one label per entry (repeat a product for several copies), as many A4 sheets as needed
+export const renderLabelsPdf = (labels: LabelProduct[], template: LabelTemplate): RenderedPdf => {
+  const pdf = createPdfDocument();
+  const width = (A4.width - 2 * MARGIN) / template.columns;
+  const height = (A4.height - 2 * MARGIN) / template.rows;
+  const perPage = template.columns * template.rows;
+
+  labels.forEach((product, index) => {
+    const slot = index % perPage;
+    if (slot === 0) pdf.addPage();
+
+    const x = MARGIN + (slot % template.columns) * width;
+    const y = MARGIN + Math.floor(slot / template.columns) * height;
+    if (template.borders) pdf.rect(x, y, width, height);
+    drawLabel(pdf, product, x, y, width, height);
+  });
+
+  return { buffer: pdf.toBuffer(), unrenderedText: pdf.unrenderedText() };
+};
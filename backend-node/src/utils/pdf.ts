@@ -0,0 +1,245 @@
+// Minimal PDF writer for the documents the backend renders (invoices and the like).
+// Uses the built-in Helvetica fonts, so there is nothing to embed; text is limited to what
+// WinAnsiEncoding covers (ASCII, Latin-1 and common punctuation). Anything else is printed as
+// '?' and reported by unrenderedText(). Coordinates are in points from the top-left corner of the page.
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfDocument {
+  addPage(size?: { width: number; height: number }): void;
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+  rect(x: number, y: number, width: number, height: number, fill?: boolean): void;
+  // Distinct text values that had characters the fonts can't show
+  unrenderedText(): string[];
+  toBuffer(): Buffer;
+}
+
+export interface RenderedPdf {
+  buffer: Buffer;
+  unrenderedText: string[];
+}
+
+// Response header listing the text a PDF could not show, as URI-encoded JSON
+export const UNRENDERED_TEXT_HEADER = 'X-Pdf-Unrendered-Text';
+
+// Enough examples to find the records to fix without growing the header past proxy limits
+const MAX_UNRENDERED_IN_HEADER = 20;
+
+export const unrenderedTextHeaderValue = (text: string[]) =>
+  encodeURIComponent(JSON.stringify(text.slice(0, MAX_UNRENDERED_IN_HEADER)));
+
+// Glyph widths (1/1000 em) for characters 32–126, from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Widths of the WinAnsi punctuation and symbols whose width isn't that of an ASCII letter ([regular, bold])
+const SYMBOL_WIDTHS: Record<string, [number, number]> = {
+  '€': [556, 556], '‚': [222, 278], '„': [333, 500], '…': [1000, 1000], '†': [556, 556], '‡': [556, 556],
+  '‰': [1000, 1000], '‹': [333, 333], '›': [333, 333], '‘': [222, 278], '’': [222, 278], '“': [333, 500],
+  '”': [333, 500], '•': [350, 350], '–': [556, 556], '—': [1000, 1000], '™': [1000, 1000], '\u00a0': [278, 278],
+  '¡': [333, 333], '¢': [556, 556], '£': [556, 556], '¥': [556, 556], '§': [556, 556], '©': [737, 737],
+  '«': [556, 556], '®': [737, 737], '°': [400, 400], '±': [584, 584], '·': [278, 278], '¶': [537, 556],
+  '»': [556, 556], '¿': [611, 611], '×': [584, 584], '÷': [584, 584], 'ß': [611, 611], 'Æ': [1000, 1000],
+  'æ': [889, 889], 'Ø': [778, 778], 'ø': [611, 611], 'Œ': [1000, 1000], 'œ': [944, 944]
+};
+
+// WinAnsiEncoding codes 128–159 (the rest of 160–255 is Latin-1)
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Characters without a WinAnsi code that have a readable stand-in
+const SUBSTITUTES: Record<string, string> = { '₹': 'Rs.', '→': '->' };
+
+// Maps text to WinAnsi characters (one char per byte in the latin1 output); characters without a
+// code are printed as '?' and the text is marked incomplete
+const toWinAnsi = (value: string): { text: string; complete: boolean } => {
+  let text = '';
+  let complete = true;
+  for (const char of value.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (SUBSTITUTES[char]) {
+      text += SUBSTITUTES[char];
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      text += char;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      text += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else {
+      text += '?';
+      complete = false;
+    }
+  }
+  return { text, complete };
+};
+
+const WIN_ANSI_CHARACTERS = new Map(Object.entries(WIN_ANSI_EXTRAS).map(([char, code]) => [code, char]));
+
+// Helvetica draws accented letters as wide as the base letter, e.g. é as e
+const charWidth = (code: number, bold: boolean): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 0x20 && code <= 0x7e) return widths[code - 32];
+
+  const char = WIN_ANSI_CHARACTERS.get(code) ?? String.fromCharCode(code);
+  const symbol = SYMBOL_WIDTHS[char];
+  if (symbol) return symbol[bold ? 1 : 0];
+
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 0x20 && base <= 0x7e ? widths[base - 32] : 556;
+};
+
+const escapeText = (value: string): string => value.replace(/([\\()])/g, '\\$1');
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+// Amounts are printed with two decimals and no currency symbol
+export const formatAmount = (value: number | string) => Number(value).toFixed(2);
+
+// 2025-08-14 → 14-08-2025
+export const formatDocumentDate = (date: string) => date.slice(0, 10).split('-').reverse().join('-');
+
+export const textWidth = (value: string, size: number, bold = false): number => {
+  let total = 0;
+  for (const char of toWinAnsi(value).text) {
+    total += charWidth(char.charCodeAt(0), bold);
+  }
+  return (total * size) / 1000;
+};
+
+// Breaks text into lines no wider than maxWidth, splitting on spaces (and inside words that are too long)
+export const wrapText = (value: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+
+      current = word;
+      while (textWidth(current, size, bold) > maxWidth && current.length > 1) {
+        let cut = current.length - 1;
+        while (cut > 1 && textWidth(current.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+export const createPdfDocument = (): PdfDocument => {
+  const pages: { width: number; height: number; ops: string[] }[] = [];
+  const unrendered = new Set<string>();
+
+  const currentPage = () => {
+    if (pages.length === 0) throw new Error('addPage() must be called before drawing');
+    return pages[pages.length - 1];
+  };
+
+  return {
+    addPage(size = A4) {
+      pages.push({ ...size, ops: [] });
+    },
+
+    text(x, y, value, options = {}) {
+      const page = currentPage();
+      const size = options.size ?? 10;
+      const bold = options.bold ?? false;
+      const width = textWidth(value, size, bold);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+      const { text, complete } = toWinAnsi(value);
+      if (!complete) unrendered.add(value);
+
+      page.ops.push(
+        `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(page.height - y)} Td ` +
+        `(${escapeText(text)}) Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, width = 0.5) {
+      const page = currentPage();
+      page.ops.push(
+        `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(page.height - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(page.height - y2)} l S`
+      );
+    },
+
+    rect(x, y, width, height, fill = false) {
+      const page = currentPage();
+      page.ops.push(
+        `${formatNumber(x)} ${formatNumber(page.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re ${fill ? 'f' : 'S'}`
+      );
+    },
+
+    unrenderedText() {
+      return [...unrendered];
+    },
+
+    toBuffer() {
+      if (pages.length === 0) this.addPage();
+
+      // 1: catalog, 2: page tree, 3–4: fonts, then a page object and a content stream per page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, index) => 5 + index * 2);
+
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+      pages.forEach((page, index) => {
+        const content = page.ops.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+        );
+        objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Every character is one latin1 byte, so string lengths are byte offsets
+      let output = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objects.forEach((object, index) => {
+        offsets.push(output.length);
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      });
+
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return Buffer.from(output, 'latin1');
+    }
+  };
+};
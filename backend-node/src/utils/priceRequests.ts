@@ -0,0 +1,49 @@
+import { supabase } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+export interface PriceRequestInput {
+  productId: string;
+  requestedPrice: number;
+  currentPrice: number;
+  // Product version the requester was looking at
+  baseVersion: number;
+  actorId?: string;
+  reason?: string;
+  source?: 'manual' | 'import';
+}
+
+// Opens a pending price request, or replaces the price on the requester's open one for this product
+export const submitPriceRequest = async (input: PriceRequestInput) => {
+  const fields = {
+    current_price: input.currentPrice,
+    requested_price: input.requestedPrice,
+    base_version: input.baseVersion,
+    reason: input.reason ?? null,
+    source: input.source ?? 'manual'
+  };
+
+  let pendingQuery = supabase
+    .from('price_requests')
+    .select('id')
+    .eq('product_id', input.productId)
+    .eq('status', 'pending');
+
+  pendingQuery = input.actorId
+    ? pendingQuery.eq('requested_by', input.actorId)
+    : pendingQuery.is('requested_by', null);
+
+  const { data: pending, error: pendingError } = await pendingQuery.maybeSingle();
+  if (pendingError) throw mapSupabaseError(pendingError, 'price_request');
+
+  const { data, error } = pending
+    ? await supabase.from('price_requests').update(fields).eq('id', pending.id).select().single()
+    : await supabase
+        .from('price_requests')
+        .insert([{ ...fields, product_id: input.productId, requested_by: input.actorId ?? null }])
+        .select()
+        .single();
+
+  if (error) throw mapSupabaseError(error, 'price_request');
+
+  return data;
+};
@@ -0,0 +1,85 @@
+import { supabase } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+// Threshold used when neither the product nor its category sets a reorder point
+export const DEFAULT_REORDER_POINT = 5;
+
+export type ReorderPointSource = 'product' | 'category' | 'default';
+
+// Category → default reorder point, from category_settings
+export const fetchCategoryReorderPoints = async (): Promise<Map<string, number>> => {
+  const { data, error } = await supabase
+    .from('category_settings')
+    .select('category, reorder_point');
+
+  if (error) throw mapSupabaseError(error, 'category_settings');
+
+  return new Map((data || []).map(row => [row.category, row.reorder_point]));
+};
+
+// The product's own reorder point wins, then its category's default, then DEFAULT_REORDER_POINT
+export const resolveReorderPoint = (
+  product: { category: string | null; reorder_point?: number | null },
+  categoryPoints: Map<string, number>
+): { reorderPoint: number; source: ReorderPointSource } => {
+  if (product.reorder_point !== null && product.reorder_point !== undefined) {
+    return { reorderPoint: product.reorder_point, source: 'product' };
+  }
+
+  const categoryPoint = product.category ? categoryPoints.get(product.category) : undefined;
+  if (categoryPoint !== undefined) {
+    return { reorderPoint: categoryPoint, source: 'category' };
+  }
+
+  return { reorderPoint: DEFAULT_REORDER_POINT, source: 'default' };
+};
+
+// Stock is low once it drops below the reorder point
+export const isLowStock = (quantity: number, reorderPoint: number): boolean => quantity < reorderPoint;
+
+// Days of stock a suggested order should cover when the request doesn't say
+export const DEFAULT_COVER_DAYS = 14;
+
+// How far back outflow is averaged over
+export const DEFAULT_LOOKBACK_DAYS = 30;
+
+export interface ReorderInput {
+  quantity: number;
+  onOrder: number;
+  // Units that left stock over the observed window
+  outflow: number;
+  observedDays: number;
+  coverDays: number;
+  reorderPoint: number;
+  reorderQuantity?: number | null;
+}
+
+export interface ReorderSuggestion {
+  dailyOutflow: number;
+  // null when nothing is moving
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+}
+
+// Orders enough to cover coverDays of average outflow on top of what is on hand and on order.
+// Anything below its reorder point is brought back up to it, and reorderQuantity acts as a minimum order.
+export const suggestReorder = (input: ReorderInput): ReorderSuggestion => {
+  const dailyOutflow = input.outflow / Math.max(input.observedDays, 1);
+  const available = input.quantity + input.onOrder;
+
+  let suggestedQuantity = Math.max(Math.ceil(dailyOutflow * input.coverDays) - available, 0);
+
+  if (isLowStock(available, input.reorderPoint)) {
+    suggestedQuantity = Math.max(suggestedQuantity, input.reorderPoint - available);
+  }
+
+  if (suggestedQuantity > 0 && input.reorderQuantity) {
+    suggestedQuantity = Math.max(suggestedQuantity, input.reorderQuantity);
+  }
+
+  return {
+    dailyOutflow: Math.round(dailyOutflow * 100) / 100,
+    daysOfCover: dailyOutflow > 0 ? Math.round((input.quantity / dailyOutflow) * 10) / 10 : null,
+    suggestedQuantity
+  };
+};
@@ -0,0 +1,105 @@
+import { CustomerLedgerEntryType, PaymentMethod } from '../config/database';
+
+export interface StatementEntry {
+  id: string | number;
+  entry_type: CustomerLedgerEntryType;
+  amount: number | string;
+  entry_date: string;
+  sale_id?: string | number | null;
+  due_date?: string | null;
+  payment_method?: PaymentMethod | null;
+  note?: string | null;
+  items?: StatementItem[];
+}
+
+export interface StatementItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface StatementLine {
+  entry_id: string;
+  date: string;
+  type: CustomerLedgerEntryType;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  due_date: string | null;
+  sale_id: string | null;
+  items?: StatementItem[];
+}
+
+export interface Statement {
+  opening_balance: number;
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  lines: StatementLine[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const describeEntry = (entry: StatementEntry) => {
+  const base = entry.entry_type === 'credit_sale'
+    ? `Credit sale #${entry.sale_id}`
+    : `Payment${entry.payment_method ? ` (${entry.payment_method})` : ''}`;
+  return entry.note ? `${base} - ${entry.note}` : base;
+};
+
+// Builds a dated statement from a customer's ledger. Entries before `from` roll into the opening
+// balance and entries after `to` are left out; both bounds are YYYY-MM-DD dates and inclusive.
+// Credit sales are debits (the customer owes more), payments credits; the running balance is
+// recomputed in date order so back-dated payments land where they belong.
+export const buildStatement = (entries: StatementEntry[], from?: string, to?: string): Statement => {
+  const sorted = [...entries].sort((a, b) =>
+    a.entry_date.localeCompare(b.entry_date) || Number(a.id) - Number(b.id)
+  );
+
+  let balance = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  let openingBalance = 0;
+  const lines: StatementLine[] = [];
+
+  for (const entry of sorted) {
+    const day = entry.entry_date.slice(0, 10);
+    if (to && day > to) break;
+
+    const amount = Number(entry.amount);
+    balance = round(balance + amount);
+
+    if (from && day < from) {
+      openingBalance = balance;
+      continue;
+    }
+
+    const debit = amount > 0 ? amount : 0;
+    const credit = amount < 0 ? -amount : 0;
+    totalDebits += debit;
+    totalCredits += credit;
+
+    lines.push({
+      entry_id: String(entry.id),
+      date: entry.entry_date,
+      type: entry.entry_type,
+      description: describeEntry(entry),
+      debit,
+      credit,
+      balance,
+      due_date: entry.due_date ?? null,
+      sale_id: entry.sale_id != null ? String(entry.sale_id) : null,
+      ...(entry.items && { items: entry.items })
+    });
+  }
+
+  return {
+    opening_balance: openingBalance,
+    total_debits: round(totalDebits),
+    total_credits: round(totalCredits),
+    closing_balance: balance,
+    lines
+  };
+};
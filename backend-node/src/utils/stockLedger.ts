@@ -0,0 +1,119 @@
+import { supabase, Product, StockMovement, StockMovementReason } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+export const STOCK_MOVEMENT_REASONS: StockMovementReason[] = [
+  'sale',
+  'purchase',
+  'adjustment',
+  'import',
+  'transfer',
+  'damage',
+  'return'
+];
+
+export interface StockMovementInput {
+  productId: string;
+  delta: number;
+  reason: StockMovementReason;
+  // Defaults to the default location when omitted
+  locationId?: string;
+  actorId?: string;
+  note?: string;
+  reference?: string;
+  // When set, the movement is rejected with CONFLICT unless the product is still at this version
+  expectedVersion?: number;
+  // Movements bump the product version by default so stale edit forms get a 409
+  bumpVersion?: boolean;
+  // Actual cost per unit for inbound stock
+  unitCost?: number;
+  // Lot details for inbound stock (outbound stock is drawn first-expiry-first-out)
+  lotCode?: string;
+  expiryDate?: string;
+}
+
+// Applies a signed quantity change through the ledger (see apply_stock_movement in the schema)
+export const applyStockMovement = async (input: StockMovementInput): Promise<StockMovement> => {
+  const { data, error } = await supabase.rpc('apply_stock_movement', {
+    p_product_id: input.productId,
+    p_delta: input.delta,
+    p_reason: input.reason,
+    p_actor: input.actorId ?? null,
+    p_note: input.note ?? null,
+    p_reference: input.reference ?? null,
+    p_expected_version: input.expectedVersion ?? null,
+    p_bump_version: input.bumpVersion ?? true,
+    p_location_id: input.locationId ?? null,
+    p_unit_cost: input.unitCost ?? null,
+    p_lot_code: input.lotCode ?? null,
+    p_expiry_date: input.expiryDate ?? null
+  });
+
+  if (error) throw mapSupabaseError(error, 'product', input.productId);
+
+  return data as StockMovement;
+};
+
+// Calendar dates as accepted for lot expiry (YYYY-MM-DD)
+export const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+// Inserts a product and records the quantity it was inserted with as its opening balance in one
+// transaction, so the ledger (and the per-location stock) sums to products.quantity
+export const createProductWithOpeningBalance = async (
+  fields: Record<string, unknown>,
+  reason: StockMovementReason,
+  actorId?: string,
+  reference?: string,
+  locationId?: string
+): Promise<Product> => {
+  const { data, error } = await supabase.rpc('create_product', {
+    p_product: fields,
+    p_reason: reason,
+    p_actor: actorId ?? null,
+    p_reference: reference ?? null,
+    p_location_id: locationId ?? null
+  });
+
+  if (error) throw mapSupabaseError(error, 'product');
+
+  return data as Product;
+};
+
+export interface ProductEditInput {
+  productId: string;
+  // The edit is rejected with CONFLICT unless the product is still at this version
+  expectedVersion: number;
+  // Editable fields to change; fields left out keep their value
+  fields: Record<string, unknown>;
+  // New stock at locationId, or the new product total when locationId is omitted (only while the
+  // default location is the only one holding stock)
+  quantity?: number;
+  reason?: StockMovementReason;
+  locationId?: string;
+  actorId?: string;
+  note?: string;
+  reference?: string;
+  // Actual cost per unit of stock the edit adds
+  unitCost?: number;
+}
+
+// Updates a product's fields and books its quantity change through the ledger in one
+// transaction (see update_product in the schema)
+export const updateProductWithStock = async (input: ProductEditInput): Promise<Product> => {
+  const { data, error } = await supabase.rpc('update_product', {
+    p_product_id: input.productId,
+    p_expected_version: input.expectedVersion,
+    p_changes: input.fields,
+    p_quantity: input.quantity ?? null,
+    p_reason: input.reason ?? 'adjustment',
+    p_actor: input.actorId ?? null,
+    p_note: input.note ?? null,
+    p_reference: input.reference ?? null,
+    p_location_id: input.locationId ?? null,
+    p_unit_cost: input.unitCost ?? null
+  });
+
+  if (error) throw mapSupabaseError(error, 'product', input.productId);
+
+  return data as Product;
+};
@@ -0,0 +1,102 @@
+export interface StockTakeLineInput {
+  product_id: string | number;
+  expected_quantity: number;
+  counted_quantity?: number | null;
+  unit_cost?: number | string | null;
+  product?: { sku: string; name: string; category: string | null } | null;
+}
+
+export type VarianceStatus = 'short' | 'over' | 'match' | 'uncounted';
+
+export interface VarianceLine {
+  product_id: string;
+  sku: string | null;
+  name: string | null;
+  category: string | null;
+  expected: number;
+  counted: number | null;
+  variance: number;
+  unit_cost: number | null;
+  // NULL when the product has no recorded cost
+  variance_value: number | null;
+  status: VarianceStatus;
+}
+
+export interface VarianceReport {
+  summary: {
+    products: number;
+    counted: number;
+    uncounted: number;
+    with_variance: number;
+    shortage_units: number;
+    shortage_value: number;
+    surplus_units: number;
+    surplus_value: number;
+    net_units: number;
+    net_value: number;
+    unvalued: number;
+  };
+  lines: VarianceLine[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const STATUS_ORDER: Record<VarianceStatus, number> = { short: 0, over: 1, match: 2, uncounted: 3 };
+
+// Compares counted against expected quantities. Uncounted products carry no variance,
+// matching approve_stock_take(), which leaves them untouched. Biggest losses come first.
+export const buildVarianceReport = (rows: StockTakeLineInput[]): VarianceReport => {
+  const lines = rows.map((row): VarianceLine => {
+    const counted = row.counted_quantity ?? null;
+    const variance = counted === null ? 0 : counted - row.expected_quantity;
+    const unitCost = row.unit_cost === null || row.unit_cost === undefined ? null : Number(row.unit_cost);
+    const status: VarianceStatus = counted === null ? 'uncounted' : variance < 0 ? 'short' : variance > 0 ? 'over' : 'match';
+
+    return {
+      product_id: String(row.product_id),
+      sku: row.product?.sku ?? null,
+      name: row.product?.name ?? null,
+      category: row.product?.category ?? null,
+      expected: row.expected_quantity,
+      counted,
+      variance,
+      unit_cost: unitCost,
+      variance_value: unitCost === null ? null : round(variance * unitCost),
+      status
+    };
+  });
+
+  lines.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    Math.abs(b.variance_value ?? 0) - Math.abs(a.variance_value ?? 0) ||
+    Math.abs(b.variance) - Math.abs(a.variance) ||
+    (a.sku ?? '').localeCompare(b.sku ?? '')
+  );
+
+  const short = lines.filter(line => line.status === 'short');
+  const over = lines.filter(line => line.status === 'over');
+  const sumUnits = (subset: VarianceLine[]) => subset.reduce((sum, line) => sum + Math.abs(line.variance), 0);
+  const sumValue = (subset: VarianceLine[]) => round(subset.reduce((sum, line) => sum + Math.abs(line.variance_value ?? 0), 0));
+
+  const shortageUnits = sumUnits(short);
+  const shortageValue = sumValue(short);
+  const surplusUnits = sumUnits(over);
+  const surplusValue = sumValue(over);
+
+  return {
+    summary: {
+      products: lines.length,
+      counted: lines.filter(line => line.counted !== null).length,
+      uncounted: lines.filter(line => line.counted === null).length,
+      with_variance: short.length + over.length,
+      shortage_units: shortageUnits,
+      shortage_value: shortageValue,
+      surplus_units: surplusUnits,
+      surplus_value: surplusValue,
+      net_units: surplusUnits - shortageUnits,
+      net_value: round(surplusValue - shortageValue),
+      unvalued: [...short, ...over].filter(line => line.unit_cost === null).length
+    },
+    lines
+  };
+};
@@ -0,0 +1,105 @@
+import { supabase } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+export type ValuationMethod = 'fifo' | 'wac';
+
+export const VALUATION_METHODS: ValuationMethod[] = ['fifo', 'wac'];
+
+// Used when app_settings has no valuation_method row
+export const DEFAULT_VALUATION_METHOD: ValuationMethod = 'fifo';
+
+// A product's cost basis as aggregated by stock_cost_basis() in the database
+export interface StockCostBasis {
+  // Units in open lots with a known cost, and their value
+  costedQuantity: number;
+  costedValue: number;
+  // Running weighted-average cost of stock held
+  averageCost: number | null;
+}
+
+export interface StockValuation {
+  value: number;
+  // Units on hand with a known cost, and units we could not put a cost on
+  valuedQuantity: number;
+  unvaluedQuantity: number;
+  // Cost per valued unit (the weighted average, or the FIFO blend of remaining lots)
+  unitCost: number | null;
+}
+
+const EMPTY_BASIS: StockCostBasis = { costedQuantity: 0, costedValue: 0, averageCost: null };
+
+const result = (value: number, valuedQuantity: number, onHand: number): StockValuation => ({
+  value: Math.round(value * 100) / 100,
+  valuedQuantity,
+  unvaluedQuantity: onHand - valuedQuantity,
+  unitCost: valuedQuantity > 0 ? value / valuedQuantity : null
+});
+
+// FIFO: the open lots are what is left of each receipt, so on-hand units are valued at their lots' cost
+const valueFifo = (basis: StockCostBasis, onHand: number, fallbackCost: number | null): StockValuation => {
+  const valuedQuantity = Math.min(basis.costedQuantity, onHand);
+  let value = valuedQuantity > 0 ? basis.costedValue * valuedQuantity / basis.costedQuantity : 0;
+
+  // Lots booked without a cost, and stock older than the ledger, fall back to the product cost
+  if (fallbackCost === null) return result(value, valuedQuantity, onHand);
+
+  value += (onHand - valuedQuantity) * fallbackCost;
+  return result(value, onHand, onHand);
+};
+
+// Weighted average: receipts re-average the cost of stock held and issues leave it unchanged,
+// so on-hand units are valued at the running average
+const valueWac = (basis: StockCostBasis, onHand: number, fallbackCost: number | null): StockValuation => {
+  const averageCost = basis.averageCost ?? fallbackCost;
+  if (averageCost === null) return result(0, 0, onHand);
+
+  return result(onHand * averageCost, onHand, onHand);
+};
+
+// Values onHand units at cost from the product's cost basis
+export const valueStock = (
+  method: ValuationMethod,
+  basis: StockCostBasis | undefined,
+  onHand: number,
+  fallbackCost: number | null = null
+): StockValuation => {
+  if (onHand <= 0) return result(0, 0, 0);
+
+  return method === 'wac'
+    ? valueWac(basis ?? EMPTY_BASIS, onHand, fallbackCost)
+    : valueFifo(basis ?? EMPTY_BASIS, onHand, fallbackCost);
+};
+
+export const isValuationMethod = (value: unknown): value is ValuationMethod =>
+  VALUATION_METHODS.includes(value as ValuationMethod);
+
+// Shop-wide default from app_settings
+export const fetchValuationMethod = async (): Promise<ValuationMethod> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'valuation_method')
+    .maybeSingle();
+
+  if (error) throw mapSupabaseError(error, 'app_settings');
+
+  return isValuationMethod(data?.value) ? data.value : DEFAULT_VALUATION_METHOD;
+};
+
+// Cost basis per product, chain-wide or for one location (see stock_cost_basis in the schema)
+export const fetchCostBasis = async (locationId?: string): Promise<Map<string, StockCostBasis>> => {
+  const { data, error } = await supabase.rpc('stock_cost_basis', { p_location_id: locationId ?? null });
+  if (error) throw mapSupabaseError(error, 'stock_lots');
+
+  const basis = new Map<string, StockCostBasis>();
+  ((data || []) as { product_id: number; costed_quantity: number; costed_value: number | string; average_cost: number | string | null }[])
+    .forEach(row => {
+      basis.set(String(row.product_id), {
+        costedQuantity: row.costed_quantity,
+        costedValue: Number(row.costed_value),
+        averageCost: row.average_cost === null ? null : Number(row.average_cost)
+      });
+    });
+
+  return basis;
+};
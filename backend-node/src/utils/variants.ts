@@ -0,0 +1,103 @@
+import { supabase } from '../config/database';
+import { mapSupabaseError } from './errors';
+
+// Parents name at most this many attributes (e.g. size, flavour, pack)
+export const MAX_VARIANT_ATTRIBUTES = 5;
+const MAX_ATTRIBUTE_LENGTH = 30;
+const MAX_VALUE_LENGTH = 60;
+
+export interface VariantRow {
+  parent_id: string | number | null;
+  quantity: number;
+  unit_price: number | string;
+}
+
+// Totals across a parent's active variants, shown on the parent's group header
+export interface VariantRollup {
+  variant_count: number;
+  total_quantity: number;
+  min_price: number;
+  max_price: number;
+  // Stock at selling price
+  retail_value: number;
+}
+
+// Attribute names as stored on the parent: trimmed, lower-case and unique.
+// Null when the input is not a list of 0-5 short names.
+export const normalizeVariantAttributes = (input: unknown): string[] | null => {
+  if (!Array.isArray(input) || input.length > MAX_VARIANT_ATTRIBUTES) return null;
+
+  const names = input.map(name => (typeof name === 'string' ? name.trim().toLowerCase() : ''));
+  if (names.some(name => !name || name.length > MAX_ATTRIBUTE_LENGTH)) return null;
+  if (new Set(names).size !== names.length) return null;
+  return names;
+};
+
+// A variant's attribute values, keyed by the parent's attribute names. Blank values are dropped.
+// Null when the input is not an object of short strings or names an attribute the parent lacks.
+export const normalizeVariantValues = (input: unknown, attributes: string[]): Record<string, string> | null => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return null;
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(input)) {
+    const name = key.trim().toLowerCase();
+    if (!attributes.includes(name) || typeof value !== 'string' || value.trim().length > MAX_VALUE_LENGTH) return null;
+    if (value.trim()) values[name] = value.trim();
+  }
+  return values;
+};
+
+export const rollUpVariants = (rows: VariantRow[]): Map<string, VariantRollup> => {
+  const rollups = new Map<string, VariantRollup>();
+
+  rows.forEach(row => {
+    if (row.parent_id === null || row.parent_id === undefined) return;
+
+    const key = String(row.parent_id);
+    const price = Number(row.unit_price);
+    const quantity = Number(row.quantity) || 0;
+    const rollup = rollups.get(key);
+    if (!rollup) {
+      rollups.set(key, { variant_count: 1, total_quantity: quantity, min_price: price, max_price: price, retail_value: quantity * price });
+      return;
+    }
+
+    rollup.variant_count += 1;
+    rollup.total_quantity += quantity;
+    rollup.min_price = Math.min(rollup.min_price, price);
+    rollup.max_price = Math.max(rollup.max_price, price);
+    rollup.retail_value += quantity * price;
+  });
+
+  rollups.forEach(rollup => {
+    rollup.retail_value = Math.round(rollup.retail_value * 100) / 100;
+  });
+  return rollups;
+};
+
+// Roll-ups for the given parents over their active variants; with a location, over that store's stock
+export const fetchVariantRollups = async (parentIds: string[], locationId?: string): Promise<Map<string, VariantRollup>> => {
+  if (parentIds.length === 0) return new Map();
+
+  if (!locationId) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('parent_id, quantity, unit_price')
+      .in('parent_id', parentIds)
+      .is('archived_at', null);
+
+    if (error) throw mapSupabaseError(error, 'products');
+    return rollUpVariants((data || []) as VariantRow[]);
+  }
+
+  const { data, error } = await supabase
+    .from('product_stock')
+    .select('quantity, product:products!inner(parent_id, unit_price)')
+    .eq('location_id', locationId)
+    .in('product.parent_id', parentIds)
+    .is('product.archived_at', null);
+
+  if (error) throw mapSupabaseError(error, 'product_stock');
+  const rows = (data || []) as unknown as { quantity: number; product: Omit<VariantRow, 'quantity'> }[];
+  return rollUpVariants(rows.map(row => ({ ...row.product, quantity: row.quantity })));
+};
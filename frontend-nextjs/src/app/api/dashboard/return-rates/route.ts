@@ -0,0 +1,3 @@
+import { proxyToBackend } from '../../../../lib/backendProxy';
+
+export { proxyToBackend as GET };
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 async function handler(req: NextRequest) {
     const backendBaseUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000';
-    const url = `${backendBaseUrl}/api/dashboard/kpis`;
+    const { search } = new URL(req.url);
+    const url = `${backendBaseUrl}/api/dashboard/kpis${search}`;
     
     try {
         const response = await fetch(url, {
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(req: NextRequest) {
   const backendBaseUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000';
-  const url = `${backendBaseUrl}/api/dashboard/stock-by-category`;
+  const { search } = new URL(req.url);
+  const url = `${backendBaseUrl}/api/dashboard/stock-by-category${search}`;
 
   try {
     const response = await fetch(url, {
@@ -0,0 +1,3 @@
+import { proxyToBackend } from '../../../../lib/backendProxy';
+
+export { proxyToBackend as GET, proxyToBackend as POST, proxyToBackend as PUT, proxyToBackend as DELETE };
@@ -0,0 +1,563 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { enqueueEdit, isSimulatedOffline } from '../../lib/offlineQueue';
+import { OfflineControls } from '../../components/OfflineControls';
+import { Button } from '../../components/ui/Button';
+
+type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank' | 'other';
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  address: string | null;
+  credit_limit: number | null;
+  credit_days: number;
+  balance: number;
+  overdue_amount: number;
+  oldest_due_date: string | null;
+}
+
+interface StatementLine {
+  entry_id: string;
+  date: string;
+  type: 'credit_sale' | 'payment';
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  due_date: string | null;
+  items?: Array<{ sku: string; name: string; quantity: number; unit_price: number }>;
+}
+
+interface Statement {
+  statement_date: string;
+  opening_balance: number;
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  lines: StatementLine[];
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  card: 'Card',
+  bank: 'Bank transfer',
+  other: 'Other',
+};
+
+// Unique per payment so one retried by the offline queue is only recorded once
+const newClientReference = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export default function CustomersPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+  const isOwner = user?.role === 'owner';
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [withBalance, setWithBalance] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  const fetchCustomers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: '200' });
+      if (search.trim()) params.set('search', search.trim());
+      if (withBalance) params.set('with_balance', 'true');
+      const token = await getSessionToken();
+      const res = await fetch(`/api/customers?${params.toString()}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        if (res.status === 401) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      const json = await res.json();
+      setCustomers(Array.isArray(json?.data) ? json.data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, withBalance, logout, router]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const selected = customers.find(customer => customer.id === selectedId) ?? null;
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Customers (Khata)</h2>
+              <Button onClick={() => setShowAdd(!showAdd)}>{showAdd ? 'Cancel' : 'Add customer'}</Button>
+            </div>
+
+            <div className="mb-4"><OfflineControls /></div>
+
+            {error && <p className="text-red-500 mb-4">{error}</p>}
+
+            {showAdd && (
+              <AddCustomerForm
+                isOwner={isOwner}
+                onCreated={(customer) => {
+                  setShowAdd(false);
+                  setSelectedId(customer.id);
+                  fetchCustomers();
+                }}
+              />
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white shadow rounded-lg p-4">
+                <input
+                  type="text"
+                  aria-label="Search customers"
+                  placeholder="Search by name or phone"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+                />
+                <label className="flex items-center space-x-2 mt-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={withBalance} onChange={(e) => setWithBalance(e.target.checked)} />
+                  <span>Only customers who owe money</span>
+                </label>
+                {loading ? (
+                  <p className="mt-4 text-gray-500">Loading customers...</p>
+                ) : customers.length === 0 ? (
+                  <p className="mt-4 text-gray-500">No customers found.</p>
+                ) : (
+                  <ul className="mt-4 divide-y divide-gray-200">
+                    {customers.map(customer => (
+                      <li key={customer.id}>
+                        <button
+                          onClick={() => setSelectedId(customer.id)}
+                          className={`w-full text-left py-2 px-2 rounded ${customer.id === selectedId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900">{customer.name}</span>
+                            <span className="text-gray-900">${Number(customer.balance).toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between text-sm text-gray-500">
+                            <span>{customer.phone ?? '—'}</span>
+                            {customer.overdue_amount > 0 && (
+                              <span className="text-red-600">${Number(customer.overdue_amount).toFixed(2)} overdue</span>
+                            )}
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="lg:col-span-2">
+                {selected ? (
+                  <CustomerDetail key={selected.id} customer={selected} onChanged={fetchCustomers} />
+                ) : (
+                  <div className="bg-white shadow rounded-lg p-4 text-gray-500">
+                    Pick a customer to see their statement and record payments. Credit sales are made from the Point of Sale.
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function AddCustomerForm({ isOwner, onCreated }: { isOwner: boolean; onCreated: (customer: Customer) => void }) {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [address, setAddress] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [creditDays, setCreditDays] = useState('30');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch('/api/customers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({
+          name,
+          ...(phone.trim() && { phone: phone.trim() }),
+          ...(address.trim() && { address: address.trim() }),
+          // Credit terms are owner-only; staff-created customers get the defaults
+          ...(isOwner && {
+            credit_limit: creditLimit === '' ? null : Number(creditLimit),
+            credit_days: Number(creditDays),
+          }),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      onCreated(json.data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="customerName" className="block text-sm font-medium text-gray-700">Name</label>
+        <input id="customerName" required maxLength={200} value={name} onChange={(e) => setName(e.target.value)} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900" />
+      </div>
+      <div>
+        <label htmlFor="customerPhone" className="block text-sm font-medium text-gray-700">Phone</label>
+        <input id="customerPhone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="Optional" className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900" />
+      </div>
+      <div className="md:col-span-2">
+        <label htmlFor="customerAddress" className="block text-sm font-medium text-gray-700">Address</label>
+        <input id="customerAddress" maxLength={500} value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Optional" className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900" />
+      </div>
+      {isOwner && (
+        <>
+          <div>
+            <label htmlFor="creditLimit" className="block text-sm font-medium text-gray-700">Credit limit</label>
+            <input id="creditLimit" type="number" min={0} step="0.01" value={creditLimit} onChange={(e) => setCreditLimit(e.target.value)} placeholder="No limit" className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900" />
+          </div>
+          <div>
+            <label htmlFor="creditDays" className="block text-sm font-medium text-gray-700">Days to pay</label>
+            <input id="creditDays" type="number" min={0} max={365} step={1} required value={creditDays} onChange={(e) => setCreditDays(e.target.value)} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900" />
+          </div>
+        </>
+      )}
+      <div className="md:col-span-2 flex items-center gap-3">
+        <Button type="submit" disabled={saving || !name.trim()}>{saving ? 'Saving...' : 'Save customer'}</Button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+    </form>
+  );
+}
+
+function CustomerDetail({ customer, onChanged }: { customer: Customer; onChanged: () => void }) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [note, setNote] = useState('');
+  const [paying, setPaying] = useState(false);
+  const [paymentMessage, setPaymentMessage] = useState<string | null>(null);
+
+  const fetchStatement = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const token = await getSessionToken();
+      const res = await fetch(`/api/customers/${customer.id}/statement?${params.toString()}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      setStatement(json.data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [customer.id, from, to]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  const handlePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPaying(true);
+    setError(null);
+    setPaymentMessage(null);
+
+    const url = `/api/customers/${customer.id}/payments`;
+    const payment = {
+      amount: Math.round(Number(amount) * 100) / 100,
+      payment_method: method,
+      client_reference: newClientReference(),
+      paid_at: new Date().toISOString(),
+      ...(note.trim() && { note: note.trim() }),
+    };
+
+    const queuePayment = async () => {
+      await enqueueEdit({ url, method: 'POST', body: payment });
+      setPaymentMessage('Payment saved offline — it will sync when the connection is back.');
+      setAmount('');
+      setNote('');
+    };
+
+    try {
+      if (isSimulatedOffline()) {
+        await queuePayment();
+        return;
+      }
+
+      const token = await getSessionToken();
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+          body: JSON.stringify(payment),
+        });
+      } catch {
+        await queuePayment();
+        return;
+      }
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+
+      setPaymentMessage(`Payment of $${payment.amount.toFixed(2)} recorded. Balance: $${Number(json.data.balance_after).toFixed(2)}`);
+      setAmount('');
+      setNote('');
+      onChanged();
+      fetchStatement();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record payment');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{customer.name}</h3>
+          <div className="text-sm text-gray-500">
+            {[customer.phone, customer.address].filter(Boolean).join(' · ') || 'No contact details'}
+          </div>
+          <div className="text-sm text-gray-500">
+            Pays within {customer.credit_days} days
+            {customer.credit_limit !== null && ` · limit $${Number(customer.credit_limit).toFixed(2)}`}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-sm text-gray-600">Balance owed</div>
+          <div className="text-2xl font-bold text-gray-900">${Number(customer.balance).toFixed(2)}</div>
+          {customer.overdue_amount > 0 && (
+            <div className="text-sm text-red-600">
+              ${Number(customer.overdue_amount).toFixed(2)} overdue since {customer.oldest_due_date}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handlePayment} className="flex flex-wrap items-end gap-2 mt-4 border-t pt-4">
+        <div>
+          <label htmlFor="paymentAmount" className="block text-xs text-gray-600">Payment</label>
+          <input id="paymentAmount" type="number" min={0.01} step="0.01" max={customer.balance} required value={amount} onChange={(e) => setAmount(e.target.value)} className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900" />
+        </div>
+        <div>
+          <label htmlFor="paymentMethod" className="block text-xs text-gray-600">Method</label>
+          <select id="paymentMethod" value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className="rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-700">
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(key => (
+              <option key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 min-w-[8rem]">
+          <label htmlFor="paymentNote" className="block text-xs text-gray-600">Note</label>
+          <input id="paymentNote" maxLength={500} value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900" />
+        </div>
+        <Button type="submit" disabled={paying || !amount || Number(customer.balance) <= 0}>
+          {paying ? 'Recording...' : 'Record payment'}
+        </Button>
+      </form>
+      {paymentMessage && <p className="text-sm text-green-700 mt-2">{paymentMessage}</p>}
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-6">
+        <h4 className="font-semibold text-gray-900">Statement</h4>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <label htmlFor="statementFrom">From</label>
+          <input id="statementFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1" />
+          <label htmlFor="statementTo">To</label>
+          <input id="statementTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1" />
+          <Button variant="secondary" onClick={() => window.print()}>Print</Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="mt-4 text-gray-500">Loading statement...</p>
+      ) : statement && (
+        <div className="mt-3 overflow-x-auto">
+          <div className="text-xs text-gray-500 mb-2">Statement date {statement.statement_date}</div>
+          <table className="min-w-full text-sm text-gray-700">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Date</th>
+                <th className="px-3 py-2 font-medium">Details</th>
+                <th className="px-3 py-2 font-medium text-right">Credit given</th>
+                <th className="px-3 py-2 font-medium text-right">Paid</th>
+                <th className="px-3 py-2 font-medium text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              <tr>
+                <td className="px-3 py-2" colSpan={4}>Opening balance</td>
+                <td className="px-3 py-2 text-right">${Number(statement.opening_balance).toFixed(2)}</td>
+              </tr>
+              {statement.lines.map(line => (
+                <tr key={line.entry_id}>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(line.date).toLocaleDateString()}</td>
+                  <td className="px-3 py-2">
+                    <div>{line.description}</div>
+                    {line.items && line.items.length > 0 && (
+                      <div className="text-xs text-gray-500">
+                        {line.items.map(item => `${item.quantity} × ${item.name}`).join(', ')}
+                      </div>
+                    )}
+                    {line.due_date && <div className="text-xs text-gray-500">Due {line.due_date}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right">{line.debit ? `$${line.debit.toFixed(2)}` : ''}</td>
+                  <td className="px-3 py-2 text-right">{line.credit ? `$${line.credit.toFixed(2)}` : ''}</td>
+                  <td className="px-3 py-2 text-right">${Number(line.balance).toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="px-3 py-2" colSpan={2}>Closing balance</td>
+                <td className="px-3 py-2 text-right">${Number(statement.total_debits).toFixed(2)}</td>
+                <td className="px-3 py-2 text-right">${Number(statement.total_credits).toFixed(2)}</td>
+                <td className="px-3 py-2 text-right">${Number(statement.closing_balance).toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
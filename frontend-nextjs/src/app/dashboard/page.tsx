@@ -7,11 +7,67 @@ import Link from 'next/link';
 import { useEffect, useState } from 'react';
 import { getSessionToken } from '../../lib/supabaseClient';
 
+interface ReorderSuggestion {
+  id: string;
+  name: string;
+  sku: string;
+  category: string | null;
+  quantity: number;
+  on_order: number;
+  reorder_point: number;
+  unit_price: number;
+  last_unit_cost: number | null;
+  daily_outflow: number;
+  days_of_cover: number | null;
+  suggested_quantity: number;
+}
+
+interface ExpiringLot {
+  id: string;
+  lot_code: string | null;
+  expiry_date: string;
+  quantity: number;
+  days_to_expiry: number;
+  value_at_risk: number;
+  product?: { name: string; sku: string };
+  location?: { name: string };
+}
+
+interface ReturnRate {
+  category: string;
+  unitsSold: number;
+  unitsReturned: number;
+  unitsDamaged: number;
+  returnRate: number | null;
+  damageRate: number | null;
+}
+
+interface Receivables {
+  totalReceivable: number;
+  overdueAmount: number;
+  customersWithBalance: number;
+  overdueCustomers: number;
+}
+
+type ValuationMethod = 'fifo' | 'wac';
+
+const VALUATION_LABELS: Record<ValuationMethod, string> = {
+  fifo: 'FIFO',
+  wac: 'Weighted average',
+};
+
 export default function DashboardPage() {
   const { user, logout } = useAuth();
   const router = useRouter();
 
-  const [kpis, setKpis] = useState<{ totalItems: number; totalStockValue: number; lowStockCount: number } | null>(null);
+  const [kpis, setKpis] = useState<{
+    totalItems: number;
+    totalStockValue: number;
+    totalRetailValue: number;
+    unvaluedUnits: number;
+    valuationMethod: ValuationMethod;
+    lowStockCount: number;
+  } | null>(null);
   const [kpiLoading, setKpiLoading] = useState(true);
   const [kpiError, setKpiError] = useState<string | null>(null);
 
@@ -19,6 +75,20 @@ export default function DashboardPage() {
   const [categoryLoading, setCategoryLoading] = useState(true);
   const [categoryError, setCategoryError] = useState<string | null>(null);
 
+  // Store filter ('' = whole chain)
+  const [locations, setLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedLocation, setSelectedLocation] = useState<string>('');
+
+  // Valuation method ('' = the configured default)
+  const [valuation, setValuation] = useState<ValuationMethod | ''>('');
+  const [defaultValuation, setDefaultValuation] = useState<ValuationMethod | null>(null);
+  const [savingValuation, setSavingValuation] = useState(false);
+
+  const queryParams = new URLSearchParams();
+  if (selectedLocation) queryParams.set('location_id', selectedLocation);
+  if (valuation) queryParams.set('valuation', valuation);
+  const dashboardQuery = queryParams.toString() ? `?${queryParams.toString()}` : '';
+
   const handleLogout = async () => {
     const result = await logout();
     if (result.success) {
@@ -28,13 +98,86 @@ export default function DashboardPage() {
     }
   };
 
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/locations', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (json?.success && Array.isArray(json.data)) {
+          setLocations(json.data);
+        }
+      } catch (e) {
+        console.error('Failed to load locations:', e);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/settings', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        const setting = Array.isArray(json?.data)
+          ? json.data.find((entry: { key: string }) => entry.key === 'valuation_method')
+          : undefined;
+        if (json?.success && setting) {
+          setDefaultValuation(setting.value);
+        }
+      } catch (e) {
+        console.error('Failed to load settings:', e);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSaveValuationDefault = async () => {
+    if (!valuation) return;
+    try {
+      setSavingValuation(true);
+      setKpiError(null);
+      const token = await getSessionToken();
+      const res = await fetch('/api/settings/valuation_method', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({ value: valuation }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || json?.success === false) {
+        throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+      }
+      setDefaultValuation(valuation);
+    } catch (e) {
+      setKpiError(e instanceof Error ? e.message : 'Failed to save valuation method');
+    } finally {
+      setSavingValuation(false);
+    }
+  };
+
   useEffect(() => {
     const fetchKpis = async () => {
       try {
         setKpiLoading(true);
         setKpiError(null);
         const token = await getSessionToken();
-        const res = await fetch('/api/dashboard', {
+        const res = await fetch(`/api/dashboard${dashboardQuery}`, {
           headers: {
             'Authorization': token ? `Bearer ${token}` : '',
           },
@@ -53,6 +196,9 @@ export default function DashboardPage() {
           setKpis({
             totalItems: data.data.totalItems ?? 0,
             totalStockValue: data.data.totalStockValue ?? 0,
+            totalRetailValue: data.data.totalRetailValue ?? 0,
+            unvaluedUnits: data.data.unvaluedUnits ?? 0,
+            valuationMethod: data.data.valuationMethod ?? 'fifo',
             lowStockCount: data.data.lowStockCount ?? 0,
           });
         } else {
@@ -66,7 +212,7 @@ export default function DashboardPage() {
     };
 
     fetchKpis();
-  }, [logout, router]);
+  }, [logout, router, dashboardQuery]);
 
   useEffect(() => {
     const fetchCategoryAgg = async () => {
@@ -74,7 +220,7 @@ export default function DashboardPage() {
         setCategoryLoading(true);
         setCategoryError(null);
         const token = await getSessionToken();
-        const res = await fetch('/api/dashboard/stock-by-category', {
+        const res = await fetch(`/api/dashboard/stock-by-category${dashboardQuery}`, {
           headers: {
             'Authorization': token ? `Bearer ${token}` : '',
           },
@@ -102,7 +248,7 @@ export default function DashboardPage() {
     };
 
     fetchCategoryAgg();
-  }, [logout, router]);
+  }, [logout, router, dashboardQuery]);
   return (
     <ProtectedRoute>
       <div className="min-h-screen bg-gray-100">
@@ -126,12 +272,42 @@ export default function DashboardPage() {
                   >
                     Products
                     </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
                     <Link
                       href="/import"
                       className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
                     >
                       Import CSV
                     </Link>
+                    <Link
+                      href="/price-requests"
+                      className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Price Requests
+                    </Link>
                 </div>
               </div>
               <div className="flex items-center">
@@ -157,7 +333,43 @@ export default function DashboardPage() {
           <div className="px-4 py-6 sm:px-0">
             {/* KPIs */}
             <div className="mb-6">
-              <h2 className="text-2xl font-bold mb-4 text-gray-900">Key Metrics</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-900">Key Metrics</h2>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={valuation || kpis?.valuationMethod || defaultValuation || 'fifo'}
+                    onChange={(e) => setValuation(e.target.value as ValuationMethod)}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                    aria-label="Valuation method"
+                  >
+                    {(Object.keys(VALUATION_LABELS) as ValuationMethod[]).map(method => (
+                      <option key={method} value={method}>{VALUATION_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  {user?.role === 'owner' && valuation && valuation !== defaultValuation && (
+                    <button
+                      onClick={handleSaveValuationDefault}
+                      disabled={savingValuation}
+                      className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    >
+                      {savingValuation ? 'Saving...' : 'Set as default'}
+                    </button>
+                  )}
+                  {locations.length > 1 && (
+                    <select
+                      value={selectedLocation}
+                      onChange={(e) => setSelectedLocation(e.target.value)}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                      aria-label="Store"
+                    >
+                      <option value="">All stores</option>
+                      {locations.map(location => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
               {kpiError && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
                   {kpiError}
@@ -177,10 +389,18 @@ export default function DashboardPage() {
                     </div>
                   </div>
                   <div className="bg-white border rounded p-4">
-                    <div className="text-sm text-gray-600">Total Stock Value</div>
+                    <div className="text-sm text-gray-600">Total Stock Value (at cost)</div>
                     <div className="text-3xl font-bold text-gray-900">
                       ${Number(kpis?.totalStockValue ?? 0).toFixed(2)}
                     </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      ${Number(kpis?.totalRetailValue ?? 0).toFixed(2)} at selling price
+                    </div>
+                    {(kpis?.unvaluedUnits ?? 0) > 0 && (
+                      <div className="text-xs text-amber-600 mt-1">
+                        {kpis?.unvaluedUnits} units have no recorded cost
+                      </div>
+                    )}
                   </div>
                   <div className="bg-white border rounded p-4">
                     <div className="text-sm text-gray-600">Low Stock Count</div>
@@ -192,9 +412,22 @@ export default function DashboardPage() {
               )}
             </div>
 
+            {/* Customer credit (owner only) */}
+            {user?.role === 'owner' && <ReceivablesPanel />}
+
+            {/* Expiring Stock */}
+            <ExpiringStockPanel locationId={selectedLocation} />
+
+            {/* Reorder Suggestions */}
+            <ReorderSuggestionsPanel
+              locationId={selectedLocation}
+              locationName={locations.find(location => location.id === selectedLocation)?.name}
+              isOwner={user?.role === 'owner'}
+            />
+
             {/* Stock Value by Category */}
             <div className="mt-8">
-              <h2 className="text-2xl font-bold mb-4 text-gray-900">Stock Value by Category</h2>
+              <h2 className="text-2xl font-bold mb-4 text-gray-900">Stock Value by Category (at cost)</h2>
               {categoryError && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
                   {categoryError}
@@ -215,6 +448,9 @@ export default function DashboardPage() {
                 </div>
               )}
             </div>
+
+            {/* Returns by Category */}
+            <ReturnRatesPanel />
           </div>
         </main>
       </div>
@@ -246,4 +482,454 @@ function CategoryBarChart({ data }: { data: Array<{ category: string; stockValue
       })}
     </div>
   );
-}
\ No newline at end of file
+}
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+function ReceivablesPanel() {
+  const [receivables, setReceivables] = useState<Receivables | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReceivables = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/dashboard/receivables', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json?.data) {
+          throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+        }
+        setReceivables(json.data);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load receivables');
+      }
+    };
+
+    fetchReceivables();
+  }, []);
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Customer Credit</h2>
+        <Link href="/customers" className="text-sm text-indigo-600 hover:text-indigo-800">View customers</Link>
+      </div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+      {receivables && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white border rounded p-4">
+            <div className="text-sm text-gray-600">Total Receivables</div>
+            <div className="text-3xl font-bold text-gray-900">${Number(receivables.totalReceivable).toFixed(2)}</div>
+            <div className="text-xs text-gray-500 mt-1">
+              Owed by {receivables.customersWithBalance} customer{receivables.customersWithBalance === 1 ? '' : 's'}
+            </div>
+          </div>
+          <div className="bg-white border rounded p-4">
+            <div className="text-sm text-gray-600">Overdue</div>
+            <div className={`text-3xl font-bold ${receivables.overdueAmount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              ${Number(receivables.overdueAmount).toFixed(2)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {receivables.overdueCustomers} customer{receivables.overdueCustomers === 1 ? '' : 's'} past their due date
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReturnRatesPanel() {
+  const [days, setDays] = useState(90);
+  const [rates, setRates] = useState<ReturnRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const token = await getSessionToken();
+        const res = await fetch(`/api/dashboard/return-rates?days=${days}`, {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(json?.data)) {
+          throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+        }
+        setRates(json.data);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load return rates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRates();
+  }, [days]);
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Returns by Category</h2>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700"
+          aria-label="Returns window"
+        >
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+          <option value={365}>Last 365 days</option>
+        </select>
+      </div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+      {loading ? (
+        <div className="flex items-center text-gray-700">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900 mr-2"></div>
+          Loading return rates...
+        </div>
+      ) : rates.length === 0 ? (
+        <div className="bg-white border rounded p-4 text-gray-600 text-sm">No sales or returns in this window.</div>
+      ) : (
+        <div className="bg-white border rounded overflow-x-auto">
+          <table className="min-w-full text-sm text-gray-700">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">Category</th>
+                <th className="px-4 py-2 font-medium text-right">Sold</th>
+                <th className="px-4 py-2 font-medium text-right">Returned</th>
+                <th className="px-4 py-2 font-medium text-right">Return rate</th>
+                <th className="px-4 py-2 font-medium text-right">Damaged</th>
+                <th className="px-4 py-2 font-medium text-right">Damage rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rates.map(rate => (
+                <tr key={rate.category}>
+                  <td className="px-4 py-2 font-medium">{rate.category}</td>
+                  <td className="px-4 py-2 text-right">{rate.unitsSold}</td>
+                  <td className="px-4 py-2 text-right">{rate.unitsReturned}</td>
+                  <td className="px-4 py-2 text-right">{formatRate(rate.returnRate)}</td>
+                  <td className="px-4 py-2 text-right">{rate.unitsDamaged}</td>
+                  <td className="px-4 py-2 text-right">{formatRate(rate.damageRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Order sheet in the importCSV column format; quantity is the suggested order quantity
+function buildOrderSheet(rows: ReorderSuggestion[], locationName?: string) {
+  const header = ['name', 'sku', 'category', 'quantity', 'unit_price', ...(locationName ? ['location'] : [])];
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const lines = rows.map(r => [
+    r.name,
+    r.sku,
+    r.category ?? '',
+    String(r.suggested_quantity),
+    Number(r.unit_price).toFixed(2),
+    ...(locationName ? [locationName] : []),
+  ].map(escape).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
+
+function ReorderSuggestionsPanel({ locationId, locationName, isOwner }: { locationId: string; locationName?: string; isOwner: boolean }) {
+  const [coverDays, setCoverDays] = useState(14);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [suppliers, setSuppliers] = useState<Array<{ id: string; name: string }>>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [drafting, setDrafting] = useState(false);
+  const [draftMessage, setDraftMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSuggestions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams({ cover_days: String(coverDays) });
+        if (locationId) params.set('location_id', locationId);
+        const token = await getSessionToken();
+        const res = await fetch(`/api/reorder/suggestions?${params.toString()}`, {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(json?.data)) {
+          throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+        }
+        setSuggestions(json.data);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load reorder suggestions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSuggestions();
+  }, [coverDays, locationId]);
+
+  useEffect(() => {
+    if (!isOwner) return;
+    const fetchSuppliers = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/suppliers', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (Array.isArray(json?.data)) setSuppliers(json.data);
+      } catch (e) {
+        console.error('Failed to load suppliers:', e);
+      }
+    };
+
+    fetchSuppliers();
+  }, [isOwner]);
+
+  const downloadOrderSheet = () => {
+    if (!suggestions.length) return;
+    const blob = new Blob([buildOrderSheet(suggestions, locationName)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'reorder-sheet.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const draftPurchaseOrder = async () => {
+    if (!supplierId || !suggestions.length) return;
+    try {
+      setDrafting(true);
+      setDraftMessage(null);
+      const token = await getSessionToken();
+      const res = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({
+          supplier_id: supplierId,
+          ...(locationId && { location_id: locationId }),
+          note: `Drafted from reorder suggestions (${coverDays} days cover)`,
+          lines: suggestions.map(s => ({ sku: s.sku, quantity: s.suggested_quantity, unit_cost: s.last_unit_cost ?? 0 })),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+      setDraftMessage(`Draft purchase order #${json.data.id} created`);
+    } catch (e) {
+      setDraftMessage(e instanceof Error ? e.message : 'Failed to draft purchase order');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Reorder Suggestions</h2>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <label htmlFor="coverDays">Cover</label>
+          <input
+            id="coverDays"
+            type="number"
+            min={1}
+            max={365}
+            value={coverDays}
+            onChange={(e) => setCoverDays(Math.min(365, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-20 rounded-md border border-gray-300 px-2 py-1"
+          />
+          <span>days</span>
+          <button
+            onClick={downloadOrderSheet}
+            disabled={!suggestions.length}
+            className="ml-2 px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+      {loading ? (
+        <div className="flex items-center text-gray-700">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900 mr-2"></div>
+          Loading suggestions...
+        </div>
+      ) : suggestions.length === 0 ? (
+        <div className="bg-white border rounded p-4 text-gray-600 text-sm">Nothing needs reordering.</div>
+      ) : (
+        <div className="bg-white border rounded overflow-x-auto">
+          <table className="min-w-full text-sm text-gray-700">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-2">Product</th>
+                <th className="px-4 py-2">SKU</th>
+                <th className="px-4 py-2 text-right">On hand</th>
+                <th className="px-4 py-2 text-right">On order</th>
+                <th className="px-4 py-2 text-right">Per day</th>
+                <th className="px-4 py-2 text-right">Days left</th>
+                <th className="px-4 py-2 text-right">Order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map(s => (
+                <tr key={s.id} className="border-t">
+                  <td className="px-4 py-2">{s.name}</td>
+                  <td className="px-4 py-2">{s.sku}</td>
+                  <td className="px-4 py-2 text-right">{s.quantity}</td>
+                  <td className="px-4 py-2 text-right">{s.on_order}</td>
+                  <td className="px-4 py-2 text-right">{s.daily_outflow}</td>
+                  <td className="px-4 py-2 text-right">{s.days_of_cover ?? '—'}</td>
+                  <td className="px-4 py-2 text-right font-semibold">{s.suggested_quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {isOwner && suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-700">
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+            className="rounded-md border border-gray-300 px-3 py-1"
+            aria-label="Supplier"
+          >
+            <option value="">Select supplier…</option>
+            {suppliers.map(supplier => (
+              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={draftPurchaseOrder}
+            disabled={!supplierId || drafting}
+            className="px-3 py-1 rounded bg-gray-800 text-white disabled:opacity-50"
+          >
+            {drafting ? 'Drafting...' : 'Draft purchase order'}
+          </button>
+          {draftMessage && <span>{draftMessage}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExpiringStockPanel({ locationId }: { locationId: string }) {
+  const [withinDays, setWithinDays] = useState(7);
+  const [lots, setLots] = useState<ExpiringLot[]>([]);
+  const [valueAtRisk, setValueAtRisk] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExpiring = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams({ within: `${withinDays}d` });
+        if (locationId) params.set('location_id', locationId);
+        const token = await getSessionToken();
+        const res = await fetch(`/api/products/expiring?${params.toString()}`, {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(json?.data)) {
+          throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+        }
+        setLots(json.data);
+        setValueAtRisk(json.summary?.value_at_risk ?? 0);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load expiring stock');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExpiring();
+  }, [withinDays, locationId]);
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Expiring Soon</h2>
+        <select
+          value={withinDays}
+          onChange={(e) => setWithinDays(Number(e.target.value))}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700"
+          aria-label="Expiry window"
+        >
+          <option value={3}>Next 3 days</option>
+          <option value={7}>Next 7 days</option>
+          <option value={14}>Next 14 days</option>
+          <option value={30}>Next 30 days</option>
+        </select>
+      </div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+      {loading ? (
+        <div className="flex items-center text-gray-700">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900 mr-2"></div>
+          Loading expiring stock...
+        </div>
+      ) : lots.length === 0 ? (
+        <div className="bg-white border rounded p-4 text-gray-600 text-sm">Nothing expires in this window.</div>
+      ) : (
+        <div className="bg-white border rounded">
+          <div className="px-4 py-3 border-b text-sm text-gray-700">
+            Value at risk: <span className="font-semibold text-gray-900">${Number(valueAtRisk).toFixed(2)}</span>
+          </div>
+          <ul className="divide-y text-sm text-gray-700">
+            {lots.map(lot => (
+              <li key={lot.id} className="px-4 py-2 flex justify-between">
+                <span>
+                  <span className="font-medium">{lot.product?.name ?? lot.id}</span>
+                  {lot.lot_code && <span className="text-gray-500"> · lot {lot.lot_code}</span>}
+                  {lot.location?.name && <span className="text-gray-500"> · {lot.location.name}</span>}
+                </span>
+                <span className={lot.days_to_expiry < 0 ? 'text-red-600 font-medium' : lot.days_to_expiry <= 2 ? 'text-orange-600' : undefined}>
+                  {lot.quantity} · {lot.days_to_expiry < 0 ? 'expired' : `${lot.expiry_date} (${lot.days_to_expiry}d)`} · ${Number(lot.value_at_risk).toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
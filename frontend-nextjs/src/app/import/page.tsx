@@ -1,11 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../../lib/authContext';
 import { getSessionToken } from '../../lib/supabaseClient';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '../../components/ui/Button';
+import { readCsvHeader } from '../../lib/csvHeader';
 
 type RowStatus = 'created' | 'updated' | 'skipped' | 'error';
 
@@ -21,20 +22,115 @@ interface ImportResult {
     category: string;
     quantity: string;
     unit_price: string;
-    [k: string]: string;
+    location?: string;
+    reorder_point?: string;
+    reorder_quantity?: string;
+    cost_price?: string;
+    hsn_code?: string;
+    gst_rate?: string;
+    parent_sku?: string;
+    [k: string]: string | undefined;
   };
 }
 
+interface ImportSummary {
+  total_rows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+}
+
+type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'rolled_back';
+
+// An import runs in the background after upload; GET /import/:id reports its progress
+interface ImportJob {
+  id: string;
+  status: ImportStatus;
+  total_rows: number;
+  processed_rows: number;
+  successful_rows: number;
+  failed_rows: number;
+  error_message: string | null;
+  summary: ImportSummary;
+  results: ImportResult[];
+}
+
+// Product fields a file column can be mapped to
+const IMPORT_FIELDS = ['name', 'sku', 'category', 'quantity', 'unit_price', 'location', 'reorder_point', 'reorder_quantity', 'cost_price', 'hsn_code', 'gst_rate', 'parent_sku'];
+const REQUIRED_FIELDS = IMPORT_FIELDS.slice(0, 5);
+
+// File column (lower-case) → product field, or null to ignore the column
+type ColumnMapping = Record<string, string | null>;
+
+interface MappingTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+// Columns named like our fields map to themselves, anything else is ignored
+const defaultMapping = (columns: string[]): ColumnMapping =>
+  Object.fromEntries(columns.map(column => {
+    const key = column.toLowerCase();
+    return [key, IMPORT_FIELDS.includes(key) ? key : null];
+  }));
+
+// Columns without a header can't be named in a mapping; they are ignored anyway
+const namedColumns = (mapping: ColumnMapping): ColumnMapping =>
+  Object.fromEntries(Object.entries(mapping).filter(([column]) => column));
+
+// A dry run reports what the file would do; committing uploads the same file for real
+interface ImportPreview {
+  file: File;
+  alreadyImportedId: string | null;
+  mapping: ColumnMapping | null;
+}
+
+// Row of GET /import (no row results)
+interface RecentImport {
+  id: string;
+  filename: string;
+  status: ImportStatus;
+  total_rows: number;
+  successful_rows: number;
+  failed_rows: number;
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+// A rollback is refused as a whole when any product changed after the import
+interface RollbackConflict {
+  row: number;
+  sku: string;
+  reason: string;
+  expected_version?: number;
+  actual_version?: number;
+}
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:4000';
+const POLL_INTERVAL_MS = 1000;
+
 export default function ImportPage() {
   const { user, logout } = useAuth();
   const router = useRouter();
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [results, setResults] = useState<ImportResult[] | null>(null);
-  const [summary, setSummary] = useState<{ total_rows: number; created: number; updated: number; errors: number } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [recentImports, setRecentImports] = useState<RecentImport[]>([]);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [rollbackConflicts, setRollbackConflicts] = useState<{ importId: string; rows: RollbackConflict[] } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [fileColumns, setFileColumns] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const unmountedRef = useRef(false);
 
   const handleLogout = async () => {
     const result = await logout();
@@ -55,7 +151,151 @@ export default function ImportPage() {
     }
   }, [user, router]);
 
-  const handleUpload = async (inputFile?: File) => {
+  const loadRecentImports = useCallback(async () => {
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`${API_BASE}/import`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) return;
+      const body = await response.json();
+      setRecentImports(body.data || []);
+    } catch (e) {
+      console.error('Failed to load recent imports:', e);
+    }
+  }, []);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`${API_BASE}/import/mappings`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) return;
+      const body = await response.json();
+      setTemplates(body.data || []);
+    } catch (e) {
+      console.error('Failed to load column mappings:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadRecentImports();
+      loadTemplates();
+    }
+  }, [user, loadRecentImports, loadTemplates]);
+
+  // Stops polling when the user leaves the page; the import itself carries on
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+    };
+  }, []);
+
+  const waitForImportJob = async (id: string, token: string | undefined, apiBase: string): Promise<ImportJob | null> => {
+    while (!unmountedRef.current) {
+      const response = await fetch(`${apiBase}/import/${id}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (response.status === 401) {
+        await logout();
+        router.push('/login');
+        throw new Error('Unauthorized');
+      }
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || `HTTP error! status: ${response.status}`);
+      }
+      const current: ImportJob = body.data;
+      setJob(current);
+      if (current.status === 'completed' || current.status === 'failed') {
+        return current;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    return null;
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setFileColumns([]);
+    setColumnMapping({});
+    if (!selected) return;
+    try {
+      const columns = await readCsvHeader(selected);
+      setFileColumns(columns);
+      setColumnMapping(defaultMapping(columns));
+    } catch (e) {
+      console.error('Failed to read CSV header:', e);
+    }
+  };
+
+  // The mapping is only sent when it does more than the default, so plain files import as before
+  const defaults = defaultMapping(fileColumns);
+  const activeMapping = fileColumns.some(column => columnMapping[column.toLowerCase()] !== defaults[column.toLowerCase()]) ? columnMapping : null;
+  const mappedFields = Object.values(columnMapping);
+  const unmappedRequired = fileColumns.length > 0 ? REQUIRED_FIELDS.filter(field => !mappedFields.includes(field)) : [];
+
+  const saveTemplate = async (name: string) => {
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`${API_BASE}/import/mappings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({ name, mapping: namedColumns(columnMapping) }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error?.message || 'Failed to save column mapping');
+        return;
+      }
+      setMessage(`Column mapping "${body.data.name}" saved.`);
+      await loadTemplates();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save column mapping');
+    }
+  };
+
+  const deleteTemplate = async (template: MappingTemplate) => {
+    if (!window.confirm(`Delete the column mapping "${template.name}"?`)) return;
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`${API_BASE}/import/mappings/${template.id}`, {
+        method: 'DELETE',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setError(body.error?.message || 'Failed to delete column mapping');
+        return;
+      }
+      await loadTemplates();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete column mapping');
+    }
+  };
+
+  // Columns the template doesn't know keep their current mapping
+  const applyTemplate = (template: MappingTemplate) => {
+    setColumnMapping(current => ({
+      ...current,
+      ...Object.fromEntries(
+        fileColumns
+          .map(column => column.toLowerCase())
+          .filter(key => key in template.mapping)
+          .map(key => [key, template.mapping[key]])
+      ),
+    }));
+  };
+
+  const handleUpload = async (inputFile?: File, dryRun = false, mapping: ColumnMapping | null = null) => {
     const csvFile = inputFile ?? file;
     if (!csvFile) return;
     setUploading(true);
@@ -63,10 +303,14 @@ export default function ImportPage() {
     setError(null);
     setResults(null);
     setSummary(null);
+    setJob(null);
+    setPreview(null);
+    setMessage(null);
+    setRollbackConflicts(null);
 
     try {
       const token = await getSessionToken();
-      const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:4000';
+      const apiBase = API_BASE;
       
       // Use XMLHttpRequest for progress tracking
       const xhr = new XMLHttpRequest();
@@ -74,8 +318,11 @@ export default function ImportPage() {
       // Set up and send request
       const formData = new FormData();
       formData.append('file', csvFile);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(namedColumns(mapping)));
+      }
       
-      xhr.open('POST', `${apiBase}/import/csv`);
+      xhr.open('POST', `${apiBase}/import/csv${dryRun ? '?dryRun=true' : ''}`);
       if (token) {
         xhr.setRequestHeader('Authorization', `Bearer ${token}`);
       }
@@ -142,11 +389,31 @@ export default function ImportPage() {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const data: any = await responsePromise;
       
-      if (data.success) {
-        setResults(data.results || []);
-        setSummary(data.summary || null);
-      } else {
+      if (!data.success) {
         setError(data.error?.message || 'Failed to import CSV');
+        return;
+      }
+
+      if (data.dry_run) {
+        setPreview({ file: csvFile, alreadyImportedId: data.data.already_imported_id, mapping });
+        setResults(data.data.results || []);
+        setSummary(data.data.summary);
+        return;
+      }
+
+      // The upload is done; rows are now imported in the background
+      setUploading(false);
+      setJob(data.data);
+      const finished: ImportJob | null = data.data.status === 'completed' || data.data.status === 'failed' ?
+        data.data :
+        await waitForImportJob(String(data.import_id), token, apiBase);
+      if (!finished) return;
+
+      setResults(finished.results || []);
+      setSummary(finished.summary);
+      loadRecentImports();
+      if (finished.status === 'failed') {
+        setError(`Import stopped after ${finished.processed_rows} of ${finished.total_rows} rows: ${finished.error_message || 'unknown error'}`);
       }
     } catch (e: unknown) {
       if (e instanceof Error) {
@@ -157,23 +424,52 @@ export default function ImportPage() {
     } finally {
       setUploading(false);
       setUploadProgress(0);
+      setJob(null);
     }
   };
 
+  const rollbackImport = async (entry: RecentImport) => {
+    if (!window.confirm(`Roll back import #${entry.id} (${entry.filename})? Products it created are removed and products it updated get their previous values and stock back.`)) return;
+    setRollingBack(entry.id);
+    setError(null);
+    setMessage(null);
+    setRollbackConflicts(null);
+
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`${API_BASE}/import/${entry.id}/rollback`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        if (Array.isArray(body.error?.details?.rows)) {
+          setRollbackConflicts({ importId: entry.id, rows: body.error.details.rows });
+        }
+        setError(body.error?.message || 'Failed to roll back import');
+        return;
+      }
+      setMessage(`Import #${entry.id} rolled back: ${body.data.restored} products restored, ${body.data.removed} removed.`);
+      await loadRecentImports();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to roll back import');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const importing = job !== null && (job.status === 'pending' || job.status === 'processing');
+  const jobProgress = job && job.total_rows > 0 ? Math.round((job.processed_rows / job.total_rows) * 100) : 0;
+
   const failedRows = (results || []).filter(r => r.status === 'error' && r.row_data);
 
   const buildCSV = (rows: ImportResult[]) => {
-    const header = ['name','sku','category','quantity','unit_price'];
+    const optional = ['location', 'reorder_point', 'reorder_quantity', 'cost_price', 'hsn_code', 'gst_rate', 'parent_sku'].filter(col => rows.some(r => r.row_data?.[col]));
+    const header = ['name','sku','category','quantity','unit_price', ...optional];
     const lines = [header.join(',')];
     rows.forEach(r => {
       const rd = r.row_data!;
-      const vals = [
-        (rd.name ?? '').toString(),
-        (rd.sku ?? '').toString(),
-        (rd.category ?? '').toString(),
-        (rd.quantity ?? '').toString(),
-        (rd.unit_price ?? '').toString()
-      ];
+      const vals = header.map(col => (rd[col] ?? '').toString());
       // Quote fields with commas or quotes
       const escaped = vals.map(v => {
         if (/[",\n]/.test(v)) {
@@ -242,12 +538,42 @@ export default function ImportPage() {
                 >
                   Products
                 </Link>
+                <Link
+                  href="/pos"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Point of Sale
+                </Link>
+                <Link
+                  href="/returns"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Returns
+                </Link>
+                <Link
+                  href="/customers"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Customers
+                </Link>
+                <Link
+                  href="/stock-takes"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Stock Take
+                </Link>
                 <Link
                   href="/import"
                   className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
                 >
                   Import CSV
                 </Link>
+                <Link
+                  href="/price-requests"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Price Requests
+                </Link>
               </div>
             </div>
             <div className="flex items-center">
@@ -278,19 +604,48 @@ export default function ImportPage() {
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
               {error}
+              {rollbackConflicts && (
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <thead>
+                    <tr>
+                      <th className="pr-4 font-semibold">Row</th>
+                      <th className="pr-4 font-semibold">SKU</th>
+                      <th className="font-semibold">Why it can&apos;t be undone</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rollbackConflicts.rows.map(conflict => (
+                      <tr key={`${conflict.row}-${conflict.sku}`}>
+                        <td className="pr-4">{conflict.row}</td>
+                        <td className="pr-4">{conflict.sku}</td>
+                        <td>
+                          {conflict.reason}
+                          {conflict.expected_version !== undefined && ` (version ${conflict.expected_version} → ${conflict.actual_version})`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded mb-4">
+              {message}
             </div>
           )}
 
           <div className="bg-white shadow rounded-lg p-6 mb-6">
             <p className="text-sm text-gray-600 mb-4">
-              Columns: name, sku, category, quantity, unit_price. 
+              Columns: name, sku, category, quantity, unit_price. Optional: location (store code or name) — quantity is then that store&apos;s count; reorder_point, reorder_quantity, cost_price, hsn_code and gst_rate (blank keeps the current value; cost_price is owner-only); parent_sku makes the row a variant of that parent product. Files with other headers can be mapped to these fields once chosen.
             </p>
 
             <div className="border rounded p-4 space-y-4">
               <input
                 type="file"
                 accept=".csv,text/csv"
-                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
                 className="block w-full text-sm text-gray-500
                   file:mr-4 file:py-2 file:px-4
                   file:rounded-md file:border-0
@@ -299,13 +654,33 @@ export default function ImportPage() {
                   hover:file:bg-blue-100"
               />
 
+              {fileColumns.length > 0 && (
+                <ColumnMappingEditor
+                  columns={fileColumns}
+                  mapping={columnMapping}
+                  onChange={setColumnMapping}
+                  templates={templates}
+                  onApplyTemplate={applyTemplate}
+                  onSaveTemplate={saveTemplate}
+                  onDeleteTemplate={deleteTemplate}
+                  unmappedRequired={unmappedRequired}
+                />
+              )}
+
               <div className="flex gap-2 flex-wrap">
                 <Button
-                  disabled={!file || uploading}
-                  onClick={() => handleUpload()}
-                  loading={uploading}
+                  disabled={!file || uploading || importing || unmappedRequired.length > 0}
+                  onClick={() => handleUpload(undefined, true, activeMapping)}
+                  loading={uploading || importing}
                 >
-                  {uploading ? `Uploading... ${uploadProgress}%` : 'Upload CSV'}
+                  {uploading ? (uploadProgress < 100 ? `Uploading... ${uploadProgress}%` : 'Checking rows...') : importing ? `Importing... ${jobProgress}%` : 'Preview import'}
+                </Button>
+                <Button
+                  variant="secondary"
+                  disabled={!file || uploading || importing || unmappedRequired.length > 0}
+                  onClick={() => handleUpload(undefined, false, activeMapping)}
+                >
+                  Import without preview
                 </Button>
 
                 {failedRows.length > 0 && (
@@ -331,12 +706,54 @@ export default function ImportPage() {
                   <div className="text-sm text-gray-600 mt-1 text-right">{uploadProgress}%</div>
                 </div>
               )}
+
+              {importing && job && (
+                <div className="mt-4">
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-green-600 h-2.5 rounded-full transition-all duration-300"
+                      style={{ width: `${jobProgress}%` }}
+                    ></div>
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-600 mt-1">
+                    <span>
+                      {job.status === 'pending' ? 'Queued' : `Imported ${job.processed_rows} of ${job.total_rows} rows`}
+                      {job.failed_rows > 0 && ` (${job.failed_rows} failed)`}
+                    </span>
+                    <span>{jobProgress}%</span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
+          {preview && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded mb-6 flex flex-wrap items-center justify-between gap-4">
+              <div className="text-sm">
+                Preview of <span className="font-medium">{preview.file.name}</span>: nothing has been imported yet.
+                {preview.alreadyImportedId && ` This file was already imported (import #${preview.alreadyImportedId}), so committing it changes nothing.`}
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={() => handleUpload(preview.file, false, preview.mapping)}>
+                  Commit import
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setPreview(null);
+                    setResults(null);
+                    setSummary(null);
+                  }}
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
           {summary && (
             <div className="bg-white shadow rounded-lg p-6 mb-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Import Summary</h2>
+              <h2 className="text-lg font-medium text-gray-900 mb-4">{preview ? 'Preview Summary' : 'Import Summary'}</h2>
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="border rounded p-4 text-center">
                   <div className="text-2xl font-bold text-gray-900">{summary.total_rows}</div>
@@ -360,7 +777,7 @@ export default function ImportPage() {
 
 {results && results.length > 0 && (
   <div className="bg-white shadow rounded-lg p-6">
-    <h2 className="text-lg font-medium text-gray-900 mb-4">Import Results</h2>
+    <h2 className="text-lg font-medium text-gray-900 mb-4">{preview ? 'Preview: what the import will do' : 'Import Results'}</h2>
     <div className="overflow-x-auto text-gray-900">
       <table className="min-w-full text-left text-sm border-collapse">
         <thead className="bg-gray-50">
@@ -394,9 +811,190 @@ export default function ImportPage() {
     </div>
   </div>
 )}
+
+          {recentImports.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-6 mt-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Imports</h2>
+              <div className="overflow-x-auto text-gray-900">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="p-3 font-semibold">#</th>
+                      <th className="p-3 font-semibold">File</th>
+                      <th className="p-3 font-semibold">Uploaded</th>
+                      <th className="p-3 font-semibold">Status</th>
+                      <th className="p-3 font-semibold text-right">Imported / failed / rows</th>
+                      {user.role === 'owner' && <th className="p-3"></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentImports.map(entry => (
+                      <tr key={entry.id} className="border-t">
+                        <td className="p-3">{entry.id}</td>
+                        <td className="p-3">{entry.filename}</td>
+                        <td className="p-3">{new Date(entry.created_at).toLocaleString()}</td>
+                        <td className="p-3">{entry.status.replace('_', ' ')}</td>
+                        <td className="p-3 text-right">{entry.successful_rows} / {entry.failed_rows} / {entry.total_rows}</td>
+                        {user.role === 'owner' && (
+                          <td className="p-3 text-right">
+                            {(entry.status === 'completed' || entry.status === 'failed') && (
+                              <Button
+                                size="sm"
+                                variant="danger"
+                                loading={rollingBack === entry.id}
+                                disabled={rollingBack !== null || uploading || importing}
+                                onClick={() => rollbackImport(entry)}
+                              >
+                                Roll back
+                              </Button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
         </div>
       </main>
     </div>
   );
 }
 
+interface ColumnMappingEditorProps {
+  columns: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  templates: MappingTemplate[];
+  onApplyTemplate: (template: MappingTemplate) => void;
+  onSaveTemplate: (name: string) => Promise<void>;
+  onDeleteTemplate: (template: MappingTemplate) => Promise<void>;
+  unmappedRequired: string[];
+}
+
+// Maps each column of the selected file to a product field (or ignores it), with saved templates
+function ColumnMappingEditor({
+  columns,
+  mapping,
+  onChange,
+  templates,
+  onApplyTemplate,
+  onSaveTemplate,
+  onDeleteTemplate,
+  unmappedRequired,
+}: ColumnMappingEditorProps) {
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const selectedTemplate = templates.find(template => template.id.toString() === templateId);
+
+  // A field can only be used once, so picking it elsewhere frees the other column
+  const setField = (column: string, field: string) => {
+    const next: ColumnMapping = { ...mapping };
+    if (field) {
+      Object.keys(next).forEach(key => {
+        if (next[key] === field) next[key] = null;
+      });
+    }
+    next[column] = field || null;
+    onChange(next);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    await onSaveTemplate(templateName.trim());
+    setSaving(false);
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <h3 className="text-sm font-medium text-gray-900 mr-auto">Column mapping</h3>
+        {templates.length > 0 && (
+          <>
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="block rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+            >
+              <option value="">Saved mappings...</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" disabled={!selectedTemplate} onClick={() => selectedTemplate && onApplyTemplate(selectedTemplate)}>
+              Apply
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={!selectedTemplate}
+              onClick={async () => {
+                if (!selectedTemplate) return;
+                await onDeleteTemplate(selectedTemplate);
+                setTemplateId('');
+              }}
+            >
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm text-gray-900">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-2 font-semibold">Column in file</th>
+              <th className="p-2 font-semibold">Product field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columns.map((column, index) => {
+              const key = column.toLowerCase();
+              return (
+                <tr key={`${key}-${index}`} className="border-t">
+                  <td className="p-2">{column || <span className="text-gray-400">(blank)</span>}</td>
+                  <td className="p-2">
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => setField(key, e.target.value)}
+                      className="block rounded-md border border-gray-300 px-3 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                    >
+                      <option value="">Ignore</option>
+                      {IMPORT_FIELDS.map(field => (
+                        <option key={field} value={field}>
+                          {field}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {unmappedRequired.length > 0 && (
+        <p className="text-sm text-red-700 mt-2">Map a column to: {unmappedRequired.join(', ')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          maxLength={60}
+          placeholder="Mapping name, e.g. Supplier X export"
+          className="block rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+        />
+        <Button size="sm" variant="secondary" disabled={!templateName.trim() || saving} loading={saving} onClick={save}>
+          Save mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,672 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { enqueueEdit, isSimulatedOffline } from '../../lib/offlineQueue';
+import { downloadFile, unrenderedTextWarning } from '../../lib/downloadFile';
+import { OfflineControls } from '../../components/OfflineControls';
+import { Button } from '../../components/ui/Button';
+
+interface PosProduct {
+  id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  unit_price: number;
+  barcode?: string | null;
+}
+
+interface CartLine {
+  product: PosProduct;
+  quantity: number;
+}
+
+interface LineError {
+  product_id?: string;
+  sku?: string;
+  message: string;
+}
+
+interface CompletedSale {
+  id?: string;
+  total: number;
+  queued: boolean;
+  invoice?: { id: string; invoice_number: string };
+  // Set when the sale went on a customer's khata instead of being paid now
+  creditCustomer?: { name: string; balance: number };
+}
+
+interface CreditCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  balance: number;
+}
+
+interface Buyer {
+  name: string;
+  gstin: string;
+  address: string;
+}
+
+const EMPTY_BUYER: Buyer = { name: '', gstin: '', address: '' };
+
+const MAX_RESULTS = 8;
+
+// Scanners may report a UPC-A with a leading zero (as EAN-13), so barcodes are compared without them
+const sameBarcode = (barcode: string | null | undefined, code: string) =>
+  !!barcode && /^[0-9]+$/.test(code) && barcode.replace(/^0+/, '') === code.replace(/^0+/, '');
+
+// Unique per checkout so a sale retried by the offline queue is only recorded once
+const newClientReference = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export default function PosPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+
+  const [products, setProducts] = useState<PosProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [locations, setLocations] = useState<Array<{ id: string; name: string; is_default: boolean }>>([]);
+  const [locationId, setLocationId] = useState('');
+
+  const [search, setSearch] = useState('');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [lastSale, setLastSale] = useState<CompletedSale | null>(null);
+  const [issueInvoice, setIssueInvoice] = useState(false);
+  const [buyer, setBuyer] = useState<Buyer>(EMPTY_BUYER);
+  const [customers, setCustomers] = useState<CreditCustomer[]>([]);
+  const [creditCustomerId, setCreditCustomerId] = useState('');
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/locations', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (json?.success && Array.isArray(json.data)) {
+          setLocations(json.data);
+          // Ring sales up at the default store until the till picks another
+          const defaultLocation = json.data.find((location: { is_default: boolean }) => location.is_default);
+          if (defaultLocation) setLocationId(String(defaultLocation.id));
+        }
+      } catch (e) {
+        console.error('Failed to load locations:', e);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  useEffect(() => {
+    const fetchCustomers = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/customers?limit=500', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (json?.success && Array.isArray(json.data)) setCustomers(json.data);
+      } catch (e) {
+        console.error('Failed to load customers:', e);
+      }
+    };
+
+    fetchCustomers();
+  }, []);
+
+  const fetchProducts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const query = locationId ? `&location_id=${encodeURIComponent(locationId)}` : '';
+      const res = await fetch(`/api/products?limit=500${query}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        if (res.status === 401) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      const json = await res.json();
+      setProducts(Array.isArray(json?.data) ? json.data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load products');
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId, logout, router]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  // SKU matches exactly (as a scanner types it); names match on any part
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return products
+      .filter(product => product.sku.toLowerCase() === term || product.name.toLowerCase().includes(term))
+      .slice(0, MAX_RESULTS);
+  }, [products, search]);
+
+  const addToCart = (product: PosProduct) => {
+    setCart(prev => {
+      const existing = prev.find(line => line.product.id === product.id);
+      if (existing) {
+        return prev.map(line => line.product.id === product.id ? { ...line, quantity: line.quantity + 1 } : line);
+      }
+      return [...prev, { product, quantity: 1 }];
+    });
+    setLineErrors(prev => {
+      const next = { ...prev };
+      delete next[product.id];
+      return next;
+    });
+    setSearch('');
+    setLastSale(null);
+  };
+
+  const setLineQuantity = (productId: string, quantity: number) => {
+    setCart(prev => quantity <= 0
+      ? prev.filter(line => line.product.id !== productId)
+      : prev.map(line => line.product.id === productId ? { ...line, quantity } : line));
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const term = search.trim().toLowerCase();
+    const exactSku = products.find(product => product.sku.toLowerCase() === term)
+      ?? products.find(product => sameBarcode(product.barcode, term));
+    if (exactSku) {
+      addToCart(exactSku);
+    } else if (matches.length === 1) {
+      addToCart(matches[0]);
+    }
+  };
+
+  const total = cart.reduce((sum, line) => sum + Number(line.product.unit_price) * line.quantity, 0);
+
+  const handleCheckout = async () => {
+    if (cart.length === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+    setLineErrors({});
+
+    // Invoiced sales go through /api/invoices, which records the sale and numbers the invoice together;
+    // credit sales go through the customer's khata, which records the sale and the amount owed together
+    const creditCustomer = customers.find(customer => customer.id === creditCustomerId);
+    const buyerDetails = {
+      ...(buyer.name.trim() && { name: buyer.name.trim() }),
+      ...(buyer.gstin.trim() && { gstin: buyer.gstin.trim().toUpperCase() }),
+      ...(buyer.address.trim() && { address: buyer.address.trim() }),
+    };
+    const url = creditCustomer
+      ? `/api/customers/${creditCustomer.id}/credit`
+      : issueInvoice ? '/api/invoices' : '/api/sales';
+    // Every path carries the time the sale was rung up, so a queued sale keeps it when it syncs later
+    const soldAt = new Date().toISOString();
+    const sale = creditCustomer
+      ? {
+          ...(locationId && { location_id: locationId }),
+          client_reference: newClientReference(),
+          sold_at: soldAt,
+          lines: cart.map(line => ({ sku: line.product.sku, quantity: line.quantity })),
+        }
+      : issueInvoice
+      ? {
+          ...(locationId && { location_id: locationId }),
+          client_reference: newClientReference(),
+          sold_at: soldAt,
+          ...(Object.keys(buyerDetails).length > 0 && { buyer: buyerDetails }),
+          lines: cart.map(line => ({ sku: line.product.sku, quantity: line.quantity })),
+        }
+      : {
+          ...(locationId && { location_id: locationId }),
+          client_reference: newClientReference(),
+          sold_at: soldAt,
+          lines: cart.map(line => ({ product_id: line.product.id, quantity: line.quantity })),
+        };
+
+    const queueSale = async () => {
+      await enqueueEdit({ url, method: 'POST', body: sale });
+      setLastSale({ total, queued: true });
+      setCart([]);
+      setBuyer(EMPTY_BUYER);
+      setCreditCustomerId('');
+    };
+
+    try {
+      if (isSimulatedOffline()) {
+        await queueSale();
+        return;
+      }
+
+      const token = await getSessionToken();
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+          body: JSON.stringify(sale),
+        });
+      } catch {
+        // Network failure: keep the sale and let the offline queue sync it
+        await queueSale();
+        return;
+      }
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const lines = json.error?.details?.lines as Array<LineError & { available?: number; requested?: number }> | undefined;
+        if (Array.isArray(lines)) {
+          setLineErrors(Object.fromEntries(lines.map(line => [
+            String(line.product_id ?? cart.find(cartLine => cartLine.product.sku === line.sku)?.product.id),
+            line.available !== undefined ? `Only ${line.available} in stock` : line.message,
+          ])));
+        }
+        throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      }
+
+      setLastSale(creditCustomer
+        ? {
+            id: json.data?.sale_id,
+            total: Number(json.data?.amount ?? total),
+            queued: false,
+            creditCustomer: { name: creditCustomer.name, balance: Number(json.data?.balance_after) },
+          }
+        : issueInvoice
+        ? {
+            id: json.data?.sale_id,
+            total: Number(json.data?.total ?? total),
+            queued: false,
+            invoice: { id: json.data?.id, invoice_number: json.data?.invoice_number },
+          }
+        : { id: json.data?.id, total: Number(json.data?.total ?? total), queued: false });
+      setCart([]);
+      setBuyer(EMPTY_BUYER);
+      setCreditCustomerId('');
+      if (creditCustomer) {
+        setCustomers(customers.map(customer => customer.id === creditCustomer.id
+          ? { ...customer, balance: Number(json.data?.balance_after ?? customer.balance) }
+          : customer));
+      }
+      fetchProducts();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record sale');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const downloadInvoice = async (invoice: { id: string; invoice_number: string }) => {
+    try {
+      const unrendered = await downloadFile(`/api/invoices/${invoice.id}.pdf`, `invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf`);
+      setError(unrenderedTextWarning(unrendered));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to download invoice');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Point of Sale</h2>
+              {locations.length > 1 && (
+                <select
+                  aria-label="Store"
+                  value={locationId}
+                  onChange={(e) => {
+                    setLocationId(e.target.value);
+                    setCart([]);
+                  }}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                >
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="mb-4"><OfflineControls /></div>
+
+            {error && <p className="text-red-500 mb-4">{error}</p>}
+
+            {lastSale && (
+              <div className="flex items-center justify-between bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded mb-4">
+                <span>
+                  {lastSale.queued
+                    ? `Sale of $${lastSale.total.toFixed(2)} saved offline — it will sync when the connection is back.`
+                    : lastSale.creditCustomer
+                      ? `Sale #${lastSale.id} of $${lastSale.total.toFixed(2)} added to ${lastSale.creditCustomer.name}'s khata. Balance: $${lastSale.creditCustomer.balance.toFixed(2)}`
+                    : lastSale.invoice
+                      ? `Invoice ${lastSale.invoice.invoice_number} issued: $${lastSale.total.toFixed(2)} incl. GST`
+                      : `Sale #${lastSale.id} recorded: $${lastSale.total.toFixed(2)}`}
+                </span>
+                {lastSale.invoice && (
+                  <Button variant="secondary" onClick={() => downloadInvoice(lastSale.invoice!)}>
+                    Download PDF
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white shadow rounded-lg p-4">
+                <input
+                  type="text"
+                  autoFocus
+                  aria-label="Find product"
+                  placeholder="Scan or type a SKU or product name"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+                />
+                {loading ? (
+                  <p className="mt-4 text-gray-500">Loading products...</p>
+                ) : search.trim() && matches.length === 0 ? (
+                  <p className="mt-4 text-gray-500">No products match &quot;{search.trim()}&quot;.</p>
+                ) : (
+                  <ul className="mt-4 divide-y divide-gray-200">
+                    {matches.map(product => (
+                      <li key={product.id} className="flex items-center justify-between py-2">
+                        <div>
+                          <div className="font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500">{product.sku} · {product.quantity} in stock</div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className="text-gray-900">${Number(product.unit_price).toFixed(2)}</span>
+                          <Button onClick={() => addToCart(product)} disabled={product.quantity <= 0}>
+                            Add
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <CartPanel
+                cart={cart}
+                lineErrors={lineErrors}
+                total={total}
+                submitting={submitting}
+                issueInvoice={issueInvoice}
+                buyer={buyer}
+                onIssueInvoiceChange={setIssueInvoice}
+                onBuyerChange={setBuyer}
+                customers={customers}
+                creditCustomerId={creditCustomerId}
+                onCreditCustomerChange={(id) => {
+                  setCreditCustomerId(id);
+                  if (id) setIssueInvoice(false);
+                }}
+                onQuantityChange={setLineQuantity}
+                onCheckout={handleCheckout}
+              />
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function CartPanel({
+  cart,
+  lineErrors,
+  total,
+  submitting,
+  issueInvoice,
+  buyer,
+  onIssueInvoiceChange,
+  onBuyerChange,
+  customers,
+  creditCustomerId,
+  onCreditCustomerChange,
+  onQuantityChange,
+  onCheckout,
+}: {
+  cart: CartLine[];
+  lineErrors: Record<string, string>;
+  total: number;
+  submitting: boolean;
+  issueInvoice: boolean;
+  buyer: Buyer;
+  onIssueInvoiceChange: (issueInvoice: boolean) => void;
+  onBuyerChange: (buyer: Buyer) => void;
+  customers: CreditCustomer[];
+  creditCustomerId: string;
+  onCreditCustomerChange: (customerId: string) => void;
+  onQuantityChange: (productId: string, quantity: number) => void;
+  onCheckout: () => void;
+}) {
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Cart</h3>
+      {cart.length === 0 ? (
+        <p className="text-gray-500">Cart is empty.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {cart.map(line => {
+            const lineError = lineErrors[line.product.id];
+            const overStock = line.quantity > line.product.quantity;
+            return (
+              <li key={line.product.id} className="py-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">{line.product.name}</div>
+                    <div className="text-gray-500">${Number(line.product.unit_price).toFixed(2)} each</div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label={`Quantity of ${line.product.name}`}
+                      value={line.quantity}
+                      onChange={(e) => onQuantityChange(line.product.id, parseInt(e.target.value, 10) || 0)}
+                      className="w-16 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                    />
+                    <button
+                      onClick={() => onQuantityChange(line.product.id, 0)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {(lineError || overStock) && (
+                  <div className="text-xs text-red-600 mt-1">
+                    {lineError || `Only ${line.product.quantity} in stock`}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex items-center justify-between border-t mt-3 pt-3">
+        <span className="font-semibold text-gray-900">Total</span>
+        <span className="text-xl font-bold text-gray-900">${total.toFixed(2)}</span>
+      </div>
+      {issueInvoice && <p className="text-xs text-gray-500 text-right">GST is added on the invoice</p>}
+      {customers.length > 0 && (
+        <div className="mt-4">
+          <label htmlFor="creditCustomer" className="block text-sm text-gray-700">Payment</label>
+          <select
+            id="creditCustomer"
+            value={creditCustomerId}
+            onChange={(e) => onCreditCustomerChange(e.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-700"
+          >
+            <option value="">Paid now</option>
+            {customers.map(customer => (
+              <option key={customer.id} value={customer.id}>
+                On credit: {customer.name}{customer.phone ? ` (${customer.phone})` : ''} — owes ${Number(customer.balance).toFixed(2)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <label className="flex items-center space-x-2 mt-4 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={issueInvoice}
+          disabled={creditCustomerId !== ''}
+          onChange={(e) => onIssueInvoiceChange(e.target.checked)}
+        />
+        <span>Issue GST invoice</span>
+      </label>
+      {issueInvoice && (
+        <div className="space-y-2 mt-2">
+          <input
+            type="text"
+            aria-label="Buyer name"
+            placeholder="Buyer name (optional)"
+            value={buyer.name}
+            onChange={(e) => onBuyerChange({ ...buyer, name: e.target.value })}
+            className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+          <input
+            type="text"
+            aria-label="Buyer GSTIN"
+            placeholder="Buyer GSTIN (optional)"
+            maxLength={15}
+            value={buyer.gstin}
+            onChange={(e) => onBuyerChange({ ...buyer, gstin: e.target.value })}
+            className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+          <textarea
+            aria-label="Buyer address"
+            placeholder="Buyer address (optional)"
+            rows={2}
+            value={buyer.address}
+            onChange={(e) => onBuyerChange({ ...buyer, address: e.target.value })}
+            className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </div>
+      )}
+      <Button className="w-full mt-4" onClick={onCheckout} disabled={cart.length === 0 || submitting}>
+        {submitting ? 'Recording...' : creditCustomerId ? 'Sell on credit' : issueInvoice ? 'Complete sale and invoice' : 'Complete sale'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { Button } from '../../components/ui/Button';
+
+type PriceRequestStatus = 'pending' | 'approved' | 'rejected';
+
+interface PriceRequest {
+  id: string;
+  product_id: string;
+  current_price: number;
+  requested_price: number;
+  base_version: number;
+  reason: string | null;
+  source: 'manual' | 'import';
+  status: PriceRequestStatus;
+  review_comment: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  product?: { name: string; sku: string; unit_price: number; version: number };
+}
+
+export default function PriceRequestsPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+  const isOwner = user?.role === 'owner';
+
+  const [status, setStatus] = useState<PriceRequestStatus>('pending');
+  const [requests, setRequests] = useState<PriceRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/price-requests?status=${status}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        if (res.status === 401) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      const json = await res.json();
+      setRequests(Array.isArray(json?.data) ? json.data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load price requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, logout, router]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const review = async (request: PriceRequest, action: 'approve' | 'reject') => {
+    setBusyId(request.id);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/price-requests/${request.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        // Approve against the version shown here so a concurrent edit is reported, not overwritten
+        body: JSON.stringify({
+          comment: comments[request.id] || undefined,
+          ...(action === 'approve' && request.product && { version: request.product.version })
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        if (err.error?.code === 'CONFLICT') {
+          throw new Error(`${request.product?.name ?? 'Product'} changed since this list loaded — review it again`);
+        }
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      await fetchRequests();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to ${action} price request`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">
+                {isOwner ? 'Price Change Approvals' : 'My Price Requests'}
+              </h2>
+              <select
+                aria-label="Request status"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as PriceRequestStatus)}
+                className="rounded-md border-gray-300 text-sm"
+              >
+                <option value="pending">Pending</option>
+                <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+              </select>
+            </div>
+
+            {error && <p className="text-red-500 mb-4">{error}</p>}
+
+            <div className="bg-white shadow rounded-lg overflow-x-auto">
+              {loading ? (
+                <p className="p-6 text-gray-500">Loading...</p>
+              ) : requests.length === 0 ? (
+                <p className="p-6 text-gray-500">No {status} price requests.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Product</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-500">Current</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-500">Requested</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Reason</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Submitted</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">
+                        {status === 'pending' ? (isOwner ? 'Review' : '') : 'Comment'}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {requests.map(request => {
+                      const livePrice = request.product?.unit_price ?? request.current_price;
+                      const priceMoved = Number(livePrice) !== Number(request.current_price);
+                      return (
+                        <tr key={request.id}>
+                          <td className="px-4 py-3">
+                            <div className="font-medium text-gray-900">{request.product?.name ?? request.product_id}</div>
+                            <div className="text-gray-500">{request.product?.sku}</div>
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            ${Number(livePrice).toFixed(2)}
+                            {priceMoved && (
+                              <div className="text-xs text-yellow-700">was ${Number(request.current_price).toFixed(2)} when requested</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right font-medium">${Number(request.requested_price).toFixed(2)}</td>
+                          <td className="px-4 py-3 text-gray-700">
+                            {request.reason || '—'}
+                            {request.source === 'import' && <span className="ml-2 text-xs text-gray-500">(CSV import)</span>}
+                          </td>
+                          <td className="px-4 py-3 text-gray-500">{new Date(request.created_at).toLocaleString()}</td>
+                          <td className="px-4 py-3">
+                            {status === 'pending' && isOwner ? (
+                              <div className="flex items-center space-x-2">
+                                <input
+                                  type="text"
+                                  aria-label="Review comment"
+                                  placeholder="Comment (optional)"
+                                  value={comments[request.id] ?? ''}
+                                  onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                                  className="rounded-md border-gray-300 text-sm"
+                                />
+                                <Button onClick={() => review(request, 'approve')} disabled={busyId === request.id}>
+                                  Approve
+                                </Button>
+                                <Button variant="secondary" onClick={() => review(request, 'reject')} disabled={busyId === request.id}>
+                                  Reject
+                                </Button>
+                              </div>
+                            ) : (
+                              <span className="text-gray-700">{request.review_comment || '—'}</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -11,6 +11,8 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { OfflineControls } from '../../components/OfflineControls';
 import { enqueueEdit, isSimulatedOffline } from '../../lib/offlineQueue';
+import { useBarcodeScanner } from '../../lib/useBarcodeScanner';
+import { downloadFile, unrenderedTextWarning } from '../../lib/downloadFile';
 
 interface Product {
   id: string;
@@ -19,9 +21,82 @@ interface Product {
   category: string;
   quantity: number;
   unit_price: number;
+  cost_price?: number | null;
+  barcode?: string | null;
+  parent_id?: string | null;
+  variant_values?: Record<string, string>;
+  parent?: ParentSummary | null;
   version: number;
+  stock?: LocationStock[];
+  // Most recent price changes, newest first
+  price_history?: PricePoint[];
+  on_order?: number;
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
 }
 
+// Parent product a variant belongs to, with totals over all its variants
+interface ParentSummary {
+  id: string;
+  sku: string;
+  name: string;
+  variant_attributes: string[];
+  rollup: {
+    variant_count: number;
+    total_quantity: number;
+    min_price: number;
+    max_price: number;
+    retail_value: number;
+  } | null;
+}
+
+// A standalone product, or a parent with the variants of it shown on this page
+type ProductGroup =
+  | { parent: null; products: [Product] }
+  | { parent: ParentSummary; products: Product[] };
+
+interface PricePoint {
+  selling_price: number;
+  cost_price: number | null;
+  created_at: string;
+}
+
+interface LocationStock {
+  location_id: string;
+  quantity: number;
+  location?: { name: string; code: string };
+}
+
+interface Location {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface AuditEntry {
+  id: string;
+  operation: 'create' | 'update' | 'delete';
+  source: 'ui' | 'import' | 'offline_sync' | 'price_request';
+  actor_email: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+}
+
+const AUDIT_SOURCE_LABELS: Record<AuditEntry['source'], string> = {
+  ui: 'edit',
+  import: 'CSV import',
+  offline_sync: 'offline sync',
+  price_request: 'price request'
+};
+
+// A4 label sheets the backend can lay out, as columns x rows
+const LABEL_TEMPLATES = [
+  { key: '3x8', label: '24 per sheet (3 x 8)', columns: 3, rows: 8 },
+  { key: '2x7', label: '14 per sheet (2 x 7)', columns: 2, rows: 7 },
+  { key: '4x10', label: '40 per sheet (4 x 10)', columns: 4, rows: 10 },
+  { key: '5x13', label: '65 per sheet (5 x 13)', columns: 5, rows: 13 },
+];
+
 export default function ProductsPage() {
   const { user, logout } = useAuth();
   const router = useRouter();
@@ -29,12 +104,28 @@ export default function ProductsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isParentModalOpen, setIsParentModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  // Barcode of a scanned pack that isn't in the catalogue yet, prefilled into the add form
+  const [scannedBarcode, setScannedBarcode] = useState<string | undefined>(undefined);
+  const [scanNotice, setScanNotice] = useState<string | null>(null);
+
+  // Products picked for shelf labels; kept across pages and filters
+  const [labelProducts, setLabelProducts] = useState<string[]>([]);
+  const [labelTemplate, setLabelTemplate] = useState(LABEL_TEMPLATES[0].key);
+  const [labelCopies, setLabelCopies] = useState(1);
+  const [labelBorders, setLabelBorders] = useState(true);
+  const [printingLabels, setPrintingLabels] = useState(false);
+  const [labelError, setLabelError] = useState<string | null>(null);
 
   // Search & Filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
 
+  // Store filter ('' = all stores, quantities are chain totals)
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [selectedLocation, setSelectedLocation] = useState<string>('');
+
   // Debounced filters to avoid firing requests on every keystroke
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [debouncedCategory, setDebouncedCategory] = useState<string>('All');
@@ -71,6 +162,7 @@ export default function ProductsPage() {
       const params = new URLSearchParams();
       if (debouncedSearch.trim()) params.set('search', debouncedSearch.trim());
       if (debouncedCategory && debouncedCategory !== 'All') params.set('category', debouncedCategory);
+      if (selectedLocation) params.set('location_id', selectedLocation);
       params.set('limit', String(pageSize));
       params.set('offset', String((page - 1) * pageSize));
 
@@ -108,28 +200,82 @@ export default function ProductsPage() {
     }
   };
 
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const token = await getSessionToken();
+        const response = await fetch('/api/locations', {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.success) setLocations(data.data || []);
+      } catch (error) {
+        console.error('Error fetching locations:', error);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
   useEffect(() => {
     // Reset to first page when filters change
     setPage(1);
-  }, [debouncedSearch, debouncedCategory]);
+  }, [debouncedSearch, debouncedCategory, selectedLocation]);
 
   useEffect(() => {
     fetchProducts();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debouncedSearch, debouncedCategory, page]);
+  }, [debouncedSearch, debouncedCategory, selectedLocation, page]);
 
   const handleAddProduct = () => {
     setSelectedProduct(null);
+    setScannedBarcode(undefined);
     setIsModalOpen(true);
   };
 
+  // A scan opens the matching product, or the add form prefilled with the barcode
+  const handleScan = async (code: string) => {
+    setScanNotice(null);
+    try {
+      const token = await getSessionToken();
+      const response = await fetch(`/api/products/by-barcode/${encodeURIComponent(code)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const json = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setSelectedProduct(json.data);
+        setIsModalOpen(true);
+      } else if (response.status === 404) {
+        if (user?.role === 'owner') {
+          setSelectedProduct(null);
+          setScannedBarcode(code);
+          setIsModalOpen(true);
+        } else {
+          setScanNotice(`No product has barcode ${code}. Ask an owner to add it.`);
+        }
+      } else {
+        setScanNotice(json.error?.message ? `${json.error.message}: ${code}` : `Could not look up barcode ${code}`);
+      }
+    } catch (e) {
+      setScanNotice(e instanceof Error ? e.message : `Could not look up barcode ${code}`);
+    }
+  };
+
+  useBarcodeScanner(handleScan, { enabled: !isModalOpen && !isParentModalOpen });
+
   const handleEditProduct = (product: Product) => {
     setSelectedProduct(product);
     setIsModalOpen(true);
   };
 
   const handleDeleteProduct = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this product?')) {
+    if (window.confirm('Move this product to the recycle bin? An owner can restore it later.')) {
       try {
         const token = await getSessionToken();
         if (isSimulatedOffline()) {
@@ -168,11 +314,114 @@ export default function ProductsPage() {
     return nameMatches && categoryMatches;
   });
 
+  const toggleLabel = (product: Product) => {
+    setLabelProducts(prev => (prev.includes(product.id) ? prev.filter(id => id !== product.id) : [...prev, product.id]));
+  };
+
+  const selectPageForLabels = () => {
+    setLabelProducts(prev => [...prev, ...filteredProducts.map(p => p.id).filter(id => !prev.includes(id))]);
+  };
+
+  const handlePrintLabels = async () => {
+    const template = LABEL_TEMPLATES.find(t => t.key === labelTemplate) ?? LABEL_TEMPLATES[0];
+    setPrintingLabels(true);
+    setLabelError(null);
+    try {
+      const unrendered = await downloadFile('/api/labels', 'shelf-labels.pdf', {
+        product_ids: labelProducts,
+        copies: labelCopies,
+        template: { columns: template.columns, rows: template.rows, borders: labelBorders },
+      });
+      setLabelError(unrenderedTextWarning(unrendered));
+    } catch (e) {
+      setLabelError(e instanceof Error ? e.message : 'Could not print labels');
+    } finally {
+      setPrintingLabels(false);
+    }
+  };
+
+  const labelCount = labelProducts.length;
+
+  // Variants are shown together under their parent, where the parent's first variant appears
+  const productGroups = filteredProducts.reduce<ProductGroup[]>((groups, product) => {
+    if (!product.parent) return [...groups, { parent: null, products: [product] }];
+    const existing = groups.find(group => group.parent?.id === product.parent?.id);
+    if (existing) {
+      existing.products.push(product);
+      return groups;
+    }
+    return [...groups, { parent: product.parent, products: [product] }];
+  }, []);
+
   const clearFilters = () => {
     setSearchQuery('');
     setSelectedCategory('All');
+    setSelectedLocation('');
   };
 
+  const renderProductCard = (product: Product) => (
+    <Card key={product.id} className="bg-white border-gray-200 hover:shadow-md transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-gray-900">{product.name}</CardTitle>
+            {product.variant_values && Object.keys(product.variant_values).length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">{Object.values(product.variant_values).join(' · ')}</p>
+            )}
+          </div>
+          <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+            <input type="checkbox" checked={labelProducts.includes(product.id)} onChange={() => toggleLabel(product)} />
+            Label
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-700"><span className="font-medium">SKU:</span> {product.sku}</p>
+          {product.barcode && (
+            <p className="text-gray-700"><span className="font-medium">Barcode:</span> {product.barcode}</p>
+          )}
+          <p className="text-gray-700"><span className="font-medium">Category:</span> {product.category}</p>
+          <p className="text-gray-700">
+            <span className="font-medium">Quantity:</span> {product.quantity}
+            {!!product.on_order && (
+              <span className="ml-2 text-blue-700">(+{product.on_order} on order)</span>
+            )}
+          </p>
+          {product.stock && product.stock.length > 1 && (
+            <ul className="text-xs text-gray-600 pl-3 border-l border-gray-200">
+              {product.stock.map(row => (
+                <li
+                  key={row.location_id}
+                  className={row.location_id === selectedLocation ? 'font-semibold text-gray-800' : undefined}
+                >
+                  {row.location?.name ?? row.location_id}: {row.quantity}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center justify-between">
+            <p className="text-gray-700"><span className="font-medium">Price:</span> ${product.unit_price.toFixed(2)}</p>
+            <PriceSparkline points={product.price_history ?? []} />
+          </div>
+          {product.cost_price != null && (
+            <p className="text-gray-700">
+              <span className="font-medium">Margin:</span> {formatMargin(product.unit_price, product.cost_price)}
+              <span className="text-gray-500 text-xs"> (cost ${Number(product.cost_price).toFixed(2)})</span>
+            </p>
+          )}
+          <p className="text-gray-500 text-xs"><span className="font-medium">Version:</span> {product.version}</p>
+        </div>
+        <div className="flex justify-end space-x-2 mt-4">
+          <Button variant="secondary" onClick={() => handleEditProduct(product)}>Edit</Button>
+          {user?.role === 'owner' && (
+            <Button variant="danger" onClick={() => handleDeleteProduct(product.id)}>Delete</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="min-h-screen bg-gray-100">
       <nav className="bg-white shadow">
@@ -195,6 +444,30 @@ export default function ProductsPage() {
                 >
                   Products
                   </Link>
+                <Link
+                  href="/pos"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Point of Sale
+                </Link>
+                <Link
+                  href="/returns"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Returns
+                </Link>
+                <Link
+                  href="/customers"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Customers
+                </Link>
+                <Link
+                  href="/stock-takes"
+                  className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Stock Take
+                </Link>
                 
                     <Link
                       href="/import"
@@ -202,6 +475,12 @@ export default function ProductsPage() {
                     >
                       Import CSV
                     </Link>
+                    <Link
+                      href="/price-requests"
+                      className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Price Requests
+                    </Link>
                  
                 </div>
             </div>
@@ -229,7 +508,13 @@ export default function ProductsPage() {
           <div className="flex justify-between items-center mb-6">
             <h1 className="text-2xl font-bold text-gray-900">Products</h1>
             {user?.role === 'owner' && (
-              <Button onClick={handleAddProduct}>Add Product</Button>
+              <div className="flex items-center space-x-3">
+                <Link href="/recycle-bin" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Recycle bin
+                </Link>
+                <Button variant="secondary" onClick={() => setIsParentModalOpen(true)}>Add Parent Product</Button>
+                <Button onClick={handleAddProduct}>Add Product</Button>
+              </div>
             )}
           </div>
           <div className="mb-4"><OfflineControls /></div>
@@ -247,6 +532,21 @@ export default function ProductsPage() {
                   className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
                 />
               </div>
+              {locations.length > 1 && (
+                <div className="w-full md:w-1/4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+                  <select
+                    value={selectedLocation}
+                    onChange={(e) => setSelectedLocation(e.target.value)}
+                    className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                  >
+                    <option value="">All stores</option>
+                    {locations.map(location => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <Button variant="secondary" onClick={clearFilters}>Clear</Button>
               </div>
@@ -280,6 +580,58 @@ export default function ProductsPage() {
             </div>
           )}
 
+          {scanNotice && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+              {scanNotice}
+            </div>
+          )}
+
+          {labelCount > 0 && (
+            <div className="bg-white border rounded p-4 mb-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="text-sm text-gray-700 mr-auto">
+                  <span className="font-medium">{labelCount}</span> product{labelCount === 1 ? '' : 's'} selected for labels
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Sheet</label>
+                  <select
+                    value={labelTemplate}
+                    onChange={(e) => setLabelTemplate(e.target.value)}
+                    className="block rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                  >
+                    {LABEL_TEMPLATES.map(template => (
+                      <option key={template.key} value={template.key}>{template.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Copies each</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={labelCopies}
+                    onChange={(e) => setLabelCopies(Math.max(1, Math.min(100, Math.floor(Number(e.target.value)) || 1)))}
+                    className="block w-20 rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                  <input type="checkbox" checked={labelBorders} onChange={(e) => setLabelBorders(e.target.checked)} />
+                  Cut lines
+                </label>
+                <Button variant="secondary" onClick={() => setLabelProducts([])}>Clear selection</Button>
+                <Button onClick={handlePrintLabels} disabled={printingLabels}>
+                  {printingLabels ? 'Preparing...' : 'Print labels'}
+                </Button>
+              </div>
+              {labelError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mt-3">
+                  {labelError}
+                </div>
+              )}
+            </div>
+          )}
+
           {loading ? (
             <div className="flex justify-center items-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
@@ -287,32 +639,39 @@ export default function ProductsPage() {
             </div>
           ) : (
             <>
-              <div className="text-sm text-gray-600 mb-3">
-                Showing {products.length} of {totalCount ?? products.length} products
+              <div className="flex items-center justify-between mb-3">
+                <div className="text-sm text-gray-600">
+                  Showing {products.length} of {totalCount ?? products.length} products
+                </div>
+                {filteredProducts.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={selectPageForLabels}>Select page for labels</Button>
+                )}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {filteredProducts.map((product) => (
-                  <Card key={product.id} className="bg-white border-gray-200 hover:shadow-md transition-shadow duration-200">
-                    <CardHeader>
-                      <CardTitle className="text-gray-900">{product.name}</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2 text-sm">
-                        <p className="text-gray-700"><span className="font-medium">SKU:</span> {product.sku}</p>
-                        <p className="text-gray-700"><span className="font-medium">Category:</span> {product.category}</p>
-                        <p className="text-gray-700"><span className="font-medium">Quantity:</span> {product.quantity}</p>
-                        <p className="text-gray-700"><span className="font-medium">Price:</span> ${product.unit_price.toFixed(2)}</p>
-                        <p className="text-gray-500 text-xs"><span className="font-medium">Version:</span> {product.version}</p>
+                {productGroups.map(group => group.parent ? (
+                  <div key={`parent-${group.parent.id}`} className="md:col-span-2 lg:col-span-3 border border-gray-200 rounded-lg bg-gray-50 p-4">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                      <div>
+                        <h2 className="text-lg font-semibold text-gray-900">{group.parent.name}</h2>
+                        <p className="text-xs text-gray-500">Parent SKU {group.parent.sku}</p>
                       </div>
-                      <div className="flex justify-end space-x-2 mt-4">
-                        <Button variant="secondary" onClick={() => handleEditProduct(product)}>Edit</Button>
-                        {user?.role === 'owner' && (
-                          <Button variant="danger" onClick={() => handleDeleteProduct(product.id)}>Delete</Button>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                      {group.parent.rollup && (
+                        <div className="text-sm text-gray-700 space-x-4">
+                          <span><span className="font-medium">{group.parent.rollup.variant_count}</span> variants</span>
+                          <span><span className="font-medium">Total qty:</span> {group.parent.rollup.total_quantity}</span>
+                          <span>
+                            <span className="font-medium">Price:</span> ${group.parent.rollup.min_price.toFixed(2)}
+                            {group.parent.rollup.max_price !== group.parent.rollup.min_price && ` – $${group.parent.rollup.max_price.toFixed(2)}`}
+                          </span>
+                          <span><span className="font-medium">Retail value:</span> ${group.parent.rollup.retail_value.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {group.products.map(renderProductCard)}
+                    </div>
+                  </div>
+                ) : renderProductCard(group.products[0]))}
               </div>
               {/* Pagination controls */}
               <div className="flex items-center justify-between mt-4">
@@ -342,11 +701,189 @@ export default function ProductsPage() {
       </main>
 
       <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedProduct ? 'Edit Product' : 'Add Product'}>
-        <ProductForm product={selectedProduct} onFinished={() => {
+        <ProductForm product={selectedProduct} locationId={selectedLocation || undefined} initialBarcode={scannedBarcode} onFinished={() => {
           setIsModalOpen(false);
           fetchProducts();
         }} />
+        {selectedProduct && <ProductHistory productId={selectedProduct.id} />}
+      </Modal>
+
+      <Modal isOpen={isParentModalOpen} onClose={() => setIsParentModalOpen(false)} title="Add Parent Product">
+        <ParentProductForm onFinished={() => setIsParentModalOpen(false)} />
       </Modal>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Gross margin as a share of the selling price
+function formatMargin(sellingPrice: number, costPrice: number) {
+  if (!sellingPrice) return '—';
+  const margin = ((sellingPrice - Number(costPrice)) / sellingPrice) * 100;
+  return `${margin.toFixed(1)}%`;
+}
+
+function PriceSparkline({ points }: { points: PricePoint[] }) {
+  if (points.length < 2) return null;
+
+  // API returns newest first; draw oldest to newest
+  const prices = points.map(point => Number(point.selling_price)).reverse();
+  const width = 64;
+  const height = 20;
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const path = prices
+    .map((price, index) => {
+      const x = (index / (prices.length - 1)) * width;
+      const y = height - ((price - min) / range) * (height - 2) - 1;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const rising = prices[prices.length - 1] >= prices[0];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-label="Price history" role="img">
+      <path d={path} fill="none" stroke={rising ? '#059669' : '#dc2626'} strokeWidth="1.5" />
+    </svg>
+  );
+}
+
+function formatAuditValue(value: unknown) {
+  return value === null || value === undefined ? '—' : String(value);
+}
+
+function ProductHistory({ productId }: { productId: string }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const token = await getSessionToken();
+        const res = await fetch(`/api/products/${productId}/history?limit=20`, {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(json?.data)) {
+          throw new Error(json?.error?.message || `HTTP error: ${res.status}`);
+        }
+        setEntries(json.data);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [productId]);
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">History</h3>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No recorded changes yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-64 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300"></div>
+              <p className="text-xs text-gray-500">
+                {new Date(entry.created_at).toLocaleString()} · {entry.actor_email ?? 'unknown user'} · {AUDIT_SOURCE_LABELS[entry.source] ?? entry.source}
+              </p>
+              <p className="text-sm font-medium text-gray-900 capitalize">{entry.operation}</p>
+              {entry.operation === 'update' && (
+                <ul className="text-sm text-gray-700">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <li key={field}>
+                      <span className="text-gray-500">{field.replace(/_/g, ' ')}:</span>{' '}
+                      <span className="line-through text-gray-400">{formatAuditValue(change.from)}</span>{' → '}
+                      <span>{formatAuditValue(change.to)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// Creates a parent that variants can then be assigned to from the product form
+function ParentProductForm({ onFinished }: { onFinished: () => void }) {
+  const [sku, setSku] = useState('');
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [attributes, setAttributes] = useState('size');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const response = await fetch('/api/parent-products', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          sku: sku.trim(),
+          name: name.trim(),
+          category: category.trim() || null,
+          variant_attributes: attributes.split(',').map(attribute => attribute.trim()).filter(Boolean),
+        }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(json.error?.message || `HTTP error: ${response.status}`);
+      onFinished();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create parent product');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && <p className="text-red-500">{error}</p>}
+      <p className="text-sm text-gray-600">
+        A parent groups variants such as sizes or flavours. Each variant stays a product with its own SKU, stock and price;
+        pick the parent under &quot;Variant of&quot; when adding or editing the variant.
+      </p>
+      <div>
+        <label htmlFor="parentSku" className="block text-sm font-medium text-gray-700">Parent SKU</label>
+        <input type="text" id="parentSku" value={sku} onChange={(e) => setSku(e.target.value)} required maxLength={64} className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+      </div>
+      <div>
+        <label htmlFor="parentName" className="block text-sm font-medium text-gray-700">Name</label>
+        <input type="text" id="parentName" value={name} onChange={(e) => setName(e.target.value)} required placeholder="e.g. Coca Cola" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+      </div>
+      <div>
+        <label htmlFor="parentCategory" className="block text-sm font-medium text-gray-700">Category</label>
+        <input type="text" id="parentCategory" value={category} onChange={(e) => setCategory(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+      </div>
+      <div>
+        <label htmlFor="parentAttributes" className="block text-sm font-medium text-gray-700">Variant attributes</label>
+        <input type="text" id="parentAttributes" value={attributes} onChange={(e) => setAttributes(e.target.value)} placeholder="size, flavour, pack" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+        <p className="text-xs text-gray-500 mt-1">Comma-separated, up to 5</p>
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { Button } from '../../components/ui/Button';
+
+interface ArchivedProduct {
+  id: string;
+  name: string;
+  sku: string;
+  category: string | null;
+  quantity: number;
+  archived_at: string;
+  purgeable_at: string;
+  purgeable: boolean;
+}
+
+export default function RecycleBinPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+
+  const [products, setProducts] = useState<ArchivedProduct[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  const fetchArchived = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch('/api/products/archived', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        if (res.status === 401) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      const json = await res.json();
+      setProducts(Array.isArray(json?.data) ? json.data : []);
+      setRetentionDays(json?.retention_days ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the recycle bin');
+    } finally {
+      setLoading(false);
+    }
+  }, [logout, router]);
+
+  useEffect(() => {
+    if (user?.role === 'owner') fetchArchived();
+  }, [user, fetchArchived]);
+
+  const runAction = async (product: ArchivedProduct, action: 'restore' | 'purge') => {
+    if (action === 'purge' && !window.confirm(`Permanently delete ${product.name}? This cannot be undone.`)) return;
+
+    setBusyId(product.id);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/products/${product.id}/${action}`, {
+        method: action === 'restore' ? 'POST' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      await fetchArchived();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to ${action} product`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Recycle Bin</h2>
+              {retentionDays !== null && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Deleted products can be restored at any time and permanently purged after {retentionDays} days.
+                </p>
+              )}
+            </div>
+
+            {user && user.role !== 'owner' ? (
+              <p className="text-gray-600">Only owners can manage the recycle bin.</p>
+            ) : (
+              <>
+                {error && <p className="text-red-500 mb-4">{error}</p>}
+
+                <div className="bg-white shadow rounded-lg overflow-x-auto">
+                  {loading ? (
+                    <p className="p-6 text-gray-500">Loading...</p>
+                  ) : products.length === 0 ? (
+                    <p className="p-6 text-gray-500">The recycle bin is empty.</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Product</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Quantity</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Deleted</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Purge from</th>
+                          <th className="px-4 py-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {products.map(product => (
+                          <tr key={product.id}>
+                            <td className="px-4 py-3">
+                              <div className="font-medium text-gray-900">{product.name}</div>
+                              <div className="text-gray-500">{product.sku}{product.category && ` · ${product.category}`}</div>
+                            </td>
+                            <td className="px-4 py-3 text-right">{product.quantity}</td>
+                            <td className="px-4 py-3 text-gray-500">{new Date(product.archived_at).toLocaleString()}</td>
+                            <td className="px-4 py-3 text-gray-500">{new Date(product.purgeable_at).toLocaleDateString()}</td>
+                            <td className="px-4 py-3">
+                              <div className="flex justify-end space-x-2">
+                                <Button variant="secondary" onClick={() => runAction(product, 'restore')} disabled={busyId === product.id}>
+                                  Restore
+                                </Button>
+                                <Button variant="danger" onClick={() => runAction(product, 'purge')} disabled={busyId === product.id || !product.purgeable}>
+                                  Purge
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
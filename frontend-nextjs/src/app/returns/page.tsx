@@ -0,0 +1,576 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { enqueueEdit, isSimulatedOffline } from '../../lib/offlineQueue';
+import { downloadFile, unrenderedTextWarning } from '../../lib/downloadFile';
+import { OfflineControls } from '../../components/OfflineControls';
+import { Button } from '../../components/ui/Button';
+
+type Disposition = 'restock' | 'damaged';
+
+interface ReturnProduct {
+  id: string;
+  name: string;
+  sku: string;
+  unit_price: number;
+  version: number;
+}
+
+interface ReturnLine {
+  product: ReturnProduct;
+  quantity: number;
+  disposition: Disposition;
+}
+
+interface LineError {
+  sku?: string;
+  message: string;
+  sold?: number;
+  returned?: number;
+}
+
+interface RecordedReturn {
+  id: string;
+  credit_note_number: string;
+  return_date: string;
+  sale_id: string | null;
+  reason: string | null;
+  total: number;
+  lines: Array<{ quantity: number; disposition: Disposition }>;
+}
+
+const DISPOSITION_LABELS: Record<Disposition, string> = {
+  restock: 'Restock',
+  damaged: 'Write off as damaged',
+};
+
+const MAX_RESULTS = 8;
+
+const lineKey = (line: { product: { id: string }; disposition: Disposition }) => `${line.product.id}:${line.disposition}`;
+
+// Unique per return so one retried by the offline queue is only recorded once
+const newClientReference = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const creditNoteFilename = (number: string) => `credit-note-${number.replace(/\//g, '-')}.pdf`;
+
+export default function ReturnsPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+
+  const [products, setProducts] = useState<ReturnProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [locations, setLocations] = useState<Array<{ id: string; name: string; is_default: boolean }>>([]);
+  const [locationId, setLocationId] = useState('');
+
+  const [search, setSearch] = useState('');
+  const [lines, setLines] = useState<ReturnLine[]>([]);
+  const [saleId, setSaleId] = useState('');
+  const [reason, setReason] = useState('');
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [issued, setIssued] = useState<{ id: string; credit_note_number: string } | null>(null);
+
+  const [recent, setRecent] = useState<RecordedReturn[]>([]);
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/locations', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (json?.success && Array.isArray(json.data)) {
+          setLocations(json.data);
+          const defaultLocation = json.data.find((location: { is_default: boolean }) => location.is_default);
+          if (defaultLocation) setLocationId(String(defaultLocation.id));
+        }
+      } catch (e) {
+        console.error('Failed to load locations:', e);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      setLoading(true);
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/products?limit=500', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) {
+          if (res.status === 401) {
+            await logout();
+            router.push('/login');
+            return;
+          }
+          const err = await res.json().catch(() => ({}));
+          throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+        }
+        const json = await res.json();
+        setProducts(Array.isArray(json?.data) ? json.data : []);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load products');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProducts();
+  }, [logout, router]);
+
+  const fetchRecent = useCallback(async () => {
+    try {
+      const token = await getSessionToken();
+      const res = await fetch('/api/returns?limit=20', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) return;
+      const json = await res.json();
+      setRecent(Array.isArray(json?.data) ? json.data : []);
+    } catch (e) {
+      console.error('Failed to load returns:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecent();
+  }, [fetchRecent]);
+
+  // SKU matches exactly (as a scanner types it); names match on any part
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return products
+      .filter(product => product.sku.toLowerCase() === term || product.name.toLowerCase().includes(term))
+      .slice(0, MAX_RESULTS);
+  }, [products, search]);
+
+  const addLine = (product: ReturnProduct, disposition: Disposition) => {
+    const key = lineKey({ product, disposition });
+    setLines(prev => prev.some(line => lineKey(line) === key)
+      ? prev.map(line => lineKey(line) === key ? { ...line, quantity: line.quantity + 1 } : line)
+      : [...prev, { product, quantity: 1, disposition }]);
+    setSearch('');
+    setMessage(null);
+    setIssued(null);
+  };
+
+  const setLineQuantity = (key: string, quantity: number) => {
+    setLines(prev => quantity <= 0
+      ? prev.filter(line => lineKey(line) !== key)
+      : prev.map(line => lineKey(line) === key ? { ...line, quantity } : line));
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const term = search.trim().toLowerCase();
+    const exactSku = products.find(product => product.sku.toLowerCase() === term);
+    if (exactSku) {
+      addLine(exactSku, 'restock');
+    } else if (matches.length === 1) {
+      addLine(matches[0], 'restock');
+    }
+  };
+
+  const downloadCreditNote = async (record: { id: string; credit_note_number: string }) => {
+    try {
+      const unrendered = await downloadFile(`/api/returns/${record.id}.pdf`, creditNoteFilename(record.credit_note_number));
+      setError(unrenderedTextWarning(unrendered));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to download credit note');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (lines.length === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+    setLineErrors({});
+    setMessage(null);
+    setIssued(null);
+
+    const payload = {
+      ...(locationId && { location_id: locationId }),
+      ...(saleId.trim() && { sale_id: saleId.trim() }),
+      ...(reason.trim() && { reason: reason.trim() }),
+      client_reference: newClientReference(),
+      // Restocking is checked against the product as this page loaded it
+      lines: lines.map(line => ({
+        sku: line.product.sku,
+        quantity: line.quantity,
+        disposition: line.disposition,
+        ...(line.disposition === 'restock' && { version: line.product.version }),
+      })),
+    };
+
+    const reset = () => {
+      setLines([]);
+      setSaleId('');
+      setReason('');
+    };
+
+    try {
+      if (isSimulatedOffline()) {
+        await enqueueEdit({ url: '/api/returns', method: 'POST', body: payload });
+        setMessage('Return saved offline — the credit note will be issued when the connection is back.');
+        reset();
+        return;
+      }
+
+      const token = await getSessionToken();
+      let res: Response;
+      try {
+        res = await fetch('/api/returns', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+          body: JSON.stringify(payload),
+        });
+      } catch {
+        // Network failure: keep the return and let the offline queue sync it
+        await enqueueEdit({ url: '/api/returns', method: 'POST', body: payload });
+        setMessage('Return saved offline — the credit note will be issued when the connection is back.');
+        reset();
+        return;
+      }
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const errors = json.error?.details?.lines as LineError[] | undefined;
+        if (Array.isArray(errors)) {
+          setLineErrors(Object.fromEntries(errors.filter(line => line.sku).map(line => [
+            String(line.sku),
+            line.sold !== undefined
+              ? `Only ${line.sold - (line.returned ?? 0)} left to return ${payload.sale_id ? 'on this sale' : '(sold and not yet returned)'}`
+              : line.message,
+          ])));
+        }
+        if (json.error?.code === 'CONFLICT') {
+          const changed = lines.find(line => String(line.product.id) === String(json.error.details?.id));
+          throw new Error(`${changed?.product.name ?? 'A product'} changed since this page loaded — reload it and try again`);
+        }
+        throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      }
+
+      setMessage(`Credit note ${json.data.credit_note_number} issued: refund $${Number(json.data.total).toFixed(2)}`);
+      setIssued({ id: json.data.id, credit_note_number: json.data.credit_note_number });
+      reset();
+      fetchRecent();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Customer Returns</h2>
+              {locations.length > 1 && (
+                <select
+                  aria-label="Store"
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-gray-700"
+                >
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="mb-4"><OfflineControls /></div>
+
+            {error && <p className="text-red-500 mb-4">{error}</p>}
+
+            {message && (
+              <div className="flex items-center justify-between bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded mb-4">
+                <span>{message}</span>
+                {issued && (
+                  <Button variant="secondary" onClick={() => downloadCreditNote(issued)}>
+                    Print credit note
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white shadow rounded-lg p-4">
+                <input
+                  type="text"
+                  autoFocus
+                  aria-label="Find product"
+                  placeholder="Scan or type the SKU or name of the returned product"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+                />
+                {loading ? (
+                  <p className="mt-4 text-gray-500">Loading products...</p>
+                ) : search.trim() && matches.length === 0 ? (
+                  <p className="mt-4 text-gray-500">No products match &quot;{search.trim()}&quot;.</p>
+                ) : (
+                  <ul className="mt-4 divide-y divide-gray-200">
+                    {matches.map(product => (
+                      <li key={product.id} className="flex items-center justify-between py-2">
+                        <div>
+                          <div className="font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500">{product.sku} · ${Number(product.unit_price).toFixed(2)}</div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Button onClick={() => addLine(product, 'restock')}>Restock</Button>
+                          <Button variant="secondary" onClick={() => addLine(product, 'damaged')}>Damaged</Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white shadow rounded-lg p-4">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Returned items</h3>
+                {lines.length === 0 ? (
+                  <p className="text-gray-500">Nothing added yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {lines.map(line => {
+                      const key = lineKey(line);
+                      const lineError = lineErrors[line.product.sku];
+                      return (
+                        <li key={key} className="py-2">
+                          <div className="flex items-center justify-between">
+                            <div className="text-sm">
+                              <div className="font-medium text-gray-900">{line.product.name}</div>
+                              <div className={line.disposition === 'damaged' ? 'text-red-600' : 'text-gray-500'}>
+                                {DISPOSITION_LABELS[line.disposition]}
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="number"
+                                min={0}
+                                aria-label={`Quantity of ${line.product.name} (${DISPOSITION_LABELS[line.disposition]})`}
+                                value={line.quantity}
+                                onChange={(e) => setLineQuantity(key, parseInt(e.target.value, 10) || 0)}
+                                className="w-16 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                              />
+                              <button
+                                onClick={() => setLineQuantity(key, 0)}
+                                className="text-sm text-red-600 hover:text-red-800"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          </div>
+                          {lineError && <div className="text-xs text-red-600 mt-1">{lineError}</div>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                <div className="space-y-2 border-t mt-3 pt-3">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    aria-label="Original sale number"
+                    placeholder="Original sale # (optional)"
+                    value={saleId}
+                    onChange={(e) => setSaleId(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                  />
+                  <textarea
+                    aria-label="Reason"
+                    placeholder="Reason (optional)"
+                    rows={2}
+                    maxLength={500}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                  />
+                  <p className="text-xs text-gray-500">
+                    With a sale number the refund is what the customer paid; otherwise today&apos;s price.
+                  </p>
+                </div>
+                <Button className="w-full mt-4" onClick={handleSubmit} disabled={lines.length === 0 || submitting}>
+                  {submitting ? 'Recording...' : 'Record return and issue credit note'}
+                </Button>
+              </div>
+            </div>
+
+            <RecentReturns returns={recent} onDownload={downloadCreditNote} />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function RecentReturns({
+  returns,
+  onDownload,
+}: {
+  returns: RecordedReturn[];
+  onDownload: (record: RecordedReturn) => void;
+}) {
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Recent returns</h3>
+      {returns.length === 0 ? (
+        <div className="bg-white border rounded p-4 text-gray-600 text-sm">No returns recorded yet.</div>
+      ) : (
+        <div className="bg-white border rounded overflow-x-auto">
+          <table className="min-w-full text-sm text-gray-700">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">Credit note</th>
+                <th className="px-4 py-2 font-medium">Date</th>
+                <th className="px-4 py-2 font-medium">Sale</th>
+                <th className="px-4 py-2 font-medium text-right">Restocked</th>
+                <th className="px-4 py-2 font-medium text-right">Damaged</th>
+                <th className="px-4 py-2 font-medium text-right">Refund</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {returns.map(record => {
+                const units = (disposition: Disposition) => record.lines
+                  .filter(line => line.disposition === disposition)
+                  .reduce((sum, line) => sum + line.quantity, 0);
+                return (
+                  <tr key={record.id}>
+                    <td className="px-4 py-2 font-medium">{record.credit_note_number}</td>
+                    <td className="px-4 py-2">{record.return_date}</td>
+                    <td className="px-4 py-2">{record.sale_id ? `#${record.sale_id}` : '—'}</td>
+                    <td className="px-4 py-2 text-right">{units('restock')}</td>
+                    <td className="px-4 py-2 text-right">{units('damaged')}</td>
+                    <td className="px-4 py-2 text-right">${Number(record.total).toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => onDownload(record)} className="text-indigo-600 hover:text-indigo-800">
+                        Credit note PDF
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
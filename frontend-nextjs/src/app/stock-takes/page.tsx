@@ -0,0 +1,701 @@
+'use client';
+
+import { useAuth } from '../../lib/authContext';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { getSessionToken } from '../../lib/supabaseClient';
+import { enqueueEdit, isSimulatedOffline } from '../../lib/offlineQueue';
+import { OfflineControls } from '../../components/OfflineControls';
+import { Button } from '../../components/ui/Button';
+
+type StockTakeStatus = 'counting' | 'approved' | 'cancelled';
+
+interface StockTake {
+  id: string;
+  location_id: string;
+  status: StockTakeStatus;
+  category: string | null;
+  note: string | null;
+  approved_at: string | null;
+  created_at: string;
+  location?: { name: string; code: string } | null;
+}
+
+interface StockTakeLine {
+  product_id: string;
+  // Only sent to owners; staff count blind
+  expected_quantity?: number;
+  counted_quantity: number | null;
+  product: { sku: string; name: string; category: string | null } | null;
+}
+
+interface VarianceLine {
+  product_id: string;
+  sku: string | null;
+  name: string | null;
+  expected: number;
+  counted: number | null;
+  variance: number;
+  unit_cost: number | null;
+  variance_value: number | null;
+  status: 'short' | 'over' | 'match' | 'uncounted';
+}
+
+interface VarianceReport {
+  summary: {
+    products: number;
+    counted: number;
+    uncounted: number;
+    with_variance: number;
+    shortage_units: number;
+    shortage_value: number;
+    surplus_units: number;
+    surplus_value: number;
+    net_units: number;
+    net_value: number;
+    unvalued: number;
+  };
+  lines: VarianceLine[];
+}
+
+const STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+// Unique per count so one retried by the offline queue is only added once
+const newClientReference = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export default function StockTakesPage() {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+  const isOwner = user?.role === 'owner';
+
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [locations, setLocations] = useState<Array<{ id: string; name: string; is_default: boolean }>>([]);
+  const [locationId, setLocationId] = useState('');
+  const [category, setCategory] = useState('');
+  const [note, setNote] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const handleLogout = async () => {
+    const result = await logout();
+    if (result.success) {
+      router.push('/login');
+    } else {
+      console.error('Logout failed:', result.message);
+    }
+  };
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const token = await getSessionToken();
+        const res = await fetch('/api/locations', {
+          headers: {
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+        });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (json?.success && Array.isArray(json.data)) {
+          setLocations(json.data);
+          const defaultLocation = json.data.find((location: { is_default: boolean }) => location.is_default);
+          if (defaultLocation) setLocationId(String(defaultLocation.id));
+        }
+      } catch (e) {
+        console.error('Failed to load locations:', e);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  const fetchStockTakes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch('/api/stock-takes?limit=20', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!res.ok) {
+        if (res.status === 401) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+      }
+      const json = await res.json();
+      const data: StockTake[] = Array.isArray(json?.data) ? json.data : [];
+      setStockTakes(data);
+      // Open the count in progress by default
+      setSelectedId(current => current ?? data.find(stockTake => stockTake.status === 'counting')?.id ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load stock takes');
+    } finally {
+      setLoading(false);
+    }
+  }, [logout, router]);
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [fetchStockTakes]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStarting(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch('/api/stock-takes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({
+          ...(locationId && { location_id: locationId }),
+          ...(category.trim() && { category: category.trim() }),
+          ...(note.trim() && { note: note.trim() }),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      setCategory('');
+      setNote('');
+      setSelectedId(String(json.data.id));
+      fetchStockTakes();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to start stock take');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const selected = stockTakes.find(stockTake => String(stockTake.id) === String(selectedId)) ?? null;
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <nav className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between h-16">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 flex items-center">
+                  <h1 className="text-xl font-bold text-gray-900">MSME Inventory Lite</h1>
+                </div>
+                <div className="ml-10 flex items-baseline space-x-4">
+                  <Link
+                    href="/dashboard"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Dashboard
+                  </Link>
+                  <Link
+                    href="/products"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Products
+                  </Link>
+                  <Link
+                    href="/pos"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Point of Sale
+                  </Link>
+                  <Link
+                    href="/returns"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Returns
+                  </Link>
+                  <Link
+                    href="/customers"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Customers
+                  </Link>
+                  <Link
+                    href="/stock-takes"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium bg-gray-100"
+                  >
+                    Stock Take
+                  </Link>
+                  <Link
+                    href="/import"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Import CSV
+                  </Link>
+                  <Link
+                    href="/price-requests"
+                    className="text-gray-900 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Price Requests
+                  </Link>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <div className="ml-3 relative">
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-medium text-gray-700">
+                      {user?.email} ({user?.role})
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Logout
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Stock Take</h2>
+
+            <div className="mb-4"><OfflineControls /></div>
+
+            {error && <p className="text-red-500 mb-4">{error}</p>}
+
+            {isOwner && (
+              <form onSubmit={handleStart} className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap items-end gap-3">
+                {locations.length > 1 && (
+                  <div>
+                    <label htmlFor="stockTakeLocation" className="block text-xs text-gray-600">Store</label>
+                    <select
+                      id="stockTakeLocation"
+                      value={locationId}
+                      onChange={(e) => setLocationId(e.target.value)}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700"
+                    >
+                      {locations.map(location => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="stockTakeCategory" className="block text-xs text-gray-600">Category</label>
+                  <input
+                    id="stockTakeCategory"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="All categories"
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                  />
+                </div>
+                <div className="flex-1 min-w-[10rem]">
+                  <label htmlFor="stockTakeNote" className="block text-xs text-gray-600">Note</label>
+                  <input
+                    id="stockTakeNote"
+                    maxLength={500}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="e.g. October month-end count"
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                  />
+                </div>
+                <Button type="submit" disabled={starting}>{starting ? 'Starting...' : 'Start stock take'}</Button>
+                <p className="w-full text-xs text-gray-500">
+                  Starting freezes the expected quantity of every product at the store. Keep selling as usual; sales made while counting are kept when the count is approved.
+                </p>
+              </form>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white shadow rounded-lg p-4">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Recent stock takes</h3>
+                {loading ? (
+                  <p className="text-gray-500">Loading stock takes...</p>
+                ) : stockTakes.length === 0 ? (
+                  <p className="text-gray-500">No stock takes yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {stockTakes.map(stockTake => (
+                      <li key={stockTake.id}>
+                        <button
+                          onClick={() => setSelectedId(String(stockTake.id))}
+                          className={`w-full text-left py-2 px-2 rounded ${String(stockTake.id) === String(selectedId) ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900">#{stockTake.id} · {stockTake.location?.name ?? 'Store'}</span>
+                            <span className={`text-sm ${stockTake.status === 'counting' ? 'text-indigo-600' : 'text-gray-500'}`}>
+                              {STATUS_LABELS[stockTake.status]}
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {new Date(stockTake.created_at).toLocaleDateString()}
+                            {stockTake.category && ` · ${stockTake.category}`}
+                            {stockTake.note && ` · ${stockTake.note}`}
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="lg:col-span-2 space-y-6">
+                {selected ? (
+                  <StockTakeDetail key={selected.id} stockTake={selected} isOwner={isOwner} onChanged={fetchStockTakes} />
+                ) : (
+                  <div className="bg-white shadow rounded-lg p-4 text-gray-500">
+                    {isOwner ? 'Start a stock take or pick one from the list.' : 'Pick a stock take to enter counts. An owner starts each count.'}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function StockTakeDetail({ stockTake, isOwner, onChanged }: { stockTake: StockTake; isOwner: boolean; onChanged: () => void }) {
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [sku, setSku] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [saving, setSaving] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const [report, setReport] = useState<VarianceReport | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const isOpen = stockTake.status === 'counting';
+
+  const fetchLines = useCallback(async () => {
+    setLoading(true);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/stock-takes/${stockTake.id}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      setLines(Array.isArray(json.data?.lines) ? json.data.lines : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load stock take');
+    } finally {
+      setLoading(false);
+    }
+  }, [stockTake.id]);
+
+  useEffect(() => {
+    fetchLines();
+  }, [fetchLines]);
+
+  const fetchReport = async () => {
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/stock-takes/${stockTake.id}/variance`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      setReport(json.data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load variance report');
+    }
+  };
+
+  const handleCount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = { sku: sku.trim(), quantity: parseInt(quantity, 10) };
+    if (!count.sku || !count.quantity) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    const url = `/api/stock-takes/${stockTake.id}/counts`;
+    const body = { counts: [count], client_reference: newClientReference() };
+
+    const queueCount = async () => {
+      await enqueueEdit({ url, method: 'POST', body });
+      setMessage(`${count.quantity} × ${count.sku} saved offline — it will sync when the connection is back.`);
+      setSku('');
+      setQuantity('1');
+    };
+
+    try {
+      if (isSimulatedOffline()) {
+        await queueCount();
+        return;
+      }
+
+      const token = await getSessionToken();
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': token ? `Bearer ${token}` : '',
+          },
+          body: JSON.stringify(body),
+        });
+      } catch {
+        await queueCount();
+        return;
+      }
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const lineError = json.error?.details?.lines?.[0]?.message;
+        throw new Error(lineError ? `${count.sku}: ${lineError}` : json.error?.message || `HTTP error: ${res.status}`);
+      }
+
+      const updated: StockTakeLine | undefined = json.data?.[0];
+      setMessage(updated
+        ? `${updated.product?.name ?? count.sku}: ${updated.counted_quantity} counted so far`
+        : `Counted ${count.quantity} × ${count.sku}`);
+      setSku('');
+      setQuantity('1');
+      if (updated) {
+        setLines(current => current.map(line => String(line.product_id) === String(updated.product_id)
+          ? { ...line, counted_quantity: updated.counted_quantity }
+          : line));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record count');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAction = async (action: 'approve' | 'cancel') => {
+    const prompt = action === 'approve'
+      ? 'Post the variance to stock? Products nobody counted are left as they are.'
+      : 'Cancel this stock take? Counts are kept for reference but stock is not changed.';
+    if (!window.confirm(prompt)) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const res = await fetch(`/api/stock-takes/${stockTake.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error?.message || `HTTP error: ${res.status}`);
+      setMessage(action === 'approve' ? 'Stock take approved and adjustments posted.' : 'Stock take cancelled.');
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to ${action} stock take`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counted = lines.filter(line => line.counted_quantity !== null).length;
+  const term = filter.trim().toLowerCase();
+  const visibleLines = term
+    ? lines.filter(line => line.product?.sku.toLowerCase().includes(term) || line.product?.name.toLowerCase().includes(term))
+    : lines;
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Stock take #{stockTake.id} · {stockTake.location?.name ?? 'Store'}
+            </h3>
+            <div className="text-sm text-gray-500">
+              {STATUS_LABELS[stockTake.status]} · started {new Date(stockTake.created_at).toLocaleString()}
+              {stockTake.category && ` · ${stockTake.category} only`}
+            </div>
+          </div>
+          <div className="text-right text-sm text-gray-700">
+            {loading ? '' : `${counted} of ${lines.length} products counted`}
+          </div>
+        </div>
+
+        {isOpen && (
+          <form onSubmit={handleCount} className="flex flex-wrap items-end gap-2 mt-4 border-t pt-4">
+            <div className="flex-1 min-w-[10rem]">
+              <label htmlFor="countSku" className="block text-xs text-gray-600">SKU</label>
+              <input
+                id="countSku"
+                autoFocus
+                value={sku}
+                onChange={(e) => setSku(e.target.value)}
+                placeholder="Scan or type a SKU"
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label htmlFor="countQuantity" className="block text-xs text-gray-600">Quantity</label>
+              <input
+                id="countQuantity"
+                type="number"
+                step={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+              />
+            </div>
+            <Button type="submit" disabled={saving || !sku.trim() || !parseInt(quantity, 10)}>
+              {saving ? 'Saving...' : 'Add count'}
+            </Button>
+            <p className="w-full text-xs text-gray-500">
+              Counts add up, so several people can count different shelves. Enter a negative quantity to correct a miscount.
+            </p>
+          </form>
+        )}
+        {message && <p className="text-sm text-green-700 mt-2">{message}</p>}
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+        <input
+          type="text"
+          aria-label="Filter products"
+          placeholder="Filter by SKU or name"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-full mt-4 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900"
+        />
+        {loading ? (
+          <p className="mt-4 text-gray-500">Loading products...</p>
+        ) : (
+          <div className="mt-3 max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm text-gray-700">
+              <thead className="bg-gray-50 text-left sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-medium">SKU</th>
+                  <th className="px-3 py-2 font-medium">Product</th>
+                  {isOwner && <th className="px-3 py-2 font-medium text-right">Expected</th>}
+                  <th className="px-3 py-2 font-medium text-right">Counted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {visibleLines.map(line => (
+                  <tr key={line.product_id}>
+                    <td className="px-3 py-2">{line.product?.sku}</td>
+                    <td className="px-3 py-2">{line.product?.name}</td>
+                    {isOwner && <td className="px-3 py-2 text-right">{line.expected_quantity}</td>}
+                    <td className="px-3 py-2 text-right">{line.counted_quantity ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-900">Variance</h3>
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={fetchReport}>{report ? 'Refresh report' : 'Show variance report'}</Button>
+              {isOpen && (
+                <>
+                  <Button onClick={() => handleAction('approve')} disabled={working || counted === 0}>Approve and post</Button>
+                  <Button variant="danger" onClick={() => handleAction('cancel')} disabled={working}>Cancel count</Button>
+                </>
+              )}
+            </div>
+          </div>
+          {report && <VarianceReportView report={report} />}
+        </div>
+      )}
+    </>
+  );
+}
+
+function VarianceReportView({ report }: { report: VarianceReport }) {
+  const { summary } = report;
+  const differences = report.lines.filter(line => line.status === 'short' || line.status === 'over');
+
+  return (
+    <div className="mt-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border rounded p-4">
+          <div className="text-sm text-gray-600">Shortage</div>
+          <div className="text-2xl font-bold text-red-600">${summary.shortage_value.toFixed(2)}</div>
+          <div className="text-xs text-gray-500 mt-1">{summary.shortage_units} units missing</div>
+        </div>
+        <div className="bg-white border rounded p-4">
+          <div className="text-sm text-gray-600">Surplus</div>
+          <div className="text-2xl font-bold text-gray-900">${summary.surplus_value.toFixed(2)}</div>
+          <div className="text-xs text-gray-500 mt-1">{summary.surplus_units} units found</div>
+        </div>
+        <div className="bg-white border rounded p-4">
+          <div className="text-sm text-gray-600">Net</div>
+          <div className={`text-2xl font-bold ${summary.net_value < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {summary.net_value < 0 ? '-' : ''}${Math.abs(summary.net_value).toFixed(2)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{summary.net_units} units at cost</div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {summary.counted} of {summary.products} products counted; {summary.with_variance} differ.
+        {summary.uncounted > 0 && ` ${summary.uncounted} not counted will be left unchanged.`}
+        {summary.unvalued > 0 && ` ${summary.unvalued} with a difference have no recorded cost.`}
+      </p>
+      {differences.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-sm text-gray-700">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">SKU</th>
+                <th className="px-3 py-2 font-medium">Product</th>
+                <th className="px-3 py-2 font-medium text-right">Expected</th>
+                <th className="px-3 py-2 font-medium text-right">Counted</th>
+                <th className="px-3 py-2 font-medium text-right">Variance</th>
+                <th className="px-3 py-2 font-medium text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {differences.map(line => (
+                <tr key={line.product_id}>
+                  <td className="px-3 py-2">{line.sku}</td>
+                  <td className="px-3 py-2">{line.name}</td>
+                  <td className="px-3 py-2 text-right">{line.expected}</td>
+                  <td className="px-3 py-2 text-right">{line.counted}</td>
+                  <td className={`px-3 py-2 text-right ${line.variance < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {line.variance > 0 ? `+${line.variance}` : line.variance}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {line.variance_value === null ? '—' : `${line.variance_value < 0 ? '-' : '+'}$${Math.abs(line.variance_value).toFixed(2)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
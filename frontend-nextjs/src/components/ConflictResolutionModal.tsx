@@ -27,6 +27,8 @@ interface ConflictResolutionModalProps {
   clientData: Product;
   onResolve: (resolution: 'keep-mine' | 'accept-remote' | 'merge-manual', mergedData?: Partial<Product>) => void;
   onPermissionResolve?: (keepOtherChanges: boolean) => void;
+  // Sends the rejected unit_price to the owner's approval queue
+  onSubmitPriceRequest?: () => void;
   isPermissionError?: boolean;
 }
 
@@ -37,6 +39,7 @@ export function ConflictResolutionModal({
   clientData, 
   onResolve,
   onPermissionResolve,
+  onSubmitPriceRequest,
   isPermissionError = false
 }: ConflictResolutionModalProps) {
   const [mergedData, setMergedData] = useState<Partial<Product>>({
@@ -163,9 +166,16 @@ export function ConflictResolutionModal({
 
         <div className="flex justify-end space-x-3">
           {isPermissionError ? (
-            <Button onClick={handleKeepOtherChanges}>
-              Keep Other Changes
-            </Button>
+            <>
+              {onSubmitPriceRequest && (
+                <Button variant="secondary" onClick={onSubmitPriceRequest}>
+                  Submit as price request
+                </Button>
+              )}
+              <Button onClick={handleKeepOtherChanges}>
+                Keep Other Changes
+              </Button>
+            </>
           ) : (
             <>
               <Button variant="secondary" onClick={handleKeepMine}>
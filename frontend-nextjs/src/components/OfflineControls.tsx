@@ -2,16 +2,20 @@
 
 import { useEffect, useState } from 'react';
 import { Button } from './ui/Button';
-import { getQueue, isSimulatedOffline, processQueue, setSimulatedOffline } from '../lib/offlineQueue';
+import { discardEdit, getQueue, isSimulatedOffline, processQueue, QueuedEdit, setSimulatedOffline } from '../lib/offlineQueue';
+
+const failedEdits = () => getQueue().filter(item => item.status === 'failed');
 
 export function OfflineControls() {
   const [offline, setOffline] = useState(isSimulatedOffline());
   const [queueLen, setQueueLen] = useState(getQueue().length);
+  const [failed, setFailed] = useState<QueuedEdit[]>(failedEdits());
 
   useEffect(() => {
     const id = setInterval(() => {
       setOffline(isSimulatedOffline());
       setQueueLen(getQueue().length);
+      setFailed(failedEdits());
     }, 500);
     return () => clearInterval(id);
   }, []);
@@ -25,16 +29,39 @@ export function OfflineControls() {
     processQueue();
   };
 
+  const dismiss = (id: string) => {
+    discardEdit(id);
+    setQueueLen(getQueue().length);
+    setFailed(failedEdits());
+  };
+
   return (
-    <div className="flex items-center gap-2 text-sm">
-      <Button variant="secondary" onClick={triggerOffline}>Simulate 10s Offline</Button>
-      <Button variant="secondary" onClick={trySync}>Sync Now</Button>
-      <span className={`px-2 py-1 rounded ${offline ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
-        {offline ? 'Offline (simulated)' : 'Online'}
-      </span>
-      <span className="text-gray-600">Queued: {queueLen}</span>
+    <div className="text-sm">
+      <div className="flex items-center gap-2">
+        <Button variant="secondary" onClick={triggerOffline}>Simulate 10s Offline</Button>
+        <Button variant="secondary" onClick={trySync}>Sync Now</Button>
+        <span className={`px-2 py-1 rounded ${offline ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+          {offline ? 'Offline (simulated)' : 'Online'}
+        </span>
+        <span className="text-gray-600">Queued: {queueLen}</span>
+      </div>
+      {failed.length > 0 && (
+        <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded">
+          <p className="font-medium text-red-800">
+            {failed.length === 1 ? '1 queued change was' : `${failed.length} queued changes were`} rejected and will not be retried:
+          </p>
+          <ul className="mt-1 space-y-1">
+            {failed.map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-2 text-red-700">
+                <span>
+                  {item.method} {item.url} ({new Date(item.createdAt).toLocaleString()}): {item.lastError}
+                </span>
+                <Button variant="secondary" onClick={() => dismiss(item.id)}>Dismiss</Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
-
-
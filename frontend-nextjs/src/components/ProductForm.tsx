@@ -15,7 +15,29 @@ interface Product {
   category: string;
   quantity: number;
   unit_price: number;
+  // Owner-only; null when unknown
+  cost_price?: number | null;
+  // GST details printed on invoices; null when not set
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  // EAN/UPC code printed on the pack
+  barcode?: string | null;
+  // Variants belong to a parent product and name their attribute values, e.g. { size: '500ml' }
+  parent_id?: string | null;
+  variant_values?: Record<string, string>;
   version: number;
+  // null falls back to the category default
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+  // When set, quantity is this store's stock rather than the chain total
+  location_id?: string;
+}
+
+interface ParentOption {
+  id: string;
+  sku: string;
+  name: string;
+  variant_attributes: string[];
 }
 
 interface ConflictData {
@@ -29,23 +51,55 @@ interface ConflictData {
 interface ProductFormProps {
   product: Product | null;
   onFinished: () => void;
+  locationId?: string;
+  // Prefills a new product with a barcode that was scanned but not found
+  initialBarcode?: string;
 }
 
-export function ProductForm({ product, onFinished }: ProductFormProps) {
+export function ProductForm({ product, onFinished, locationId, initialBarcode }: ProductFormProps) {
   const { user } = useAuth();
+  const isOwner = user?.role === 'owner';
   const [name, setName] = useState('');
   const [sku, setSku] = useState('');
   const [category, setCategory] = useState('');
   const [quantity, setQuantity] = useState(0);
   const [unitPrice, setUnitPrice] = useState(0);
+  const [costPrice, setCostPrice] = useState('');
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [reorderQuantity, setReorderQuantity] = useState('');
+  const [hsnCode, setHsnCode] = useState('');
+  const [gstRate, setGstRate] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [parents, setParents] = useState<ParentOption[]>([]);
+  const [parentId, setParentId] = useState('');
+  const [variantValues, setVariantValues] = useState<Record<string, string>>({});
   const [version, setVersion] = useState(1);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
   const [showConflictModal, setShowConflictModal] = useState(false);
   const [conflictData, setConflictData] = useState<ConflictData | null>(null);
   const [clientData, setClientData] = useState<Product | null>(null);
   const [isPermissionError, setIsPermissionError] = useState(false);
 
+  useEffect(() => {
+    const fetchParents = async () => {
+      try {
+        const token = await getSessionToken();
+        const response = await fetch('/api/parent-products', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setParents(data.data ?? []);
+        }
+      } catch {
+        // Offline: the parent list stays empty and the product is saved without one
+      }
+    };
+    fetchParents();
+  }, []);
+
   useEffect(() => {
     if (product) {
       setName(product.name);
@@ -53,6 +107,14 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
       setCategory(product.category);
       setQuantity(product.quantity);
       setUnitPrice(product.unit_price);
+      setCostPrice(product.cost_price?.toString() ?? '');
+      setReorderPoint(product.reorder_point?.toString() ?? '');
+      setReorderQuantity(product.reorder_quantity?.toString() ?? '');
+      setHsnCode(product.hsn_code ?? '');
+      setGstRate(product.gst_rate?.toString() ?? '');
+      setBarcode(product.barcode ?? '');
+      setParentId(product.parent_id ? String(product.parent_id) : '');
+      setVariantValues(product.variant_values ?? {});
       setVersion(product.version);
     } else {
       // Reset form for new product
@@ -61,9 +123,17 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
       setCategory('');
       setQuantity(0);
       setUnitPrice(0);
+      setCostPrice('');
+      setReorderPoint('');
+      setReorderQuantity('');
+      setHsnCode('');
+      setGstRate('');
+      setBarcode(initialBarcode ?? '');
+      setParentId('');
+      setVariantValues({});
       setVersion(1);
     }
-  }, [product]);
+  }, [product, initialBarcode]);
 
   const submitProduct = async (productData: Product, url: string, method: string) => {
     const token = await getSessionToken();
@@ -133,6 +203,7 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
     console.log('Form submitted');
     setLoading(true);
     setError('');
+    setNotice('');
 
     const productData: Product = {
       id: product?.id || '',
@@ -141,7 +212,16 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
       category,
       quantity,
       unit_price: unitPrice,
-      version
+      version,
+      reorder_point: reorderPoint === '' ? null : Number(reorderPoint),
+      reorder_quantity: reorderQuantity === '' ? null : Number(reorderQuantity),
+      hsn_code: hsnCode.trim() || null,
+      gst_rate: gstRate === '' ? null : Number(gstRate),
+      barcode: barcode.trim() || null,
+      parent_id: parentId || null,
+      variant_values: parentId ? variantValues : {},
+      ...(isOwner && { cost_price: costPrice === '' ? null : Number(costPrice) }),
+      ...(locationId && { location_id: locationId })
     };
     const url = product ? `/api/products/${product.id}` : '/api/products';
     const method = product ? 'PUT' : 'POST';
@@ -204,6 +284,9 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
             setCategory(currentProduct.category);
             setQuantity(currentProduct.quantity);
             setUnitPrice(currentProduct.unit_price);
+            setCostPrice(currentProduct.cost_price?.toString() ?? '');
+            setReorderPoint(currentProduct.reorder_point?.toString() ?? '');
+            setReorderQuantity(currentProduct.reorder_quantity?.toString() ?? '');
             setVersion(currentProduct.version);
           }
           setShowConflictModal(false);
@@ -248,6 +331,8 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
       setSku(clientData.sku);
       setCategory(clientData.category);
       setQuantity(clientData.quantity);
+      setReorderPoint(clientData.reorder_point?.toString() ?? '');
+      setReorderQuantity(clientData.reorder_quantity?.toString() ?? '');
       // Keep the original unit_price, don't change it
       setUnitPrice(product.unit_price);
     }
@@ -259,10 +344,47 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
     setIsPermissionError(false);
   };
 
+  const handleSubmitPriceRequest = async () => {
+    if (!product || !clientData) return;
+
+    setLoading(true);
+    try {
+      const token = await getSessionToken();
+      const response = await fetch('/api/price-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({
+          product_id: product.id,
+          requested_price: clientData.unit_price,
+          version: product.version
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
+      }
+
+      setNotice(`Price change to ${clientData.unit_price} sent to an owner for approval`);
+      // The rest of the edit is kept in the form, same as "Keep Other Changes"
+      await handlePermissionResolution(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit price request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedParent = parents.find(parent => String(parent.id) === parentId);
+
   return (
     <>
       <form onSubmit={handleSubmit} className="space-y-4">
         {error && <p className="text-red-500">{error}</p>}
+        {notice && <p className="text-green-600">{notice}</p>}
         <div>
           <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
           <input type="text" id="name" value={name} onChange={(e) => setName(e.target.value)} required className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
@@ -271,6 +393,46 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
           <label htmlFor="sku" className="block text-sm font-medium text-gray-700">SKU</label>
           <input type="text" id="sku" value={sku} onChange={(e) => setSku(e.target.value)} required className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
         </div>
+        <div>
+          <label htmlFor="barcode" className="block text-sm font-medium text-gray-700">Barcode</label>
+          <input type="text" id="barcode" inputMode="numeric" pattern="[0-9]{8}|[0-9]{12,14}" maxLength={14} value={barcode} onChange={(e) => setBarcode(e.target.value)} placeholder="EAN/UPC, optional" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+        </div>
+        {parents.length > 0 && (
+          <div>
+            <label htmlFor="parentId" className="block text-sm font-medium text-gray-700">Variant of</label>
+            <select
+              id="parentId"
+              value={parentId}
+              onChange={(e) => {
+                setParentId(e.target.value);
+                setVariantValues({});
+              }}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Standalone product</option>
+              {parents.map(parent => (
+                <option key={parent.id} value={String(parent.id)}>{parent.name} ({parent.sku})</option>
+              ))}
+            </select>
+            {selectedParent && selectedParent.variant_attributes.length > 0 && (
+              <div className="grid grid-cols-2 gap-4 mt-2">
+                {selectedParent.variant_attributes.map(attribute => (
+                  <div key={attribute}>
+                    <label htmlFor={`variant-${attribute}`} className="block text-xs font-medium text-gray-600 capitalize">{attribute}</label>
+                    <input
+                      type="text"
+                      id={`variant-${attribute}`}
+                      maxLength={60}
+                      value={variantValues[attribute] ?? ''}
+                      onChange={(e) => setVariantValues(prev => ({ ...prev, [attribute]: e.target.value }))}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <div>
           <label htmlFor="category" className="block text-sm font-medium text-gray-700">Category</label>
           <input type="text" id="category" value={category} onChange={(e) => setCategory(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
@@ -292,6 +454,32 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
           />
         </div>
+        {isOwner && (
+          <div>
+            <label htmlFor="costPrice" className="block text-sm font-medium text-gray-700">Cost price</label>
+            <input type="number" id="costPrice" min={0} step="0.01" value={costPrice} onChange={(e) => setCostPrice(e.target.value)} placeholder="Unknown" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="reorderPoint" className="block text-sm font-medium text-gray-700">Reorder point</label>
+            <input type="number" id="reorderPoint" min={0} step={1} value={reorderPoint} onChange={(e) => setReorderPoint(e.target.value)} placeholder="Category default" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+          </div>
+          <div>
+            <label htmlFor="reorderQuantity" className="block text-sm font-medium text-gray-700">Reorder qty</label>
+            <input type="number" id="reorderQuantity" min={1} step={1} value={reorderQuantity} onChange={(e) => setReorderQuantity(e.target.value)} placeholder="Optional" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="hsnCode" className="block text-sm font-medium text-gray-700">HSN code</label>
+            <input type="text" id="hsnCode" inputMode="numeric" pattern="[0-9]{4}([0-9]{2}){0,2}" maxLength={8} value={hsnCode} onChange={(e) => setHsnCode(e.target.value)} placeholder="4, 6 or 8 digits" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+          </div>
+          <div>
+            <label htmlFor="gstRate" className="block text-sm font-medium text-gray-700">GST rate (%)</label>
+            <input type="number" id="gstRate" min={0} max={100} step="0.01" value={gstRate} onChange={(e) => setGstRate(e.target.value)} placeholder="Not set" className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm" />
+          </div>
+        </div>
         <div className="flex justify-end">
           <Button type="submit" disabled={loading}>{loading ? 'Saving...' : 'Save'}</Button>
         </div>
@@ -310,6 +498,7 @@ export function ProductForm({ product, onFinished }: ProductFormProps) {
           clientData={clientData}
           onResolve={handleConflictResolution}
           onPermissionResolve={handlePermissionResolution}
+          onSubmitPriceRequest={handleSubmitPriceRequest}
           isPermissionError={isPermissionError}
         />
       )}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Forwards /api/* requests to the Express backend, keeping path, query string and auth header
+export async function proxyToBackend(req: NextRequest) {
+    const { pathname, search } = new URL(req.url);
+    const path = pathname.replace('/api', '');
+    const backendBaseUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000';
+    const url = `${backendBaseUrl}/api${path}${search}`;
+
+    try {
+        // Get the request body for non-GET requests
+        let body = null;
+        if (req.method !== 'GET' && req.method !== 'DELETE') {
+            body = await req.text();
+        }
+
+        const response = await fetch(url, {
+            method: req.method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': req.headers.get('Authorization') || '',
+                ...(req.headers.get('X-Change-Source') && { 'X-Change-Source': req.headers.get('X-Change-Source') as string }),
+            },
+            body: body,
+        });
+
+        // Files (e.g. invoice PDFs) are passed through unchanged
+        const contentType = response.headers.get('Content-Type') || '';
+        if (!contentType.includes('application/json')) {
+            const disposition = response.headers.get('Content-Disposition');
+            const unrendered = response.headers.get('X-Pdf-Unrendered-Text');
+            return new NextResponse(await response.arrayBuffer(), {
+                status: response.status,
+                headers: {
+                    'Content-Type': contentType,
+                    ...(disposition && { 'Content-Disposition': disposition }),
+                    ...(unrendered && { 'X-Pdf-Unrendered-Text': unrendered }),
+                },
+            });
+        }
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('API proxy error:', error);
+        return NextResponse.json({ 
+            success: false, 
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
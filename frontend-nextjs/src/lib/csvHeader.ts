@@ -0,0 +1,34 @@
+// Reads the header row of a CSV file so its columns can be mapped before uploading.
+// Quoted names may contain commas, doubled quotes and line breaks, as in the backend parser.
+export async function readCsvHeader(file: File): Promise<string[]> {
+  const text = (await file.slice(0, 64 * 1024).text()).replace(/^\uFEFF/, '').replace(/^[\r\n]+/, '');
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map(name => name.trim());
+}
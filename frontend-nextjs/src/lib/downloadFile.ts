@@ -0,0 +1,47 @@
+import { getSessionToken } from './supabaseClient';
+
+// Text a PDF printed as '?' because its fonts have no such characters (sent by the backend)
+function unrenderedText(res: Response): string[] {
+  const header = res.headers.get('X-Pdf-Unrendered-Text');
+  if (!header) return [];
+  try {
+    const text = JSON.parse(decodeURIComponent(header));
+    return Array.isArray(text) ? text.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Warning to show after a download whose PDF could not print some names
+export function unrenderedTextWarning(text: string[]): string | null {
+  if (text.length === 0) return null;
+  return `The PDF cannot show some characters and printed them as "?": ${text.map(t => `"${t}"`).join(', ')}`;
+}
+
+// Fetches an authenticated file (e.g. an invoice PDF) and saves it under the given name.
+// Files rendered from a request body (e.g. shelf labels) are fetched with a JSON POST.
+// Returns the text a PDF could not show, if any.
+export async function downloadFile(url: string, filename: string, body?: unknown): Promise<string[]> {
+  const token = await getSessionToken();
+  const res = await fetch(url, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Authorization': token ? `Bearer ${token}` : '',
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error?.message || `HTTP error: ${res.status}`);
+  }
+
+  const blobUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(blobUrl);
+
+  return unrenderedText(res);
+}
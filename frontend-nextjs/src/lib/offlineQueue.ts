@@ -7,7 +7,8 @@ export type QueuedEdit = {
   url: string;
   method: 'POST' | 'PUT' | 'DELETE';
   body: unknown;
-  status: 'queued' | 'syncing' | 'synced' | 'error';
+  // 'error' is retried with backoff; 'failed' was rejected by the server and needs attention
+  status: 'queued' | 'syncing' | 'synced' | 'error' | 'failed';
   attempts: number;
   lastError?: string;
   createdAt: number;
@@ -41,6 +42,12 @@ export function getQueue(): QueuedEdit[] {
   return inMemoryQueue.slice();
 }
 
+// Drops an edit the server rejected once the user has seen why
+export function discardEdit(id: string) {
+  inMemoryQueue = inMemoryQueue.filter(item => item.id !== id);
+  persistQueue();
+}
+
 export function isSimulatedOffline(): boolean {
   if (typeof window === 'undefined') return false;
   const until = Number(window.localStorage.getItem(OFFLINE_UNTIL_KEY) || '0');
@@ -77,6 +84,12 @@ function updateItem(id: string, partial: Partial<QueuedEdit>) {
   }
 }
 
+// 4xx responses (validation, conflicts, stock shortages) will not change on retry; an expired
+// session, a timeout or rate limiting might
+function isPermanentFailure(status: number) {
+  return status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+}
+
 function backoffDelay(attempts: number) {
   const base = 750; // ms
   const max = 5000;
@@ -89,7 +102,7 @@ export async function processQueue() {
   try {
     loadQueue();
     for (const item of inMemoryQueue) {
-      if (item.status === 'synced') continue;
+      if (item.status === 'synced' || item.status === 'failed') continue;
       if (isSimulatedOffline()) break;
       await syncItem(item);
     }
@@ -107,6 +120,8 @@ async function syncItem(item: QueuedEdit) {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': token ? `Bearer ${token}` : '',
+        // Lets the product audit trail tell replayed offline edits apart from live ones
+        'X-Change-Source': 'offline_sync',
       },
       body: item.method === 'DELETE' ? undefined : JSON.stringify(item.body),
     });
@@ -114,7 +129,12 @@ async function syncItem(item: QueuedEdit) {
     const ok = res.ok;
     if (!ok) {
       const err = await safeJson(res);
-      throw new Error(err?.error?.message || `HTTP ${res.status}`);
+      const message = err?.error?.message || `HTTP ${res.status}`;
+      if (isPermanentFailure(res.status)) {
+        updateItem(item.id, { status: 'failed', attempts: item.attempts + 1, lastError: message });
+        return;
+      }
+      throw new Error(message);
     }
 
     // Success
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+
+// Keyboard-wedge scanners "type" a whole code within a few milliseconds and press Enter;
+// people don't type that fast, so slower keystrokes are treated as ordinary typing.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 8;
+
+interface ScannerOptions {
+  // Scans arriving while a text field has focus go to that field unless this is set
+  captureInInputs?: boolean;
+  enabled?: boolean;
+}
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Calls onScan with the digits of every barcode scanned anywhere on the page
+export function useBarcodeScanner(onScan: (code: string) => void, { captureInInputs = false, enabled = true }: ScannerOptions = {}) {
+  // Latest callback without re-registering the listener on every render
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!captureInInputs && isEditable(e.target)) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (/^[0-9]$/.test(e.key)) {
+        buffer += e.key;
+      } else if (e.key.length === 1) {
+        // Anything but digits is typing, not a scan
+        buffer = '';
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [captureInInputs, enabled]);
+}